@@ -3,9 +3,24 @@ import { initConfig } from './commands/config/init.js'
 import { showConfig } from './commands/config/show.js'
 import { addChain, listChains, removeChain } from './commands/config/chains.js'
 import { editChains } from './commands/config/edit.js'
-import { importWallet } from './commands/wallet/import.js'
+import { listTokens, addToken, removeToken } from './commands/config/tokens.js'
+import {
+  listHooks,
+  addHook,
+  removeHook,
+  testHooks,
+  type HookAddOptions,
+} from './commands/config/hooks.js'
+import { importWallet, type WalletImportOptions } from './commands/wallet/import.js'
 import { importLedgerWallet } from './commands/wallet/import-ledger.js'
-import { createWallet } from './commands/wallet/create.js'
+import {
+  importWatchOnlyWallet,
+  type WalletImportWatchOnlyOptions,
+} from './commands/wallet/import-watch-only.js'
+import { createWallet, type WalletCreateOptions } from './commands/wallet/create.js'
+import { exportWallet, type WalletExportOptions } from './commands/wallet/export.js'
+import { changeWalletPassword } from './commands/wallet/change-password.js'
+import { setWalletBackend, type WalletBackendOptions } from './commands/wallet/backend.js'
 import { listWallets } from './commands/wallet/list.js'
 import { useWallet } from './commands/wallet/use.js'
 import { removeWallet } from './commands/wallet/remove.js'
@@ -14,20 +29,53 @@ import { deploySafe } from './commands/account/deploy.js'
 import { openSafe } from './commands/account/open.js'
 import { listSafes } from './commands/account/list.js'
 import { showSafeInfo } from './commands/account/info.js'
+import { showBalances, type AccountBalancesOptions } from './commands/account/balances.js'
 import { addOwner } from './commands/account/add-owner.js'
 import { removeOwner } from './commands/account/remove-owner.js'
+import { swapOwner } from './commands/account/swap-owner.js'
+import { setOwners, type SetOwnersOptions } from './commands/account/set-owners.js'
 import { changeThreshold } from './commands/account/change-threshold.js'
-import { createTransaction } from './commands/tx/create.js'
-import { signTransaction } from './commands/tx/sign.js'
-import { executeTransaction } from './commands/tx/execute.js'
+import { enableModule } from './commands/account/enable-module.js'
+import { disableModule } from './commands/account/disable-module.js'
+import { setGuard } from './commands/account/set-guard.js'
+import { setFallbackHandler } from './commands/account/set-fallback-handler.js'
+import { upgradeSafe, type SafeUpgradeOptions } from './commands/account/upgrade.js'
+import { createTransaction, type TransactionCreateOptions } from './commands/tx/create.js'
+import { createBatchTransaction, type TransactionBatchOptions } from './commands/tx/batch.js'
+import { transferToken, type TransactionTransferOptions } from './commands/tx/transfer.js'
+import { transferNft, type TransactionTransferNftOptions } from './commands/tx/transfer-nft.js'
+import { signTransaction, type TransactionSignOptions } from './commands/tx/sign.js'
+import { executeTransaction, type TransactionExecuteOptions } from './commands/tx/execute.js'
+import { simulateTransaction } from './commands/tx/simulate.js'
+import { rejectTransaction } from './commands/tx/reject.js'
+import { showTransactionQueue } from './commands/tx/queue.js'
+import { watchTransactions, type TransactionWatchOptions } from './commands/tx/watch.js'
 import { listTransactions } from './commands/tx/list.js'
 import { showTransactionStatus } from './commands/tx/status.js'
 import { exportTransaction } from './commands/tx/export.js'
+import { showTransactionHistory, type TransactionHistoryOptions } from './commands/tx/history.js'
 import { importTransaction } from './commands/tx/import.js'
 import { pushTransaction } from './commands/tx/push.js'
 import { pullTransactions } from './commands/tx/pull.js'
 import { syncTransactions } from './commands/tx/sync.js'
+import { signMessage, type MessageSignOptions } from './commands/msg/sign.js'
+import { listMessages } from './commands/msg/list.js'
+import { showMessageStatus } from './commands/msg/status.js'
+import { pushMessage } from './commands/msg/push.js'
+import { pullMessages } from './commands/msg/pull.js'
+import { enableAllowanceModule } from './commands/allowance/enable.js'
+import { addAllowanceDelegate } from './commands/allowance/add-delegate.js'
+import { removeAllowanceDelegate } from './commands/allowance/remove-delegate.js'
+import { setAllowance, type AllowanceSetOptions } from './commands/allowance/set.js'
+import { listAllowances } from './commands/allowance/list.js'
+import {
+  transferWithAllowance,
+  type AllowanceTransferOptions,
+} from './commands/allowance/transfer.js'
 import { handleError } from './utils/errors.js'
+import { waitForCommandHooks } from './utils/command-helpers.js'
+import { dispatchTransactionHooks } from './utils/hooks.js'
+import { addTransactionEventListener } from './storage/transaction-store.js'
 import { setGlobalOptions, type GlobalOptions } from './types/global-options.js'
 import { getAISuggestionService } from './services/ai-suggestion-service.js'
 import { renderScreen } from './ui/render.js'
@@ -55,6 +103,12 @@ program
       noColor: opts.noColor,
     })
   })
+  .hook('postAction', async () => {
+    // Let lifecycle hooks started by the command finish before the process exits
+    await waitForCommandHooks()
+  })
+
+addTransactionEventListener(dispatchTransactionHooks)
 
 /**
  * Recursively extracts all commands from a Commander program/command.
@@ -200,16 +254,117 @@ chains
     }
   })
 
+// Config tokens commands
+const tokens = config
+  .command('tokens')
+  .description('Manage per-chain token lists used for balance reports')
+addUnknownCommandHandler(tokens, 'config tokens')
+
+tokens
+  .command('list [chain]')
+  .description('List configured tokens (chain ID or short name)')
+  .action(async (chain?: string) => {
+    try {
+      await listTokens(chain)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tokens
+  .command('add [chain] [address]')
+  .description("Add an ERC-20 token to a chain's token list")
+  .action(async (chain?: string, address?: string) => {
+    try {
+      await addToken(chain, address)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tokens
+  .command('remove [chain] [address]')
+  .description("Remove a token from a chain's token list")
+  .action(async (chain?: string, address?: string) => {
+    try {
+      await removeToken(chain, address)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+// Config hooks commands
+const hooks = config
+  .command('hooks')
+  .description('Manage shell and HTTP hooks run on transaction lifecycle events')
+addUnknownCommandHandler(hooks, 'config hooks')
+
+hooks
+  .command('list')
+  .description('List configured hooks')
+  .action(async () => {
+    try {
+      await listHooks()
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+hooks
+  .command('add')
+  .description('Add a hook (events: created, signed, threshold-reached, executed, rejected)')
+  .option('--events <events>', 'Comma-separated events, e.g. "threshold-reached,executed"')
+  .option('--command <command>', 'Shell command (payload as JSON on stdin)')
+  .option('--url <url>', 'URL to POST the JSON payload to')
+  .option(
+    '--header <header>',
+    'HTTP header as "Name: value" (repeatable)',
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .action(async (options: HookAddOptions) => {
+    try {
+      await addHook(options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+hooks
+  .command('remove [number]')
+  .description('Remove a hook by its number in "config hooks list"')
+  .action(async (number?: string) => {
+    try {
+      await removeHook(number)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+hooks
+  .command('test [event]')
+  .description('Send a sample payload to the hooks of an event (default: created)')
+  .action(async (event?: string) => {
+    try {
+      await testHooks(event)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 // Wallet commands
 const wallet = program.command('wallet').description('Manage wallets and signers')
 addUnknownCommandHandler(wallet, 'wallet')
 
 wallet
   .command('import')
-  .description('Import a wallet using a private key')
+  .description('Import a wallet using a private key, seed phrase or keystore file')
   .option('--private-key <key>', 'Private key to import (use with caution)')
+  .option('--keystore <file>', 'Import a V3 keystore file (geth, foundry, MetaMask)')
+  .option('--mnemonic [phrase]', 'Import accounts of a BIP-39 seed phrase (prompted if omitted)')
+  .option('--derivation-path <path>', "Account path for --mnemonic (e.g., m/44'/60'/0'/0/0)")
+  .option('--index <range>', 'Account index or range for --mnemonic (e.g., 0 or 0-9)')
   .option('--name <name>', 'Name for the wallet')
-  .action(async (options: { privateKey?: string; name?: string }) => {
+  .action(async (options: WalletImportOptions) => {
     try {
       await importWallet(options)
     } catch (error) {
@@ -228,12 +383,26 @@ wallet
     }
   })
 
+wallet
+  .command('import-watch-only [address]')
+  .description('Add an owner address that signs with an external wallet')
+  .option('--name <name>', 'Name for the wallet')
+  .action(async (address: string | undefined, options: WalletImportWatchOnlyOptions) => {
+    try {
+      await importWatchOnlyWallet(address, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 wallet
   .command('create')
-  .description('Create a new wallet with a generated private key')
+  .description('Create a new wallet with a generated private key or seed phrase')
   .option('--name <name>', 'Name for the wallet')
+  .option('--mnemonic', 'Generate a BIP-39 seed phrase instead of a private key')
+  .option('--words <count>', 'Seed phrase length: 12 or 24 (default: 12)')
   .option('--skip-backup-warning', 'Skip backup confirmation (use with caution)')
-  .action(async (options: { name?: string; skipBackupWarning?: boolean }) => {
+  .action(async (options: WalletCreateOptions) => {
     try {
       await createWallet(options)
     } catch (error) {
@@ -241,6 +410,47 @@ wallet
     }
   })
 
+wallet
+  .command('export')
+  .description('Export a wallet as a V3 keystore file')
+  .option('--keystore [file]', 'Write a V3 keystore (default: UTC--<date>--<address>)')
+  .option('--address <address>', 'Wallet address to export')
+  .option('--name <name>', 'Wallet name to export')
+  .action(async (options: WalletExportOptions) => {
+    try {
+      await exportWallet(options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+wallet
+  .command('change-password')
+  .description('Re-encrypt all wallet keys with a new password')
+  .action(async () => {
+    try {
+      await changeWalletPassword()
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+wallet
+  .command('backend [type]')
+  .description(
+    'Show or change where wallet keys are stored (file, libsecret, pass, gopass, command)'
+  )
+  .option('--get <command>', 'Command printing the secret for {key} (command backend)')
+  .option('--set <command>', 'Command storing the secret for {key} from stdin (command backend)')
+  .option('--delete <command>', 'Command removing the secret for {key} (command backend)')
+  .action(async (type: string | undefined, options: WalletBackendOptions) => {
+    try {
+      await setWalletBackend(type, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 wallet
   .command('list')
   .description('List all imported wallets')
@@ -355,6 +565,20 @@ account
     }
   })
 
+account
+  .command('balances [account]')
+  .description('Show native and ERC-20 balances of a Safe (EIP-3770 format: shortName:address)')
+  .option('--all', 'Report balances of all deployed Safes')
+  .option('--from-block <block>', 'Also discover tokens from Transfer logs starting at this block')
+  .option('--to-block <block>', 'Last block to scan for Transfer logs (defaults to latest)')
+  .action(async (account?: string, options?: AccountBalancesOptions) => {
+    try {
+      await showBalances(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 account
   .command('add-owner [account] [ownerAddress]')
   .description('Add a new owner to a Safe (EIP-3770 format: shortName:address)')
@@ -379,6 +603,30 @@ account
     }
   })
 
+account
+  .command('swap-owner [account] [oldOwner] [newOwner]')
+  .description('Replace an owner of a Safe in one transaction (EIP-3770 format: shortName:address)')
+  .action(async (account?: string, oldOwner?: string, newOwner?: string) => {
+    try {
+      await swapOwner(account, oldOwner, newOwner)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+account
+  .command('set-owners [account]')
+  .description('Set the full owner list and threshold of a Safe in one batched transaction')
+  .option('--owners <addresses>', 'Comma-separated owner addresses or JSON array')
+  .option('--threshold <number>', 'New threshold value')
+  .action(async (account?: string, options?: SetOwnersOptions) => {
+    try {
+      await setOwners(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 account
   .command('change-threshold [account]')
   .description('Change the signature threshold of a Safe (EIP-3770 format: shortName:address)')
@@ -391,15 +639,120 @@ account
     }
   })
 
+account
+  .command('enable-module [account] [moduleAddress]')
+  .description('Enable a module on a Safe (EIP-3770 format: shortName:address)')
+  .action(async (account?: string, moduleAddress?: string) => {
+    try {
+      await enableModule(account, moduleAddress)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+account
+  .command('disable-module [account] [moduleAddress]')
+  .description('Disable a module on a Safe (EIP-3770 format: shortName:address)')
+  .action(async (account?: string, moduleAddress?: string) => {
+    try {
+      await disableModule(account, moduleAddress)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+account
+  .command('set-guard [account] [guardAddress]')
+  .description('Set or remove (zero address) the transaction guard of a Safe')
+  .action(async (account?: string, guardAddress?: string) => {
+    try {
+      await setGuard(account, guardAddress)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+account
+  .command('set-fallback-handler [account] [handlerAddress]')
+  .description('Set or remove (zero address) the fallback handler of a Safe')
+  .action(async (account?: string, handlerAddress?: string) => {
+    try {
+      await setFallbackHandler(account, handlerAddress)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+account
+  .command('upgrade [account]')
+  .description('Upgrade a Safe to a newer singleton version (EIP-3770 format: shortName:address)')
+  .option('--to <version>', 'Target Safe version', '1.4.1')
+  .action(async (account?: string, options?: SafeUpgradeOptions) => {
+    try {
+      await upgradeSafe(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 // Transaction commands
 const tx = program.command('tx').description('Manage Safe transactions')
 addUnknownCommandHandler(tx, 'tx')
 
-tx.command('create')
-  .description('Create a new transaction')
-  .action(async () => {
+tx.command('create [account]')
+  .description('Create a new transaction (EIP-3770 format: shortName:address)')
+  .option('--to <address>', 'Destination address (enables non-interactive creation)')
+  .option('--value <wei>', 'Value to send in wei')
+  .option('--data <hex>', 'Raw transaction data (hex)')
+  .option(
+    '--function <signature>',
+    'Function signature to encode, e.g. "transfer(address,uint256)"'
+  )
+  .option('--args <json>', 'JSON array of function arguments (use with --function)')
+  .option('--operation <type>', 'Operation type: 0/call or 1/delegatecall')
+  .option('--nonce <number>', 'Transaction nonce (defaults to current Safe nonce)')
+  .option('--replace <safeTxHash>', 'Replace a queued transaction by reusing its nonce')
+  .action(async (account?: string, options?: TransactionCreateOptions) => {
+    try {
+      await createTransaction(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('transfer [account]')
+  .description('Create a native or ERC-20 token transfer (EIP-3770 format: shortName:address)')
+  .option('--token <token>', 'Token address, known symbol (e.g. USDC), or "native"')
+  .option('--to <address>', 'Recipient address')
+  .option('--amount <amount>', 'Amount in token units (e.g. 12.5)')
+  .action(async (account?: string, options?: TransactionTransferOptions) => {
+    try {
+      await transferToken(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('transfer-nft [account]')
+  .description('Create an ERC-721 transfer (EIP-3770 format: shortName:address)')
+  .option('--collection <address>', 'NFT collection contract address')
+  .option('--token-id <id>', 'Token ID to transfer')
+  .option('--to <address>', 'Recipient address')
+  .action(async (account?: string, options?: TransactionTransferNftOptions) => {
+    try {
+      await transferNft(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('batch [account]')
+  .description('Create a MultiSend batch transaction (EIP-3770 format: shortName:address)')
+  .option('--file <path>', 'JSON file with calls (CLI format or Transaction Builder export)')
+  .option('--nonce <number>', 'Transaction nonce (defaults to current Safe nonce)')
+  .action(async (account?: string, options?: TransactionBatchOptions) => {
     try {
-      await createTransaction()
+      await createBatchTransaction(account, options)
     } catch (error) {
       handleError(error)
     }
@@ -407,9 +760,15 @@ tx.command('create')
 
 tx.command('sign [safeTxHash]')
   .description('Sign a pending transaction (use Safe TX Hash)')
-  .action(async (safeTxHash?: string) => {
+  .option('--skip-simulation', 'Skip the pre-flight simulation')
+  .option('--offline', 'Sign an exported transaction without RPC access (air-gapped signer)')
+  .option('--file <path>', 'Exported transaction JSON to sign (with --offline)')
+  .option('-o, --output <file>', 'Write the signature JSON to a file (with --offline)')
+  .option('--safe-version <version>', 'Safe version if not included in the export (with --offline)')
+  .option('--signature <hex>', 'Signature from an external wallet (watch-only wallets)')
+  .action(async (safeTxHash?: string, options?: TransactionSignOptions) => {
     try {
-      await signTransaction(safeTxHash)
+      await signTransaction(safeTxHash, options)
     } catch (error) {
       handleError(error)
     }
@@ -418,9 +777,35 @@ tx.command('sign [safeTxHash]')
 tx.command('execute [safeTxHash]')
   .alias('exec')
   .description('Execute a signed transaction (use Safe TX Hash)')
+  .option('--skip-simulation', 'Skip the pre-flight simulation')
+  .option(
+    '--via <method>',
+    'Execute with eoa (private key), ledger or relay (gasless, via a relayer). Defaults to the active wallet type'
+  )
+  .option('--relay-url <url>', 'Gelato-compatible relayer URL (with --via relay)')
+  .action(async (safeTxHash?: string, options?: TransactionExecuteOptions) => {
+    try {
+      await executeTransaction(safeTxHash, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('reject [safeTxHash]')
+  .description('Create an on-chain rejection (same-nonce self-call) for a pending transaction')
   .action(async (safeTxHash?: string) => {
     try {
-      await executeTransaction(safeTxHash)
+      await rejectTransaction(safeTxHash)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('simulate [safeTxHash]')
+  .description('Simulate a transaction and report success or the revert reason')
+  .action(async (safeTxHash?: string) => {
+    try {
+      await simulateTransaction(safeTxHash)
     } catch (error) {
       handleError(error)
     }
@@ -436,6 +821,29 @@ tx.command('list [account]')
     }
   })
 
+tx.command('queue [account]')
+  .description('Show queued transactions by nonce and flag gaps, duplicates and stale entries')
+  .action(async (account?: string) => {
+    try {
+      await showTransactionQueue(account)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+tx.command('watch [accounts...]')
+  .description('Follow queued transactions and run hooks on new or executable ones')
+  .option('--interval <seconds>', 'Seconds between polls (default: 30)')
+  .option('--on-new <command>', 'Shell command to run when a transaction is proposed')
+  .option('--on-executable <command>', 'Shell command to run when a transaction can be executed')
+  .action(async (accounts: string[], options: TransactionWatchOptions) => {
+    try {
+      await watchTransactions(accounts, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 tx.command('status [safeTxHash]')
   .description('Show transaction status and signature progress')
   .action(async (safeTxHash?: string) => {
@@ -457,6 +865,23 @@ tx.command('export [safeTxHash]')
     }
   })
 
+tx.command('history [account]')
+  .description('Export executed and local transactions of a Safe as CSV or JSON')
+  .option('--format <format>', 'Output format: csv or json', 'csv')
+  .option('-o, --output <file>', 'Write to file instead of stdout')
+  .option(
+    '--from-block <block>',
+    'First block to scan for execution events (no Transaction Service)'
+  )
+  .option('--to-block <block>', 'Last block to scan for execution events (default: latest)')
+  .action(async (account?: string, options?: TransactionHistoryOptions) => {
+    try {
+      await showTransactionHistory(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 tx.command('import [json]')
   .description('Import transaction from JSON string or file')
   .action(async (json?: string) => {
@@ -497,6 +922,147 @@ tx.command('sync [account]')
     }
   })
 
+// Message commands
+const msg = program.command('msg').description('Manage Safe off-chain messages (EIP-1271)')
+addUnknownCommandHandler(msg, 'msg')
+
+msg
+  .command('sign [account]')
+  .description('Sign a message as a Safe owner (EIP-3770 format)')
+  .option('--message <text>', 'Plain text message to sign (EIP-191)')
+  .option('--typed-data <file>', 'JSON file with EIP-712 typed data to sign')
+  .option('--hash <messageHash>', 'Add a signature to an existing message')
+  .action(async (account?: string, options?: MessageSignOptions) => {
+    try {
+      await signMessage(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+msg
+  .command('list [account]')
+  .description('List messages (optionally filtered by Safe in EIP-3770 format)')
+  .action(async (account?: string) => {
+    try {
+      await listMessages(account)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+msg
+  .command('status [messageHash]')
+  .description('Show message signatures and the combined Safe signature')
+  .action(async (messageHash?: string) => {
+    try {
+      await showMessageStatus(messageHash)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+msg
+  .command('push [messageHash]')
+  .description('Push message to Safe Transaction Service API')
+  .action(async (messageHash?: string) => {
+    try {
+      await pushMessage(messageHash)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+msg
+  .command('pull [account]')
+  .description('Pull messages from Safe Transaction Service API (EIP-3770 format)')
+  .action(async (account?: string) => {
+    try {
+      await pullMessages(account)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+// Allowance module commands
+const allowance = program
+  .command('allowance')
+  .description('Manage spending allowances via the Safe Allowance Module')
+addUnknownCommandHandler(allowance, 'allowance')
+
+allowance
+  .command('enable [account]')
+  .description('Enable the Allowance Module on a Safe (EIP-3770 format: shortName:address)')
+  .action(async (account?: string) => {
+    try {
+      await enableAllowanceModule(account)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+allowance
+  .command('add-delegate [account] [delegate]')
+  .description('Add a delegate that can receive allowances (EIP-3770 format: shortName:address)')
+  .action(async (account?: string, delegate?: string) => {
+    try {
+      await addAllowanceDelegate(account, delegate)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+allowance
+  .command('remove-delegate [account] [delegate]')
+  .description('Remove a delegate and all of its allowances (EIP-3770 format: shortName:address)')
+  .action(async (account?: string, delegate?: string) => {
+    try {
+      await removeAllowanceDelegate(account, delegate)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+allowance
+  .command('set [account]')
+  .description('Set a per-token allowance for a delegate, adding the delegate if needed')
+  .option('--delegate <address>', 'Delegate address')
+  .option('--token <address>', 'Token address, or "native" for the chain currency')
+  .option('--amount <amount>', 'Allowance amount in token units (e.g. 100.5)')
+  .option('--reset <period>', 'Reset period: 0 for one-time, or e.g. 30m, 12h, 1d, 1w')
+  .action(async (account?: string, options?: AllowanceSetOptions) => {
+    try {
+      await setAllowance(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+allowance
+  .command('list [account]')
+  .description('List delegates with their allowances and remaining amounts')
+  .action(async (account?: string) => {
+    try {
+      await listAllowances(account)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+allowance
+  .command('transfer [account]')
+  .description("Transfer from a Safe within the active wallet's allowance")
+  .option('--token <address>', 'Token address, or "native" for the chain currency')
+  .option('--to <address>', 'Recipient address')
+  .option('--amount <amount>', 'Amount in token units (e.g. 100.5)')
+  .action(async (account?: string, options?: AllowanceTransferOptions) => {
+    try {
+      await transferWithAllowance(account, options)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
 // Show welcome message if no command provided
 if (process.argv.length === 2) {
   // Migration: Phase 4 - Tier 1 command
@@ -0,0 +1,234 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { formatUnits, zeroAddress, type Address } from 'viem'
+import { TokenService } from '../../services/token-service.js'
+import type { ChainConfig } from '../../types/config.js'
+import { renderScreen } from '../../ui/render.js'
+import { AccountBalancesScreen } from '../../ui/screens/index.js'
+import type { AccountBalancesReport } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { KNOWN_TOKENS } from '../../constants/tokens.js'
+import { collectBalanceTokens, type TokenSource } from '../../utils/balance.js'
+import { selectDeployedSafe, parseAddressInput } from '../../utils/safe-helpers.js'
+
+export interface AccountBalancesOptions {
+  all?: boolean
+  fromBlock?: string
+  toBlock?: string
+}
+
+interface BalanceRow {
+  token: Address
+  symbol: string
+  decimals: number
+  balance: bigint
+  source: TokenSource | 'native'
+}
+
+/**
+ * Native and ERC-20 balances of one Safe. Configured tokens are always reported,
+ * other tokens only with a non-zero balance.
+ */
+async function fetchBalances(
+  chain: ChainConfig,
+  address: Address,
+  configTokens: Address[],
+  blockRange?: { fromBlock: bigint; toBlock?: bigint }
+): Promise<BalanceRow[]> {
+  const tokenService = new TokenService(chain)
+
+  const discovered = blockRange
+    ? await tokenService.discoverTokens(address, blockRange.fromBlock, blockRange.toBlock)
+    : []
+  const tokens = collectBalanceTokens({
+    config: configTokens,
+    known: Object.values(KNOWN_TOKENS[chain.chainId] ?? {}),
+    discovered,
+  })
+
+  const [nativeBalance, tokenBalances] = await Promise.all([
+    tokenService.getBalance(zeroAddress, address),
+    tokenService.getTokenBalances(
+      tokens.map(({ token }) => token),
+      address
+    ),
+  ])
+
+  const rows: BalanceRow[] = [
+    {
+      token: zeroAddress,
+      symbol: chain.currency,
+      decimals: 18,
+      balance: nativeBalance,
+      source: 'native',
+    },
+  ]
+  for (const { token, source } of tokens) {
+    const tokenBalance = tokenBalances.find((b) => b.token === token)
+    if (tokenBalance && (source === 'config' || tokenBalance.balance > 0n)) {
+      rows.push({ ...tokenBalance, source })
+    }
+  }
+
+  return rows
+}
+
+export async function showBalances(account?: string, options: AccountBalancesOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Safe Balances ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    // Optional Transfer log scan
+    let blockRange: { fromBlock: bigint; toBlock?: bigint } | undefined
+    if (options.fromBlock !== undefined || options.toBlock !== undefined) {
+      if (options.fromBlock === undefined) {
+        outputError('--to-block requires --from-block', ExitCode.INVALID_ARGS)
+      }
+      for (const value of [options.fromBlock, options.toBlock]) {
+        if (value !== undefined && !/^\d+$/.test(value)) {
+          outputError(`Invalid block number: ${value}`, ExitCode.INVALID_ARGS)
+        }
+      }
+      blockRange = {
+        fromBlock: BigInt(options.fromBlock),
+        toBlock: options.toBlock !== undefined ? BigInt(options.toBlock) : undefined,
+      }
+    }
+
+    // Get Safes
+    let targets: Array<{ chainId: string; address: Address; name?: string }>
+
+    if (options.all) {
+      if (account) {
+        outputError('Use either a Safe address or --all, not both', ExitCode.INVALID_ARGS)
+      }
+      targets = ctx.safeStorage
+        .getAllSafes()
+        .filter((safe) => safe.deployed)
+        .map((safe) => ({
+          chainId: safe.chainId,
+          address: safe.address as Address,
+          name: safe.name,
+        }))
+      if (targets.length === 0) {
+        outputError('No deployed Safes found', ExitCode.SAFE_NOT_FOUND)
+      }
+    } else if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      targets = [
+        {
+          ...parsed,
+          name: ctx.safeStorage.getSafe(parsed.chainId, parsed.address)?.name,
+        },
+      ]
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError(
+          'Safe address or --all is required in non-interactive mode',
+          ExitCode.INVALID_ARGS
+        )
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      targets = [
+        {
+          ...result,
+          name: ctx.safeStorage.getSafe(result.chainId, result.address)?.name,
+        },
+      ]
+    }
+
+    // A failing Safe does not stop a multi-Safe report
+    const reports: Array<{
+      target: (typeof targets)[number]
+      chain?: ChainConfig
+      rows?: BalanceRow[]
+      error?: string
+    }> = []
+
+    for (const target of targets) {
+      const chain = ctx.configStore.getChain(target.chainId)
+      if (!chain) {
+        reports.push({ target, error: `Chain ${target.chainId} is not configured` })
+        continue
+      }
+
+      const spinner = !isNonInteractiveMode() ? p.spinner() : null
+      spinner?.start(`Fetching balances of ${target.name ?? target.address} on ${chain.name}...`)
+
+      try {
+        const rows = await fetchBalances(
+          chain,
+          target.address,
+          ctx.configStore.getTokens(chain.chainId),
+          blockRange
+        )
+        reports.push({ target, chain, rows })
+        spinner?.stop('Balances fetched')
+      } catch (error) {
+        spinner?.stop('Failed to fetch balances')
+        reports.push({
+          target,
+          chain,
+          error: error instanceof Error ? error.message : 'Failed to fetch balances',
+        })
+      }
+    }
+
+    if (targets.length === 1 && reports[0].error) {
+      outputError(reports[0].error, ExitCode.NETWORK_ERROR)
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Balances retrieved', {
+        safes: reports.map(({ target, chain, rows, error }) => ({
+          name: target.name,
+          safeAddress: target.address,
+          chainId: target.chainId,
+          chainName: chain?.name,
+          balances: rows?.map((row) => ({
+            token: row.source === 'native' ? null : row.token,
+            symbol: row.symbol,
+            decimals: row.decimals,
+            balance: row.balance.toString(),
+            formatted: formatUnits(row.balance, row.decimals),
+            source: row.source,
+          })),
+          error,
+        })),
+      })
+      return
+    }
+
+    await renderScreen(AccountBalancesScreen, {
+      reports: reports.map(
+        ({ target, chain, rows, error }): AccountBalancesReport => ({
+          name: target.name,
+          safeAddress: target.address,
+          chainId: target.chainId,
+          chainName: chain?.name ?? target.chainId,
+          balances: (rows ?? []).map((row) => ({
+            symbol: row.symbol,
+            token: row.source === 'native' ? undefined : row.token,
+            balance: formatUnits(row.balance, row.decimals),
+            source: row.source,
+          })),
+          error,
+        })
+      ),
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
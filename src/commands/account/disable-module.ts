@@ -0,0 +1,194 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { ModuleChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { getKnownModuleName } from '../../constants/modules.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export async function disableModule(account?: string, moduleAddress?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Disable Safe Module ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    let modules: Address[]
+    try {
+      ;[owners, threshold, modules] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        txService.getModules(safe.address as Address),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (modules.length === 0) {
+      outputError('Safe has no enabled modules', ExitCode.ERROR)
+    }
+
+    // Get module to disable
+    let module: Address
+
+    if (moduleAddress) {
+      try {
+        module = ctx.validator.assertAddressWithChain(
+          moduleAddress,
+          chainId,
+          ctx.chains,
+          'Module address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+
+      if (!modules.some((m) => m.toLowerCase() === module.toLowerCase())) {
+        outputError('Module is not enabled on this Safe', ExitCode.INVALID_ARGS)
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Module address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const selected = await p.select({
+        message: 'Select module to disable:',
+        options: modules.map((m) => ({
+          value: m,
+          label: m,
+          hint: getKnownModuleName(m) || 'Unknown module',
+        })),
+      })
+
+      if (!checkCancelled(selected)) return
+
+      module = selected as Address
+    }
+
+    if (!isNonInteractiveMode()) {
+      const moduleName = getKnownModuleName(module)
+
+      console.log('')
+      console.log(pc.bold('Disable Module Summary:'))
+      console.log(`  ${pc.dim('Safe:')}    ${safe.name}`)
+      console.log(`  ${pc.dim('Module:')}  ${module}${moduleName ? ` (${moduleName})` : ''}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to disable this module?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating disable module transaction...')
+
+    // The service resolves prevModule from the on-chain module list
+    const safeTransaction = await txService.createDisableModuleTransaction(
+      safe.address as Address,
+      module
+    )
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Disable module transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        module,
+      })
+    } else {
+      await renderScreen(ModuleChangeSuccessScreen, {
+        action: 'disable' as const,
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        moduleAddress: module,
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
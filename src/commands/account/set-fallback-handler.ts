@@ -0,0 +1,233 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { zeroAddress, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { SafeService } from '../../services/safe-service.js'
+import { ContractService } from '../../services/contract-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  confirmDangerousAction,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+/**
+ * Creates a transaction that sets (or, with the zero address, removes) the Safe's
+ * fallback handler. The handler answers every call the Safe itself does not implement,
+ * including EIP-1271 signature checks and token receiver callbacks.
+ */
+export async function setFallbackHandler(account?: string, handlerAddress?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Set Fallback Handler ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before setting a fallback handler', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Get handler address
+    let handler: Address
+
+    if (handlerAddress) {
+      try {
+        handler = ctx.validator.assertAddressWithChain(
+          handlerAddress,
+          chainId,
+          ctx.chains,
+          'Fallback handler address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError(
+          'Fallback handler address is required in non-interactive mode',
+          ExitCode.INVALID_ARGS
+        )
+      }
+
+      const handlerInput = await p.text({
+        message: `Fallback handler address (${zeroAddress} removes the handler):`,
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+
+      if (!checkCancelled(handlerInput)) return
+
+      handler = ctx.validator.assertAddressWithChain(
+        handlerInput as string,
+        chainId,
+        ctx.chains,
+        'Fallback handler address'
+      )
+    }
+
+    const removing = handler.toLowerCase() === zeroAddress
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    let currentHandler: Address | null
+    let handlerIsContract: boolean
+    try {
+      ;[owners, threshold, currentHandler, handlerIsContract] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        new SafeService(chain).getFallbackHandler(safe.address as Address),
+        removing ? Promise.resolve(true) : new ContractService(chain).isContract(handler),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (!handlerIsContract) {
+      outputError(
+        `Fallback handler ${handler} is not a contract on ${chain.name}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (removing && !currentHandler) {
+      outputError('Safe has no fallback handler to remove', ExitCode.INVALID_ARGS)
+    }
+
+    if (currentHandler && currentHandler.toLowerCase() === handler.toLowerCase()) {
+      outputError('Fallback handler is already set', ExitCode.INVALID_ARGS)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(
+        pc.bold(removing ? 'Remove Fallback Handler Summary:' : 'Set Fallback Handler Summary:')
+      )
+      console.log(`  ${pc.dim('Safe:')}             ${safe.name}`)
+      console.log(`  ${pc.dim('Current Handler:')}  ${currentHandler || 'None'}`)
+      console.log(`  ${pc.dim('New Handler:')}      ${removing ? 'None' : handler}`)
+      console.log('')
+
+      const confirmed = await confirmDangerousAction(
+        removing
+          ? 'Without a fallback handler the Safe can no longer validate EIP-1271 signatures ' +
+              'or receive ERC-721/ERC-1155 tokens sent with safeTransferFrom. ' +
+              'Integrations relying on these callbacks will stop working.'
+          : 'The fallback handler answers every call the Safe does not implement itself, ' +
+              'including EIP-1271 signature validation. A malicious or broken handler can ' +
+              'approve signatures on behalf of the Safe or break token receiving. ' +
+              'Only set handlers that are audited and compatible with this Safe version.'
+      )
+      if (!confirmed) return
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating set fallback handler transaction...')
+
+    const safeTransaction = await txService.createSetFallbackHandlerTransaction(
+      safe.address as Address,
+      handler
+    )
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess(
+        removing
+          ? 'Remove fallback handler transaction created'
+          : 'Set fallback handler transaction created',
+        {
+          safeTxHash: safeTransaction.safeTxHash,
+          safeAddress: safe.address,
+          chainId: safe.chainId,
+          chainName: chain.name,
+          previousFallbackHandler: currentHandler,
+          fallbackHandler: removing ? null : handler,
+        }
+      )
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: removing
+          ? 'Remove Fallback Handler Transaction Created'
+          : 'Set Fallback Handler Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Previous Handler', value: currentHandler || 'None' },
+          { key: 'New Handler', value: removing ? 'None' : handler },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,230 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { zeroAddress, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { SafeService } from '../../services/safe-service.js'
+import { ContractService } from '../../services/contract-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  confirmDangerousAction,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+/**
+ * Creates a transaction that sets (or, with the zero address, removes) the Safe's
+ * transaction guard. A guard that reverts checkTransaction blocks every future
+ * transaction, including the one that would remove it.
+ */
+export async function setGuard(account?: string, guardAddress?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Set Safe Guard ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before setting a guard', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Get guard address
+    let guard: Address
+
+    if (guardAddress) {
+      try {
+        guard = ctx.validator.assertAddressWithChain(
+          guardAddress,
+          chainId,
+          ctx.chains,
+          'Guard address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Guard address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const guardInput = await p.text({
+        message: `Guard address (${zeroAddress} removes the guard):`,
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+
+      if (!checkCancelled(guardInput)) return
+
+      guard = ctx.validator.assertAddressWithChain(
+        guardInput as string,
+        chainId,
+        ctx.chains,
+        'Guard address'
+      )
+    }
+
+    const removing = guard.toLowerCase() === zeroAddress
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    let currentGuard: Address | null
+    let guardIsContract: boolean
+    try {
+      ;[owners, threshold, currentGuard, guardIsContract] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        new SafeService(chain).getGuard(safe.address as Address),
+        removing ? Promise.resolve(true) : new ContractService(chain).isContract(guard),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (!guardIsContract) {
+      outputError(`Guard ${guard} is not a contract on ${chain.name}`, ExitCode.INVALID_ARGS)
+    }
+
+    if (removing && !currentGuard) {
+      outputError('Safe has no guard to remove', ExitCode.INVALID_ARGS)
+    }
+
+    if (currentGuard && currentGuard.toLowerCase() === guard.toLowerCase()) {
+      outputError('Guard is already set', ExitCode.INVALID_ARGS)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold(removing ? 'Remove Guard Summary:' : 'Set Guard Summary:'))
+      console.log(`  ${pc.dim('Safe:')}           ${safe.name}`)
+      console.log(`  ${pc.dim('Current Guard:')}  ${currentGuard || 'None'}`)
+      console.log(`  ${pc.dim('New Guard:')}      ${removing ? 'None' : guard}`)
+      console.log('')
+
+      if (removing) {
+        const confirm = await p.confirm({
+          message: 'Create transaction to remove the guard?',
+          initialValue: true,
+        })
+
+        if (!checkCancelled(confirm)) return
+        if (!confirm) {
+          p.cancel('Operation cancelled')
+          return
+        }
+      } else {
+        const confirmed = await confirmDangerousAction(
+          'A guard checks every transaction of this Safe. If the guard reverts - because of ' +
+            'a bug, a wrong address or an incompatible contract - the Safe can no longer ' +
+            'execute ANY transaction, including one that removes the guard. ' +
+            'Only set guards that are audited and tested with this Safe.'
+        )
+        if (!confirmed) return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating set guard transaction...')
+
+    const safeTransaction = await txService.createSetGuardTransaction(
+      safe.address as Address,
+      guard
+    )
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess(
+        removing ? 'Remove guard transaction created' : 'Set guard transaction created',
+        {
+          safeTxHash: safeTransaction.safeTxHash,
+          safeAddress: safe.address,
+          chainId: safe.chainId,
+          chainName: chain.name,
+          previousGuard: currentGuard,
+          guard: removing ? null : guard,
+        }
+      )
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: removing ? 'Remove Guard Transaction Created' : 'Set Guard Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Previous Guard', value: currentGuard || 'None' },
+          { key: 'New Guard', value: removing ? 'None' : guard },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,256 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { parseOwnersArgument } from '../../utils/argument-parser.js'
+import {
+  describeOwnerChange,
+  planOwnerChanges,
+  toOwnerChangeCalls,
+  type OwnerChange,
+} from '../../utils/owner-changes.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export interface SetOwnersOptions {
+  owners?: string
+  threshold?: string
+}
+
+export async function setOwners(account?: string, options: SetOwnersOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Set Safe Owners ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before changing owners', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    try {
+      ;[owners, threshold] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    // Get target owners
+    let ownersInput: string
+
+    if (options.owners) {
+      ownersInput = options.owners
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('--owners is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const input = await p.text({
+        message: 'New owner set (comma-separated addresses):',
+        initialValue: owners.join(','),
+        validate: (value) => {
+          if (!value) return 'At least one owner is required'
+          try {
+            parseOwnersArgument(value)
+            return undefined
+          } catch (error) {
+            return error instanceof Error ? error.message : 'Invalid owners'
+          }
+        },
+      })
+
+      if (!checkCancelled(input)) return
+
+      ownersInput = input as string
+    }
+
+    let targetOwners: Address[]
+    try {
+      targetOwners = parseOwnersArgument(ownersInput).map((owner) =>
+        ctx.validator.assertAddressWithChain(owner, chainId, ctx.chains, 'Owner address')
+      )
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Invalid owners argument',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (targetOwners.some((owner) => owner.toLowerCase() === safe.address.toLowerCase())) {
+      outputError('A Safe cannot be its own owner', ExitCode.INVALID_ARGS)
+    }
+
+    // Get target threshold
+    let targetThreshold: number
+
+    if (options.threshold) {
+      targetThreshold = parseInt(options.threshold, 10)
+      if (isNaN(targetThreshold) || targetThreshold < 1 || targetThreshold > targetOwners.length) {
+        outputError(`Threshold must be between 1 and ${targetOwners.length}`, ExitCode.INVALID_ARGS)
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('--threshold is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const suggestedThreshold = Math.min(threshold, targetOwners.length)
+      const thresholdInput = await p.text({
+        message: `New threshold (current: ${threshold}, max: ${targetOwners.length}):`,
+        initialValue: `${suggestedThreshold}`,
+        validate: (value) => ctx.validator.validateThreshold(value, 1, targetOwners.length),
+      })
+
+      if (!checkCancelled(thresholdInput)) return
+
+      targetThreshold = parseInt(thresholdInput as string, 10)
+    }
+
+    let changes: OwnerChange[]
+    try {
+      changes = planOwnerChanges(owners, threshold, targetOwners, targetThreshold)
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Invalid owner set',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (changes.length === 0) {
+      outputError('Owners and threshold are already up to date', ExitCode.INVALID_ARGS)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Set Owners Summary:'))
+      console.log(`  ${pc.dim('Safe:')}       ${safe.name}`)
+      console.log(`  ${pc.dim('Owners:')}     ${owners.length} → ${targetOwners.length}`)
+      console.log(`  ${pc.dim('Threshold:')}  ${threshold} → ${targetThreshold}`)
+      console.log('')
+      console.log(pc.bold(`Calls (${changes.length}, executed atomically):`))
+      changes.forEach((change, i) => {
+        console.log(`  ${i + 1}. ${describeOwnerChange(change)}`)
+      })
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to apply these owner changes?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating set owners transaction...')
+
+    // Several calls are batched through MultiSendCallOnly so the rotation is atomic
+    const calls = toOwnerChangeCalls(safe.address as Address, changes)
+    const safeTransaction = await txService.createBatchTransaction(safe.address as Address, calls)
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address,
+      calls.length > 1 ? calls : undefined
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Set owners transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        owners: targetOwners,
+        threshold: targetThreshold,
+        changes,
+      })
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: 'Set Owners Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Owners', value: targetOwners.join(', ') },
+          { key: 'New Threshold', value: `${targetThreshold} / ${targetOwners.length}` },
+          { key: 'Calls', value: `${changes.length}` },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,247 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export async function swapOwner(
+  account?: string,
+  oldOwnerAddress?: string,
+  newOwnerAddress?: string
+) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Swap Safe Owner ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before swapping owners', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    try {
+      ;[owners, threshold] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    const isOwner = (owner: Address) => owners.some((o) => o.toLowerCase() === owner.toLowerCase())
+
+    // Get owner to replace
+    let oldOwner: Address
+
+    if (oldOwnerAddress) {
+      try {
+        oldOwner = ctx.validator.assertAddressWithChain(
+          oldOwnerAddress,
+          chainId,
+          ctx.chains,
+          'Old owner address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+
+      if (!isOwner(oldOwner)) {
+        outputError('Address is not an owner of this Safe', ExitCode.INVALID_ARGS)
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Old owner address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const selected = await p.select({
+        message: 'Select owner to replace:',
+        options: owners.map((owner) => ({
+          value: owner,
+          label: owner,
+        })),
+      })
+
+      if (!checkCancelled(selected)) return
+
+      oldOwner = selected as Address
+    }
+
+    // Get replacement owner
+    let newOwner: Address
+
+    if (newOwnerAddress) {
+      try {
+        newOwner = ctx.validator.assertAddressWithChain(
+          newOwnerAddress,
+          chainId,
+          ctx.chains,
+          'New owner address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('New owner address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const newOwnerInput = await p.text({
+        message: 'New owner address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+
+      if (!checkCancelled(newOwnerInput)) return
+
+      newOwner = ctx.validator.assertAddressWithChain(
+        newOwnerInput as string,
+        chainId,
+        ctx.chains,
+        'New owner address'
+      )
+    }
+
+    if (isOwner(newOwner)) {
+      outputError('New owner is already an owner of this Safe', ExitCode.INVALID_ARGS)
+    }
+
+    if (newOwner.toLowerCase() === safe.address.toLowerCase()) {
+      outputError('A Safe cannot be its own owner', ExitCode.INVALID_ARGS)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Swap Owner Summary:'))
+      console.log(`  ${pc.dim('Safe:')}       ${safe.name}`)
+      console.log(`  ${pc.dim('Old Owner:')}  ${oldOwner}`)
+      console.log(`  ${pc.dim('New Owner:')}  ${newOwner}`)
+      console.log(`  ${pc.dim('Threshold:')}  ${threshold} / ${owners.length} (unchanged)`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to swap this owner?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating swap owner transaction...')
+
+    // The service resolves prevOwner from the on-chain owner list
+    const safeTransaction = await txService.createSwapOwnerTransaction(
+      safe.address as Address,
+      oldOwner,
+      newOwner
+    )
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Swap owner transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        oldOwner,
+        newOwner,
+      })
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: 'Swap Owner Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Old Owner', value: oldOwner },
+          { key: 'New Owner', value: newOwner },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
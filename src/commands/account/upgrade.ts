@@ -0,0 +1,236 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { SafeService } from '../../services/safe-service.js'
+import { ContractService } from '../../services/contract-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  confirmDangerousAction,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { DEFAULT_SAFE_VERSION } from '../../constants/defaults.js'
+import {
+  SAFE_UPGRADE_TARGETS,
+  getKnownFallbackHandlerName,
+  getKnownSingleton,
+} from '../../constants/singletons.js'
+import { planSafeUpgrade, type SafeUpgradePlan } from '../../utils/safe-upgrade.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export interface SafeUpgradeOptions {
+  to?: string
+}
+
+function describeSingleton(address: Address): string {
+  const known = getKnownSingleton(address)
+  return known ? `${address} (${known.version}${known.l2 ? ' L2' : ''})` : address
+}
+
+function describeFallbackHandler(address: Address | null): string {
+  if (!address) return 'None'
+  const name = getKnownFallbackHandlerName(address)
+  return name ? `${address} (${name})` : address
+}
+
+function printUpgradeDiff(plan: SafeUpgradePlan, safeName: string): void {
+  const method =
+    plan.method === 'migration'
+      ? `SafeMigration delegatecall (${plan.migrationContract})`
+      : 'changeMasterCopy + setFallbackHandler (MultiSend)'
+
+  console.log('')
+  console.log(pc.bold('Upgrade Summary:'))
+  console.log(`  ${pc.dim('Safe:')}      ${safeName}`)
+  console.log(`  ${pc.dim('Version:')}   ${plan.fromVersion} → ${plan.toVersion}`)
+  console.log(`  ${pc.dim('Method:')}    ${method}`)
+  console.log('')
+  console.log(pc.bold('Singleton:'))
+  console.log(pc.red(`  - ${describeSingleton(plan.currentSingleton)}`))
+  console.log(pc.green(`  + ${describeSingleton(plan.newSingleton)}`))
+  console.log(pc.bold('Fallback Handler:'))
+  console.log(pc.red(`  - ${describeFallbackHandler(plan.currentFallbackHandler)}`))
+  console.log(pc.green(`  + ${describeFallbackHandler(plan.newFallbackHandler)}`))
+  console.log('')
+}
+
+export async function upgradeSafe(account?: string, options: SafeUpgradeOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Upgrade Safe ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const toVersion = options.to || DEFAULT_SAFE_VERSION
+    if (!SAFE_UPGRADE_TARGETS[toVersion]) {
+      outputError(
+        `Unsupported target version ${toVersion}. Supported: ${Object.keys(SAFE_UPGRADE_TARGETS).join(', ')}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before it can be upgraded', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    const safeService = new SafeService(chain)
+    let owners: Address[]
+    let threshold: number
+    let masterCopy: Address | null
+    let fallbackHandler: Address | null
+    try {
+      ;[owners, threshold, masterCopy, fallbackHandler] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        safeService.getMasterCopy(safe.address as Address),
+        safeService.getFallbackHandler(safe.address as Address),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    let plan: SafeUpgradePlan
+    try {
+      plan = planSafeUpgrade({ masterCopy, fallbackHandler }, toVersion)
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Failed to plan upgrade',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Pointing the Safe at code that does not exist on this chain would brick it
+    const contractService = new ContractService(chain)
+    const required: Array<{ name: string; address: Address }> = [
+      { name: 'Singleton', address: plan.newSingleton },
+      { name: 'Fallback handler', address: plan.newFallbackHandler },
+    ]
+    if (plan.migrationContract) {
+      required.push({ name: 'SafeMigration contract', address: plan.migrationContract })
+    }
+    for (const contract of required) {
+      if (!(await contractService.isContract(contract.address))) {
+        outputError(
+          `${contract.name} ${contract.address} is not deployed on ${chain.name}`,
+          ExitCode.CONFIG_ERROR
+        )
+      }
+    }
+
+    if (!isNonInteractiveMode()) {
+      printUpgradeDiff(plan, safe.name)
+
+      const confirmed = await confirmDangerousAction(
+        'Upgrading replaces the code this Safe runs on. The transaction ' +
+          (plan.method === 'migration'
+            ? 'delegatecalls the official SafeMigration contract'
+            : 'calls changeMasterCopy on the Safe') +
+          '. Make sure modules, guards and integrations of this Safe support ' +
+          `version ${plan.toVersion} before executing it.`,
+        'UPGRADE'
+      )
+      if (!confirmed) return
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating upgrade transaction...')
+
+    const safeTransaction = await txService.createUpgradeTransaction(safe.address as Address, plan)
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Upgrade transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        fromVersion: plan.fromVersion,
+        toVersion: plan.toVersion,
+        method: plan.method,
+        singleton: { from: plan.currentSingleton, to: plan.newSingleton },
+        fallbackHandler: { from: plan.currentFallbackHandler, to: plan.newFallbackHandler },
+        migrationContract: plan.migrationContract,
+      })
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: 'Upgrade Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Version', value: `${plan.fromVersion} → ${plan.toVersion}` },
+          { key: 'New Singleton', value: describeSingleton(plan.newSingleton) },
+          { key: 'New Fallback Handler', value: describeFallbackHandler(plan.newFallbackHandler) },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
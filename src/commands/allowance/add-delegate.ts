@@ -0,0 +1,207 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { AllowanceService } from '../../services/allowance-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findAllowanceModule } from '../../constants/modules.js'
+import { encodeAddDelegate } from '../../utils/allowance.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export async function addAllowanceDelegate(account?: string, delegateAddress?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Add Allowance Delegate ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    const allowanceService = new AllowanceService(chain)
+    let owners: Address[]
+    let threshold: number
+    let module: Address | undefined
+    let delegates: Address[] = []
+    try {
+      let modules: Address[]
+      ;[owners, threshold, modules] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        txService.getModules(safe.address as Address),
+      ])
+      module = findAllowanceModule(modules)
+      if (module) {
+        delegates = await allowanceService.getDelegates(safe.address as Address, module)
+      }
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (!module) {
+      outputError(
+        'Allowance module is not enabled on this Safe (run "safe allowance enable")',
+        ExitCode.ERROR
+      )
+    }
+
+    // Get delegate address
+    let delegate: Address
+
+    if (delegateAddress) {
+      try {
+        delegate = ctx.validator.assertAddressWithChain(
+          delegateAddress,
+          chainId,
+          ctx.chains,
+          'Delegate address'
+        )
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid address',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Delegate address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      const delegateInput = await p.text({
+        message: 'Delegate address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+
+      if (!checkCancelled(delegateInput)) return
+
+      delegate = ctx.validator.assertAddressWithChain(
+        delegateInput as string,
+        chainId,
+        ctx.chains,
+        'Delegate address'
+      )
+    }
+
+    if (delegates.some((d) => d.toLowerCase() === delegate.toLowerCase())) {
+      outputError('Address is already a delegate', ExitCode.INVALID_ARGS)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Add Delegate Summary:'))
+      console.log(`  ${pc.dim('Safe:')}      ${safe.name}`)
+      console.log(`  ${pc.dim('Delegate:')}  ${delegate}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to add this delegate?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating add delegate transaction...')
+
+    const call = encodeAddDelegate(module, delegate)
+    const safeTransaction = await txService.createTransaction(safe.address as Address, {
+      ...call,
+      operation: 0,
+    })
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Add delegate transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        module,
+        delegate,
+      })
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: 'Add Delegate Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [{ key: 'Delegate', value: delegate }],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,163 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { AllowanceService } from '../../services/allowance-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { ModuleChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findAllowanceModule, getKnownModuleName } from '../../constants/modules.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export async function enableAllowanceModule(account?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Enable Allowance Module ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    if (!safe.deployed) {
+      outputError('Safe must be deployed before enabling modules', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let threshold: number
+    let modules: Address[]
+    let deployment: Address | null
+    try {
+      ;[owners, threshold, modules, deployment] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        txService.getModules(safe.address as Address),
+        new AllowanceService(chain).findDeployment(),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    const enabled = findAllowanceModule(modules)
+    if (enabled) {
+      outputError(`Allowance module is already enabled (${enabled})`, ExitCode.INVALID_ARGS)
+    }
+
+    if (!deployment) {
+      outputError(`Allowance module is not deployed on ${chain.name}`, ExitCode.CONFIG_ERROR)
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Enable Allowance Module Summary:'))
+      console.log(`  ${pc.dim('Safe:')}    ${safe.name}`)
+      console.log(`  ${pc.dim('Module:')}  ${deployment} (${getKnownModuleName(deployment)})`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to enable the allowance module?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating enable module transaction...')
+
+    const safeTransaction = await txService.createEnableModuleTransaction(
+      safe.address as Address,
+      deployment
+    )
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Enable allowance module transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        module: deployment,
+      })
+    } else {
+      await renderScreen(ModuleChangeSuccessScreen, {
+        action: 'enable' as const,
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        moduleAddress: deployment,
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
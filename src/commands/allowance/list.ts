@@ -0,0 +1,137 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { formatUnits, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { AllowanceService, type TokenAllowance } from '../../services/allowance-service.js'
+import { TokenService, type TokenInfo } from '../../services/token-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { AllowanceListScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findAllowanceModule } from '../../constants/modules.js'
+import { formatResetPeriod } from '../../utils/allowance.js'
+import { selectDeployedSafe, parseAddressInput } from '../../utils/safe-helpers.js'
+
+export async function listAllowances(account?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Allowances ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching allowances from blockchain...')
+
+    const allowanceService = new AllowanceService(chain)
+    const tokenService = new TokenService(chain)
+    let module: Address | undefined
+    let delegates: Address[] = []
+    let allowances: TokenAllowance[] = []
+    const tokenInfo = new Map<string, TokenInfo>()
+    try {
+      const modules = await new TransactionService(chain).getModules(address)
+      module = findAllowanceModule(modules)
+      if (module) {
+        ;[delegates, allowances] = await Promise.all([
+          allowanceService.getDelegates(address, module),
+          allowanceService.getAllowances(address, module),
+        ])
+        for (const token of new Set(allowances.map((allowance) => allowance.token))) {
+          tokenInfo.set(token, await tokenService.getTokenInfo(token))
+        }
+      }
+      spinner?.stop('Allowances fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch allowances')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch allowances from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!module) {
+      outputError('Allowance module is not enabled on this Safe', ExitCode.ERROR)
+    }
+
+    const format = (allowance: TokenAllowance, value: bigint) =>
+      formatUnits(value, tokenInfo.get(allowance.token)?.decimals ?? 18)
+    const formatMinute = (minute?: number) =>
+      minute !== undefined ? new Date(minute * 60000).toISOString() : undefined
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Allowances retrieved', {
+        safeAddress: address,
+        chainId,
+        module,
+        delegates: delegates.map((delegate) => ({
+          delegate,
+          allowances: allowances
+            .filter((allowance) => allowance.delegate === delegate)
+            .map((allowance) => ({
+              token: allowance.token,
+              symbol: tokenInfo.get(allowance.token)?.symbol,
+              amount: allowance.amount.toString(),
+              spent: allowance.spent.toString(),
+              remaining: allowance.remaining.toString(),
+              resetTimeMin: allowance.resetTimeMin,
+              nextResetAt: formatMinute(allowance.nextResetMin),
+              nonce: allowance.nonce,
+            })),
+        })),
+      })
+      return
+    }
+
+    await renderScreen(AllowanceListScreen, {
+      safeAddress: address,
+      chainId,
+      module,
+      delegates: delegates.map((delegate) => ({
+        delegate,
+        allowances: allowances
+          .filter((allowance) => allowance.delegate === delegate)
+          .map((allowance) => ({
+            token: allowance.token,
+            symbol: tokenInfo.get(allowance.token)?.symbol ?? allowance.token,
+            amount: format(allowance, allowance.amount),
+            spent: format(allowance, allowance.spent),
+            remaining: format(allowance, allowance.remaining),
+            reset: formatResetPeriod(allowance.resetTimeMin),
+            nextReset: formatMinute(allowance.nextResetMin),
+          })),
+      })),
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
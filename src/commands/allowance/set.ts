@@ -0,0 +1,321 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { parseUnits, zeroAddress, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { AllowanceService } from '../../services/allowance-service.js'
+import { TokenService, type TokenInfo } from '../../services/token-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { SafeConfigChangeSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findAllowanceModule } from '../../constants/modules.js'
+import {
+  MAX_ALLOWANCE_AMOUNT,
+  encodeAddDelegate,
+  encodeSetAllowance,
+  formatResetPeriod,
+  parseResetPeriod,
+} from '../../utils/allowance.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export interface AllowanceSetOptions {
+  delegate?: string
+  token?: string
+  amount?: string
+  reset?: string
+}
+
+export async function setAllowance(account?: string, options: AllowanceSetOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Set Allowance ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    if (isNonInteractiveMode() && (!options.delegate || !options.token || !options.amount)) {
+      outputError(
+        '--delegate, --token and --amount are required in non-interactive mode',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Fetch live Safe data
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    const allowanceService = new AllowanceService(chain)
+    let owners: Address[]
+    let threshold: number
+    let module: Address | undefined
+    let delegates: Address[] = []
+    try {
+      let modules: Address[]
+      ;[owners, threshold, modules] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getThreshold(safe.address as Address),
+        txService.getModules(safe.address as Address),
+      ])
+      module = findAllowanceModule(modules)
+      if (module) {
+        delegates = await allowanceService.getDelegates(safe.address as Address, module)
+      }
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (!module) {
+      outputError(
+        'Allowance module is not enabled on this Safe (run "safe allowance enable")',
+        ExitCode.ERROR
+      )
+    }
+
+    // Get delegate
+    let delegateInput = options.delegate
+    if (!delegateInput) {
+      const input = await p.text({
+        message: 'Delegate address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      delegateInput = input as string
+    }
+
+    let delegate: Address
+    try {
+      delegate = ctx.validator.assertAddressWithChain(
+        delegateInput,
+        chainId,
+        ctx.chains,
+        'Delegate address'
+      )
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    // Get token (native or ERC-20)
+    let tokenInput = options.token
+    if (!tokenInput) {
+      const input = await p.text({
+        message: `Token address ("native" for ${chain.currency}):`,
+        placeholder: 'native or 0x...',
+        validate: (value) =>
+          value?.toLowerCase() === 'native'
+            ? undefined
+            : ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      tokenInput = input as string
+    }
+
+    let token: Address
+    try {
+      token =
+        tokenInput.toLowerCase() === 'native'
+          ? zeroAddress
+          : ctx.validator.assertAddressWithChain(tokenInput, chainId, ctx.chains, 'Token address')
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    let tokenInfo: TokenInfo
+    try {
+      tokenInfo = await new TokenService(chain).getTokenInfo(token)
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Failed to read token',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    // Get amount in token units
+    let amountInput = options.amount
+    if (!amountInput) {
+      const input = await p.text({
+        message: `Allowance amount (${tokenInfo.symbol}):`,
+        placeholder: '100',
+        validate: (value) => {
+          if (!value || !/^\d+(\.\d+)?$/.test(value)) return 'Enter a positive amount'
+          return undefined
+        },
+      })
+      if (!checkCancelled(input)) return
+      amountInput = input as string
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(amountInput)) {
+      outputError(`Invalid amount: ${amountInput}`, ExitCode.INVALID_ARGS)
+    }
+    const amount = parseUnits(amountInput, tokenInfo.decimals)
+    if (amount > MAX_ALLOWANCE_AMOUNT) {
+      outputError('Allowance amount exceeds the uint96 maximum', ExitCode.INVALID_ARGS)
+    }
+
+    // Get reset period
+    let resetInput = options.reset
+    if (resetInput === undefined) {
+      if (isNonInteractiveMode()) {
+        resetInput = '0'
+      } else {
+        const input = await p.text({
+          message: 'Reset period (0 = one-time, e.g. 30m, 12h, 1d, 1w):',
+          initialValue: '0',
+          validate: (value) => {
+            try {
+              parseResetPeriod(value ?? '')
+              return undefined
+            } catch (error) {
+              return error instanceof Error ? error.message : 'Invalid reset period'
+            }
+          },
+        })
+        if (!checkCancelled(input)) return
+        resetInput = input as string
+      }
+    }
+
+    let resetTimeMin: number
+    try {
+      resetTimeMin = parseResetPeriod(resetInput)
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Invalid reset period',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // setAllowance requires a registered delegate, so unknown delegates are added in the same batch
+    const isDelegate = delegates.some((d) => d.toLowerCase() === delegate.toLowerCase())
+    const calls = [
+      ...(isDelegate ? [] : [encodeAddDelegate(module, delegate)]),
+      encodeSetAllowance(module, delegate, token, amount, resetTimeMin),
+    ]
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Set Allowance Summary:'))
+      console.log(`  ${pc.dim('Safe:')}      ${safe.name}`)
+      console.log(`  ${pc.dim('Delegate:')}  ${delegate}${isDelegate ? '' : pc.yellow(' (new)')}`)
+      console.log(
+        `  ${pc.dim('Token:')}     ${tokenInfo.symbol}${token === zeroAddress ? '' : ` (${token})`}`
+      )
+      console.log(`  ${pc.dim('Amount:')}    ${amountInput} ${tokenInfo.symbol}`)
+      console.log(`  ${pc.dim('Reset:')}     ${formatResetPeriod(resetTimeMin)}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create transaction to set this allowance?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating set allowance transaction...')
+
+    const safeTransaction =
+      calls.length > 1
+        ? await txService.createBatchTransaction(safe.address as Address, calls)
+        : await txService.createTransaction(safe.address as Address, { ...calls[0], operation: 0 })
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      safeTransaction.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      safeTransaction.metadata,
+      activeWallet.address as Address,
+      calls.length > 1 ? calls : undefined
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Set allowance transaction created', {
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        module,
+        delegate,
+        delegateAdded: !isDelegate,
+        token,
+        amount: amount.toString(),
+        resetTimeMin,
+      })
+    } else {
+      await renderScreen(SafeConfigChangeSuccessScreen, {
+        title: 'Set Allowance Transaction Created',
+        safeTxHash: safeTransaction.safeTxHash,
+        safeAddress: safe.address as Address,
+        chainId: safe.chainId,
+        details: [
+          { key: 'Delegate', value: delegate },
+          { key: 'Allowance', value: `${amountInput} ${tokenInfo.symbol}` },
+          { key: 'Reset', value: formatResetPeriod(resetTimeMin) },
+        ],
+        threshold,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,278 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { formatUnits, parseUnits, zeroAddress, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { AllowanceService, type TokenAllowance } from '../../services/allowance-service.js'
+import { TokenService, type TokenInfo } from '../../services/token-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionExecuteSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findAllowanceModule } from '../../constants/modules.js'
+import { getPassword } from '../../utils/password-handler.js'
+import { getGlobalOptions } from '../../types/global-options.js'
+import { selectDeployedSafe, parseAddressInput } from '../../utils/safe-helpers.js'
+
+export interface AllowanceTransferOptions {
+  token?: string
+  to?: string
+  amount?: string
+}
+
+export async function transferWithAllowance(
+  account?: string,
+  options: AllowanceTransferOptions = {}
+) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Allowance Transfer ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // The delegate submits the transfer itself, so the wallet must be able to send transactions
+    if (activeWallet.type === 'ledger' || activeWallet.type === 'watch-only') {
+      outputError(
+        'Allowance transfers require a private key wallet; Ledger and watch-only wallets are not supported',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    if (isNonInteractiveMode() && (!options.token || !options.to || !options.amount)) {
+      outputError(
+        '--token, --to and --amount are required in non-interactive mode',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Get token (native or ERC-20)
+    let tokenInput = options.token
+    if (!tokenInput) {
+      const input = await p.text({
+        message: `Token address ("native" for ${chain.currency}):`,
+        placeholder: 'native or 0x...',
+        validate: (value) =>
+          value?.toLowerCase() === 'native'
+            ? undefined
+            : ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      tokenInput = input as string
+    }
+
+    let token: Address
+    try {
+      token =
+        tokenInput.toLowerCase() === 'native'
+          ? zeroAddress
+          : ctx.validator.assertAddressWithChain(tokenInput, chainId, ctx.chains, 'Token address')
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    // Fetch the delegate's allowance
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching allowance from blockchain...')
+
+    const allowanceService = new AllowanceService(chain)
+    let module: Address | undefined
+    let allowance: TokenAllowance | undefined
+    let tokenInfo: TokenInfo
+    try {
+      const modules = await new TransactionService(chain).getModules(address)
+      module = findAllowanceModule(modules)
+      tokenInfo = await new TokenService(chain).getTokenInfo(token)
+      if (module) {
+        allowance = await allowanceService.getAllowance(
+          address,
+          module,
+          activeWallet.address as Address,
+          token
+        )
+      }
+      spinner?.stop('Allowance fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch allowance')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch allowance from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!module || !allowance) {
+      outputError('Allowance module is not enabled on this Safe', ExitCode.ERROR)
+    }
+
+    if (allowance.amount === 0n) {
+      outputError(
+        `Active wallet ${activeWallet.address} has no ${tokenInfo.symbol} allowance on this Safe`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    const remainingFormatted = formatUnits(allowance.remaining, tokenInfo.decimals)
+
+    // Get recipient
+    let toInput = options.to
+    if (!toInput) {
+      const input = await p.text({
+        message: 'Recipient address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      toInput = input as string
+    }
+
+    let to: Address
+    try {
+      to = ctx.validator.assertAddressWithChain(toInput, chainId, ctx.chains, 'Recipient address')
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    // Get amount in token units
+    let amountInput = options.amount
+    if (!amountInput) {
+      const input = await p.text({
+        message: `Amount (${remainingFormatted} ${tokenInfo.symbol} available):`,
+        placeholder: remainingFormatted,
+        validate: (value) => {
+          if (!value || !/^\d+(\.\d+)?$/.test(value)) return 'Enter a positive amount'
+          return undefined
+        },
+      })
+      if (!checkCancelled(input)) return
+      amountInput = input as string
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(amountInput)) {
+      outputError(`Invalid amount: ${amountInput}`, ExitCode.INVALID_ARGS)
+    }
+    const amount = parseUnits(amountInput, tokenInfo.decimals)
+    if (amount === 0n) {
+      outputError('Amount must be greater than zero', ExitCode.INVALID_ARGS)
+    }
+    if (amount > allowance.remaining) {
+      outputError(
+        `Amount exceeds the remaining allowance of ${remainingFormatted} ${tokenInfo.symbol}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Allowance Transfer Summary:'))
+      console.log(`  ${pc.dim('Safe:')}       ${address}`)
+      console.log(`  ${pc.dim('Delegate:')}   ${activeWallet.address}`)
+      console.log(`  ${pc.dim('Recipient:')}  ${to}`)
+      console.log(`  ${pc.dim('Amount:')}     ${amountInput} ${tokenInfo.symbol}`)
+      console.log(`  ${pc.dim('Remaining:')}  ${remainingFormatted} ${tokenInfo.symbol}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Send this transfer on-chain from your wallet?',
+        initialValue: false,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    // Request password using centralized handler
+    const globalOptions = getGlobalOptions()
+    const password = await getPassword(
+      {
+        password: globalOptions.password,
+        passwordFile: globalOptions.passwordFile,
+        passwordEnv: 'SAFE_WALLET_PASSWORD',
+      },
+      'Enter wallet password'
+    )
+
+    if (!password) {
+      outputError('Password is required', ExitCode.AUTH_FAILURE)
+    }
+
+    const sendSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    sendSpinner?.start('Executing allowance transfer')
+
+    let privateKey: string
+    try {
+      privateKey = ctx.walletStorage.getPrivateKey(activeWallet.id, password)
+    } catch {
+      sendSpinner?.stop('Failed')
+      outputError('Invalid password', ExitCode.AUTH_FAILURE)
+    }
+
+    const txHash = await new AllowanceService(chain, privateKey).executeAllowanceTransfer(
+      address,
+      module,
+      token,
+      to,
+      amount
+    )
+
+    sendSpinner?.stop('Transfer executed')
+
+    const explorerUrl = chain.explorer ? `${chain.explorer}/tx/${txHash}` : undefined
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Allowance transfer executed', {
+        txHash,
+        explorerUrl,
+        safeAddress: address,
+        chainId,
+        chainName: chain.name,
+        delegate: activeWallet.address,
+        token,
+        to,
+        amount: amount.toString(),
+      })
+    } else {
+      await renderScreen(TransactionExecuteSuccessScreen, {
+        txHash,
+        explorerUrl,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
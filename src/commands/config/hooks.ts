@@ -0,0 +1,286 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { zeroAddress, zeroHash } from 'viem'
+import { HookConfigSchema, type HookConfig } from '../../types/config.js'
+import { TRANSACTION_EVENTS, type TransactionEvent } from '../../types/transaction.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { postHook, runHookCommand, type HookPayload } from '../../utils/hooks.js'
+
+export interface HookAddOptions {
+  events?: string
+  command?: string
+  url?: string
+  header?: string[]
+}
+
+function describeHook(hook: HookConfig): string {
+  return hook.type === 'command' ? `$ ${hook.command}` : `POST ${hook.url}`
+}
+
+/**
+ * Parse a comma-separated event list
+ */
+function parseEvents(input: string): TransactionEvent[] {
+  const events = input
+    .split(',')
+    .map((event) => event.trim())
+    .filter(Boolean)
+  const unknown = events.filter((event) => !TRANSACTION_EVENTS.includes(event as TransactionEvent))
+  if (unknown.length > 0 || events.length === 0) {
+    outputError(
+      `Invalid event(s): ${unknown.join(', ') || input}. Use ${TRANSACTION_EVENTS.join(', ')}`,
+      ExitCode.INVALID_ARGS
+    )
+  }
+  return events as TransactionEvent[]
+}
+
+export async function listHooks() {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Transaction Hooks ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+    const hooks = ctx.configStore.getHooks()
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Hooks retrieved', { hooks })
+      return
+    }
+
+    if (hooks.length === 0) {
+      p.log.info('No hooks configured. Add one with "safe config hooks add"')
+    }
+
+    hooks.forEach((hook, index) => {
+      console.log('')
+      console.log(`${pc.bold(`#${index + 1}`)} ${describeHook(hook)}`)
+      console.log(`   ${pc.dim('Events:')} ${hook.events.join(', ')}`)
+    })
+    console.log('')
+    p.outro(`${hooks.length} hook(s) configured`)
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+export async function addHook(options: HookAddOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Add Hook ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    if (options.command && options.url) {
+      outputError('Use either --command or --url, not both', ExitCode.INVALID_ARGS)
+    }
+    if (isNonInteractiveMode() && (!options.events || (!options.command && !options.url))) {
+      outputError(
+        '--events and --command or --url are required in non-interactive mode',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Get events
+    let events: TransactionEvent[]
+    if (options.events) {
+      events = parseEvents(options.events)
+    } else {
+      const selected = await p.multiselect({
+        message: 'Run on which events?',
+        options: TRANSACTION_EVENTS.map((event) => ({ value: event, label: event })),
+        required: true,
+      })
+      if (!checkCancelled(selected)) return
+      events = selected as TransactionEvent[]
+    }
+
+    // Get target
+    let type: HookConfig['type'] = options.url ? 'http' : 'command'
+    let target = options.url ?? options.command
+    if (!target) {
+      const selectedType = await p.select({
+        message: 'Hook type:',
+        options: [
+          { value: 'http', label: 'HTTP POST', hint: 'JSON payload as request body' },
+          { value: 'command', label: 'Shell command', hint: 'JSON payload on stdin' },
+        ],
+      })
+      if (!checkCancelled(selectedType)) return
+      type = selectedType as HookConfig['type']
+
+      const input = await p.text({
+        message: type === 'http' ? 'URL:' : 'Command:',
+        placeholder: type === 'http' ? 'https://example.com/safe-webhook' : './notify.sh',
+        validate: (value) => (value?.trim() ? undefined : 'Required'),
+      })
+      if (!checkCancelled(input)) return
+      target = (input as string).trim()
+    }
+
+    // Headers as "Name: value"
+    const headers: Record<string, string> = {}
+    for (const header of options.header ?? []) {
+      const separator = header.indexOf(':')
+      if (separator <= 0) {
+        outputError(`Invalid header "${header}". Use "Name: value"`, ExitCode.INVALID_ARGS)
+      }
+      headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim()
+    }
+    if (type === 'command' && Object.keys(headers).length > 0) {
+      outputError('--header only applies to --url hooks', ExitCode.INVALID_ARGS)
+    }
+
+    const result = HookConfigSchema.safeParse(
+      type === 'http'
+        ? { type, events, url: target, ...(Object.keys(headers).length > 0 && { headers }) }
+        : { type, events, command: target }
+    )
+    if (!result.success) {
+      outputError(`Invalid hook: ${result.error.issues[0].message}`, ExitCode.INVALID_ARGS)
+    }
+
+    ctx.configStore.addHook(result.data)
+
+    outputSuccess(`Added hook: ${describeHook(result.data)}`, {
+      hook: result.data,
+      index: ctx.configStore.getHooks().length,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+export async function removeHook(indexInput?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Remove Hook ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+    const hooks = ctx.configStore.getHooks()
+
+    let index: number
+    if (indexInput) {
+      if (!/^\d+$/.test(indexInput)) {
+        outputError(`Invalid hook number: ${indexInput}`, ExitCode.INVALID_ARGS)
+      }
+      index = parseInt(indexInput, 10) - 1
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Hook number is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      if (hooks.length === 0) {
+        outputError('No hooks configured', ExitCode.ERROR)
+      }
+
+      const selected = await p.select({
+        message: 'Select hook to remove:',
+        options: hooks.map((hook, i) => ({
+          value: i,
+          label: describeHook(hook),
+          hint: hook.events.join(', '),
+        })),
+      })
+      if (!checkCancelled(selected)) return
+      index = selected as number
+    }
+
+    const hook = hooks[index]
+    if (!hook || !ctx.configStore.removeHook(index)) {
+      outputError(`No hook #${index + 1}`, ExitCode.ERROR)
+    }
+
+    outputSuccess(`Removed hook: ${describeHook(hook)}`, { hook })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+/**
+ * Send a sample payload to the hooks subscribed to an event
+ */
+export async function testHooks(eventInput: string = 'created') {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Test Hooks ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const [event] = parseEvents(eventInput)
+    const hooks = ctx.configStore.getHooks().filter((hook) => hook.events.includes(event))
+    if (hooks.length === 0) {
+      outputError(`No hooks configured for "${event}"`, ExitCode.ERROR)
+    }
+
+    const payload: HookPayload = {
+      event,
+      safeTxHash: zeroHash,
+      safeAddress: zeroAddress,
+      chainId: '1',
+      nonce: 0,
+      status: 'pending',
+      to: zeroAddress,
+      value: '0',
+      data: '0x',
+      signers: [],
+      timestamp: new Date().toISOString(),
+      test: true,
+    }
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start(`Running ${hooks.length} hook(s)...`)
+
+    const results = await Promise.all(
+      hooks.map(async (hook) => {
+        try {
+          if (hook.type === 'command') {
+            await runHookCommand(hook.command, payload)
+          } else {
+            await postHook(hook.url, payload, hook.headers)
+          }
+          return { hook: describeHook(hook), success: true }
+        } catch (error) {
+          return {
+            hook: describeHook(hook),
+            success: false,
+            error: error instanceof Error ? error.message : 'Hook failed',
+          }
+        }
+      })
+    )
+    spinner?.stop('Hooks finished')
+
+    const failed = results.filter((result) => !result.success)
+    if (!isNonInteractiveMode()) {
+      for (const result of results) {
+        if (result.success) {
+          p.log.success(result.hook)
+        } else {
+          p.log.error(`${result.hook}: ${result.error}`)
+        }
+      }
+    }
+
+    if (failed.length > 0) {
+      outputError(`${failed.length} of ${results.length} hook(s) failed`, ExitCode.ERROR, {
+        results,
+      })
+    }
+
+    outputSuccess(`${results.length} hook(s) succeeded`, { event, results })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
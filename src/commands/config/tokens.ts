@@ -0,0 +1,209 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import type { Address } from 'viem'
+import { TokenService, type TokenInfo } from '../../services/token-service.js'
+import type { ChainConfig } from '../../types/config.js'
+import { createCommandContext, type CommandContext } from '../../utils/command-context.js'
+import {
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+/**
+ * Resolve a chain from a chain ID or EIP-3770 short name, prompting when omitted
+ */
+async function resolveChain(ctx: CommandContext, input?: string): Promise<ChainConfig | null> {
+  if (!input) {
+    if (isNonInteractiveMode()) {
+      outputError('Chain is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+
+    const chainId = await p.select({
+      message: 'Select chain:',
+      options: Object.values(ctx.chains).map((chain) => ({
+        value: chain.chainId,
+        label: `${chain.name} (${chain.shortName})`,
+      })),
+    })
+    if (!checkCancelled(chainId)) return null
+    return ctx.chains[chainId as string]
+  }
+
+  const chain =
+    ctx.chains[input] ?? Object.values(ctx.chains).find((c) => c.shortName === input.toLowerCase())
+  if (!chain) {
+    outputError(`Chain "${input}" is not configured`, ExitCode.CONFIG_ERROR)
+  }
+  return chain
+}
+
+/**
+ * Get a token address argument, prompting when omitted
+ */
+async function resolveTokenAddress(
+  ctx: CommandContext,
+  chain: ChainConfig,
+  input?: string
+): Promise<Address | null> {
+  let tokenInput = input
+  if (!tokenInput) {
+    if (isNonInteractiveMode()) {
+      outputError('Token address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+
+    const value = await p.text({
+      message: 'Token address:',
+      placeholder: '0x...',
+      validate: (v) => ctx.validator.validateAddressWithChain(v, chain.chainId, ctx.chains),
+    })
+    if (!checkCancelled(value)) return null
+    tokenInput = value as string
+  }
+
+  try {
+    return ctx.validator.assertAddressWithChain(
+      tokenInput,
+      chain.chainId,
+      ctx.chains,
+      'Token address'
+    )
+  } catch (error) {
+    outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+  }
+}
+
+export async function listTokens(chainInput?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Token Lists ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const chains = chainInput
+      ? [await resolveChain(ctx, chainInput)]
+      : Object.values(ctx.chains).filter(
+          (chain) => ctx.configStore.getTokens(chain.chainId).length > 0
+        )
+
+    const lists = chains
+      .filter((chain): chain is ChainConfig => chain !== null)
+      .map((chain) => ({
+        chainId: chain.chainId,
+        chainName: chain.name,
+        tokens: ctx.configStore.getTokens(chain.chainId),
+      }))
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Token lists retrieved', { chains: lists })
+      return
+    }
+
+    if (lists.every((list) => list.tokens.length === 0)) {
+      p.log.info('No tokens configured. Add one with "safe config tokens add <chain> <address>"')
+    }
+
+    for (const list of lists.filter((l) => l.tokens.length > 0)) {
+      console.log('')
+      console.log(pc.bold(`${list.chainName} (${list.chainId})`))
+      for (const token of list.tokens) {
+        console.log(`  ${token}`)
+      }
+    }
+    console.log('')
+    p.outro(`${lists.reduce((sum, list) => sum + list.tokens.length, 0)} token(s) configured`)
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+export async function addToken(chainInput?: string, tokenInput?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Add Token ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const chain = await resolveChain(ctx, chainInput)
+    if (!chain) return
+
+    const token = await resolveTokenAddress(ctx, chain, tokenInput)
+    if (!token) return
+
+    // Make sure the address is an ERC-20 before tracking it
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Reading token from blockchain...')
+
+    let tokenInfo: TokenInfo
+    try {
+      tokenInfo = await new TokenService(chain).getTokenInfo(token)
+      spinner?.stop(`Found ${tokenInfo.symbol}`)
+    } catch (error) {
+      spinner?.stop('Failed to read token')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to read token',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ctx.configStore.addToken(chain.chainId, token)) {
+      outputError(`${tokenInfo.symbol} is already in the ${chain.name} token list`, ExitCode.ERROR)
+    }
+
+    outputSuccess(`Added ${tokenInfo.symbol} to the ${chain.name} token list`, {
+      chainId: chain.chainId,
+      token,
+      symbol: tokenInfo.symbol,
+      decimals: tokenInfo.decimals,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+export async function removeToken(chainInput?: string, tokenInput?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Remove Token ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const chain = await resolveChain(ctx, chainInput)
+    if (!chain) return
+
+    let token: Address | null
+    if (!tokenInput && !isNonInteractiveMode()) {
+      const tokens = ctx.configStore.getTokens(chain.chainId)
+      if (tokens.length === 0) {
+        outputError(`No tokens configured for ${chain.name}`, ExitCode.ERROR)
+      }
+
+      const selected = await p.select({
+        message: 'Select token to remove:',
+        options: tokens.map((t) => ({ value: t, label: t })),
+      })
+      if (!checkCancelled(selected)) return
+      token = selected as Address
+    } else {
+      token = await resolveTokenAddress(ctx, chain, tokenInput)
+      if (!token) return
+    }
+
+    if (!ctx.configStore.removeToken(chain.chainId, token)) {
+      outputError(`${token} is not in the ${chain.name} token list`, ExitCode.ERROR)
+    }
+
+    outputSuccess(`Removed ${token} from the ${chain.name} token list`, {
+      chainId: chain.chainId,
+      token,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
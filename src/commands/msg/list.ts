@@ -0,0 +1,46 @@
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { parseAddressInput } from '../../utils/safe-helpers.js'
+import { renderScreen } from '../../ui/render.js'
+import { MessageListScreen } from '../../ui/screens/index.js'
+
+/**
+ * Lists stored Safe messages, optionally filtered by Safe (EIP-3770 format)
+ */
+export async function listMessages(account?: string) {
+  try {
+    const ctx = createCommandContext()
+
+    let messages = ctx.messageStore.getAllMessages()
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      messages = ctx.messageStore.getMessagesBySafe(parsed.address, parsed.chainId)
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess(messages.length === 0 ? 'No messages found' : 'Messages retrieved', {
+        messages: messages.map((msg) => {
+          const safe = ctx.safeStorage.getSafe(msg.chainId, msg.safeAddress)
+          return {
+            ...msg,
+            threshold: safe?.threshold,
+          }
+        }),
+      })
+      return
+    }
+
+    await renderScreen(MessageListScreen, {
+      messages,
+      filtered: !!account,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,239 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { z } from 'zod'
+import { isAddress, isAddressEqual, type Address, type Hex } from 'viem'
+import { SafeTransactionServiceAPI } from '../../services/api-service.js'
+import { MessageService } from '../../services/message-service.js'
+import { TransactionService } from '../../services/transaction-service.js'
+import type { SafeMessageContent } from '../../types/message.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { parseAddressInput, selectDeployedSafe } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { recoverSafeTxSigner } from '../../utils/safe-tx-hash.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+const AddressSchema = z.string().refine((value) => isAddress(value), 'Invalid address')
+
+// Only the fields we store; anything else in the Transaction Service response is ignored
+const APIMessageSchema = z.object({
+  messageHash: z.string(),
+  message: z.union([
+    z.string(),
+    z.object({
+      domain: z.record(z.string(), z.unknown()),
+      types: z.record(z.string(), z.array(z.object({ name: z.string(), type: z.string() }))),
+      primaryType: z.string(),
+      message: z.record(z.string(), z.unknown()),
+    }),
+  ]),
+  proposedBy: AddressSchema.nullish(),
+  confirmations: z
+    .array(
+      z.object({
+        owner: AddressSchema,
+        signature: z.string(),
+        created: z.string().refine((value) => !isNaN(Date.parse(value)), 'Invalid date'),
+      })
+    )
+    .default([]),
+})
+
+/**
+ * Check that a confirmation is an ECDSA signature of the message hash by an owner.
+ * Contract signatures cannot be checked offline and are left out.
+ */
+async function isValidConfirmation(
+  messageHash: string,
+  confirmation: { owner: string; signature: string },
+  owners: Address[]
+): Promise<boolean> {
+  if (!owners.some((owner) => isAddressEqual(owner, confirmation.owner as Address))) {
+    return false
+  }
+  try {
+    const signer = await recoverSafeTxSigner(messageHash as Hex, confirmation.signature as Hex)
+    return isAddressEqual(signer, confirmation.owner as Address)
+  } catch {
+    return false
+  }
+}
+
+export async function pullMessages(account?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Pull Messages from Safe API')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const selected = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!selected) return
+      chainId = selected.chainId
+      address = selected.address
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    if (!chain.transactionServiceUrl) {
+      outputError(`Transaction Service not configured for ${chain.name}`, ExitCode.CONFIG_ERROR)
+    }
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching messages from Safe Transaction Service...')
+
+    let remoteMessages: Array<Record<string, unknown>>
+    let owners: Address[]
+    let safeVersion: string
+    try {
+      const preferences = ctx.configStore.getPreferences()
+      const apiService = new SafeTransactionServiceAPI(chain, {
+        apiKey: preferences.safeApiKey,
+        useStaging: preferences.isStagingSafeApi,
+      })
+      const txService = new TransactionService(chain)
+      ;[remoteMessages, owners, safeVersion] = await Promise.all([
+        apiService.getMessages(address),
+        txService.getOwners(address),
+        txService.getVersion(address),
+      ])
+      spinner?.stop(`Found ${remoteMessages.length} message(s)`)
+    } catch (error) {
+      spinner?.stop('Failed')
+      throw error
+    }
+
+    const messageService = new MessageService(chain)
+    let imported = 0
+    let updated = 0
+    let skipped = 0
+    let invalid = 0
+    let invalidSignatures = 0
+
+    for (const raw of remoteMessages) {
+      // The hash is recomputed locally, so the service cannot swap the content of a message
+      const parsed = APIMessageSchema.safeParse(raw)
+      let messageHash: string | undefined
+      if (parsed.success) {
+        try {
+          messageHash = messageService.getMessageHash(
+            address,
+            parsed.data.message as SafeMessageContent,
+            safeVersion
+          )
+        } catch {
+          // Malformed typed data
+        }
+      }
+      if (!parsed.success || messageHash?.toLowerCase() !== parsed.data.messageHash.toLowerCase()) {
+        invalid++
+        continue
+      }
+      const remote = parsed.data
+
+      const confirmations: typeof remote.confirmations = []
+      for (const confirmation of remote.confirmations) {
+        if (await isValidConfirmation(messageHash, confirmation, owners)) {
+          confirmations.push(confirmation)
+        } else {
+          invalidSignatures++
+        }
+      }
+
+      const local = ctx.messageStore.getMessage(messageHash)
+
+      if (!local) {
+        const createdBy = remote.proposedBy || confirmations[0]?.owner || address
+        ctx.messageStore.createMessage(
+          messageHash,
+          address,
+          chainId,
+          remote.message as SafeMessageContent,
+          createdBy as Address
+        )
+        imported++
+      }
+
+      const localSigners = new Set((local?.signatures || []).map((sig) => sig.signer.toLowerCase()))
+      const newConfirmations = confirmations.filter(
+        (conf) => !localSigners.has(conf.owner.toLowerCase())
+      )
+
+      for (const confirmation of newConfirmations) {
+        ctx.messageStore.addSignature(messageHash, {
+          signer: confirmation.owner as Address,
+          signature: confirmation.signature,
+          signedAt: new Date(confirmation.created).toISOString(),
+        })
+      }
+
+      if (local) {
+        if (newConfirmations.length > 0) {
+          updated++
+        } else {
+          skipped++
+        }
+      }
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Messages pulled', {
+        safeAddress: address,
+        chainId,
+        imported,
+        updated,
+        skipped,
+        invalid,
+        invalidSignatures,
+      })
+      return
+    }
+
+    const eip3770 = formatSafeAddress(address, chainId, ctx.chains)
+
+    console.log('')
+    console.log(pc.bold(`Messages for ${eip3770}:`))
+    console.log(`  Imported: ${imported}`)
+    console.log(`  Updated:  ${updated}`)
+    console.log(`  Skipped:  ${skipped}`)
+    if (invalid > 0) {
+      console.log(pc.yellow(`  Ignored:  ${invalid} (hash does not match the content)`))
+    }
+    if (invalidSignatures > 0) {
+      console.log(
+        pc.yellow(`  Ignored ${invalidSignatures} signature(s) not recovering to an owner`)
+      )
+    }
+    console.log('')
+
+    if (imported + updated > 0) {
+      console.log(pc.dim('Review and sign with:'))
+      console.log(`  ${pc.cyan('safe msg list')}`)
+      console.log(`  ${pc.cyan('safe msg sign --hash <messageHash>')}`)
+      console.log('')
+    }
+
+    p.outro(imported + updated > 0 ? 'Messages pulled' : 'Up to date')
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
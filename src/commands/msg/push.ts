@@ -0,0 +1,151 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import type { Address } from 'viem'
+import { SafeTransactionServiceAPI } from '../../services/api-service.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { selectMessage } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export async function pushMessage(messageHash?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Push Message to Safe API')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get message to push
+    let selectedMessageHash = messageHash
+
+    if (!selectedMessageHash) {
+      if (isNonInteractiveMode()) {
+        outputError('Message hash is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const hash = await selectMessage(
+        ctx.messageStore,
+        ctx.safeStorage,
+        ctx.configStore,
+        'Select message to push'
+      )
+      if (!hash) return
+      selectedMessageHash = hash
+    }
+
+    const message = ctx.messageStore.getMessage(selectedMessageHash)
+    if (!message) {
+      outputError(`Message ${selectedMessageHash} not found`, ExitCode.ERROR)
+    }
+
+    if (message.signatures.length === 0) {
+      outputError('Message has no signatures to push', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(message.chainId, ctx.configStore)
+    if (!chain) return
+
+    if (!chain.transactionServiceUrl) {
+      outputError(`Transaction Service not configured for ${chain.name}`, ExitCode.CONFIG_ERROR)
+    }
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Pushing message to Safe Transaction Service...')
+
+    const preferences = ctx.configStore.getPreferences()
+    const apiService = new SafeTransactionServiceAPI(chain, {
+      apiKey: preferences.safeApiKey,
+      useStaging: preferences.isStagingSafeApi,
+    })
+
+    const pushedSigners: Address[] = []
+    let mode: 'proposed' | 'updated'
+
+    try {
+      const remoteMessage = await apiService.getMessage(selectedMessageHash)
+
+      if (remoteMessage) {
+        mode = 'updated'
+
+        // Add signatures the service does not have yet
+        const remoteSigners = new Set(
+          ((remoteMessage.confirmations as Array<{ owner: string }>) || []).map((conf) =>
+            conf.owner.toLowerCase()
+          )
+        )
+
+        for (const sig of message.signatures) {
+          if (remoteSigners.has(sig.signer.toLowerCase())) continue
+          await apiService.addMessageSignature(selectedMessageHash, sig.signature)
+          pushedSigners.push(sig.signer)
+        }
+      } else {
+        mode = 'proposed'
+
+        // Propose with the active wallet's signature when available
+        const [first, ...rest] = [...message.signatures].sort((a, b) =>
+          a.signer.toLowerCase() === activeWallet.address.toLowerCase()
+            ? -1
+            : b.signer.toLowerCase() === activeWallet.address.toLowerCase()
+              ? 1
+              : 0
+        )
+
+        await apiService.addMessage(message.safeAddress, message.message, first.signature)
+        pushedSigners.push(first.signer)
+
+        for (const sig of rest) {
+          await apiService.addMessageSignature(selectedMessageHash, sig.signature)
+          pushedSigners.push(sig.signer)
+        }
+      }
+
+      spinner?.stop(mode === 'proposed' ? 'Message proposed' : 'Message updated')
+    } catch (error) {
+      spinner?.stop('Failed')
+      throw error
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess(mode === 'proposed' ? 'Message proposed' : 'Message updated', {
+        messageHash: selectedMessageHash,
+        safeAddress: message.safeAddress,
+        chainId: message.chainId,
+        mode,
+        signers: pushedSigners,
+      })
+      return
+    }
+
+    const eip3770 = formatSafeAddress(message.safeAddress, message.chainId, ctx.chains)
+
+    console.log('')
+    if (pushedSigners.length === 0) {
+      console.log('✓ Service already has all local signatures')
+    } else {
+      console.log(`✓ Pushed ${pushedSigners.length} signature(s) for ${eip3770}:`)
+      for (const signer of pushedSigners) {
+        console.log(`  ${pc.green('✓')} ${signer}`)
+      }
+    }
+    console.log('')
+    console.log(pc.dim('Other owners can sign with:'))
+    console.log(`  ${pc.cyan(`safe msg pull ${eip3770}`)}`)
+    console.log(`  ${pc.cyan(`safe msg sign --hash ${selectedMessageHash}`)}`)
+    console.log('')
+
+    p.outro(mode === 'proposed' ? 'Message proposed' : 'Message updated')
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,430 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { existsSync, readFileSync } from 'fs'
+import type { Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { MessageService } from '../../services/message-service.js'
+import { LedgerService } from '../../services/ledger-service.js'
+import type { EIP712TypedData, SafeMessageContent } from '../../types/message.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { parseAddressInput, selectDeployedSafe, selectMessage } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { packSafeSignatures } from '../../utils/safe-tx-hash.js'
+import { getPassword } from '../../utils/password-handler.js'
+import { getGlobalOptions } from '../../types/global-options.js'
+import { SafeCLIError } from '../../utils/errors.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export interface MessageSignOptions {
+  message?: string
+  typedData?: string
+  hash?: string
+}
+
+/**
+ * Read EIP-712 typed data from a JSON file
+ */
+function loadTypedData(path: string): EIP712TypedData {
+  if (!existsSync(path)) {
+    throw new SafeCLIError(`File not found: ${path}`)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch {
+    throw new SafeCLIError(`Invalid JSON in ${path}`)
+  }
+
+  const typedData = data as Partial<EIP712TypedData>
+  if (
+    !typedData ||
+    typeof typedData.primaryType !== 'string' ||
+    typeof typedData.types !== 'object' ||
+    typeof typedData.domain !== 'object' ||
+    typeof typedData.message !== 'object'
+  ) {
+    throw new SafeCLIError(
+      'Invalid EIP-712 typed data: expected domain, types, primaryType and message'
+    )
+  }
+
+  if (!typedData.types[typedData.primaryType]) {
+    throw new SafeCLIError(
+      `Invalid EIP-712 typed data: type ${typedData.primaryType} is not defined`
+    )
+  }
+
+  return typedData as EIP712TypedData
+}
+
+/**
+ * Prompt for the message to sign
+ */
+async function promptMessageContent(): Promise<SafeMessageContent | null> {
+  const kind = await p.select({
+    message: 'What do you want to sign?',
+    options: [
+      { value: 'text', label: 'Text message', hint: 'e.g. Sign-In with Ethereum' },
+      { value: 'typed', label: 'EIP-712 typed data', hint: 'JSON file' },
+    ],
+  })
+
+  if (p.isCancel(kind)) {
+    p.cancel('Operation cancelled')
+    return null
+  }
+
+  if (kind === 'text') {
+    const text = await p.text({
+      message: 'Message:',
+      validate: (value) => (!value ? 'Message is required' : undefined),
+    })
+
+    if (p.isCancel(text)) {
+      p.cancel('Operation cancelled')
+      return null
+    }
+
+    return text as string
+  }
+
+  const path = await p.text({
+    message: 'Path to typed data JSON file:',
+    validate: (value) => {
+      if (!value) return 'File path is required'
+      if (!existsSync(value)) return 'File not found'
+      return undefined
+    },
+  })
+
+  if (p.isCancel(path)) {
+    p.cancel('Operation cancelled')
+    return null
+  }
+
+  return loadTypedData(path as string)
+}
+
+export async function signMessage(account?: string, options: MessageSignOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Sign Safe Message')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    if (activeWallet.type === 'watch-only') {
+      outputError(
+        'Watch-only wallets cannot sign messages. Switch to a wallet with a key or a Ledger',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (options.message && options.typedData) {
+      outputError('Use either --message or --typed-data, not both', ExitCode.INVALID_ARGS)
+    }
+
+    let chainId: string
+    let safeAddress: Address
+    let content: SafeMessageContent | undefined
+    let messageHash = options.hash
+
+    // Offer to co-sign a stored message (e.g. pulled from the Transaction Service)
+    if (
+      !messageHash &&
+      !account &&
+      !options.message &&
+      !options.typedData &&
+      !isNonInteractiveMode() &&
+      ctx.messageStore.getAllMessages().length > 0
+    ) {
+      const mode = await p.select({
+        message: 'Sign a new message or an existing one?',
+        options: [
+          { value: 'new', label: 'New message' },
+          { value: 'existing', label: 'Existing message', hint: 'add your signature' },
+        ],
+      })
+
+      if (p.isCancel(mode)) {
+        p.cancel('Operation cancelled')
+        return
+      }
+
+      if (mode === 'existing') {
+        const hash = await selectMessage(
+          ctx.messageStore,
+          ctx.safeStorage,
+          ctx.configStore,
+          'Select message to sign'
+        )
+        if (!hash) return
+        messageHash = hash
+      }
+    }
+
+    if (messageHash) {
+      const stored = ctx.messageStore.getMessage(messageHash)
+      if (!stored) {
+        outputError(`Message ${messageHash} not found`, ExitCode.ERROR)
+      }
+      chainId = stored.chainId
+      safeAddress = stored.safeAddress
+      content = stored.message
+    } else if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      safeAddress = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const selected = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!selected) return
+      chainId = selected.chainId
+      safeAddress = selected.address
+    }
+
+    if (!content) {
+      if (options.message) {
+        content = options.message
+      } else if (options.typedData) {
+        content = loadTypedData(options.typedData)
+      } else if (isNonInteractiveMode()) {
+        outputError(
+          '--message or --typed-data is required in non-interactive mode',
+          ExitCode.INVALID_ARGS
+        )
+      } else {
+        const prompted = await promptMessageContent()
+        if (!prompted) return
+        content = prompted
+      }
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live owners, threshold and version from blockchain
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    let owners: Address[]
+    let threshold: number
+    let safeVersion: string
+    try {
+      const txService = new TransactionService(chain)
+      ;[owners, threshold, safeVersion] = await Promise.all([
+        txService.getOwners(safeAddress),
+        txService.getThreshold(safeAddress),
+        txService.getVersion(safeAddress),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    // Check if wallet is an owner
+    if (!owners.some((owner) => owner.toLowerCase() === activeWallet.address.toLowerCase())) {
+      outputError('Active wallet is not an owner of this Safe', ExitCode.ERROR)
+    }
+
+    const computedHash = new MessageService(chain).getMessageHash(safeAddress, content, safeVersion)
+    if (messageHash && computedHash.toLowerCase() !== messageHash.toLowerCase()) {
+      outputError(
+        `Message hash mismatch: stored ${messageHash}, computed ${computedHash}`,
+        ExitCode.ERROR
+      )
+    }
+    const selectedMessageHash = messageHash ?? computedHash
+
+    const existing = ctx.messageStore.getMessage(selectedMessageHash)
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Message Details:'))
+      console.log(`  Safe:         ${formatSafeAddress(safeAddress, chainId, ctx.chains)}`)
+      console.log(`  Message Hash: ${selectedMessageHash}`)
+      console.log('')
+      console.log(typeof content === 'string' ? content : JSON.stringify(content, null, 2))
+      console.log('')
+
+      const alreadySigned = existing?.signatures.some(
+        (sig) => sig.signer.toLowerCase() === activeWallet.address.toLowerCase()
+      )
+
+      const confirm = await p.confirm({
+        message: alreadySigned
+          ? 'You have already signed this message. Sign again?'
+          : 'Sign this message?',
+        initialValue: !alreadySigned,
+      })
+
+      if (!confirm || p.isCancel(confirm)) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    // Sign message based on wallet type
+    const spinner2 = !isNonInteractiveMode() ? p.spinner() : null
+    let signature: string
+
+    if (activeWallet.type === 'ledger') {
+      spinner2?.start('Connecting to Ledger device...')
+
+      try {
+        if (!(await LedgerService.isDeviceConnected())) {
+          spinner2?.stop('No Ledger device found')
+          outputError(
+            'No Ledger device found. Please connect your Ledger device and try again',
+            ExitCode.ERROR
+          )
+        }
+
+        const ledgerService = new LedgerService()
+        await ledgerService.connect()
+
+        spinner2?.message('Please confirm message on your Ledger device...')
+
+        signature = await new MessageService(chain).signMessageWithLedger(
+          safeAddress,
+          content,
+          ledgerService,
+          activeWallet.derivationPath,
+          safeVersion
+        )
+
+        await ledgerService.disconnect()
+
+        spinner2?.stop('Message signed')
+      } catch (error) {
+        spinner2?.stop('Failed')
+        outputError(
+          error instanceof Error ? error.message : 'Failed to sign with Ledger',
+          ExitCode.ERROR
+        )
+      }
+    } else {
+      const globalOptions = getGlobalOptions()
+      const password = await getPassword(
+        {
+          password: globalOptions.password,
+          passwordFile: globalOptions.passwordFile,
+          passwordEnv: 'SAFE_WALLET_PASSWORD',
+        },
+        'Enter wallet password'
+      )
+
+      if (!password) {
+        outputError('Password is required', ExitCode.AUTH_FAILURE)
+      }
+
+      spinner2?.start('Signing message')
+
+      let privateKey: string
+      try {
+        privateKey = ctx.walletStorage.getPrivateKey(activeWallet.id, password)
+      } catch {
+        spinner2?.stop('Failed')
+        outputError('Invalid password', ExitCode.AUTH_FAILURE)
+      }
+
+      signature = await new MessageService(chain, privateKey).signMessage(
+        safeAddress,
+        content,
+        safeVersion
+      )
+
+      spinner2?.stop('Message signed')
+    }
+
+    // Store message and signature
+    if (!existing) {
+      ctx.messageStore.createMessage(
+        selectedMessageHash,
+        safeAddress,
+        chainId,
+        content,
+        activeWallet.address as Address
+      )
+    }
+
+    ctx.messageStore.addSignature(selectedMessageHash, {
+      signer: activeWallet.address as Address,
+      signature,
+      signedAt: new Date().toISOString(),
+    })
+
+    const updated = ctx.messageStore.getMessage(selectedMessageHash)!
+    const currentSignatures = updated.signatures.length
+    const confirmed = currentSignatures >= threshold
+    const safeSignature = confirmed ? packSafeSignatures(updated.signatures) : undefined
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Message signed successfully', {
+        messageHash: selectedMessageHash,
+        safeAddress,
+        chainId,
+        signer: activeWallet.address,
+        currentSignatures,
+        requiredSignatures: threshold,
+        confirmed,
+        safeSignature,
+      })
+      return
+    }
+
+    console.log('')
+    console.log(`✓ Signature added (${currentSignatures}/${threshold} required)`)
+    console.log('')
+
+    if (safeSignature) {
+      console.log(pc.green('✓ Message is confirmed. Safe signature (EIP-1271):'))
+      console.log('')
+      console.log(safeSignature)
+      console.log('')
+      p.outro('Done!')
+      return
+    }
+
+    console.log(`Still need ${threshold - currentSignatures} more signature(s)`)
+    console.log('')
+
+    const shouldPush = await p.confirm({
+      message: 'Would you like to push this message to Safe Transaction Service?',
+      initialValue: true,
+    })
+
+    if (!p.isCancel(shouldPush) && shouldPush) {
+      console.log('')
+      const { pushMessage } = await import('./push.js')
+      await pushMessage(selectedMessageHash)
+    } else {
+      console.log('')
+      console.log(pc.dim('Share it later with:'))
+      console.log(`  ${pc.cyan(`safe msg push ${selectedMessageHash}`)}`)
+      console.log('')
+      p.outro('Done!')
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,88 @@
+import * as p from '@clack/prompts'
+import type { Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { selectMessage } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { packSafeSignatures } from '../../utils/safe-tx-hash.js'
+import { renderScreen } from '../../ui/render.js'
+import { MessageStatusScreen } from '../../ui/screens/index.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export async function showMessageStatus(messageHash?: string) {
+  try {
+    const ctx = createCommandContext()
+
+    let selectedMessageHash = messageHash
+
+    if (!selectedMessageHash) {
+      if (isNonInteractiveMode()) {
+        outputError('Message hash is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      p.intro('Safe Message Status')
+      const hash = await selectMessage(
+        ctx.messageStore,
+        ctx.safeStorage,
+        ctx.configStore,
+        'Select message'
+      )
+      if (!hash) return
+      selectedMessageHash = hash
+    }
+
+    const message = ctx.messageStore.getMessage(selectedMessageHash)
+    if (!message) {
+      outputError(`Message ${selectedMessageHash} not found`, ExitCode.ERROR)
+    }
+
+    const chain = ctx.configStore.getChain(message.chainId)
+    const safe = ctx.safeStorage.getSafe(message.chainId, message.safeAddress)
+
+    // Prefer live owners and threshold, fall back to the stored Safe
+    let owners = safe?.owners as Address[] | undefined
+    let threshold = safe?.threshold
+    if (chain) {
+      try {
+        const txService = new TransactionService(chain)
+        ;[owners, threshold] = await Promise.all([
+          txService.getOwners(message.safeAddress),
+          txService.getThreshold(message.safeAddress),
+        ])
+      } catch {
+        // Offline - use stored Safe info
+      }
+    }
+
+    const confirmed = threshold !== undefined && message.signatures.length >= threshold
+    const safeSignature = confirmed ? packSafeSignatures(message.signatures) : undefined
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Message status retrieved', {
+        ...message,
+        threshold,
+        confirmed,
+        safeSignature,
+      })
+      return
+    }
+
+    await renderScreen(MessageStatusScreen, {
+      messageHash: message.messageHash,
+      safeEip3770: formatSafeAddress(message.safeAddress, message.chainId, ctx.chains),
+      chainName: chain?.name || message.chainId,
+      message: message.message,
+      signatures: message.signatures,
+      threshold,
+      owners,
+      safeSignature,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,304 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { existsSync, readFileSync } from 'fs'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { TxBuilderParser } from '../../services/tx-builder-parser.js'
+import type { BatchCall } from '../../types/transaction.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionCreateSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+import { parseBatchCalls } from '../../utils/argument-parser.js'
+import { validateAndChecksumAddress } from '../../utils/validation.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { promptTransactionDetails } from './create.js'
+
+export interface TransactionBatchOptions {
+  file?: string
+  nonce?: string
+}
+
+interface BatchSource {
+  calls: BatchCall[]
+  // Safe the batch was built for (Transaction Builder files only)
+  chainId?: string
+  safeAddress?: Address
+  name?: string
+}
+
+/**
+ * Loads batch calls from a JSON file.
+ * Accepts the CLI batch format or a Safe Transaction Builder export.
+ */
+function loadBatchFile(filePath: string): BatchSource {
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch {
+    throw new Error(`Invalid JSON in ${filePath}`)
+  }
+
+  if (TxBuilderParser.isTxBuilderFormat(data)) {
+    const parsed = TxBuilderParser.parse(data)
+    return {
+      calls: parsed.transactions.map((tx) => ({
+        to: validateAndChecksumAddress(tx.to),
+        value: tx.value,
+        data: tx.data,
+      })),
+      chainId: parsed.chainId,
+      safeAddress: validateAndChecksumAddress(parsed.safeAddress),
+      name: parsed.meta.name,
+    }
+  }
+
+  return { calls: parseBatchCalls(data) }
+}
+
+/**
+ * Creates a single Safe transaction that executes several calls atomically
+ * through a delegatecall to the MultiSendCallOnly contract.
+ */
+export async function createBatchTransaction(
+  account?: string,
+  options: TransactionBatchOptions = {}
+) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Create Batch Transaction ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    if (!options.file && isNonInteractiveMode()) {
+      outputError('--file is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+
+    // Load calls from file if provided
+    let source: BatchSource | null = null
+    if (options.file) {
+      try {
+        source = loadBatchFile(options.file)
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Failed to load batch file',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    }
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      // Parse EIP-3770 address
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+
+      if (
+        source?.safeAddress &&
+        (source.chainId !== chainId || source.safeAddress.toLowerCase() !== address.toLowerCase())
+      ) {
+        outputError(
+          `Batch file was created for Safe ${source.safeAddress} on chain ${source.chainId}`,
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else if (source?.safeAddress && source.chainId) {
+      chainId = source.chainId
+      address = source.safeAddress
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      // Show interactive selection
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    // Get chain
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live owners from blockchain
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let currentNonce: number
+    try {
+      ;[owners, currentNonce] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        txService.getNonce(safe.address as Address),
+      ])
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    // Check if wallet is an owner
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    // Collect calls interactively when no file was given
+    const calls: BatchCall[] = source ? source.calls : []
+
+    if (!source) {
+      let addMore = true
+      while (addMore) {
+        console.log('')
+        console.log(pc.bold(`Call ${calls.length + 1}`))
+
+        const details = await promptTransactionDetails(chain, safe.chainId, ctx.chains)
+        if (!details) return
+        calls.push(details)
+
+        const another = await p.confirm({
+          message: 'Add another call to the batch?',
+          initialValue: calls.length < 2,
+        })
+
+        if (!checkCancelled(another)) return
+        addMore = another as boolean
+      }
+    }
+
+    if (calls.length < 2) {
+      outputError(
+        'A batch needs at least two calls (use "safe tx create" for a single call)',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    let nonce: number | undefined
+    if (options.nonce !== undefined) {
+      const nonceError = ctx.validator.validateNonce(options.nonce, currentNonce)
+      if (nonceError) {
+        outputError(nonceError, ExitCode.INVALID_ARGS)
+      }
+      nonce = parseInt(options.nonce, 10)
+    }
+
+    if (!isNonInteractiveMode()) {
+      // Show summary
+      console.log('')
+      console.log(pc.bold(`Batch Summary${source?.name ? `: ${source.name}` : ''}`))
+      calls.forEach((call, index) => {
+        const selector = call.data === '0x' ? 'no data' : call.data.slice(0, 10)
+        console.log(
+          `  ${pc.dim(`${index + 1}.`)} ${call.to}  ${call.value} wei  ${pc.dim(selector)}`
+        )
+      })
+      console.log('')
+
+      if (nonce === undefined) {
+        const nonceInput = await p.text({
+          message: 'Transaction nonce (leave empty for default)',
+          placeholder: `${currentNonce} (recommended: current nonce)`,
+          validate: (value) => ctx.validator.validateNonce(value, currentNonce),
+        })
+
+        if (!checkCancelled(nonceInput)) return
+        nonce = nonceInput ? parseInt(nonceInput as string, 10) : undefined
+      }
+
+      const confirm = await p.confirm({
+        message: `Create batch transaction with ${calls.length} calls?`,
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm) || !confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating batch transaction')
+
+    const createdTx = await txService.createBatchTransaction(safe.address as Address, calls, nonce)
+
+    // Store transaction together with its sub-calls
+    ctx.transactionStore.createTransaction(
+      createdTx.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      createdTx.metadata,
+      activeWallet.address as Address,
+      calls
+    )
+
+    createSpinner?.stop('Batch transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Batch transaction created successfully', {
+        safeTxHash: createdTx.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        multiSendAddress: createdTx.metadata.to,
+        nonce: createdTx.metadata.nonce,
+        calls,
+      })
+      return
+    }
+
+    console.log('')
+    console.log(`  Safe TX Hash: ${createdTx.safeTxHash}`)
+    console.log('')
+
+    // Offer to sign the transaction
+    const shouldSign = await p.confirm({
+      message: 'Would you like to sign this transaction now?',
+      initialValue: true,
+    })
+
+    if (!p.isCancel(shouldSign) && shouldSign) {
+      console.log('')
+      const { signTransaction } = await import('./sign.js')
+      await signTransaction(createdTx.safeTxHash)
+    } else {
+      // Show full success screen with next steps
+      await renderScreen(TransactionCreateSuccessScreen, {
+        safeTxHash: createdTx.safeTxHash,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
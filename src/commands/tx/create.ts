@@ -10,6 +10,7 @@ import { ABIService, type ABI, type ABIFunction } from '../../services/abi-servi
 import { TransactionBuilder } from '../../services/transaction-builder.js'
 import { getValidationService } from '../../services/validation-service.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
+import type { ChainConfig } from '../../types/config.js'
 import { renderScreen } from '../../ui/render.js'
 import { TransactionCreateSuccessScreen } from '../../ui/screens/index.js'
 import {
@@ -17,11 +18,38 @@ import {
   ensureChainConfigured,
   checkCancelled,
   handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
 } from '../../utils/command-helpers.js'
-import { ensureWalletIsOwner } from '../../utils/safe-helpers.js'
+import { ensureWalletIsOwner, parseAddressInput } from '../../utils/safe-helpers.js'
+import {
+  encodeFunctionCall,
+  parseFunctionCall,
+  parseOperationArgument,
+} from '../../utils/argument-parser.js'
+import {
+  analyzeNonceQueue,
+  getNonceWarnings,
+  isQueuedTransaction,
+} from '../../utils/nonce-queue.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export interface TransactionCreateOptions {
+  to?: string
+  value?: string
+  data?: string
+  operation?: string
+  nonce?: string
+  function?: string
+  args?: string
+  replace?: string
+}
 
-export async function createTransaction() {
-  p.intro('Create Safe Transaction')
+export async function createTransaction(account?: string, options: TransactionCreateOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Create Safe Transaction')
+  }
 
   try {
     const safeStorage = getSafeStorage()
@@ -33,39 +61,99 @@ export async function createTransaction() {
     const activeWallet = ensureActiveWallet(walletStorage)
     if (!activeWallet) return
 
-    // Get all Safes
-    const safes = safeStorage.getAllSafes()
-    if (safes.length === 0) {
-      p.log.error('No Safes found. Please create a Safe first.')
-      p.outro('Setup required')
-      return
+    const chains = configStore.getAllChains()
+
+    // Transaction details come from flags when --to is given (always in non-interactive mode)
+    const useFlags = options.to !== undefined || isNonInteractiveMode()
+
+    if (useFlags && !options.to) {
+      outputError('--to is required in non-interactive mode', ExitCode.INVALID_ARGS)
     }
 
-    const chains = configStore.getAllChains()
+    if (options.data && options.function) {
+      outputError('Use either --data or --function, not both', ExitCode.INVALID_ARGS)
+    }
+
+    if (options.args && !options.function) {
+      outputError('--args can only be used together with --function', ExitCode.INVALID_ARGS)
+    }
+
+    // A replacement reuses the nonce (and Safe) of a queued transaction
+    const replaced = options.replace ? transactionStore.getTransaction(options.replace) : undefined
+
+    if (options.replace) {
+      if (!replaced) {
+        outputError(`Transaction ${options.replace} not found`, ExitCode.ERROR)
+      }
+      if (!isQueuedTransaction(replaced) || replaced.metadata.nonce === undefined) {
+        outputError(
+          `Transaction ${options.replace} is ${replaced.status} and cannot be replaced`,
+          ExitCode.ERROR
+        )
+      }
+      if (options.nonce !== undefined && parseInt(options.nonce, 10) !== replaced.metadata.nonce) {
+        outputError(
+          `--nonce ${options.nonce} conflicts with --replace (nonce ${replaced.metadata.nonce})`,
+          ExitCode.INVALID_ARGS
+        )
+      }
+    }
 
     // Select Safe
-    const safeKey = (await p.select({
-      message: 'Select Safe to create transaction for',
-      options: safes.map((safe) => {
-        const eip3770 = formatSafeAddress(safe.address as Address, safe.chainId, chains)
-        const chain = configStore.getChain(safe.chainId)
-
-        return {
-          value: `${safe.chainId}:${safe.address}`,
-          label: `${safe.name} (${eip3770})`,
-          hint: chain?.name || safe.chainId,
+    let chainId: string
+    let address: Address
+
+    if (replaced) {
+      chainId = replaced.chainId
+      address = replaced.safeAddress
+
+      if (account) {
+        const parsed = parseAddressInput(account, chains)
+        if (!parsed) return
+        if (parsed.chainId !== chainId || parsed.address.toLowerCase() !== address.toLowerCase()) {
+          outputError('Transaction to replace belongs to a different Safe', ExitCode.INVALID_ARGS)
         }
-      }),
-    })) as string
+      }
+    } else if (account) {
+      // Parse EIP-3770 address
+      const parsed = parseAddressInput(account, chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+
+      // Get all Safes
+      const safes = safeStorage.getAllSafes()
+      if (safes.length === 0) {
+        p.log.error('No Safes found. Please create a Safe first.')
+        p.outro('Setup required')
+        return
+      }
 
-    if (!checkCancelled(safeKey)) return
+      const safeKey = (await p.select({
+        message: 'Select Safe to create transaction for',
+        options: safes.map((safe) => {
+          const eip3770 = formatSafeAddress(safe.address as Address, safe.chainId, chains)
+          const chain = configStore.getChain(safe.chainId)
+
+          return {
+            value: `${safe.chainId}:${safe.address}`,
+            label: `${safe.name} (${eip3770})`,
+            hint: chain?.name || safe.chainId,
+          }
+        }),
+      })) as string
 
-    const [chainId, address] = safeKey.split(':')
-    const safe = safeStorage.getSafe(chainId, address as Address)
+      if (!checkCancelled(safeKey)) return
+      ;[chainId, address] = safeKey.split(':') as [string, Address]
+    }
+
+    const safe = safeStorage.getSafe(chainId, address)
     if (!safe) {
-      p.log.error('Safe not found')
-      p.outro('Failed')
-      return
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
     }
 
     // Get chain
@@ -73,263 +161,154 @@ export async function createTransaction() {
     if (!chain) return
 
     // Fetch live owners from blockchain
-    const spinner = p.spinner()
-    spinner.start('Fetching Safe information from blockchain...')
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
 
     let owners: Address[]
     try {
       const txService = new TransactionService(chain)
-      owners = await txService.getOwners(address as Address)
-      spinner.stop('Safe information fetched')
+      owners = await txService.getOwners(safe.address as Address)
+      spinner?.stop('Safe information fetched')
     } catch (error) {
-      spinner.stop('Failed to fetch Safe information')
-      p.log.error(
-        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain'
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
       )
-      p.outro('Failed')
-      return
     }
 
     // Check if wallet is an owner
     if (!ensureWalletIsOwner(activeWallet, owners)) return
 
-    // Get transaction details
-    const toInput = await p.text({
-      message: 'To address (supports EIP-3770 format: shortName:address)',
-      placeholder: '0x... or eth:0x...',
-      validate: (value) => validator.validateAddressWithChain(value, chainId, chains),
-    })
-
-    if (!checkCancelled(toInput)) return
-
-    // Checksum the address (strips EIP-3770 prefix if present)
-    const to = validator.assertAddressWithChain(toInput as string, chainId, chains, 'To address')
-
-    // Check if address is a contract
-    const contractService = new ContractService(chain)
-    let isContract = false
+    let to: Address
     let value = '0'
     let data: `0x${string}` = '0x'
 
-    const spinner2 = p.spinner()
-    spinner2.start('Checking if address is a contract...')
-
-    try {
-      isContract = await contractService.isContract(to)
-      spinner2.stop(isContract ? 'Contract detected' : 'EOA (regular address)')
-    } catch {
-      spinner2.stop('Failed to check contract')
-      p.log.warning('Could not determine if address is a contract, falling back to manual input')
-    }
-
-    // If contract, try to fetch ABI and use transaction builder
-    if (isContract) {
-      console.log('')
-      console.log('Attempting to fetch contract ABI...')
-
-      const config = configStore.getConfig()
-      const etherscanApiKey = config.preferences?.etherscanApiKey
-
-      // Inform user about ABI source based on API key availability
-      if (!etherscanApiKey) {
-        console.log('  Using Sourcify for ABI (free, no API key required)')
-        console.log('  Note: Proxy contract detection requires an Etherscan API key')
-      }
-
-      const abiService = new ABIService(chain, etherscanApiKey)
-      let abi: ABI | null = null
-      let contractName: string | undefined
-
+    if (useFlags) {
       try {
-        const contractInfo = await abiService.fetchContractInfo(to)
-        abi = contractInfo.abi
-        contractName = contractInfo.name
-        const implementationAddress = contractInfo.implementation
-
-        // Check if Etherscan detected this as a proxy
-        if (implementationAddress) {
-          console.log(`✓ Proxy detected! Implementation: ${implementationAddress}`)
+        to = validator.assertAddressWithChain(options.to!, chainId, chains, 'To address')
 
-          if (contractName) {
-            console.log(`✓ Proxy ABI found: ${contractName}`)
-          } else {
-            console.log('✓ Proxy ABI found!')
-          }
-        } else {
-          if (contractName) {
-            console.log(`✓ Contract ABI found: ${contractName}`)
-          } else {
-            console.log('✓ Contract ABI found!')
-          }
+        if (options.value !== undefined) {
+          const valueError = validator.validateWeiValue(options.value)
+          if (valueError) throw new Error(`Value: ${valueError}`)
+          value = BigInt(options.value).toString()
         }
 
-        // If proxy, also fetch implementation ABI and merge
-        if (implementationAddress) {
-          try {
-            const implInfo = await abiService.fetchContractInfo(implementationAddress)
-            const implAbi = implInfo.abi
-
-            // Use implementation name as the main contract name
-            if (implInfo.name) {
-              contractName = implInfo.name
-              console.log(`✓ Implementation ABI found: ${implInfo.name}`)
-            } else {
-              console.log('✓ Implementation ABI found!')
-            }
-
-            // Merge ABIs (implementation functions + proxy functions)
-            // Filter out duplicates by function signature
-            const combinedAbi = [...implAbi]
-            const existingSignatures = new Set(
-              (implAbi.filter((item) => item.type === 'function') as ABIFunction[]).map(
-                (item) => `${item.name}(${item.inputs?.map((i) => i.type).join(',') || ''})`
-              )
-            )
-
-            for (const item of abi) {
-              if (item.type === 'function') {
-                const funcItem = item as ABIFunction
-                const sig = `${funcItem.name}(${funcItem.inputs?.map((i) => i.type).join(',') || ''})`
-                if (!existingSignatures.has(sig)) {
-                  combinedAbi.push(item)
-                }
-              } else {
-                // Include events, errors, etc.
-                combinedAbi.push(item)
-              }
-            }
-
-            abi = combinedAbi
-            console.log(`  Combined: ${abi.length} items total`)
-          } catch {
-            console.log('⚠ Could not fetch implementation ABI, using proxy ABI only')
-            console.log(`  Found ${abi.length} items in proxy ABI`)
-          }
-        } else {
-          console.log(`  Found ${abi.length} items in ABI`)
-        }
-      } catch {
-        console.log('⚠ Could not fetch ABI')
-        console.log('  Contract may not be verified. Falling back to manual input.')
-      }
-
-      // If ABI found, offer transaction builder
-      if (abi) {
-        const functions = abiService.extractFunctions(abi)
-
-        console.log('')
-        if (functions.length > 0) {
-          console.log(`✓ Found ${functions.length} writable function(s)`)
-
-          const useBuilder = await p.confirm({
-            message: 'Use transaction builder to interact with contract?',
-            initialValue: true,
-          })
-
-          if (!checkCancelled(useBuilder)) return
-
-          if (useBuilder) {
-            // Show function selector with pagination
-            // Use function signature as unique identifier to handle overloaded functions
-            const selectedFuncSig = await p.select({
-              message: 'Select function to call:',
-              options: functions.map((func) => {
-                const signature = `${func.name}(${func.inputs?.map((i) => i.type).join(',') || ''})`
-                return {
-                  value: signature,
-                  label: abiService.formatFunctionSignature(func),
-                  hint: func.stateMutability === 'payable' ? 'payable' : undefined,
-                }
-              }),
-              maxItems: 15, // Limit visible items for pagination
-            })
-
-            if (!checkCancelled(selectedFuncSig)) return
-
-            const func = functions.find((f) => {
-              const sig = `${f.name}(${f.inputs?.map((i) => i.type).join(',') || ''})`
-              return sig === selectedFuncSig
-            })
-            if (!func) {
-              p.log.error('Function not found')
-              p.outro('Failed')
-              return
-            }
-
-            // Build transaction using interactive builder
-            const builder = new TransactionBuilder(abi, chainId, chains)
-            const result = await builder.buildFunctionCall(func)
-
-            value = result.value
-            data = result.data
-          }
-        } else {
-          console.log('⚠ No writable functions found in ABI')
-          console.log('  Contract may only have view/pure functions')
-          console.log('  Falling back to manual input')
+        if (options.function) {
+          data = encodeFunctionCall(parseFunctionCall(options.function, options.args))
+        } else if (options.data !== undefined) {
+          const dataError = validator.validateHexData(options.data)
+          if (dataError) throw new Error(`Data: ${dataError}`)
+          data = options.data as `0x${string}`
         }
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid transaction arguments',
+          ExitCode.INVALID_ARGS
+        )
       }
+    } else {
+      const details = await promptTransactionDetails(chain, chainId, chains)
+      if (!details) return
+      ;({ to, value, data } = details)
     }
 
-    // Manual input if not using transaction builder
-    if (data === '0x') {
-      value = (await p.text({
-        message: 'Value in wei (0 for token transfer)',
-        placeholder: '0',
-        initialValue: '0',
-        validate: (val) => validator.validateWeiValue(val),
-      })) as string
-
-      if (!checkCancelled(value)) return
-
-      data = (await p.text({
-        message: 'Transaction data (hex)',
-        placeholder: '0x',
-        initialValue: '0x',
-        validate: (val) => validator.validateHexData(val),
-      })) as `0x${string}`
-
-      if (!checkCancelled(data)) return
+    let operation: 0 | 1
+    if (options.operation !== undefined) {
+      try {
+        operation = parseOperationArgument(options.operation)
+      } catch (error) {
+        outputError(
+          error instanceof Error ? error.message : 'Invalid operation',
+          ExitCode.INVALID_ARGS
+        )
+      }
+    } else if (useFlags) {
+      operation = 0
+    } else {
+      const selectedOperation = (await p.select({
+        message: 'Operation type',
+        options: [
+          { value: 0, label: 'Call', hint: 'Standard transaction call' },
+          { value: 1, label: 'DelegateCall', hint: 'Delegate call (advanced)' },
+        ],
+        initialValue: 0,
+      })) as number as 0 | 1
+
+      if (!checkCancelled(selectedOperation)) return
+      operation = selectedOperation
     }
 
-    const operation = (await p.select({
-      message: 'Operation type',
-      options: [
-        { value: 0, label: 'Call', hint: 'Standard transaction call' },
-        { value: 1, label: 'DelegateCall', hint: 'Delegate call (advanced)' },
-      ],
-      initialValue: 0,
-    })) as number as 0 | 1
-
-    if (!checkCancelled(operation)) return
-
     // Get current Safe nonce for recommendation
     const txService = new TransactionService(chain)
     let currentNonce: number
     try {
       currentNonce = await txService.getNonce(safe.address as Address)
     } catch (error) {
-      p.log.error(
-        `Failed to get Safe nonce: ${error instanceof Error ? error.message : 'Unknown error'}`
+      outputError(
+        `Failed to get Safe nonce: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExitCode.NETWORK_ERROR
       )
-      p.outro('Failed')
-      return
     }
 
-    // Ask for nonce (optional, with recommended value)
-    const nonceInput = (await p.text({
-      message: 'Transaction nonce (leave empty for default)',
-      placeholder: `${currentNonce} (recommended: current nonce)`,
-      validate: (value) => validator.validateNonce(value, currentNonce),
-    })) as string
+    const queue = analyzeNonceQueue(
+      transactionStore.getTransactionsBySafe(safe.address as Address, safe.chainId),
+      currentNonce
+    )
 
-    if (!checkCancelled(nonceInput)) return
+    let nonce: number | undefined
+    if (replaced) {
+      nonce = replaced.metadata.nonce!
+      if (nonce < currentNonce) {
+        outputError(
+          `Transaction ${replaced.safeTxHash} is stale: nonce ${nonce} is already used on-chain`,
+          ExitCode.ERROR
+        )
+      }
+    } else if (options.nonce !== undefined) {
+      const nonceError = validator.validateNonce(options.nonce, currentNonce)
+      if (nonceError) {
+        outputError(nonceError, ExitCode.INVALID_ARGS)
+      }
+      nonce = parseInt(options.nonce, 10)
+    } else if (!useFlags) {
+      // Ask for nonce (optional, with recommended value)
+      const nonceInput = (await p.text({
+        message: 'Transaction nonce (leave empty for default)',
+        placeholder:
+          queue.nextNonce === currentNonce
+            ? `${currentNonce} (recommended: current nonce)`
+            : `${currentNonce} (current nonce, next free nonce: ${queue.nextNonce})`,
+        validate: (value) => validator.validateNonce(value, currentNonce),
+      })) as string
 
-    const nonce = nonceInput ? parseInt(nonceInput, 10) : undefined
+      if (!checkCancelled(nonceInput)) return
+
+      nonce = nonceInput ? parseInt(nonceInput, 10) : undefined
+    }
+
+    // Warn about nonces that are already taken or leave a gap in the queue
+    const nonceWarnings = replaced ? [] : getNonceWarnings(queue, nonce ?? currentNonce)
+    if (nonceWarnings.length > 0 && !isNonInteractiveMode()) {
+      for (const warning of nonceWarnings) {
+        p.log.warn(warning)
+      }
+
+      const proceed = await p.confirm({
+        message: 'Create the transaction anyway?',
+        initialValue: false,
+      })
+
+      if (!checkCancelled(proceed)) return
+      if (!proceed) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
 
     // Create transaction
-    const createSpinner = p.spinner()
-    createSpinner.start('Creating transaction')
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating transaction')
 
     const createdTx = await txService.createTransaction(safe.address as Address, {
       to,
@@ -348,13 +327,33 @@ export async function createTransaction() {
       activeWallet.address as Address
     )
 
-    createSpinner.stop()
+    createSpinner?.stop()
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Transaction created successfully', {
+        safeTxHash: createdTx.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        to: createdTx.metadata.to,
+        value: createdTx.metadata.value,
+        data: createdTx.metadata.data,
+        operation: createdTx.metadata.operation,
+        nonce: createdTx.metadata.nonce,
+        replaces: replaced?.safeTxHash,
+        warnings: nonceWarnings.length > 0 ? nonceWarnings : undefined,
+      })
+      return
+    }
 
     // Show transaction hash
     console.log('')
     console.log('✓ Transaction created successfully!')
     console.log('')
     console.log(`  Safe TX Hash: ${createdTx.safeTxHash}`)
+    if (replaced) {
+      console.log(`  Replaces:     ${replaced.safeTxHash} (nonce ${nonce})`)
+    }
     console.log('')
 
     // Offer to sign the transaction
@@ -377,3 +376,218 @@ export async function createTransaction() {
     handleCommandError(error)
   }
 }
+
+/**
+ * Interactively collects the destination, value and data of a transaction.
+ * Offers the ABI-based transaction builder when the destination is a verified contract.
+ * @returns Transaction details, or null if cancelled
+ */
+export async function promptTransactionDetails(
+  chain: ChainConfig,
+  chainId: string,
+  chains: Record<string, ChainConfig>
+): Promise<{ to: Address; value: string; data: `0x${string}` } | null> {
+  const configStore = getConfigStore()
+  const validator = getValidationService()
+
+  // Get transaction details
+  const toInput = await p.text({
+    message: 'To address (supports EIP-3770 format: shortName:address)',
+    placeholder: '0x... or eth:0x...',
+    validate: (value) => validator.validateAddressWithChain(value, chainId, chains),
+  })
+
+  if (!checkCancelled(toInput)) return null
+
+  // Checksum the address (strips EIP-3770 prefix if present)
+  const to = validator.assertAddressWithChain(toInput as string, chainId, chains, 'To address')
+
+  // Check if address is a contract
+  const contractService = new ContractService(chain)
+  let isContract = false
+  let value = '0'
+  let data: `0x${string}` = '0x'
+
+  const spinner = p.spinner()
+  spinner.start('Checking if address is a contract...')
+
+  try {
+    isContract = await contractService.isContract(to)
+    spinner.stop(isContract ? 'Contract detected' : 'EOA (regular address)')
+  } catch {
+    spinner.stop('Failed to check contract')
+    p.log.warning('Could not determine if address is a contract, falling back to manual input')
+  }
+
+  // If contract, try to fetch ABI and use transaction builder
+  if (isContract) {
+    console.log('')
+    console.log('Attempting to fetch contract ABI...')
+
+    const config = configStore.getConfig()
+    const etherscanApiKey = config.preferences?.etherscanApiKey
+
+    // Inform user about ABI source based on API key availability
+    if (!etherscanApiKey) {
+      console.log('  Using Sourcify for ABI (free, no API key required)')
+      console.log('  Note: Proxy contract detection requires an Etherscan API key')
+    }
+
+    const abiService = new ABIService(chain, etherscanApiKey)
+    let abi: ABI | null = null
+    let contractName: string | undefined
+
+    try {
+      const contractInfo = await abiService.fetchContractInfo(to)
+      abi = contractInfo.abi
+      contractName = contractInfo.name
+      const implementationAddress = contractInfo.implementation
+
+      // Check if Etherscan detected this as a proxy
+      if (implementationAddress) {
+        console.log(`✓ Proxy detected! Implementation: ${implementationAddress}`)
+
+        if (contractName) {
+          console.log(`✓ Proxy ABI found: ${contractName}`)
+        } else {
+          console.log('✓ Proxy ABI found!')
+        }
+      } else {
+        if (contractName) {
+          console.log(`✓ Contract ABI found: ${contractName}`)
+        } else {
+          console.log('✓ Contract ABI found!')
+        }
+      }
+
+      // If proxy, also fetch implementation ABI and merge
+      if (implementationAddress) {
+        try {
+          const implInfo = await abiService.fetchContractInfo(implementationAddress)
+          const implAbi = implInfo.abi
+
+          // Use implementation name as the main contract name
+          if (implInfo.name) {
+            contractName = implInfo.name
+            console.log(`✓ Implementation ABI found: ${implInfo.name}`)
+          } else {
+            console.log('✓ Implementation ABI found!')
+          }
+
+          // Merge ABIs (implementation functions + proxy functions)
+          // Filter out duplicates by function signature
+          const combinedAbi = [...implAbi]
+          const existingSignatures = new Set(
+            (implAbi.filter((item) => item.type === 'function') as ABIFunction[]).map(
+              (item) => `${item.name}(${item.inputs?.map((i) => i.type).join(',') || ''})`
+            )
+          )
+
+          for (const item of abi) {
+            if (item.type === 'function') {
+              const funcItem = item as ABIFunction
+              const sig = `${funcItem.name}(${funcItem.inputs?.map((i) => i.type).join(',') || ''})`
+              if (!existingSignatures.has(sig)) {
+                combinedAbi.push(item)
+              }
+            } else {
+              // Include events, errors, etc.
+              combinedAbi.push(item)
+            }
+          }
+
+          abi = combinedAbi
+          console.log(`  Combined: ${abi.length} items total`)
+        } catch {
+          console.log('⚠ Could not fetch implementation ABI, using proxy ABI only')
+          console.log(`  Found ${abi.length} items in proxy ABI`)
+        }
+      } else {
+        console.log(`  Found ${abi.length} items in ABI`)
+      }
+    } catch {
+      console.log('⚠ Could not fetch ABI')
+      console.log('  Contract may not be verified. Falling back to manual input.')
+    }
+
+    // If ABI found, offer transaction builder
+    if (abi) {
+      const functions = abiService.extractFunctions(abi)
+
+      console.log('')
+      if (functions.length > 0) {
+        console.log(`✓ Found ${functions.length} writable function(s)`)
+
+        const useBuilder = await p.confirm({
+          message: 'Use transaction builder to interact with contract?',
+          initialValue: true,
+        })
+
+        if (!checkCancelled(useBuilder)) return null
+
+        if (useBuilder) {
+          // Show function selector with pagination
+          // Use function signature as unique identifier to handle overloaded functions
+          const selectedFuncSig = await p.select({
+            message: 'Select function to call:',
+            options: functions.map((func) => {
+              const signature = `${func.name}(${func.inputs?.map((i) => i.type).join(',') || ''})`
+              return {
+                value: signature,
+                label: abiService.formatFunctionSignature(func),
+                hint: func.stateMutability === 'payable' ? 'payable' : undefined,
+              }
+            }),
+            maxItems: 15, // Limit visible items for pagination
+          })
+
+          if (!checkCancelled(selectedFuncSig)) return null
+
+          const func = functions.find((f) => {
+            const sig = `${f.name}(${f.inputs?.map((i) => i.type).join(',') || ''})`
+            return sig === selectedFuncSig
+          })
+          if (!func) {
+            p.log.error('Function not found')
+            p.outro('Failed')
+            return null
+          }
+
+          // Build transaction using interactive builder
+          const builder = new TransactionBuilder(abi, chainId, chains)
+          const result = await builder.buildFunctionCall(func)
+
+          value = result.value
+          data = result.data
+        }
+      } else {
+        console.log('⚠ No writable functions found in ABI')
+        console.log('  Contract may only have view/pure functions')
+        console.log('  Falling back to manual input')
+      }
+    }
+  }
+
+  // Manual input if not using transaction builder
+  if (data === '0x') {
+    value = (await p.text({
+      message: 'Value in wei (0 for token transfer)',
+      placeholder: '0',
+      initialValue: '0',
+      validate: (val) => validator.validateWeiValue(val),
+    })) as string
+
+    if (!checkCancelled(value)) return null
+
+    data = (await p.text({
+      message: 'Transaction data (hex)',
+      placeholder: '0x',
+      initialValue: '0x',
+      validate: (val) => validator.validateHexData(val),
+    })) as `0x${string}`
+
+    if (!checkCancelled(data)) return null
+  }
+
+  return { to, value, data }
+}
@@ -1,6 +1,20 @@
 import * as p from '@clack/prompts'
-import type { Address } from 'viem'
+import { formatEther, formatGwei, type Address } from 'viem'
 import { TransactionService } from '../../services/transaction-service.js'
+import {
+  EXECUTION_METHODS,
+  EoaExecutionProvider,
+  LedgerExecutionProvider,
+  RelayExecutionProvider,
+  type ExecutionMethod,
+  type ExecutionProvider,
+  type PreparedExecution,
+  type RelayTaskStatus,
+} from '../../services/execution-provider.js'
+import { LedgerService } from '../../services/ledger-service.js'
+import type { ConfigStore } from '../../storage/config-store.js'
+import type { TransactionStore } from '../../storage/transaction-store.js'
+import type { ChainConfig } from '../../types/config.js'
 import { TransactionStatus } from '../../types/transaction.js'
 import { renderScreen } from '../../ui/render.js'
 import { TransactionExecuteSuccessScreen } from '../../ui/screens/index.js'
@@ -16,9 +30,57 @@ import {
 import { selectTransaction } from '../../utils/safe-helpers.js'
 import { getPassword } from '../../utils/password-handler.js'
 import { getGlobalOptions } from '../../types/global-options.js'
+import { SafeCLIError } from '../../utils/errors.js'
 import { ExitCode } from '../../constants/exit-codes.js'
+import { runPreflightSimulation } from './simulate.js'
+
+export interface TransactionExecuteOptions {
+  skipSimulation?: boolean
+  via?: string
+  relayUrl?: string
+}
+
+/**
+ * Relayer for a chain, from --relay-url or the relayUrl/relayApiKey preferences
+ */
+export function createRelayProvider(
+  chain: ChainConfig,
+  configStore: ConfigStore,
+  relayUrl?: string
+): RelayExecutionProvider {
+  const preferences = configStore.getPreferences()
+  return new RelayExecutionProvider(
+    chain,
+    relayUrl ?? preferences?.relayUrl,
+    preferences?.relayApiKey
+  )
+}
+
+/**
+ * Record the outcome of a relayer task on the stored transaction
+ * @returns Hashes of same-nonce transactions marked rejected once the task succeeded
+ */
+export function applyRelayTaskStatus(
+  transactionStore: TransactionStore,
+  safeTxHash: string,
+  status: RelayTaskStatus
+): string[] {
+  // Without a transaction hash the task is treated as still pending
+  if (status.state === 'success' && status.txHash) {
+    transactionStore.updateStatus(safeTxHash, TransactionStatus.EXECUTED, status.txHash)
+    return transactionStore.rejectSameNonceTransactions(safeTxHash)
+  }
+  if (status.state === 'failed') {
+    // Allows submitting again
+    transactionStore.setRelayTask(safeTxHash, undefined)
+  }
+  return []
+}
 
-export async function executeTransaction(safeTxHash?: string) {
+export async function executeTransaction(
+  safeTxHash?: string,
+  options: TransactionExecuteOptions = {}
+) {
   if (!isNonInteractiveMode()) {
     p.intro('Execute Safe Transaction')
   }
@@ -26,8 +88,37 @@ export async function executeTransaction(safeTxHash?: string) {
   try {
     const ctx = createCommandContext()
 
-    const activeWallet = ensureActiveWallet(ctx.walletStorage)
-    if (!activeWallet) return
+    if (options.via && !EXECUTION_METHODS.includes(options.via as ExecutionMethod)) {
+      outputError(
+        `Invalid execution method: ${options.via}. Use ${EXECUTION_METHODS.join(', ')}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Relayers execute on behalf of anyone, so no wallet is needed
+    const activeWallet =
+      options.via === 'relay'
+        ? ctx.walletStorage.getActiveWallet()
+        : ensureActiveWallet(ctx.walletStorage)
+    if (options.via !== 'relay' && !activeWallet) return
+
+    const via = (options.via ??
+      (activeWallet?.type === 'ledger' ? 'ledger' : 'eoa')) as ExecutionMethod
+    if (via === 'ledger' && activeWallet?.type !== 'ledger') {
+      outputError('Executing with --via ledger requires an active Ledger wallet', ExitCode.ERROR)
+    }
+    if (via === 'eoa' && activeWallet?.type === 'ledger') {
+      outputError(
+        'Ledger wallets cannot execute with a private key. Use --via ledger',
+        ExitCode.ERROR
+      )
+    }
+    if (via === 'eoa' && activeWallet?.type === 'watch-only') {
+      outputError(
+        'Watch-only wallets cannot send transactions. Use --via relay or switch wallets',
+        ExitCode.ERROR
+      )
+    }
 
     // Get transaction to execute
     let selectedSafeTxHash = safeTxHash
@@ -60,6 +151,17 @@ export async function executeTransaction(safeTxHash?: string) {
       outputError('Transaction has been rejected', ExitCode.ERROR)
     }
 
+    if (transaction.status === TransactionStatus.REPLACED) {
+      outputError('Transaction has been replaced (its nonce is already used)', ExitCode.ERROR)
+    }
+
+    if (transaction.relayTaskId) {
+      outputError(
+        `Transaction was already submitted to the relayer (task ${transaction.relayTaskId}). Check it with "safe tx status ${selectedSafeTxHash}"`,
+        ExitCode.ERROR
+      )
+    }
+
     // Get Safe info
     const safe = ctx.safeStorage.getSafe(transaction.chainId, transaction.safeAddress)
     if (!safe) {
@@ -92,7 +194,10 @@ export async function executeTransaction(safeTxHash?: string) {
     }
 
     // Check if wallet is an owner
-    if (!owners.some((owner) => owner.toLowerCase() === activeWallet.address.toLowerCase())) {
+    if (
+      via !== 'relay' &&
+      !owners.some((owner) => owner.toLowerCase() === activeWallet!.address.toLowerCase())
+    ) {
       outputError('Active wallet is not an owner of this Safe', ExitCode.ERROR)
     }
 
@@ -102,6 +207,48 @@ export async function executeTransaction(safeTxHash?: string) {
       outputError(`Not enough signatures. Have ${sigCount}, need ${threshold}`, ExitCode.ERROR)
     }
 
+    // Make sure the transaction would not revert before paying for gas
+    if (!options.skipSimulation && !(await runPreflightSimulation(chain, transaction))) {
+      return
+    }
+
+    const signatures = (transaction.signatures || []).map((sig) => ({
+      signer: sig.signer,
+      signature: sig.signature,
+    }))
+
+    // Ledger executions are built up front so gas and fees can be reviewed before the device prompt
+    let ledgerService: LedgerService | undefined
+    let ledgerExecution:
+      | { provider: LedgerExecutionProvider; prepared: PreparedExecution }
+      | undefined
+    if (via === 'ledger' && activeWallet?.type === 'ledger') {
+      ledgerService = new LedgerService()
+      const ledgerProvider = new LedgerExecutionProvider(
+        chain,
+        ledgerService,
+        activeWallet.derivationPath,
+        activeWallet.address as Address
+      )
+
+      spinner?.start('Estimating gas and fees...')
+      try {
+        const prepared = await ledgerProvider.prepare(
+          transaction.safeAddress,
+          transaction.metadata,
+          signatures
+        )
+        ledgerExecution = { provider: ledgerProvider, prepared }
+        spinner?.stop('Gas and fees estimated')
+      } catch (error) {
+        spinner?.stop('Failed to estimate gas')
+        outputError(
+          error instanceof Error ? error.message : 'Failed to estimate gas',
+          ExitCode.NETWORK_ERROR
+        )
+      }
+    }
+
     if (!isNonInteractiveMode()) {
       // Display transaction details
       console.log('\nTransaction Details:')
@@ -109,10 +256,25 @@ export async function executeTransaction(safeTxHash?: string) {
       console.log(`  Value: ${transaction.metadata.value} wei`)
       console.log(`  Data: ${transaction.metadata.data}`)
       console.log(`  Operation: ${transaction.metadata.operation === 0 ? 'Call' : 'DelegateCall'}`)
+      if (transaction.batch) {
+        console.log(`  Batch: ${transaction.batch.length} calls via MultiSend`)
+      }
       console.log(`  Signatures: ${sigCount}/${threshold}`)
+      console.log(`  Executed via: ${via}`)
+      if (ledgerExecution) {
+        const { transaction: ethTx, maxCost } = ledgerExecution.prepared
+        console.log(`  Gas limit: ${ethTx.gas}`)
+        console.log(
+          `  Max fee: ${formatGwei(ethTx.maxFeePerGas!)} gwei (priority ${formatGwei(ethTx.maxPriorityFeePerGas!)} gwei)`
+        )
+        console.log(`  Max cost: ${formatEther(maxCost)} ${chain.currency}`)
+      }
 
       const confirm = await p.confirm({
-        message: 'Execute this transaction on-chain?',
+        message:
+          via === 'relay'
+            ? 'Submit this transaction to the relayer?'
+            : 'Execute this transaction on-chain?',
         initialValue: false,
       })
 
@@ -122,50 +284,106 @@ export async function executeTransaction(safeTxHash?: string) {
       }
     }
 
-    // Request password using centralized handler
-    const globalOptions = getGlobalOptions()
-    const password = await getPassword(
-      {
-        password: globalOptions.password,
-        passwordFile: globalOptions.passwordFile,
-        passwordEnv: 'SAFE_WALLET_PASSWORD',
-      },
-      'Enter wallet password'
-    )
+    let provider: ExecutionProvider
+    let relay: RelayExecutionProvider | undefined
+    if (via === 'relay') {
+      relay = createRelayProvider(chain, ctx.configStore, options.relayUrl)
+      provider = relay
+    } else if (ledgerExecution) {
+      provider = ledgerExecution.provider
+    } else {
+      // Request password using centralized handler
+      const globalOptions = getGlobalOptions()
+      const password = await getPassword(
+        {
+          password: globalOptions.password,
+          passwordFile: globalOptions.passwordFile,
+          passwordEnv: 'SAFE_WALLET_PASSWORD',
+        },
+        'Enter wallet password'
+      )
 
-    if (!password) {
-      outputError('Password is required', ExitCode.AUTH_FAILURE)
+      if (!password) {
+        outputError('Password is required', ExitCode.AUTH_FAILURE)
+      }
+
+      let privateKey: string
+      try {
+        privateKey = ctx.walletStorage.getPrivateKey(activeWallet!.id, password)
+      } catch {
+        outputError('Invalid password', ExitCode.AUTH_FAILURE)
+      }
+      provider = new EoaExecutionProvider(chain, privateKey)
     }
 
-    // Get private key
     const spinner2 = !isNonInteractiveMode() ? p.spinner() : null
-    spinner2?.start('Executing transaction')
-
-    let privateKey: string
+    let txHash: string
+    let rejectedTxHashes: string[] | undefined
     try {
-      privateKey = ctx.walletStorage.getPrivateKey(activeWallet.id, password)
-    } catch {
+      if (ledgerService) {
+        spinner2?.start('Connecting to Ledger device...')
+        await ledgerService.connect()
+        spinner2?.message('Review gas and fees and confirm on your Ledger device...')
+      } else {
+        spinner2?.start(via === 'relay' ? 'Submitting to relayer' : 'Executing transaction')
+      }
+
+      const result = ledgerExecution
+        ? await ledgerExecution.provider.send(ledgerExecution.prepared)
+        : await provider.execute(transaction.safeAddress, transaction.metadata, signatures)
+
+      if ('taskId' in result && relay) {
+        ctx.transactionStore.setRelayTask(selectedSafeTxHash, result.taskId)
+        spinner2?.message(`Waiting for relay task ${result.taskId}...`)
+
+        const status = await relay.waitForTask(result.taskId)
+        rejectedTxHashes = applyRelayTaskStatus(ctx.transactionStore, selectedSafeTxHash, status)
+
+        if (status.state === 'failed') {
+          spinner2?.stop('Relay failed')
+          outputError(
+            `Relay task ${status.taskId} failed: ${status.taskState}${status.message ? ` (${status.message})` : ''}`,
+            ExitCode.ERROR,
+            { safeTxHash: selectedSafeTxHash, taskId: status.taskId, taskState: status.taskState }
+          )
+        }
+        if (status.state === 'pending' || !status.txHash) {
+          spinner2?.stop('Submitted to relayer')
+          outputSuccess(
+            `Relay task ${status.taskId} is still ${status.taskState}. Check it with "safe tx status ${selectedSafeTxHash}"`,
+            { safeTxHash: selectedSafeTxHash, taskId: status.taskId, taskState: status.taskState }
+          )
+          return
+        }
+        txHash = status.txHash
+      } else if ('txHash' in result) {
+        txHash = result.txHash
+      } else {
+        throw new SafeCLIError('Execution returned no transaction hash')
+      }
+    } catch (error) {
       spinner2?.stop('Failed')
-      outputError('Invalid password', ExitCode.AUTH_FAILURE)
+      throw error
+    } finally {
+      await ledgerService?.disconnect()
     }
 
-    // Execute transaction
-    const txService = new TransactionService(chain, privateKey)
-
-    const txHash = await txService.executeTransaction(
-      transaction.safeAddress,
-      transaction.metadata,
-      (transaction.signatures || []).map((sig) => ({
-        signer: sig.signer,
-        signature: sig.signature,
-      }))
-    )
+    // Relayed executions were already recorded by applyRelayTaskStatus
+    if (!rejectedTxHashes) {
+      ctx.transactionStore.updateStatus(selectedSafeTxHash, TransactionStatus.EXECUTED, txHash)
 
-    // Update transaction status
-    ctx.transactionStore.updateStatus(selectedSafeTxHash, TransactionStatus.EXECUTED, txHash)
+      // The nonce is used now - competing transactions (e.g. a rejected original) can never execute
+      rejectedTxHashes = ctx.transactionStore.rejectSameNonceTransactions(selectedSafeTxHash)
+    }
 
     spinner2?.stop('Transaction executed')
 
+    if (rejectedTxHashes.length > 0 && !isNonInteractiveMode()) {
+      p.log.info(
+        `Marked ${rejectedTxHashes.length} transaction(s) with nonce ${transaction.metadata.nonce} as rejected`
+      )
+    }
+
     const explorerUrl = chain.explorer ? `${chain.explorer}/tx/${txHash}` : undefined
 
     if (isNonInteractiveMode()) {
@@ -175,6 +393,7 @@ export async function executeTransaction(safeTxHash?: string) {
         explorerUrl,
         chainId: transaction.chainId,
         chainName: chain.name,
+        rejectedTxHashes,
       })
     } else {
       await renderScreen(TransactionExecuteSuccessScreen, {
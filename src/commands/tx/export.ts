@@ -3,6 +3,7 @@ import pc from 'picocolors'
 import { writeFileSync } from 'fs'
 import { getConfigStore } from '../../storage/config-store.js'
 import { getTransactionStore } from '../../storage/transaction-store.js'
+import { TransactionService } from '../../services/transaction-service.js'
 import { SafeCLIError } from '../../utils/errors.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
 import { renderScreen } from '../../ui/render.js'
@@ -54,13 +55,26 @@ export async function exportTransaction(safeTxHash?: string, outputFile?: string
 
     const eip3770 = formatSafeAddress(tx.safeAddress, tx.chainId, chains)
 
+    // Embed the Safe version so offline signers can compute the SafeTx hash without RPC
+    let safeVersion: string | undefined
+    const chain = configStore.getChain(tx.chainId)
+    if (chain) {
+      try {
+        safeVersion = await new TransactionService(chain).getVersion(tx.safeAddress)
+      } catch {
+        // No RPC access - offline signers have to pass --safe-version
+      }
+    }
+
     // Create export object
     const exportData = {
       safeTxHash: tx.safeTxHash,
       safe: eip3770,
       chainId: tx.chainId,
       safeAddress: tx.safeAddress,
+      ...(safeVersion && { safeVersion }),
       metadata: tx.metadata,
+      ...(tx.batch && { batch: tx.batch }),
       signatures: tx.signatures,
       createdBy: tx.createdBy,
       createdAt: tx.createdAt,
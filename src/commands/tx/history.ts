@@ -0,0 +1,194 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { writeFileSync } from 'fs'
+import type { Address, Hex } from 'viem'
+import { SafeTransactionServiceAPI } from '../../services/api-service.js'
+import { CalldataDecoder } from '../../services/calldata-decoder.js'
+import { HistoryService } from '../../services/history-service.js'
+import { TransactionService } from '../../services/transaction-service.js'
+import { getABICacheStore } from '../../storage/abi-cache-store.js'
+import { isJsonMode } from '../../types/global-options.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import {
+  formatDecodedCall,
+  fromSafeExecution,
+  fromServiceTransaction,
+  fromStoredTransaction,
+  historyToCsv,
+  mergeHistory,
+  type HistoryEntry,
+} from '../../utils/tx-history.js'
+import { selectDeployedSafe, parseAddressInput } from '../../utils/safe-helpers.js'
+
+export interface TransactionHistoryOptions {
+  format?: string
+  output?: string
+  fromBlock?: string
+  toBlock?: string
+}
+
+export async function showTransactionHistory(
+  account?: string,
+  options: TransactionHistoryOptions = {}
+) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Transaction History ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const format = options.format ?? 'csv'
+    if (format !== 'csv' && format !== 'json') {
+      outputError(`Invalid format: ${format}. Use csv or json`, ExitCode.INVALID_ARGS)
+    }
+    for (const value of [options.fromBlock, options.toBlock]) {
+      if (value !== undefined && !/^\d+$/.test(value)) {
+        outputError(`Invalid block number: ${value}`, ExitCode.INVALID_ARGS)
+      }
+    }
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    const useService = !!chain.transactionServiceUrl
+
+    // Without a Transaction Service, history comes from a block range of Safe events
+    let fromBlock = options.fromBlock
+    if (!useService && fromBlock === undefined) {
+      if (isNonInteractiveMode()) {
+        outputError(
+          `${chain.name} has no Transaction Service. --from-block is required to scan Safe execution events`,
+          ExitCode.INVALID_ARGS
+        )
+      }
+      const input = await p.text({
+        message: 'Scan Safe execution events from block (e.g. the Safe deployment block):',
+        placeholder: '0',
+        validate: (value) => (value && /^\d+$/.test(value) ? undefined : 'Enter a block number'),
+      })
+      if (!checkCancelled(input)) return
+      fromBlock = input as string
+    }
+
+    const entries: HistoryEntry[] = ctx.transactionStore
+      .getTransactionsBySafe(address, chainId)
+      .map(fromStoredTransaction)
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    try {
+      if (useService) {
+        spinner?.start('Fetching transactions from Safe Transaction Service...')
+        const preferences = ctx.configStore.getPreferences()
+        const apiService = new SafeTransactionServiceAPI(chain, {
+          apiKey: preferences.safeApiKey,
+          useStaging: preferences.isStagingSafeApi,
+        })
+        const records = await apiService.getTransactionHistory(address)
+        for (const record of records) {
+          const entry = fromServiceTransaction(record)
+          if (entry) entries.push(entry)
+        }
+      } else {
+        spinner?.start('Scanning Safe execution events...')
+        const txService = new TransactionService(chain)
+        const [safeVersion, currentNonce] = await Promise.all([
+          txService.getVersion(address),
+          txService.getNonce(address),
+        ])
+        const executions = await new HistoryService(chain).getExecutions(address, {
+          fromBlock: BigInt(fromBlock as string),
+          toBlock: options.toBlock !== undefined ? BigInt(options.toBlock) : undefined,
+          safeVersion,
+          currentNonce,
+        })
+        entries.push(...executions.map(fromSafeExecution))
+      }
+      spinner?.stop('Transactions fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch transactions')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch transaction history',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    const history = mergeHistory(entries)
+
+    // Decode calldata; undecodable calls keep only the raw data
+    spinner?.start('Decoding transaction data...')
+    const etherscanApiKey = ctx.configStore.getPreferences()?.etherscanApiKey
+    const decoder = new CalldataDecoder(chain, etherscanApiKey, getABICacheStore())
+    for (const entry of history) {
+      if (!entry.to || !entry.data || entry.data === '0x') continue
+      try {
+        const decoded = await decoder.decode(entry.to, entry.data as Hex)
+        if (decoded) entry.call = formatDecodedCall(decoded)
+      } catch {
+        // Raw data is exported instead
+      }
+    }
+    spinner?.stop(`${history.length} transaction(s) found`)
+
+    const document = format === 'csv' ? historyToCsv(history) : JSON.stringify(history, null, 2)
+    const source = useService ? 'service' : 'chain'
+
+    if (options.output) {
+      writeFileSync(options.output, document, 'utf-8')
+      outputSuccess(`Exported ${history.length} transaction(s) to ${options.output}`, {
+        safeAddress: address,
+        chainId,
+        source,
+        format,
+        outputFile: options.output,
+        count: history.length,
+      })
+      return
+    }
+
+    if (isJsonMode()) {
+      outputSuccess('Transaction history retrieved', {
+        safeAddress: address,
+        chainId,
+        source,
+        transactions: history,
+      })
+      return
+    }
+
+    console.log(document)
+    if (!isNonInteractiveMode()) {
+      p.outro(`${history.length} transaction(s)`)
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -1,34 +1,216 @@
 import * as p from '@clack/prompts'
 import pc from 'picocolors'
 import { existsSync, readFileSync } from 'fs'
-import { type Address } from 'viem'
+import { decodeFunctionData, type Address, type Hex } from 'viem'
 import { getConfigStore } from '../../storage/config-store.js'
 import { getSafeStorage } from '../../storage/safe-store.js'
 import { getTransactionStore } from '../../storage/transaction-store.js'
 import { getWalletStorage } from '../../storage/wallet-store.js'
 import { TransactionService } from '../../services/transaction-service.js'
 import { TxBuilderParser, type TxBuilderFormat } from '../../services/tx-builder-parser.js'
+import { decodeMultiSendTransactions } from '../../services/calldata-decoder.js'
+import { MULTISEND_ABI } from '../../constants/abis.js'
 import { SafeCLIError } from '../../utils/errors.js'
 import { validateAndChecksumAddress } from '../../utils/validation.js'
-import type { TransactionMetadata, TransactionSignature } from '../../types/transaction.js'
+import {
+  TransactionStatus,
+  type BatchCall,
+  type TransactionMetadata,
+  type TransactionSignature,
+  type TransactionSignatureExport,
+} from '../../types/transaction.js'
 import { renderScreen } from '../../ui/render.js'
 import {
   TransactionImportBuilderSuccessScreen,
   TransactionImportSuccessScreen,
 } from '../../ui/screens/index.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
+import { recoverSafeTxSigner } from '../../utils/safe-tx-hash.js'
+import { isQueuedTransaction } from '../../utils/nonce-queue.js'
 
 interface ImportData {
   safeTxHash: string
   safe: string
   chainId: string
   safeAddress: Address
+  safeVersion?: string
   metadata: TransactionMetadata
+  batch?: BatchCall[]
   signatures: TransactionSignature[]
   createdBy: Address
   createdAt: string | Date
 }
 
+/**
+ * Rebuild the sub-calls of an exported batch from its MultiSend calldata.
+ * A batch that does not match the calldata is rejected, since it is what
+ * `tx status` shows in place of the payload that would actually run.
+ */
+function verifyBatch(metadata: TransactionMetadata, batch: BatchCall[]): BatchCall[] {
+  let calls: ReturnType<typeof decodeMultiSendTransactions>
+  try {
+    const { args } = decodeFunctionData({ abi: MULTISEND_ABI, data: metadata.data })
+    calls = decodeMultiSendTransactions(args[0])
+  } catch {
+    throw new SafeCLIError('Invalid transaction data: batch given for a non-MultiSend transaction')
+  }
+
+  const matches =
+    calls.length === batch.length &&
+    calls.every(
+      (call, i) =>
+        call.operation === 0 &&
+        call.to.toLowerCase() === String(batch[i].to).toLowerCase() &&
+        call.value === String(batch[i].value) &&
+        call.data.toLowerCase() === String(batch[i].data).toLowerCase()
+    )
+  if (!matches) {
+    throw new SafeCLIError('Invalid transaction data: batch does not match the MultiSend calldata')
+  }
+
+  return calls.map(({ to, value, data }) => ({ to, value, data }))
+}
+
+/**
+ * Signature-only payload written by `tx sign --offline`
+ */
+function isSignatureExport(data: unknown): data is TransactionSignatureExport {
+  if (!data || typeof data !== 'object') return false
+  const obj = data as Record<string, unknown>
+  return typeof obj.safeTxHash === 'string' && Array.isArray(obj.signatures) && !('metadata' in obj)
+}
+
+/**
+ * Owners of a Safe: read on-chain when the RPC is reachable, else the ones stored
+ * by `account open`. Undefined when neither is available.
+ */
+async function getSafeOwners(
+  chainId: string,
+  safeAddress: Address
+): Promise<Address[] | undefined> {
+  const chain = getConfigStore().getChain(chainId)
+  if (chain) {
+    try {
+      return await new TransactionService(chain).getOwners(safeAddress)
+    } catch {
+      // Offline - fall back to the stored owners
+    }
+  }
+
+  const owners = getSafeStorage().getSafe(chainId, safeAddress)?.owners
+  return owners && owners.length > 0 ? (owners as Address[]) : undefined
+}
+
+/**
+ * Merge signatures produced by an offline signer into a local transaction
+ */
+async function importSignatureExport(data: TransactionSignatureExport) {
+  const safeStorage = getSafeStorage()
+  const transactionStore = getTransactionStore()
+
+  const transaction = transactionStore.getTransaction(data.safeTxHash)
+  if (!transaction) {
+    throw new SafeCLIError(
+      `Transaction ${data.safeTxHash} not found locally. Import the transaction before its signatures`
+    )
+  }
+
+  // Executed, rejected and replaced transactions have used up their nonce
+  if (!isQueuedTransaction(transaction)) {
+    throw new SafeCLIError(
+      `Transaction is ${transaction.status}, signatures can no longer be added`
+    )
+  }
+
+  // Every signature must recover to the signer it claims to be from
+  const signatures: TransactionSignature[] = []
+  for (const sig of data.signatures) {
+    let signer: Address
+    try {
+      signer = await recoverSafeTxSigner(data.safeTxHash as Hex, sig.signature as Hex)
+    } catch (error) {
+      throw new SafeCLIError(
+        `Invalid signature from ${sig.signer}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    if (signer.toLowerCase() !== sig.signer.toLowerCase()) {
+      throw new SafeCLIError(`Signature does not match signer ${sig.signer} (recovered ${signer})`)
+    }
+
+    signatures.push({ ...sig, signer })
+  }
+
+  // Signatures of non-owners would count towards the threshold in `tx list` and `tx status`
+  const owners = await getSafeOwners(transaction.chainId, transaction.safeAddress)
+  if (owners) {
+    const nonOwner = signatures.find(
+      (sig) => !owners.some((owner) => owner.toLowerCase() === sig.signer.toLowerCase())
+    )
+    if (nonOwner) {
+      throw new SafeCLIError(`Signer ${nonOwner.signer} is not an owner of this Safe`)
+    }
+  } else {
+    p.log.warning(
+      'Could not fetch the Safe owners. The signers below are NOT verified to be owners:'
+    )
+    for (const sig of signatures) {
+      console.log(`  ${pc.yellow(sig.signer)}`)
+    }
+  }
+
+  const newSignatures = signatures.filter(
+    (importSig) =>
+      !(transaction.signatures || []).some(
+        (existingSig) => existingSig.signer.toLowerCase() === importSig.signer.toLowerCase()
+      )
+  )
+
+  if (newSignatures.length === 0) {
+    p.log.info('No new signatures to import')
+    p.outro('Already up to date')
+    return
+  }
+
+  const confirm = await p.confirm({
+    message: `Import ${newSignatures.length} signature(s) for ${data.safeTxHash}?`,
+    initialValue: !!owners,
+  })
+
+  if (p.isCancel(confirm) || !confirm) {
+    p.cancel('Operation cancelled')
+    return
+  }
+
+  for (const sig of newSignatures) {
+    transactionStore.addSignature(data.safeTxHash, sig)
+  }
+
+  if (transaction.status === TransactionStatus.PENDING) {
+    transactionStore.updateStatus(data.safeTxHash, TransactionStatus.SIGNED)
+  }
+
+  const safe = safeStorage.getSafe(transaction.chainId, transaction.safeAddress)
+  const updatedTx = transactionStore.getTransaction(data.safeTxHash)!
+  const signatureCount = updatedTx.signatures?.length || 0
+  const readyToExecute = safe && safe.threshold !== undefined && signatureCount >= safe.threshold
+
+  await renderScreen(TransactionImportSuccessScreen, {
+    safeTxHash: data.safeTxHash,
+    safe: formatSafeAddress(
+      transaction.safeAddress,
+      transaction.chainId,
+      getConfigStore().getAllChains()
+    ),
+    to: transaction.metadata.to,
+    mode: 'merged' as const,
+    signatureCount,
+    threshold: safe?.threshold,
+    newSigners: newSignatures.map((sig) => sig.signer),
+    readyToExecute: !!readyToExecute,
+  })
+}
+
 /**
  * Import transactions from Transaction Builder format
  */
@@ -93,40 +275,14 @@ async function importTransactionBuilderFormat(data: TxBuilderFormat) {
       throw new SafeCLIError(`Chain ${parsed.chainId} not found in configuration`)
     }
 
-    // Check if this is a batch (multiple transactions)
-    if (parsed.transactions.length > 1) {
-      console.log(pc.yellow('⚠ Multiple transactions detected (batch transaction)'))
-      console.log('')
-      console.log(
-        pc.dim('Transaction Builder batches need to be converted to a MultiSend transaction.')
-      )
-      console.log(
-        pc.dim('This feature is not yet implemented. Each transaction will be imported separately.')
-      )
-      console.log('')
-
-      const confirm = await p.confirm({
-        message: 'Import transactions separately?',
-        initialValue: true,
-      })
-
-      if (p.isCancel(confirm) || !confirm) {
-        p.cancel('Operation cancelled')
-        return
-      }
-    }
-
-    // Import each transaction
     const txService = new TransactionService(chain)
     const importedTransactions: string[] = []
+    const createdBy = parsed.createdBy || (activeWallet?.address as Address) || parsed.safeAddress
 
-    for (let i = 0; i < parsed.transactions.length; i++) {
-      const tx = parsed.transactions[i]
-
-      // Get current nonce for this Safe
+    // Prompt for a nonce, defaulting to the current Safe nonce
+    const promptNonce = async (): Promise<number | null> => {
       const currentNonce = await txService.getNonce(parsed.safeAddress)
 
-      // Prompt for nonce
       const nonceInput = (await p.text({
         message: 'Transaction nonce:',
         placeholder: `${currentNonce} (recommended)`,
@@ -142,37 +298,95 @@ async function importTransactionBuilderFormat(data: TxBuilderFormat) {
       })) as string
 
       if (p.isCancel(nonceInput)) {
+        p.cancel('Operation cancelled')
+        return null
+      }
+
+      return parseInt(nonceInput, 10)
+    }
+
+    // Check if this is a batch (multiple transactions)
+    let combine = false
+    if (parsed.transactions.length > 1) {
+      console.log(pc.yellow('⚠ Multiple transactions detected (batch transaction)'))
+      console.log('')
+
+      const mode = await p.select({
+        message: `How should the ${parsed.transactions.length} transactions be imported?`,
+        options: [
+          {
+            value: 'combine',
+            label: 'As one MultiSend transaction',
+            hint: 'executed atomically, one signature round',
+          },
+          { value: 'separate', label: 'As separate transactions', hint: 'one nonce each' },
+        ],
+      })
+
+      if (p.isCancel(mode)) {
         p.cancel('Operation cancelled')
         return
       }
 
-      const nonce = parseInt(nonceInput, 10)
+      combine = mode === 'combine'
+    }
+
+    if (combine) {
+      const nonce = await promptNonce()
+      if (nonce === null) return
 
-      // Create transaction with user-provided nonce
       const spinner = p.spinner()
-      spinner.start('Creating transaction...')
-
-      const createdTx = await txService.createTransaction(parsed.safeAddress, {
-        to: tx.to,
-        value: tx.value,
-        data: tx.data,
-        operation: tx.operation,
-        nonce,
-      })
+      spinner.start('Creating batch transaction...')
+
+      const calls = parsed.transactions.map((tx) => ({ to: tx.to, value: tx.value, data: tx.data }))
+      const createdTx = await txService.createBatchTransaction(parsed.safeAddress, calls, nonce)
 
-      // Store transaction
-      const createdBy = parsed.createdBy || (activeWallet?.address as Address) || parsed.safeAddress
       transactionStore.createTransaction(
         createdTx.safeTxHash,
         parsed.safeAddress,
         parsed.chainId,
         createdTx.metadata,
-        createdBy
+        createdBy,
+        calls
       )
 
-      spinner.stop('Transaction created')
+      spinner.stop('Batch transaction created')
 
       importedTransactions.push(createdTx.safeTxHash)
+    } else {
+      // Import each transaction
+      for (let i = 0; i < parsed.transactions.length; i++) {
+        const tx = parsed.transactions[i]
+
+        // Prompt for nonce
+        const nonce = await promptNonce()
+        if (nonce === null) return
+
+        // Create transaction with user-provided nonce
+        const spinner = p.spinner()
+        spinner.start('Creating transaction...')
+
+        const createdTx = await txService.createTransaction(parsed.safeAddress, {
+          to: tx.to,
+          value: tx.value,
+          data: tx.data,
+          operation: tx.operation,
+          nonce,
+        })
+
+        // Store transaction
+        transactionStore.createTransaction(
+          createdTx.safeTxHash,
+          parsed.safeAddress,
+          parsed.chainId,
+          createdTx.metadata,
+          createdBy
+        )
+
+        spinner.stop('Transaction created')
+
+        importedTransactions.push(createdTx.safeTxHash)
+      }
     }
 
     // Get chains for EIP-3770 formatting
@@ -248,6 +462,15 @@ export async function importTransaction(input?: string) {
       return
     }
 
+    // Signatures from an offline signer
+    if (isSignatureExport(parsedData)) {
+      console.log('')
+      console.log(pc.cyan('ℹ Offline signature detected'))
+
+      await importSignatureExport(parsedData)
+      return
+    }
+
     // Otherwise, treat as CLI format
     const importData: ImportData = parsedData as ImportData
 
@@ -286,6 +509,10 @@ export async function importTransaction(input?: string) {
       )
     }
 
+    if (importData.batch) {
+      importData.batch = verifyBatch(importData.metadata, importData.batch)
+    }
+
     // Check if Safe exists locally
     const safe = safeStorage.getSafe(importData.chainId, importData.safeAddress)
     if (!safe) {
@@ -379,7 +606,8 @@ export async function importTransaction(input?: string) {
         importData.safeAddress,
         importData.chainId,
         importData.metadata,
-        importData.createdBy
+        importData.createdBy,
+        importData.batch
       )
 
       // Add all signatures
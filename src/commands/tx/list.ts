@@ -3,12 +3,54 @@ import type { Address } from 'viem'
 import { getConfigStore } from '../../storage/config-store.js'
 import { getSafeStorage } from '../../storage/safe-store.js'
 import { getTransactionStore } from '../../storage/transaction-store.js'
-import type { TransactionStatus } from '../../types/transaction.js'
+import { getABICacheStore } from '../../storage/abi-cache-store.js'
+import { CalldataDecoder, type DecodedCall } from '../../services/calldata-decoder.js'
+import type { StoredTransaction, TransactionStatus } from '../../types/transaction.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
 import { renderScreen } from '../../ui/render.js'
 import { TransactionListScreen } from '../../ui/screens/index.js'
 import { isNonInteractiveMode, outputSuccess } from '../../utils/command-helpers.js'
 
+/**
+ * Decode the calldata of the listed transactions before rendering.
+ * One decoder per chain, so its token lookups are shared between transactions.
+ */
+async function decodeTransactions(
+  transactions: StoredTransaction[]
+): Promise<Record<string, DecodedCall>> {
+  const configStore = getConfigStore()
+  const etherscanApiKey = configStore.getPreferences()?.etherscanApiKey
+  const decoders = new Map<string, CalldataDecoder>()
+  const decoded: Record<string, DecodedCall> = {}
+
+  const toDecode = transactions.filter((tx) => tx.metadata.data !== '0x')
+  if (toDecode.length === 0) return decoded
+
+  const spinner = p.spinner()
+  spinner.start('Decoding transaction data...')
+
+  for (const tx of toDecode) {
+    const chain = configStore.getChain(tx.chainId)
+    if (!chain) continue
+
+    let decoder = decoders.get(tx.chainId)
+    if (!decoder) {
+      decoder = new CalldataDecoder(chain, etherscanApiKey, getABICacheStore())
+      decoders.set(tx.chainId, decoder)
+    }
+
+    try {
+      const call = await decoder.decode(tx.metadata.to, tx.metadata.data)
+      if (call) decoded[tx.safeTxHash] = call
+    } catch {
+      // Raw data is shown instead
+    }
+  }
+
+  spinner.stop('Transaction data decoded')
+  return decoded
+}
+
 /**
  * Lists Safe transactions with optional filtering by Safe and status.
  *
@@ -91,6 +133,9 @@ export async function listTransactions(account?: string, statusFilter?: Transact
         } else {
           await renderScreen(TransactionListScreen, {
             statusFilter,
+            decoded: await decodeTransactions(
+              statusFilter ? transactions.filter((tx) => tx.status === statusFilter) : transactions
+            ),
           })
         }
         return
@@ -175,6 +220,7 @@ export async function listTransactions(account?: string, statusFilter?: Transact
         safeAddress: filterSafeAddress || undefined,
         chainId: filterChainId || undefined,
         statusFilter,
+        decoded: await decodeTransactions(filtered),
       })
     }
   } catch (error) {
@@ -0,0 +1,113 @@
+import * as p from '@clack/prompts'
+import type { Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { TransactionStatus } from '../../types/transaction.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionQueueScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { parseAddressInput, selectDeployedSafe } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { analyzeNonceQueue } from '../../utils/nonce-queue.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+/**
+ * Shows the queued transactions of a Safe ordered by nonce, flagging gaps and
+ * duplicates. Transactions whose nonce is already used on-chain are marked replaced.
+ */
+export async function showTransactionQueue(account?: string) {
+  try {
+    const ctx = createCommandContext()
+
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      p.intro('Transaction Queue')
+      const selected = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!selected) return
+      chainId = selected.chainId
+      address = selected.address
+    }
+
+    const chain = ensureChainConfigured(chainId, ctx.configStore)
+    if (!chain) return
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe nonce from blockchain...')
+
+    let currentNonce: number
+    let threshold: number
+    try {
+      const txService = new TransactionService(chain)
+      ;[currentNonce, threshold] = await Promise.all([
+        txService.getNonce(address),
+        txService.getThreshold(address),
+      ])
+      spinner?.stop(`On-chain nonce: ${currentNonce}`)
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    const queue = analyzeNonceQueue(
+      ctx.transactionStore.getTransactionsBySafe(address, chainId),
+      currentNonce
+    )
+
+    // Their nonce is used on-chain, so they can never execute
+    for (const tx of queue.stale) {
+      ctx.transactionStore.updateStatus(tx.safeTxHash, TransactionStatus.REPLACED)
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Transaction queue retrieved', {
+        safeAddress: address,
+        chainId,
+        currentNonce: queue.currentNonce,
+        nextNonce: queue.nextNonce,
+        threshold,
+        queue: queue.entries.map((entry) => ({
+          nonce: entry.nonce,
+          transactions: entry.transactions.map((tx) => ({
+            safeTxHash: tx.safeTxHash,
+            status: tx.status,
+            to: tx.metadata.to,
+            value: tx.metadata.value,
+            signatures: tx.signatures.length,
+          })),
+        })),
+        duplicates: queue.duplicates,
+        gaps: queue.gaps,
+        replaced: queue.stale.map((tx) => tx.safeTxHash),
+      })
+      return
+    }
+
+    await renderScreen(TransactionQueueScreen, {
+      safeEip3770: formatSafeAddress(address, chainId, ctx.chains),
+      chainName: chain.name,
+      queue,
+      threshold,
+    })
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
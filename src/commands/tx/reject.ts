@@ -0,0 +1,204 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import type { Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { TransactionStatus } from '../../types/transaction.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionCreateSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+  outputSuccess,
+} from '../../utils/command-helpers.js'
+import { isRejectionTransaction, selectTransaction } from '../../utils/safe-helpers.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+/**
+ * Creates an on-chain rejection for a pending transaction: a zero-value call from
+ * the Safe to itself with the same nonce. Executing it consumes the nonce, so the
+ * original transaction can never execute.
+ */
+export async function rejectTransaction(safeTxHash?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Reject Safe Transaction')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get transaction to reject
+    let selectedSafeTxHash = safeTxHash
+
+    if (!selectedSafeTxHash) {
+      if (isNonInteractiveMode()) {
+        outputError('Transaction hash is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const hash = await selectTransaction(
+        ctx.transactionStore,
+        ctx.safeStorage,
+        ctx.configStore,
+        [TransactionStatus.PENDING, TransactionStatus.SIGNED],
+        'Select transaction to reject'
+      )
+      if (!hash) return
+      selectedSafeTxHash = hash
+    }
+
+    const transaction = ctx.transactionStore.getTransaction(selectedSafeTxHash)
+    if (!transaction) {
+      outputError(`Transaction ${selectedSafeTxHash} not found`, ExitCode.ERROR)
+    }
+
+    if (transaction.status === TransactionStatus.EXECUTED) {
+      outputError('Transaction already executed', ExitCode.ERROR)
+    }
+
+    if (transaction.status === TransactionStatus.REJECTED) {
+      outputError('Transaction has already been rejected', ExitCode.ERROR)
+    }
+
+    if (isRejectionTransaction(transaction)) {
+      outputError('Transaction is already a rejection', ExitCode.ERROR)
+    }
+
+    const nonce = transaction.metadata.nonce
+    if (nonce === undefined) {
+      outputError('Transaction has no nonce', ExitCode.ERROR)
+    }
+
+    const chain = ensureChainConfigured(transaction.chainId, ctx.configStore)
+    if (!chain) return
+
+    // Fetch live owners from blockchain
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching Safe information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    try {
+      owners = await txService.getOwners(transaction.safeAddress)
+      spinner?.stop('Safe information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch Safe information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch Safe data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    // Check if wallet is an owner
+    if (!owners.some((owner) => owner.toLowerCase() === activeWallet.address.toLowerCase())) {
+      outputError('Active wallet is not an owner of this Safe', ExitCode.ERROR)
+    }
+
+    // A single rejection per nonce is enough
+    const existingRejection = ctx.transactionStore
+      .getTransactionsBySafe(transaction.safeAddress, transaction.chainId)
+      .find(
+        (tx) =>
+          tx.metadata.nonce === nonce &&
+          tx.status !== TransactionStatus.REJECTED &&
+          isRejectionTransaction(tx)
+      )
+
+    if (existingRejection) {
+      if (isNonInteractiveMode()) {
+        outputError(
+          `Rejection for nonce ${nonce} already exists: ${existingRejection.safeTxHash}`,
+          ExitCode.ERROR
+        )
+      }
+      p.log.warn(`A rejection for nonce ${nonce} already exists: ${existingRejection.safeTxHash}`)
+    }
+
+    if (!isNonInteractiveMode()) {
+      const eip3770 = formatSafeAddress(transaction.safeAddress, transaction.chainId, ctx.chains)
+
+      console.log('')
+      console.log(pc.bold('Transaction to reject:'))
+      console.log(`  Safe:         ${eip3770}`)
+      console.log(`  Safe TX Hash: ${transaction.safeTxHash}`)
+      console.log(`  To:           ${transaction.metadata.to}`)
+      console.log(`  Value:        ${transaction.metadata.value} wei`)
+      console.log(`  Nonce:        ${nonce}`)
+      console.log('')
+      console.log(
+        pc.dim('The rejection is a zero-value transaction to the Safe itself with the same nonce.')
+      )
+      console.log(pc.dim('It needs the same number of signatures as any other transaction.'))
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: existingRejection
+          ? 'Create another rejection transaction?'
+          : 'Create rejection transaction?',
+        initialValue: !existingRejection,
+      })
+
+      if (!confirm || p.isCancel(confirm)) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    // Create rejection transaction
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating rejection transaction')
+
+    const createdTx = await txService.createRejectionTransaction(transaction.safeAddress, nonce)
+
+    ctx.transactionStore.createTransaction(
+      createdTx.safeTxHash,
+      transaction.safeAddress,
+      transaction.chainId,
+      createdTx.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop()
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Rejection transaction created successfully', {
+        safeTxHash: createdTx.safeTxHash,
+        rejectedSafeTxHash: transaction.safeTxHash,
+        safeAddress: transaction.safeAddress,
+        chainId: transaction.chainId,
+        chainName: chain.name,
+        nonce: createdTx.metadata.nonce,
+      })
+      return
+    }
+
+    console.log('')
+    console.log('✓ Rejection transaction created successfully!')
+    console.log('')
+    console.log(`  Safe TX Hash: ${createdTx.safeTxHash}`)
+    console.log('')
+
+    // Offer to sign the rejection
+    const shouldSign = await p.confirm({
+      message: 'Would you like to sign the rejection now?',
+      initialValue: true,
+    })
+
+    if (!p.isCancel(shouldSign) && shouldSign) {
+      console.log('')
+      const { signTransaction } = await import('./sign.js')
+      await signTransaction(createdTx.safeTxHash)
+    } else {
+      await renderScreen(TransactionCreateSuccessScreen, {
+        safeTxHash: createdTx.safeTxHash,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -1,13 +1,20 @@
 import * as p from '@clack/prompts'
-import type { Address } from 'viem'
+import pc from 'picocolors'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import type { Address, Hex } from 'viem'
 import { TransactionService } from '../../services/transaction-service.js'
 import { LedgerService } from '../../services/ledger-service.js'
 import { SafeCLIError } from '../../utils/errors.js'
-import { TransactionStatus } from '../../types/transaction.js'
+import {
+  TransactionStatus,
+  type TransactionMetadata,
+  type TransactionSignatureExport,
+} from '../../types/transaction.js'
 import { renderScreen } from '../../ui/render.js'
 import { TransactionSignSuccessScreen } from '../../ui/screens/index.js'
 import { createCommandContext } from '../../utils/command-context.js'
 import {
+  checkCancelled,
   ensureActiveWallet,
   ensureChainConfigured,
   handleCommandError,
@@ -19,8 +26,335 @@ import { selectTransaction } from '../../utils/safe-helpers.js'
 import { getPassword } from '../../utils/password-handler.js'
 import { getGlobalOptions } from '../../types/global-options.js'
 import { ExitCode } from '../../constants/exit-codes.js'
+import { validateAndChecksumAddress } from '../../utils/validation.js'
+import {
+  getSafeTxHashes,
+  getSafeTxTypedDataJson,
+  normalizeSafeTxSignature,
+  recoverSafeTxSigner,
+} from '../../utils/safe-tx-hash.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { runPreflightSimulation } from './simulate.js'
+
+export interface TransactionSignOptions {
+  skipSimulation?: boolean
+  offline?: boolean
+  file?: string
+  output?: string
+  safeVersion?: string
+  signature?: string
+}
+
+interface OfflineSignInput {
+  safeTxHash: string
+  chainId: string
+  safeAddress: Address
+  safeVersion?: string
+  metadata: TransactionMetadata
+}
+
+/**
+ * Gets the signature of a watch-only owner from an external wallet. Without --signature
+ * the EIP-712 typed data and its hash are shown and the signature is pasted in.
+ * The signature must recover to the owner; personal_sign signatures of the hash work too.
+ */
+async function getExternalSignature(
+  chainId: string,
+  safeAddress: Address,
+  metadata: TransactionMetadata,
+  safeVersion: string,
+  owner: Address,
+  signatureOption?: string
+): Promise<string | null> {
+  const typedData = getSafeTxTypedDataJson(chainId, safeAddress, metadata, safeVersion)
+  const { safeTxHash } = getSafeTxHashes(chainId, safeAddress, metadata, safeVersion)
+
+  if (signatureOption) {
+    try {
+      return await normalizeSafeTxSignature(safeTxHash, signatureOption as Hex, owner)
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Invalid signature',
+        ExitCode.INVALID_ARGS
+      )
+    }
+  }
+
+  if (isNonInteractiveMode()) {
+    outputError(
+      'Watch-only wallet: sign the typed data with your external wallet and pass --signature',
+      ExitCode.INVALID_ARGS,
+      { safeTxHash, typedData }
+    )
+  }
+
+  console.log('')
+  console.log(pc.bold('EIP-712 typed data (eth_signTypedData_v4):'))
+  console.log('')
+  console.log(JSON.stringify(typedData, null, 2))
+  console.log('')
+  console.log(`  Safe TX Hash: ${safeTxHash}`)
+  console.log('')
+  p.log.info(`Sign this with ${owner} in your external wallet and paste the signature`)
+
+  for (;;) {
+    const input = await p.text({
+      message: 'Signature:',
+      placeholder: '0x...',
+      validate: (value) =>
+        /^0x[0-9a-fA-F]{130}$/.test(value.trim()) ? undefined : 'Expected a 65-byte hex signature',
+    })
+    if (!checkCancelled(input)) return null
+
+    try {
+      return await normalizeSafeTxSignature(safeTxHash, (input as string).trim() as Hex, owner)
+    } catch (error) {
+      p.log.error(error instanceof Error ? error.message : 'Invalid signature')
+    }
+  }
+}
+
+/**
+ * Signs an exported transaction without any RPC access.
+ * The SafeTx hash is recomputed locally and must match the one in the export,
+ * and only the new signature is written out for `tx import` on the online machine.
+ */
+async function signTransactionOffline(options: TransactionSignOptions) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Sign Safe Transaction (offline)')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    if (!options.file) {
+      outputError(
+        '--file is required with --offline (use the output of "safe tx export")',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (!existsSync(options.file)) {
+      outputError(`File not found: ${options.file}`, ExitCode.INVALID_ARGS)
+    }
+
+    let input: OfflineSignInput
+    try {
+      input = JSON.parse(readFileSync(options.file, 'utf-8')) as OfflineSignInput
+    } catch {
+      outputError(`Invalid JSON in ${options.file}`, ExitCode.INVALID_ARGS)
+    }
+
+    if (!input.safeTxHash || !input.chainId || !input.safeAddress || !input.metadata) {
+      outputError('Invalid transaction data: missing required fields', ExitCode.INVALID_ARGS)
+    }
+
+    const safeVersion = options.safeVersion || input.safeVersion
+    if (!safeVersion) {
+      outputError(
+        'Safe version is not included in the export. Pass it with --safe-version',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Chain config is local - no RPC access needed
+    const chain = ensureChainConfigured(input.chainId, ctx.configStore)
+    if (!chain) return
+
+    let safeAddress: Address
+    try {
+      safeAddress = validateAndChecksumAddress(input.safeAddress)
+      input.metadata.to = validateAndChecksumAddress(input.metadata.to)
+    } catch (error) {
+      outputError(
+        `Invalid address in transaction data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Recompute the hash so a tampered export cannot get a signature for something else
+    let safeTxHash: Hex
+    try {
+      safeTxHash = getSafeTxHashes(
+        input.chainId,
+        safeAddress,
+        input.metadata,
+        safeVersion
+      ).safeTxHash
+    } catch (error) {
+      outputError(
+        error instanceof Error ? error.message : 'Failed to compute Safe transaction hash',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    if (safeTxHash.toLowerCase() !== input.safeTxHash.toLowerCase()) {
+      outputError(
+        `Safe transaction hash mismatch: export says ${input.safeTxHash}, computed ${safeTxHash}. The file may have been modified`,
+        ExitCode.ERROR
+      )
+    }
+
+    if (!isNonInteractiveMode()) {
+      const chains = ctx.configStore.getAllChains()
+
+      console.log('')
+      console.log(pc.bold('Transaction Details:'))
+      console.log(`  Safe:         ${formatSafeAddress(safeAddress, input.chainId, chains)}`)
+      console.log(`  Safe version: ${safeVersion}`)
+      console.log(`  To:           ${input.metadata.to}`)
+      console.log(`  Value:        ${input.metadata.value} wei`)
+      console.log(`  Data:         ${input.metadata.data}`)
+      console.log(`  Operation:    ${input.metadata.operation === 1 ? 'DelegateCall' : 'Call'}`)
+      console.log(`  Nonce:        ${input.metadata.nonce}`)
+      console.log(`  Safe TX Hash: ${safeTxHash} ${pc.green('✓ verified')}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Sign this transaction?',
+        initialValue: false,
+      })
+
+      if (!confirm || p.isCancel(confirm)) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const txService = new TransactionService(chain)
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    let signature: string
+
+    if (activeWallet.type === 'watch-only') {
+      const externalSignature = await getExternalSignature(
+        input.chainId,
+        safeAddress,
+        input.metadata,
+        safeVersion,
+        activeWallet.address as Address,
+        options.signature
+      )
+      if (!externalSignature) return
+      signature = externalSignature
+    } else if (activeWallet.type === 'ledger') {
+      spinner?.start('Connecting to Ledger device...')
+
+      try {
+        const ledgerService = new LedgerService()
+        await ledgerService.connect()
+
+        spinner?.message('Please confirm transaction on your Ledger device...')
+        signature = await txService.signTransactionWithLedger(
+          safeAddress,
+          input.metadata,
+          ledgerService,
+          activeWallet.derivationPath,
+          safeVersion
+        )
+
+        await ledgerService.disconnect()
+        spinner?.stop('Transaction signed')
+      } catch (error) {
+        spinner?.stop('Failed')
+        outputError(
+          error instanceof Error ? error.message : 'Failed to sign with Ledger',
+          ExitCode.ERROR
+        )
+      }
+    } else {
+      const globalOptions = getGlobalOptions()
+      const password = await getPassword(
+        {
+          password: globalOptions.password,
+          passwordFile: globalOptions.passwordFile,
+          passwordEnv: 'SAFE_WALLET_PASSWORD',
+        },
+        'Enter wallet password'
+      )
+
+      if (!password) {
+        outputError('Password is required', ExitCode.AUTH_FAILURE)
+      }
+
+      spinner?.start('Signing transaction')
+
+      let privateKey: string
+      try {
+        privateKey = ctx.walletStorage.getPrivateKey(activeWallet.id, password)
+      } catch {
+        spinner?.stop('Failed')
+        outputError('Invalid password', ExitCode.AUTH_FAILURE)
+      }
+
+      signature = await new TransactionService(chain, privateKey).signTransactionOffline(
+        safeAddress,
+        input.metadata,
+        safeVersion
+      )
+
+      spinner?.stop('Transaction signed')
+    }
+
+    // Sanity check: the signature must recover to the active wallet
+    const signer = await recoverSafeTxSigner(safeTxHash, signature as Hex)
+    if (signer.toLowerCase() !== activeWallet.address.toLowerCase()) {
+      outputError(
+        `Signature was produced by ${signer}, expected ${activeWallet.address}`,
+        ExitCode.ERROR
+      )
+    }
+
+    const signatureExport: TransactionSignatureExport = {
+      safeTxHash: input.safeTxHash,
+      chainId: input.chainId,
+      safeAddress,
+      signatures: [
+        {
+          signer: activeWallet.address as Address,
+          signature,
+          signedAt: new Date().toISOString(),
+        },
+      ],
+    }
+
+    const jsonOutput = JSON.stringify(signatureExport)
+    if (options.output) {
+      writeFileSync(options.output, jsonOutput, 'utf-8')
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Transaction signed offline', {
+        ...signatureExport,
+        outputFile: options.output,
+      })
+      return
+    }
+
+    console.log('')
+    if (options.output) {
+      console.log(`✓ Signature written to ${options.output}`)
+    } else {
+      console.log(pc.bold('Copy this signature to the online machine:'))
+      console.log('')
+      console.log(jsonOutput)
+    }
+    console.log('')
+    console.log(pc.dim('To merge it: safe tx import <file-or-json>'))
+    console.log('')
+    p.outro('Offline signing complete')
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
+
+export async function signTransaction(safeTxHash?: string, options: TransactionSignOptions = {}) {
+  if (options.offline) {
+    return signTransactionOffline(options)
+  }
 
-export async function signTransaction(safeTxHash?: string) {
   if (!isNonInteractiveMode()) {
     p.intro('Sign Safe Transaction')
   }
@@ -62,6 +396,10 @@ export async function signTransaction(safeTxHash?: string) {
       outputError('Transaction has been rejected', ExitCode.ERROR)
     }
 
+    if (transaction.status === TransactionStatus.REPLACED) {
+      outputError('Transaction has been replaced (its nonce is already used)', ExitCode.ERROR)
+    }
+
     // Get Safe info
     const safe = ctx.safeStorage.getSafe(transaction.chainId, transaction.safeAddress)
     if (!safe) {
@@ -115,11 +453,55 @@ export async function signTransaction(safeTxHash?: string) {
       }
     }
 
+    // Make sure the transaction would not revert before adding a signature
+    if (!options.skipSimulation && !(await runPreflightSimulation(chain, transaction))) {
+      return
+    }
+
     // Sign transaction based on wallet type
     const spinner2 = !isNonInteractiveMode() ? p.spinner() : null
     let signature: string
 
-    if (activeWallet.type === 'ledger') {
+    if (activeWallet.type === 'watch-only') {
+      // External wallet signing: the typed data needs the Safe version for its domain
+      let safeVersion: string
+      spinner2?.start('Fetching Safe version...')
+      try {
+        safeVersion = await new TransactionService(chain).getVersion(transaction.safeAddress)
+        spinner2?.stop(`Safe version ${safeVersion}`)
+      } catch (error) {
+        spinner2?.stop('Failed to fetch Safe version')
+        outputError(
+          error instanceof Error ? error.message : 'Failed to fetch Safe version',
+          ExitCode.NETWORK_ERROR
+        )
+      }
+
+      // The typed data must hash to the stored transaction, or the signature would be useless
+      const { safeTxHash: computedHash } = getSafeTxHashes(
+        transaction.chainId,
+        transaction.safeAddress,
+        transaction.metadata,
+        safeVersion
+      )
+      if (computedHash.toLowerCase() !== selectedSafeTxHash.toLowerCase()) {
+        outputError(
+          `Safe transaction hash mismatch: stored ${selectedSafeTxHash}, computed ${computedHash}`,
+          ExitCode.ERROR
+        )
+      }
+
+      const externalSignature = await getExternalSignature(
+        transaction.chainId,
+        transaction.safeAddress,
+        transaction.metadata,
+        safeVersion,
+        activeWallet.address as Address,
+        options.signature
+      )
+      if (!externalSignature) return
+      signature = externalSignature
+    } else if (activeWallet.type === 'ledger') {
       // Ledger wallet signing
       spinner2?.start('Connecting to Ledger device...')
 
@@ -133,6 +515,10 @@ export async function signTransaction(safeTxHash?: string) {
           )
         }
 
+        // The Ledger signs the domain and struct hashes, which depend on the Safe version
+        const txService = new TransactionService(chain)
+        const safeVersion = await txService.getVersion(transaction.safeAddress)
+
         // Connect to Ledger
         const ledgerService = new LedgerService()
         await ledgerService.connect()
@@ -140,12 +526,12 @@ export async function signTransaction(safeTxHash?: string) {
         spinner2?.message('Please confirm transaction on your Ledger device...')
 
         // Sign with Ledger
-        const txService = new TransactionService(chain)
         signature = await txService.signTransactionWithLedger(
           transaction.safeAddress,
           transaction.metadata,
           ledgerService,
-          activeWallet.derivationPath
+          activeWallet.derivationPath,
+          safeVersion
         )
 
         // Disconnect
@@ -0,0 +1,164 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { SimulationService } from '../../services/simulation-service.js'
+import type { ChainConfig } from '../../types/config.js'
+import { TransactionStatus, type StoredTransaction } from '../../types/transaction.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureChainConfigured,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { selectTransaction } from '../../utils/safe-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+/**
+ * Simulates a stored transaction before signing or executing it.
+ * Returns true to proceed: the simulation passed, could not run, or the user chose
+ * to continue anyway. In non-interactive mode a revert aborts the command.
+ */
+export async function runPreflightSimulation(
+  chain: ChainConfig,
+  transaction: StoredTransaction
+): Promise<boolean> {
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Simulating transaction...')
+
+  let result
+  try {
+    result = await new SimulationService(chain).simulateTransaction(
+      transaction.safeAddress,
+      transaction.metadata
+    )
+  } catch (error) {
+    // Simulation is best effort - unsupported Safe versions or RPCs must not block signing
+    spinner?.stop('Simulation unavailable')
+    if (!isNonInteractiveMode()) {
+      p.log.warning(error instanceof Error ? error.message : 'Failed to simulate transaction')
+    }
+    return true
+  }
+
+  if (result.success) {
+    spinner?.stop(`Simulation succeeded (safeTxGas ~${result.safeTxGas})`)
+    return true
+  }
+
+  spinner?.stop('Simulation failed')
+
+  if (isNonInteractiveMode()) {
+    outputError(
+      `Transaction would revert: ${result.revertReason} (use --skip-simulation to override)`,
+      ExitCode.ERROR
+    )
+  }
+
+  p.log.error(`Transaction would revert: ${result.revertReason}`)
+
+  const proceed = await p.confirm({
+    message: 'Continue anyway?',
+    initialValue: false,
+  })
+
+  if (p.isCancel(proceed) || !proceed) {
+    p.cancel('Operation cancelled')
+    return false
+  }
+
+  return true
+}
+
+export async function simulateTransaction(safeTxHash?: string) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Simulate Safe Transaction')
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    // Get transaction to simulate
+    let selectedSafeTxHash = safeTxHash
+
+    if (!selectedSafeTxHash) {
+      if (isNonInteractiveMode()) {
+        outputError('Transaction hash is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const hash = await selectTransaction(
+        ctx.transactionStore,
+        ctx.safeStorage,
+        ctx.configStore,
+        [TransactionStatus.PENDING, TransactionStatus.SIGNED],
+        'Select transaction to simulate'
+      )
+      if (!hash) return
+      selectedSafeTxHash = hash
+    }
+
+    const transaction = ctx.transactionStore.getTransaction(selectedSafeTxHash)
+    if (!transaction) {
+      outputError(`Transaction ${selectedSafeTxHash} not found`, ExitCode.ERROR)
+    }
+
+    if (transaction.status === TransactionStatus.EXECUTED) {
+      outputError('Transaction already executed', ExitCode.ERROR)
+    }
+
+    // Get chain
+    const chain = ensureChainConfigured(transaction.chainId, ctx.configStore)
+    if (!chain) return
+
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Simulating transaction...')
+
+    let result
+    try {
+      result = await new SimulationService(chain).simulateTransaction(
+        transaction.safeAddress,
+        transaction.metadata
+      )
+      spinner?.stop('Simulation complete')
+    } catch (error) {
+      spinner?.stop('Simulation failed')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to simulate transaction',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (isNonInteractiveMode()) {
+      const data = {
+        safeTxHash: selectedSafeTxHash,
+        safeAddress: transaction.safeAddress,
+        chainId: transaction.chainId,
+        success: result.success,
+        safeTxGas: result.safeTxGas,
+        revertReason: result.revertReason,
+        returnData: result.returnData,
+      }
+      // A revert exits non-zero so scripts and CI can tell
+      if (!result.success) {
+        outputError(`Transaction would revert: ${result.revertReason}`, ExitCode.ERROR, data)
+      }
+      outputSuccess('Simulation succeeded', data)
+      return
+    }
+
+    console.log('')
+    console.log(`  Safe TX Hash: ${selectedSafeTxHash}`)
+    console.log(`  To:           ${transaction.metadata.to}`)
+    console.log(`  Estimated safeTxGas: ${result.safeTxGas}`)
+    console.log('')
+
+    if (result.success) {
+      p.log.success('Transaction would succeed')
+      p.outro(pc.green('Simulation passed'))
+    } else {
+      p.log.error(`Transaction would revert: ${result.revertReason}`)
+      p.outro(pc.red('Simulation failed'))
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
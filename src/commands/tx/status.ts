@@ -4,12 +4,16 @@ import { getConfigStore } from '../../storage/config-store.js'
 import { getSafeStorage } from '../../storage/safe-store.js'
 import { getTransactionStore } from '../../storage/transaction-store.js'
 import { TransactionService } from '../../services/transaction-service.js'
+import { CalldataDecoder, type DecodedCall } from '../../services/calldata-decoder.js'
+import type { RelayTaskStatus } from '../../services/execution-provider.js'
+import { getABICacheStore } from '../../storage/abi-cache-store.js'
 import { SafeCLIError } from '../../utils/errors.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
 import { renderScreen } from '../../ui/render.js'
 import { TransactionStatusScreen } from '../../ui/screens/index.js'
 import { isNonInteractiveMode, outputSuccess, outputError } from '../../utils/command-helpers.js'
 import { ExitCode } from '../../constants/exit-codes.js'
+import { applyRelayTaskStatus, createRelayProvider } from './execute.js'
 
 export async function showTransactionStatus(safeTxHash?: string) {
   if (!isNonInteractiveMode()) {
@@ -54,7 +58,7 @@ export async function showTransactionStatus(safeTxHash?: string) {
     }
 
     // Get transaction
-    const tx = transactionStore.getTransaction(selectedSafeTxHash)
+    let tx = transactionStore.getTransaction(selectedSafeTxHash)
     if (!tx) {
       outputError(`Transaction not found: ${selectedSafeTxHash}`, ExitCode.ERROR)
     }
@@ -74,9 +78,26 @@ export async function showTransactionStatus(safeTxHash?: string) {
     }
 
     const eip3770 = formatSafeAddress(tx.safeAddress, tx.chainId, chains)
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+
+    // Follow up on a relayed execution
+    let relayTask: RelayTaskStatus | undefined
+    if (tx.relayTaskId) {
+      spinner?.start('Checking relay task...')
+      try {
+        relayTask = await createRelayProvider(chain, configStore).getTaskStatus(tx.relayTaskId)
+        applyRelayTaskStatus(transactionStore, tx.safeTxHash, relayTask)
+        tx = transactionStore.getTransaction(tx.safeTxHash) ?? tx
+        spinner?.stop(`Relay task ${relayTask.taskState}`)
+      } catch (error) {
+        spinner?.stop('Failed to check relay task')
+        if (!isNonInteractiveMode()) {
+          p.log.warning(error instanceof Error ? error.message : 'Failed to check relay task')
+        }
+      }
+    }
 
     // Fetch live owners and threshold from blockchain
-    const spinner = !isNonInteractiveMode() ? p.spinner() : null
     spinner?.start('Fetching Safe information from blockchain...')
 
     let owners: Address[]
@@ -96,6 +117,20 @@ export async function showTransactionStatus(safeTxHash?: string) {
       )
     }
 
+    // Decode calldata for display
+    let decoded: DecodedCall | null = null
+    if (tx.metadata.data !== '0x') {
+      spinner?.start('Decoding transaction data...')
+      try {
+        const etherscanApiKey = configStore.getPreferences()?.etherscanApiKey
+        const decoder = new CalldataDecoder(chain, etherscanApiKey, getABICacheStore())
+        decoded = await decoder.decode(tx.metadata.to, tx.metadata.data)
+      } catch {
+        // Raw data is shown instead
+      }
+      spinner?.stop(decoded ? 'Transaction data decoded' : 'Could not decode transaction data')
+    }
+
     // Calculate signature status
     const signaturesCollected = tx.signatures?.length || 0
     const signaturesRequired = threshold
@@ -113,7 +148,9 @@ export async function showTransactionStatus(safeTxHash?: string) {
         value: tx.metadata.value,
         data: tx.metadata.data,
         operation: tx.metadata.operation,
+        decoded,
         nonce: tx.metadata.nonce,
+        batch: tx.batch,
         status: tx.status,
         signatures: {
           collected: signaturesCollected,
@@ -123,21 +160,30 @@ export async function showTransactionStatus(safeTxHash?: string) {
         owners,
         txHash: tx.txHash,
         explorerUrl,
+        relayTask,
         createdAt: tx.createdAt,
         executedAt: tx.executedAt,
       })
     } else {
+      if (relayTask && relayTask.state !== 'success') {
+        p.log.info(
+          `Relay task ${relayTask.taskId}: ${relayTask.taskState}${relayTask.message ? ` (${relayTask.message})` : ''}`
+        )
+      }
       await renderScreen(TransactionStatusScreen, {
         safeTxHash: tx.safeTxHash,
         safeEip3770: eip3770,
         to: tx.metadata.to,
         value: tx.metadata.value,
+        data: tx.metadata.data,
+        decoded,
         nonce: tx.metadata.nonce,
         status: tx.status,
         signaturesCollected,
         signaturesRequired,
         signers: (tx.signatures || []).map((sig) => sig.signer as Address),
         owners,
+        batch: tx.batch,
         txHash: tx.txHash,
         explorerUrl: tx.txHash && chain?.explorer ? `${chain.explorer}/tx/${tx.txHash}` : undefined,
       })
@@ -0,0 +1,227 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { TokenService } from '../../services/token-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionCreateSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { encodeNftTransfer } from '../../utils/token-transfer.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export interface TransactionTransferNftOptions {
+  collection?: string
+  tokenId?: string
+  to?: string
+}
+
+export async function transferNft(account?: string, options: TransactionTransferNftOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Transfer NFT ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    if (isNonInteractiveMode() && (!options.collection || !options.tokenId || !options.to)) {
+      outputError(
+        '--collection, --token-id and --to are required in non-interactive mode',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Get collection
+    let collectionInput = options.collection
+    if (!collectionInput) {
+      const input = await p.text({
+        message: 'NFT collection address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      collectionInput = input as string
+    }
+
+    let collection: Address
+    try {
+      collection = ctx.validator.assertAddressWithChain(
+        collectionInput,
+        chainId,
+        ctx.chains,
+        'Collection address'
+      )
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    // Get token ID
+    let tokenIdInput = options.tokenId
+    if (!tokenIdInput) {
+      const input = await p.text({
+        message: 'Token ID:',
+        placeholder: '1',
+        validate: (value) => (value && /^\d+$/.test(value) ? undefined : 'Enter a token ID'),
+      })
+      if (!checkCancelled(input)) return
+      tokenIdInput = input as string
+    }
+
+    if (!/^\d+$/.test(tokenIdInput)) {
+      outputError(`Invalid token ID: ${tokenIdInput}`, ExitCode.INVALID_ARGS)
+    }
+    const tokenId = BigInt(tokenIdInput)
+
+    // Fetch owners and the NFT's current owner
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching NFT information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    let owners: Address[]
+    let nft: { owner: Address; name?: string }
+    try {
+      ;[owners, nft] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        new TokenService(chain).getNftInfo(collection, tokenId),
+      ])
+      spinner?.stop('NFT information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch NFT information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch NFT data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    if (nft.owner.toLowerCase() !== safe.address.toLowerCase()) {
+      outputError(`Token ${tokenId} is owned by ${nft.owner}, not by this Safe`, ExitCode.ERROR)
+    }
+
+    // Get recipient
+    let toInput = options.to
+    if (!toInput) {
+      const input = await p.text({
+        message: 'Recipient address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      toInput = input as string
+    }
+
+    let to: Address
+    try {
+      to = ctx.validator.assertAddressWithChain(toInput, chainId, ctx.chains, 'Recipient address')
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    const call = encodeNftTransfer(collection, safe.address as Address, to, tokenId)
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('NFT Transfer Summary:'))
+      console.log(`  ${pc.dim('Safe:')}        ${safe.name}`)
+      console.log(
+        `  ${pc.dim('Collection:')}  ${nft.name ? `${nft.name} (${collection})` : collection}`
+      )
+      console.log(`  ${pc.dim('Token ID:')}    ${tokenId}`)
+      console.log(`  ${pc.dim('Recipient:')}   ${to}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create this NFT transfer transaction?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating NFT transfer transaction...')
+
+    const createdTx = await txService.createTransaction(safe.address as Address, {
+      ...call,
+      operation: 0,
+    })
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      createdTx.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      createdTx.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('NFT transfer transaction created', {
+        safeTxHash: createdTx.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        collection,
+        tokenId: tokenId.toString(),
+        to,
+        nonce: createdTx.metadata.nonce,
+      })
+    } else {
+      await renderScreen(TransactionCreateSuccessScreen, {
+        safeTxHash: createdTx.safeTxHash,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
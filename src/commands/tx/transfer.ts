@@ -0,0 +1,250 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { formatUnits, zeroAddress, type Address } from 'viem'
+import { TransactionService } from '../../services/transaction-service.js'
+import { TokenService, type TokenInfo } from '../../services/token-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { TransactionCreateSuccessScreen } from '../../ui/screens/index.js'
+import { createCommandContext } from '../../utils/command-context.js'
+import {
+  ensureActiveWallet,
+  ensureChainConfigured,
+  checkCancelled,
+  handleCommandError,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { findKnownToken } from '../../constants/tokens.js'
+import { encodeTokenTransfer, parseTokenAmount } from '../../utils/token-transfer.js'
+import {
+  selectDeployedSafe,
+  ensureWalletIsOwner,
+  parseAddressInput,
+} from '../../utils/safe-helpers.js'
+
+export interface TransactionTransferOptions {
+  token?: string
+  to?: string
+  amount?: string
+}
+
+export async function transferToken(account?: string, options: TransactionTransferOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Transfer Tokens ')))
+  }
+
+  try {
+    const ctx = createCommandContext()
+
+    const activeWallet = ensureActiveWallet(ctx.walletStorage)
+    if (!activeWallet) return
+
+    // Get Safe
+    let chainId: string
+    let address: Address
+
+    if (account) {
+      const parsed = parseAddressInput(account, ctx.chains)
+      if (!parsed) return
+      chainId = parsed.chainId
+      address = parsed.address
+    } else {
+      if (isNonInteractiveMode()) {
+        outputError('Safe address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+      }
+      const result = await selectDeployedSafe(ctx.safeStorage, ctx.configStore, ctx.chains)
+      if (!result) return
+      chainId = result.chainId
+      address = result.address
+    }
+
+    const safe = ctx.safeStorage.getSafe(chainId, address)
+    if (!safe) {
+      outputError(`Safe not found: ${address} on chain ${chainId}`, ExitCode.SAFE_NOT_FOUND)
+    }
+
+    const chain = ensureChainConfigured(safe.chainId, ctx.configStore)
+    if (!chain) return
+
+    if (isNonInteractiveMode() && (!options.token || !options.to || !options.amount)) {
+      outputError(
+        '--token, --to and --amount are required in non-interactive mode',
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Get token: address, well-known symbol, or the native currency
+    let tokenInput = options.token
+    if (!tokenInput) {
+      const input = await p.text({
+        message: `Token (address, symbol like USDC, or "native" for ${chain.currency}):`,
+        placeholder: 'native, USDC or 0x...',
+        validate: (value) => (value?.trim() ? undefined : 'Token is required'),
+      })
+      if (!checkCancelled(input)) return
+      tokenInput = (input as string).trim()
+    }
+
+    let token: Address
+    const knownToken = findKnownToken(chainId, tokenInput)
+    if (['native', chain.currency.toLowerCase()].includes(tokenInput.toLowerCase())) {
+      token = zeroAddress
+    } else if (knownToken) {
+      token = knownToken
+    } else {
+      try {
+        token = ctx.validator.assertAddressWithChain(tokenInput, chainId, ctx.chains, 'Token')
+      } catch {
+        outputError(
+          `Unknown token "${tokenInput}" on ${chain.name}. Use the token contract address`,
+          ExitCode.INVALID_ARGS
+        )
+      }
+    }
+
+    // Fetch owners, token metadata and the Safe's balance
+    const spinner = !isNonInteractiveMode() ? p.spinner() : null
+    spinner?.start('Fetching token information from blockchain...')
+
+    const txService = new TransactionService(chain)
+    const tokenService = new TokenService(chain)
+    let owners: Address[]
+    let tokenInfo: TokenInfo
+    let balance: bigint
+    try {
+      ;[owners, tokenInfo, balance] = await Promise.all([
+        txService.getOwners(safe.address as Address),
+        tokenService.getTokenInfo(token),
+        tokenService.getBalance(token, safe.address as Address),
+      ])
+      spinner?.stop('Token information fetched')
+    } catch (error) {
+      spinner?.stop('Failed to fetch token information')
+      outputError(
+        error instanceof Error ? error.message : 'Failed to fetch token data from blockchain',
+        ExitCode.NETWORK_ERROR
+      )
+    }
+
+    if (!ensureWalletIsOwner(activeWallet, owners)) return
+
+    const balanceFormatted = `${formatUnits(balance, tokenInfo.decimals)} ${tokenInfo.symbol}`
+
+    // Get recipient
+    let toInput = options.to
+    if (!toInput) {
+      const input = await p.text({
+        message: 'Recipient address (supports EIP-3770 format: shortName:address):',
+        placeholder: '0x... or eth:0x...',
+        validate: (value) => ctx.validator.validateAddressWithChain(value, chainId, ctx.chains),
+      })
+      if (!checkCancelled(input)) return
+      toInput = input as string
+    }
+
+    let to: Address
+    try {
+      to = ctx.validator.assertAddressWithChain(toInput, chainId, ctx.chains, 'Recipient address')
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid address', ExitCode.INVALID_ARGS)
+    }
+
+    // Get amount in token units
+    let amountInput = options.amount
+    if (!amountInput) {
+      const input = await p.text({
+        message: `Amount (${balanceFormatted} available):`,
+        placeholder: '1.5',
+        validate: (value) => {
+          try {
+            parseTokenAmount(value ?? '', tokenInfo.decimals)
+            return undefined
+          } catch (error) {
+            return error instanceof Error ? error.message : 'Invalid amount'
+          }
+        },
+      })
+      if (!checkCancelled(input)) return
+      amountInput = input as string
+    }
+
+    let amount: bigint
+    try {
+      amount = parseTokenAmount(amountInput, tokenInfo.decimals)
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : 'Invalid amount', ExitCode.INVALID_ARGS)
+    }
+
+    if (amount > balance) {
+      outputError(`Insufficient balance: Safe holds ${balanceFormatted}`, ExitCode.INVALID_ARGS)
+    }
+
+    const call = encodeTokenTransfer(token, to, amount)
+
+    if (!isNonInteractiveMode()) {
+      console.log('')
+      console.log(pc.bold('Transfer Summary:'))
+      console.log(`  ${pc.dim('Safe:')}       ${safe.name}`)
+      console.log(
+        `  ${pc.dim('Token:')}      ${tokenInfo.symbol}${token === zeroAddress ? '' : ` (${token})`}`
+      )
+      console.log(`  ${pc.dim('Amount:')}     ${formatUnits(amount, tokenInfo.decimals)}`)
+      console.log(`  ${pc.dim('Recipient:')}  ${to}`)
+      console.log(`  ${pc.dim('Balance:')}    ${balanceFormatted}`)
+      console.log('')
+
+      const confirm = await p.confirm({
+        message: 'Create this transfer transaction?',
+        initialValue: true,
+      })
+
+      if (!checkCancelled(confirm)) return
+      if (!confirm) {
+        p.cancel('Operation cancelled')
+        return
+      }
+    }
+
+    const createSpinner = !isNonInteractiveMode() ? p.spinner() : null
+    createSpinner?.start('Creating transfer transaction...')
+
+    const createdTx = await txService.createTransaction(safe.address as Address, {
+      ...call,
+      operation: 0,
+    })
+
+    // Store transaction
+    ctx.transactionStore.createTransaction(
+      createdTx.safeTxHash,
+      safe.address as Address,
+      safe.chainId,
+      createdTx.metadata,
+      activeWallet.address as Address
+    )
+
+    createSpinner?.stop('Transaction created')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Transfer transaction created', {
+        safeTxHash: createdTx.safeTxHash,
+        safeAddress: safe.address,
+        chainId: safe.chainId,
+        chainName: chain.name,
+        token,
+        symbol: tokenInfo.symbol,
+        decimals: tokenInfo.decimals,
+        to,
+        amount: amount.toString(),
+        nonce: createdTx.metadata.nonce,
+      })
+    } else {
+      await renderScreen(TransactionCreateSuccessScreen, {
+        safeTxHash: createdTx.safeTxHash,
+      })
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
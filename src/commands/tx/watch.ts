@@ -0,0 +1,259 @@
+import type { Address } from 'viem'
+import { SafeTransactionServiceAPI } from '../../services/api-service.js'
+import { TransactionService } from '../../services/transaction-service.js'
+import type { ChainConfig } from '../../types/config.js'
+import { isJsonMode } from '../../types/global-options.js'
+import { renderLiveScreen } from '../../ui/render.js'
+import { TransactionWatchScreen } from '../../ui/screens/index.js'
+import type { TransactionWatchScreenProps, WatchedSafe } from '../../ui/screens/index.js'
+import { createCommandContext, type CommandContext } from '../../utils/command-context.js'
+import {
+  handleCommandError,
+  isNonInteractiveMode,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { runHookCommand, type HookPayload } from '../../utils/hooks.js'
+import { collectWatchEntries, diffWatchEntries, type WatchEntry } from '../../utils/tx-watch.js'
+import { parseAddressInput } from '../../utils/safe-helpers.js'
+
+export interface TransactionWatchOptions {
+  interval?: string
+  onNew?: string
+  onExecutable?: string
+}
+
+interface WatchTarget {
+  chainId: string
+  address: Address
+  name?: string
+  chain?: ChainConfig
+}
+
+// Shorter intervals risk Transaction Service rate limits
+const MIN_INTERVAL_SECONDS = 5
+const MAX_EVENTS = 5
+
+/**
+ * Fetch the on-chain nonce, threshold and owners plus queued transactions of one Safe
+ */
+async function pollSafe(
+  ctx: CommandContext,
+  target: WatchTarget,
+  chain: ChainConfig,
+  wallet?: Address
+): Promise<{ currentNonce: number; threshold: number; entries: WatchEntry[] }> {
+  const txService = new TransactionService(chain)
+
+  const fetchService = async () => {
+    if (!chain.transactionServiceUrl) return []
+    const preferences = ctx.configStore.getPreferences()
+    const apiService = new SafeTransactionServiceAPI(chain, {
+      apiKey: preferences.safeApiKey,
+      useStaging: preferences.isStagingSafeApi,
+    })
+    return apiService.getPendingTransactions(target.address)
+  }
+
+  const [currentNonce, threshold, owners, service] = await Promise.all([
+    txService.getNonce(target.address),
+    txService.getThreshold(target.address),
+    txService.getOwners(target.address),
+    fetchService(),
+  ])
+
+  const entries = collectWatchEntries({
+    safeAddress: target.address,
+    chainId: target.chainId,
+    currentNonce,
+    threshold,
+    owners,
+    local: ctx.transactionStore.getTransactionsBySafe(target.address, target.chainId),
+    service,
+    wallet,
+  })
+
+  return { currentNonce, threshold, entries }
+}
+
+function toHookPayload(event: 'new' | 'executable', entry: WatchEntry): HookPayload {
+  return {
+    event,
+    safeTxHash: entry.safeTxHash,
+    safeAddress: entry.safeAddress,
+    chainId: entry.chainId,
+    nonce: entry.nonce,
+    to: entry.to,
+    value: entry.value,
+    confirmations: entry.confirmations,
+    threshold: entry.threshold,
+    needsSignature: entry.needsSignature,
+  }
+}
+
+/**
+ * Polls the Transaction Service and RPC until interrupted, showing queued transactions
+ * and running hook commands when a transaction appears or becomes executable.
+ * The first poll is the baseline, so hooks only fire for later changes.
+ */
+export async function watchTransactions(
+  accounts: string[] = [],
+  options: TransactionWatchOptions = {}
+) {
+  try {
+    const ctx = createCommandContext()
+
+    const interval = options.interval !== undefined ? Number(options.interval) : 30
+    if (!Number.isInteger(interval) || interval < MIN_INTERVAL_SECONDS) {
+      outputError(
+        `Interval must be a whole number of seconds, at least ${MIN_INTERVAL_SECONDS}`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+
+    // Watch the given Safes, or every deployed Safe
+    let targets: WatchTarget[]
+    if (accounts.length > 0) {
+      targets = []
+      for (const account of accounts) {
+        const parsed = parseAddressInput(account, ctx.chains)
+        if (!parsed) return
+        targets.push({
+          ...parsed,
+          name: ctx.safeStorage.getSafe(parsed.chainId, parsed.address)?.name,
+        })
+      }
+    } else {
+      targets = ctx.safeStorage
+        .getAllSafes()
+        .filter((safe) => safe.deployed)
+        .map((safe) => ({
+          chainId: safe.chainId,
+          address: safe.address as Address,
+          name: safe.name,
+        }))
+      if (targets.length === 0) {
+        outputError('No deployed Safes found', ExitCode.SAFE_NOT_FOUND)
+      }
+    }
+    for (const target of targets) {
+      target.chain = ctx.configStore.getChain(target.chainId)
+    }
+
+    const wallet = ctx.walletStorage.getActiveWallet()?.address as Address | undefined
+    const hooks = { new: options.onNew, executable: options.onExecutable }
+
+    const views: WatchedSafe[] = targets.map((target) => ({
+      name: target.name,
+      safeEip3770: formatSafeAddress(target.address, target.chainId, ctx.chains),
+      chainName: target.chain?.name ?? target.chainId,
+      entries: [],
+    }))
+    const events: string[] = []
+    let lastUpdated: string | undefined
+
+    const screen = !isNonInteractiveMode()
+      ? renderLiveScreen<TransactionWatchScreenProps>(TransactionWatchScreen, {
+          safes: views,
+          walletAddress: wallet,
+          interval,
+          events,
+        })
+      : null
+    const render = () =>
+      screen?.update({
+        safes: [...views],
+        walletAddress: wallet,
+        lastUpdated,
+        interval,
+        events: events.slice(-MAX_EVENTS),
+      })
+
+    const log = (message: string) => {
+      events.push(`${new Date().toLocaleTimeString()} ${message}`)
+    }
+
+    const emit = async (event: 'new' | 'executable', entry: WatchEntry, view: WatchedSafe) => {
+      const payload = toHookPayload(event, entry)
+      if (isJsonMode()) {
+        console.log(JSON.stringify(payload))
+      }
+      log(
+        `${event === 'new' ? 'New transaction' : 'Ready to execute'}: ${entry.safeTxHash.slice(0, 10)}... (nonce ${entry.nonce}) on ${view.name ?? view.safeEip3770}`
+      )
+
+      const command = hooks[event]
+      if (!command) return
+      try {
+        await runHookCommand(command, payload)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Hook failed'
+        log(message)
+        if (isJsonMode()) {
+          console.log(
+            JSON.stringify({ event: 'hook-error', safeTxHash: entry.safeTxHash, error: message })
+          )
+        }
+      }
+    }
+
+    let stopped = false
+    const exited = screen?.waitUntilExit().then(() => {
+      stopped = true
+    })
+
+    const previous = new Map<number, WatchEntry[]>()
+    while (!stopped) {
+      const results = await Promise.allSettled(
+        targets.map(async (target) => {
+          if (!target.chain) throw new Error(`Chain ${target.chainId} is not configured`)
+          return pollSafe(ctx, target, target.chain, wallet)
+        })
+      )
+
+      for (const [index, result] of results.entries()) {
+        const view = views[index]
+        if (result.status === 'rejected') {
+          const message = result.reason instanceof Error ? result.reason.message : 'Poll failed'
+          views[index] = { ...view, error: message }
+          if (isJsonMode()) {
+            console.log(
+              JSON.stringify({
+                event: 'error',
+                safeAddress: targets[index].address,
+                error: message,
+              })
+            )
+          }
+          continue
+        }
+
+        const { currentNonce, threshold, entries } = result.value
+        views[index] = { ...view, currentNonce, threshold, entries, error: undefined }
+
+        const before = previous.get(index)
+        previous.set(index, entries)
+        if (!before) continue
+
+        const changes = diffWatchEntries(before, entries)
+        for (const entry of changes.added) await emit('new', entry, views[index])
+        for (const entry of changes.executable) await emit('executable', entry, views[index])
+      }
+
+      lastUpdated = new Date().toISOString()
+      render()
+
+      let timer: NodeJS.Timeout | undefined
+      await Promise.race([
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, interval * 1000)
+        }),
+        ...(exited ? [exited] : []),
+      ])
+      clearTimeout(timer)
+    }
+  } catch (error) {
+    handleCommandError(error)
+  }
+}
@@ -0,0 +1,125 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { getConfigStore } from '../../storage/config-store.js'
+import { getWalletStorage } from '../../storage/wallet-store.js'
+import {
+  createSecretBackend,
+  SECRET_COMMAND_PRESETS,
+  type SecretCommandPreset,
+} from '../../storage/secret-backends.js'
+import type { SecretBackendConfig } from '../../types/config.js'
+import {
+  checkCancelled,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+  outputWarning,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export interface WalletBackendOptions {
+  get?: string
+  set?: string
+  delete?: string
+}
+
+const BACKEND_TYPES = ['file', 'libsecret', 'command', ...Object.keys(SECRET_COMMAND_PRESETS)]
+
+function describeBackend(backend: SecretBackendConfig): string {
+  switch (backend.type) {
+    case 'file':
+      return 'file (encrypted, next to the CLI config)'
+    case 'libsecret':
+      return 'libsecret (Secret Service via secret-tool)'
+    case 'command':
+      return `command (get: ${backend.get})`
+  }
+}
+
+/**
+ * Build the backend config from the type argument and command options
+ */
+function resolveBackendConfig(type: string, options: WalletBackendOptions): SecretBackendConfig {
+  if (type === 'file' || type === 'libsecret') {
+    return { type }
+  }
+  if (type in SECRET_COMMAND_PRESETS) {
+    return { type: 'command', ...SECRET_COMMAND_PRESETS[type as SecretCommandPreset] }
+  }
+  if (type === 'command') {
+    if (!options.get || !options.set || !options.delete) {
+      outputError(
+        'The command backend needs --get, --set and --delete commands',
+        ExitCode.INVALID_ARGS
+      )
+    }
+    return { type: 'command', get: options.get, set: options.set, delete: options.delete }
+  }
+
+  outputError(
+    `Unknown secret backend: ${type}. Use one of: ${BACKEND_TYPES.join(', ')}`,
+    ExitCode.INVALID_ARGS
+  )
+}
+
+/**
+ * Shows the secret backend, or moves the encrypted wallet keys to another one.
+ * Entries stay encrypted with the wallet password in every backend.
+ */
+export async function setWalletBackend(type?: string, options: WalletBackendOptions = {}) {
+  const configStore = getConfigStore()
+  const current = configStore.getSecretBackend()
+
+  if (!type) {
+    if (isNonInteractiveMode()) {
+      outputSuccess('Secret backend', current)
+    } else {
+      p.log.info(`Secret backend: ${describeBackend(current)}`)
+    }
+    return
+  }
+
+  const target = resolveBackendConfig(type, options)
+  if (JSON.stringify(target) === JSON.stringify(current)) {
+    outputError(`The ${target.type} backend is already in use`, ExitCode.INVALID_ARGS)
+  }
+
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Secret Backend ')))
+
+    const confirm = await p.confirm({
+      message: `Move wallet keys from ${describeBackend(current)} to ${describeBackend(target)}?`,
+      initialValue: true,
+    })
+    if (!checkCancelled(confirm) || !confirm) {
+      p.cancel('Operation cancelled')
+      return
+    }
+  }
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Moving wallet keys...')
+
+  try {
+    // The config is saved before the old entries are deleted, so keys are never orphaned
+    const { moved, leftover } = getWalletStorage().migrateSecrets(createSecretBackend(target), () =>
+      configStore.setSecretBackend(target)
+    )
+    spinner?.stop(`Moved ${moved} key(s)`)
+
+    if (leftover.length > 0) {
+      outputWarning(
+        `Could not remove ${leftover.join(', ')} from ${describeBackend(current)}. Delete them manually.`
+      )
+    }
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Secret backend changed', { ...target, moved, leftover })
+    } else {
+      p.outro(`Wallet keys are now stored in ${describeBackend(target)}`)
+    }
+  } catch (error) {
+    spinner?.stop('Failed to change secret backend')
+    outputError(error instanceof Error ? error.message : 'Unknown error', ExitCode.WALLET_ERROR)
+  }
+}
@@ -0,0 +1,104 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { getWalletStorage } from '../../storage/wallet-store.js'
+import { getValidationService } from '../../services/validation-service.js'
+import {
+  checkCancelled,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { getPassword, ENV_VARS } from '../../utils/password-handler.js'
+import { getGlobalOptions } from '../../types/global-options.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+/**
+ * Get the new wallet password (confirmed when typed)
+ * @returns The password, or null if cancelled
+ */
+async function getNewPassword(): Promise<string | null> {
+  const validator = getValidationService()
+
+  const envPassword = process.env[ENV_VARS.NEW_WALLET_PASSWORD]
+  if (envPassword) {
+    const error = validator.validatePassword(envPassword)
+    if (error) {
+      outputError(error, ExitCode.INVALID_ARGS)
+    }
+    return envPassword
+  }
+  if (isNonInteractiveMode()) {
+    outputError(
+      `Set ${ENV_VARS.NEW_WALLET_PASSWORD} to change the password in non-interactive mode`,
+      ExitCode.AUTH_FAILURE
+    )
+  }
+
+  const password = await p.password({
+    message: 'Enter the new wallet password:',
+    validate: (value) => validator.validatePassword(value),
+  })
+  if (!checkCancelled(password)) return null
+
+  const confirmPassword = await p.password({
+    message: 'Confirm new password:',
+    validate: (value) => validator.validatePasswordConfirmation(value, password as string),
+  })
+  if (!checkCancelled(confirmPassword)) return null
+
+  return password as string
+}
+
+/**
+ * Re-encrypts all stored private keys and seed phrases with a new password.
+ * Entries encrypted with older key derivation settings are upgraded on the way.
+ */
+export async function changeWalletPassword() {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Change Wallet Password ')))
+  }
+
+  const walletStorage = getWalletStorage()
+  const globalOptions = getGlobalOptions()
+
+  const currentPassword = await getPassword(
+    {
+      password: globalOptions.password,
+      passwordFile: globalOptions.passwordFile,
+      passwordEnv: ENV_VARS.WALLET_PASSWORD,
+    },
+    'Enter the current wallet password:'
+  )
+  if (!currentPassword) {
+    outputError('Current password is required', ExitCode.AUTH_FAILURE)
+  }
+
+  const newPassword = await getNewPassword()
+  if (!newPassword) return
+
+  if (newPassword === currentPassword) {
+    outputError('The new password must differ from the current one', ExitCode.INVALID_ARGS)
+  }
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Re-encrypting wallet keys...')
+
+  try {
+    const count = walletStorage.changePassword(currentPassword, newPassword)
+    spinner?.stop(`Re-encrypted ${count} key(s)`)
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Wallet password changed', { reencrypted: count })
+    } else {
+      p.log.info(`Use the new password from now on, e.g. in ${ENV_VARS.WALLET_PASSWORD}`)
+      p.outro('Wallet password changed')
+    }
+  } catch (error) {
+    spinner?.stop('Failed to change password')
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    outputError(
+      message,
+      message.includes('Incorrect password') ? ExitCode.AUTH_FAILURE : ExitCode.ERROR
+    )
+  }
+}
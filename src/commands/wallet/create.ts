@@ -9,7 +9,14 @@ import { isNonInteractiveMode, outputSuccess, outputError } from '../../utils/co
 import { getPassword, validatePasswordSecurity } from '../../utils/password-handler.js'
 import { getGlobalOptions } from '../../types/global-options.js'
 import { ExitCode } from '../../constants/exit-codes.js'
-import { generatePrivateKey } from '../../utils/key-generation.js'
+import { randomInt } from 'crypto'
+import {
+  generatePrivateKey,
+  generateMnemonicPhrase,
+  getMnemonicDerivationPath,
+  MNEMONIC_WORD_COUNTS,
+  type MnemonicWordCount,
+} from '../../utils/key-generation.js'
 
 /**
  * Security warnings displayed before generating a private key.
@@ -22,12 +29,26 @@ const SECURITY_WARNINGS = [
   'This CLI stores keys encrypted locally with your password',
 ]
 
+/**
+ * Security warnings displayed before generating a seed phrase.
+ */
+const MNEMONIC_SECURITY_WARNINGS = [
+  'This command will generate a NEW seed phrase',
+  'You are SOLELY responsible for backing it up securely',
+  'Loss of your seed phrase = permanent loss of funds of ALL its accounts',
+  'NEVER share your seed phrase with anyone',
+  'This CLI stores the seed encrypted locally with your password',
+]
+
+// Words asked back to verify a seed phrase backup
+const QUIZ_WORD_COUNT = 3
+
 /**
  * Displays security warnings and gets user confirmation.
  * @returns true if user confirmed, false if cancelled
  */
-async function showSecurityWarnings(): Promise<boolean> {
-  p.note(SECURITY_WARNINGS.join('\n'), '🔐 Security Warning')
+async function showSecurityWarnings(warnings: string[] = SECURITY_WARNINGS): Promise<boolean> {
+  p.note(warnings.join('\n'), '🔐 Security Warning')
 
   const confirmed = await p.confirm({
     message: 'Do you understand these risks and wish to continue?',
@@ -82,13 +103,74 @@ async function verifyBackup(privateKey: string): Promise<boolean> {
   return true
 }
 
+/**
+ * Displays the generated seed phrase as numbered words.
+ * @param mnemonic - The generated seed phrase
+ */
+function displayMnemonic(mnemonic: string): void {
+  const words = mnemonic.split(' ')
+  const rows = []
+  for (let i = 0; i < words.length; i += 4) {
+    rows.push(
+      words
+        .slice(i, i + 4)
+        .map((word, j) => `${String(i + j + 1).padStart(2)}. ${word.padEnd(9)}`)
+        .join(' ')
+    )
+  }
+
+  p.note(
+    `${rows.join('\n')}\n\n` +
+      'Write these words down in order and store them in a secure location.\n' +
+      'This is the ONLY time they will be displayed.\n' +
+      'Anyone with this phrase has FULL control of every account derived from it.',
+    '🌱 Your Seed Phrase'
+  )
+}
+
+/**
+ * Verifies that the user has backed up their seed phrase.
+ * Asks for a few randomly chosen words by position.
+ *
+ * @param mnemonic - The seed phrase to verify
+ * @returns true if verification succeeded, false if cancelled
+ */
+async function verifyMnemonicBackup(mnemonic: string): Promise<boolean> {
+  const words = mnemonic.split(' ')
+
+  const positions = new Set<number>()
+  while (positions.size < QUIZ_WORD_COUNT) {
+    positions.add(randomInt(words.length))
+  }
+
+  for (const position of [...positions].sort((a, b) => a - b)) {
+    const answer = await p.text({
+      message: `To confirm you have saved it, enter word #${position + 1}:`,
+      validate: (value) => {
+        if (!value) return `Please enter word #${position + 1}`
+        if (value.trim().toLowerCase() !== words[position]) return 'Incorrect. Please try again.'
+        return undefined
+      },
+    })
+
+    if (p.isCancel(answer)) {
+      return false
+    }
+  }
+
+  return true
+}
+
 export interface WalletCreateOptions {
   name?: string
   skipBackupWarning?: boolean
+  mnemonic?: boolean
+  words?: string
 }
 
 /**
- * Creates a new wallet with a randomly generated private key.
+ * Creates a new wallet with a randomly generated private key, or with the first
+ * account of a new seed phrase (--mnemonic).
  * Displays security warnings, generates key, requires backup verification,
  * and stores the wallet encrypted.
  */
@@ -100,9 +182,19 @@ export async function createWallet(options: WalletCreateOptions = {}) {
   const validator = getValidationService()
   const globalOptions = getGlobalOptions()
 
+  if (options.words && !options.mnemonic) {
+    outputError('--words requires --mnemonic', ExitCode.INVALID_ARGS)
+  }
+  const wordCount = Number(options.words ?? 12) as MnemonicWordCount
+  if (!MNEMONIC_WORD_COUNTS.includes(wordCount)) {
+    outputError(`Invalid word count: ${options.words}. Use 12 or 24`, ExitCode.INVALID_ARGS)
+  }
+
   // Step 1: Show security warnings (skip if non-interactive or flag set)
   if (!options.skipBackupWarning && !isNonInteractiveMode()) {
-    const acceptedWarnings = await showSecurityWarnings()
+    const acceptedWarnings = await showSecurityWarnings(
+      options.mnemonic ? MNEMONIC_SECURITY_WARNINGS : SECURITY_WARNINGS
+    )
     if (!acceptedWarnings) {
       p.cancel('Operation cancelled')
       return
@@ -153,6 +245,10 @@ export async function createWallet(options: WalletCreateOptions = {}) {
     }
   }
 
+  if (options.mnemonic) {
+    return createMnemonicWallet(name, password, wordCount, options.skipBackupWarning)
+  }
+
   // Step 4: Generate private key
   const spinner = !isNonInteractiveMode() ? p.spinner() : null
   spinner?.start('Generating secure private key...')
@@ -212,3 +308,73 @@ export async function createWallet(options: WalletCreateOptions = {}) {
     outputError(message, ExitCode.ERROR)
   }
 }
+
+/**
+ * Steps 4-7 for a seed phrase wallet: generate, display, verify and store the
+ * seed with its first account.
+ */
+async function createMnemonicWallet(
+  name: string,
+  password: string,
+  wordCount: MnemonicWordCount,
+  skipBackupWarning?: boolean
+) {
+  const walletStorage = getWalletStorage()
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Generating secure seed phrase...')
+
+  let mnemonic: string
+  try {
+    mnemonic = generateMnemonicPhrase(wordCount)
+    spinner?.stop('Seed phrase generated successfully')
+  } catch (error) {
+    spinner?.stop('Failed to generate seed phrase')
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    outputError(message, ExitCode.ERROR)
+  }
+
+  if (!isNonInteractiveMode()) {
+    displayMnemonic(mnemonic)
+
+    if (!skipBackupWarning) {
+      const backupConfirmed = await verifyMnemonicBackup(mnemonic)
+      if (!backupConfirmed) {
+        p.cancel('Operation cancelled - wallet was not saved')
+        return
+      }
+    }
+  }
+
+  spinner?.start('Storing wallet...')
+
+  try {
+    const [wallet] = await walletStorage.importMnemonicWallets(
+      mnemonic,
+      [{ name, derivationPath: getMnemonicDerivationPath(0) }],
+      password
+    )
+    spinner?.stop('Wallet created successfully')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Wallet created successfully', {
+        name: wallet.name,
+        address: wallet.address,
+        type: wallet.type,
+        derivationPath: wallet.derivationPath,
+        mnemonic, // Include in automation mode so it can be backed up
+      })
+    } else {
+      p.log.info('Import more accounts of this seed with "safe wallet import --mnemonic"')
+      await renderScreen(WalletImportSuccessScreen, {
+        name: wallet.name,
+        address: wallet.address as Address,
+        chain: getConfigStore().getDefaultChain(),
+      })
+    }
+  } catch (error) {
+    spinner?.stop('Failed to create wallet')
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    outputError(message, ExitCode.ERROR)
+  }
+}
@@ -0,0 +1,174 @@
+import * as p from '@clack/prompts'
+import pc from 'picocolors'
+import { existsSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+import { getWalletStorage } from '../../storage/wallet-store.js'
+import { getValidationService } from '../../services/validation-service.js'
+import { shortenAddress } from '../../utils/ethereum.js'
+import {
+  checkCancelled,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { getPassword, ENV_VARS } from '../../utils/password-handler.js'
+import { encryptKeystore, getKeystoreFileName } from '../../utils/keystore.js'
+import { getGlobalOptions } from '../../types/global-options.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export interface WalletExportOptions {
+  address?: string
+  name?: string
+  keystore?: string | boolean
+}
+
+/**
+ * Get the password protecting the exported keystore (confirmed when typed)
+ * @returns The password, or null if cancelled
+ */
+async function getKeystorePassword(): Promise<string | null> {
+  const envPassword = process.env[ENV_VARS.KEYSTORE_PASSWORD]
+  if (envPassword) {
+    return envPassword
+  }
+  if (isNonInteractiveMode()) {
+    outputError(
+      `Set ${ENV_VARS.KEYSTORE_PASSWORD} to export in non-interactive mode`,
+      ExitCode.AUTH_FAILURE
+    )
+  }
+
+  const validator = getValidationService()
+  const password = await p.password({
+    message: 'Create a password for the keystore file:',
+    validate: (value) => validator.validatePassword(value),
+  })
+  if (!checkCancelled(password)) return null
+
+  const confirmPassword = await p.password({
+    message: 'Confirm keystore password:',
+    validate: (value) => validator.validatePasswordConfirmation(value, password as string),
+  })
+  if (!checkCancelled(confirmPassword)) return null
+
+  return password as string
+}
+
+/**
+ * Exports a wallet's private key as a V3 keystore file that geth, foundry and
+ * MetaMask can import.
+ */
+export async function exportWallet(options: WalletExportOptions = {}) {
+  if (!isNonInteractiveMode()) {
+    p.intro(pc.bgCyan(pc.black(' Export Wallet ')))
+  }
+
+  if (!options.keystore) {
+    outputError('Specify the export format: --keystore [file]', ExitCode.INVALID_ARGS)
+  }
+
+  const walletStorage = getWalletStorage()
+  const globalOptions = getGlobalOptions()
+  const wallets = walletStorage.getAllWallets()
+
+  if (wallets.length === 0) {
+    outputError('No wallets found', ExitCode.WALLET_ERROR)
+  }
+
+  // Find the wallet: by address or name, else the active one (or a prompt)
+  let wallet = walletStorage.getActiveWallet() ?? undefined
+  if (options.address || options.name) {
+    wallet = wallets.find((w) => {
+      if (options.address) return w.address.toLowerCase() === options.address.toLowerCase()
+      if (options.name) return w.name === options.name
+      return false
+    })
+
+    if (!wallet) {
+      const criteria = options.address ? `address: ${options.address}` : `name: ${options.name}`
+      outputError(`Wallet not found with ${criteria}`, ExitCode.WALLET_ERROR)
+    }
+  } else if (!isNonInteractiveMode()) {
+    const selected = await p.select({
+      message: 'Select wallet to export:',
+      options: wallets.map((w) => ({
+        value: w.id,
+        label: `${w.name} (${shortenAddress(w.address)})`,
+      })),
+      initialValue: wallet?.id,
+    })
+
+    if (!checkCancelled(selected)) return
+    wallet = walletStorage.getWallet(selected as string)
+  }
+
+  if (!wallet) {
+    outputError('No active wallet. Use --address or --name', ExitCode.WALLET_ERROR)
+  }
+  if (wallet.type === 'ledger') {
+    outputError(
+      'Ledger wallets cannot be exported. The key never leaves the device',
+      ExitCode.ERROR
+    )
+  }
+  if (wallet.type === 'watch-only') {
+    outputError('Watch-only wallets have no key to export', ExitCode.ERROR)
+  }
+
+  const file = resolve(
+    typeof options.keystore === 'string' ? options.keystore : getKeystoreFileName(wallet.address)
+  )
+  if (existsSync(file)) {
+    outputError(`File already exists: ${file}`, ExitCode.INVALID_ARGS)
+  }
+
+  // Decrypt the stored key
+  const password = await getPassword(
+    {
+      password: globalOptions.password,
+      passwordFile: globalOptions.passwordFile,
+      passwordEnv: 'SAFE_WALLET_PASSWORD',
+    },
+    'Enter wallet password:'
+  )
+  if (!password) {
+    outputError('Password is required', ExitCode.AUTH_FAILURE)
+  }
+
+  let privateKey: string
+  try {
+    privateKey = walletStorage.getPrivateKey(wallet.id, password)
+  } catch (error) {
+    outputError(
+      error instanceof Error ? error.message : 'Failed to decrypt private key',
+      ExitCode.AUTH_FAILURE
+    )
+  }
+
+  const keystorePassword = await getKeystorePassword()
+  if (!keystorePassword) return
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Encrypting keystore...')
+
+  try {
+    const keystore = await encryptKeystore(privateKey, keystorePassword)
+    writeFileSync(file, JSON.stringify(keystore), { mode: 0o600, flag: 'wx' })
+    spinner?.stop('Keystore written')
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Wallet exported', {
+        name: wallet.name,
+        address: wallet.address,
+        file,
+      })
+    } else {
+      p.log.warn('Anyone with this file and its password controls the wallet. Store it safely.')
+      p.outro(`Exported ${wallet.name} to ${file}`)
+    }
+  } catch (error) {
+    spinner?.stop('Failed to export wallet')
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    outputError(message, ExitCode.ERROR)
+  }
+}
@@ -0,0 +1,92 @@
+import * as p from '@clack/prompts'
+import { type Address } from 'viem'
+import { getWalletStorage } from '../../storage/wallet-store.js'
+import { getConfigStore } from '../../storage/config-store.js'
+import { getValidationService } from '../../services/validation-service.js'
+import { renderScreen } from '../../ui/render.js'
+import { WalletImportSuccessScreen } from '../../ui/screens/index.js'
+import {
+  checkCancelled,
+  isNonInteractiveMode,
+  outputSuccess,
+  outputError,
+} from '../../utils/command-helpers.js'
+import { ExitCode } from '../../constants/exit-codes.js'
+
+export interface WalletImportWatchOnlyOptions {
+  name?: string
+}
+
+/**
+ * Adds an owner address without a key. `tx sign` shows the EIP-712 typed data
+ * for such wallets and stores the signature produced by an external wallet.
+ */
+export async function importWatchOnlyWallet(
+  address?: string,
+  options: WalletImportWatchOnlyOptions = {}
+) {
+  if (!isNonInteractiveMode()) {
+    p.intro('Import Watch-only Wallet')
+  }
+
+  const walletStorage = getWalletStorage()
+  const validator = getValidationService()
+
+  if (!address) {
+    if (isNonInteractiveMode()) {
+      outputError('Address is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+    const addressInput = await p.text({
+      message: 'Owner address:',
+      placeholder: '0x...',
+      validate: (value) => validator.validateAddress(value),
+    })
+    if (!checkCancelled(addressInput)) return
+    address = addressInput as string
+  } else {
+    const error = validator.validateAddress(address)
+    if (error) {
+      outputError(error, ExitCode.INVALID_ARGS)
+    }
+  }
+
+  let name = options.name
+  if (!name) {
+    if (isNonInteractiveMode()) {
+      outputError('--name is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+    const nameInput = await p.text({
+      message: 'Give this wallet a name:',
+      placeholder: 'my-phone',
+      validate: (value) => validator.validateRequired(value, 'Wallet name'),
+    })
+    if (!checkCancelled(nameInput)) return
+    name = nameInput as string
+  } else {
+    const error = validator.validateRequired(name, 'Wallet name')
+    if (error) {
+      outputError(error, ExitCode.INVALID_ARGS)
+    }
+  }
+
+  try {
+    const wallet = await walletStorage.importWatchOnlyWallet(name.trim(), address)
+
+    if (isNonInteractiveMode()) {
+      outputSuccess('Wallet imported successfully', {
+        name: wallet.name,
+        address: wallet.address,
+        type: wallet.type,
+      })
+    } else {
+      p.log.info('Sign with your external wallet: "safe tx sign" shows the data to sign')
+      await renderScreen(WalletImportSuccessScreen, {
+        name: wallet.name,
+        address: wallet.address as Address,
+        chain: getConfigStore().getDefaultChain(),
+      })
+    }
+  } catch (error) {
+    outputError(error instanceof Error ? error.message : 'Unknown error', ExitCode.ERROR)
+  }
+}
@@ -1,4 +1,5 @@
 import * as p from '@clack/prompts'
+import { readFileSync } from 'fs'
 import { type Address } from 'viem'
 import { getWalletStorage } from '../../storage/wallet-store.js'
 import { getConfigStore } from '../../storage/config-store.js'
@@ -11,13 +12,280 @@ import {
   outputSuccess,
   outputError,
 } from '../../utils/command-helpers.js'
-import { getPassword, validatePasswordSecurity } from '../../utils/password-handler.js'
+import { getPassword, validatePasswordSecurity, ENV_VARS } from '../../utils/password-handler.js'
 import { getGlobalOptions } from '../../types/global-options.js'
 import { ExitCode } from '../../constants/exit-codes.js'
+import { getSafeStorage } from '../../storage/safe-store.js'
+import { isValidDerivationPath } from '../../services/ledger-service.js'
+import { getBalance, formatBalance } from '../../utils/balance.js'
+import {
+  deriveMnemonicAccount,
+  getMnemonicDerivationPath,
+  normalizeMnemonic,
+} from '../../utils/key-generation.js'
+import { decryptKeystore, parseKeystore } from '../../utils/keystore.js'
 
 export interface WalletImportOptions {
   privateKey?: string
   name?: string
+  mnemonic?: string | boolean
+  derivationPath?: string
+  index?: string
+  keystore?: string
+}
+
+// Accounts derived for discovery when no index range is given
+const DISCOVERY_RANGE = '0-4'
+
+interface DiscoveredAccount {
+  derivationPath: string
+  address: Address
+  balance: string
+  safes: string[] // Stored Safes the account owns
+}
+
+/**
+ * Parse an account index ("3") or inclusive range ("0-9")
+ */
+function parseIndexRange(input: string): number[] {
+  const match = input.trim().match(/^(\d+)(?:-(\d+))?$/)
+  if (!match) {
+    outputError(`Invalid index range: ${input}. Use e.g. "0" or "0-9"`, ExitCode.INVALID_ARGS)
+  }
+
+  const start = parseInt(match[1], 10)
+  const end = match[2] !== undefined ? parseInt(match[2], 10) : start
+  if (end < start || end - start >= 100) {
+    outputError(
+      `Invalid index range: ${input}. At most 100 accounts at once`,
+      ExitCode.INVALID_ARGS
+    )
+  }
+
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+}
+
+/**
+ * Derive the accounts to choose from, with their balance on the default chain and
+ * the stored Safes they own
+ */
+async function discoverAccounts(
+  mnemonic: string,
+  derivationPaths: string[],
+  withBalances: boolean
+): Promise<DiscoveredAccount[]> {
+  const defaultChain = getConfigStore().getDefaultChain()
+  const safes = getSafeStorage().getAllSafes()
+
+  return Promise.all(
+    derivationPaths.map(async (derivationPath) => {
+      const { address } = deriveMnemonicAccount(mnemonic, derivationPath)
+      return {
+        derivationPath,
+        address,
+        balance: withBalances ? await getBalance(address, defaultChain) : '0',
+        safes: safes
+          .filter((safe) =>
+            (safe.owners ?? []).some((owner) => owner.toLowerCase() === address.toLowerCase())
+          )
+          .map((safe) => safe.name),
+      }
+    })
+  )
+}
+
+/**
+ * Read and decrypt a V3 keystore file
+ * @returns The private key
+ */
+async function readKeystore(file: string): Promise<string> {
+  let json: string
+  try {
+    json = readFileSync(file, 'utf-8')
+  } catch (error) {
+    outputError(
+      `Cannot read keystore file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ExitCode.INVALID_ARGS
+    )
+  }
+
+  let keystore
+  try {
+    keystore = parseKeystore(json)
+  } catch (error) {
+    outputError(error instanceof Error ? error.message : 'Invalid keystore', ExitCode.INVALID_ARGS)
+  }
+
+  const keystorePassword = await getPassword(
+    { passwordEnv: ENV_VARS.KEYSTORE_PASSWORD },
+    'Enter the keystore password:'
+  )
+  if (!keystorePassword) {
+    outputError('Keystore password is required', ExitCode.AUTH_FAILURE)
+  }
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Decrypting keystore...')
+
+  try {
+    const privateKey = await decryptKeystore(keystore, keystorePassword)
+    spinner?.stop('Keystore decrypted')
+    return privateKey
+  } catch (error) {
+    spinner?.stop('Failed to decrypt keystore')
+    outputError(
+      error instanceof Error ? error.message : 'Failed to decrypt keystore',
+      ExitCode.AUTH_FAILURE
+    )
+  }
+}
+
+/**
+ * Import one or more accounts of a BIP-39 seed phrase
+ */
+async function importMnemonic(options: WalletImportOptions, password: string) {
+  const walletStorage = getWalletStorage()
+  const validator = getValidationService()
+
+  if (options.derivationPath && options.index) {
+    outputError('Use either --derivation-path or --index, not both', ExitCode.INVALID_ARGS)
+  }
+
+  // Get seed phrase
+  let mnemonic = typeof options.mnemonic === 'string' ? options.mnemonic : undefined
+  if (!mnemonic) {
+    if (isNonInteractiveMode()) {
+      outputError('Seed phrase is required in non-interactive mode', ExitCode.INVALID_ARGS)
+    }
+
+    const mnemonicInput = await p.password({
+      message: 'Enter your seed phrase (words separated by spaces):',
+      validate: (value) => validator.validateMnemonic(value),
+    })
+
+    if (!checkCancelled(mnemonicInput)) return
+    mnemonic = mnemonicInput as string
+  } else {
+    const error = validator.validateMnemonic(mnemonic)
+    if (error) {
+      outputError(error, ExitCode.INVALID_ARGS)
+    }
+  }
+  mnemonic = normalizeMnemonic(mnemonic)
+
+  // Get derivation paths
+  let derivationPaths: string[]
+  if (options.derivationPath) {
+    if (!isValidDerivationPath(options.derivationPath)) {
+      outputError(
+        `Invalid derivation path: ${options.derivationPath}. Use e.g. m/44'/60'/0'/0/0`,
+        ExitCode.INVALID_ARGS
+      )
+    }
+    derivationPaths = [
+      options.derivationPath.startsWith('m/')
+        ? options.derivationPath
+        : `m/${options.derivationPath}`,
+    ]
+  } else {
+    // Without a range, automation imports the first account and users pick from a few
+    const range = options.index ?? (isNonInteractiveMode() ? '0' : DISCOVERY_RANGE)
+    derivationPaths = parseIndexRange(range).map((index) => getMnemonicDerivationPath(index))
+  }
+
+  const spinner = !isNonInteractiveMode() ? p.spinner() : null
+  spinner?.start('Discovering accounts...')
+  // Balances only help when picking accounts
+  const discovered = await discoverAccounts(
+    mnemonic,
+    derivationPaths,
+    !isNonInteractiveMode() && derivationPaths.length > 1
+  )
+  spinner?.stop(`Derived ${discovered.length} account(s)`)
+
+  // Let the user pick accounts, preselecting the ones in use
+  let selected = discovered
+  if (!isNonInteractiveMode() && discovered.length > 1) {
+    const { currency } = getConfigStore().getDefaultChain()
+    const used = discovered.filter((account) => account.balance !== '0' || account.safes.length)
+
+    const selectedPaths = await p.multiselect({
+      message: 'Select accounts to import:',
+      options: discovered.map((account) => ({
+        value: account.derivationPath,
+        label: account.address,
+        hint: [
+          account.derivationPath,
+          formatBalance(account.balance, currency),
+          ...(account.safes.length ? [`owner of ${account.safes.join(', ')}`] : []),
+        ].join(' · '),
+      })),
+      initialValues: (used.length ? used : discovered.slice(0, 1)).map((a) => a.derivationPath),
+      required: true,
+    })
+
+    if (!checkCancelled(selectedPaths)) return
+    selected = discovered.filter((account) =>
+      (selectedPaths as string[]).includes(account.derivationPath)
+    )
+  }
+
+  // Get wallet name
+  let name = options.name
+  if (!name) {
+    const nameInput = await p.text({
+      message: 'Give this wallet a name:',
+      placeholder: 'my-wallet',
+      validate: (value) => validator.validateRequired(value, 'Wallet name'),
+    })
+
+    if (!checkCancelled(nameInput)) return
+    name = nameInput as string
+  } else {
+    const error = validator.validateRequired(name, 'Wallet name')
+    if (error) {
+      outputError(error, ExitCode.INVALID_ARGS)
+    }
+  }
+
+  // Several accounts are told apart by their address index
+  const accounts = selected.map((account) => ({
+    name: selected.length === 1 ? name : `${name} #${account.derivationPath.split('/').pop()}`,
+    derivationPath: account.derivationPath,
+  }))
+
+  spinner?.start('Importing wallet...')
+
+  try {
+    const wallets = await walletStorage.importMnemonicWallets(mnemonic, accounts, password)
+    spinner?.stop(`Imported ${wallets.length} account(s)`)
+
+    if (isNonInteractiveMode()) {
+      outputSuccess(`Imported ${wallets.length} account(s)`, {
+        wallets: wallets.map((wallet) => ({
+          name: wallet.name,
+          address: wallet.address,
+          type: wallet.type,
+          derivationPath: wallet.derivationPath,
+        })),
+      })
+    } else if (wallets.length === 1) {
+      await renderScreen(WalletImportSuccessScreen, {
+        name: wallets[0].name,
+        address: wallets[0].address as Address,
+        chain: getConfigStore().getDefaultChain(),
+      })
+    } else {
+      for (const wallet of wallets) {
+        p.log.success(`${wallet.name}: ${wallet.address} (${wallet.derivationPath})`)
+      }
+      p.outro(`Imported ${wallets.length} accounts from one seed phrase`)
+    }
+  } catch (error) {
+    spinner?.stop('Failed to import wallet')
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    outputError(message, ExitCode.ERROR)
+  }
 }
 
 export async function importWallet(options: WalletImportOptions = {}) {
@@ -50,9 +318,21 @@ export async function importWallet(options: WalletImportOptions = {}) {
 
   walletStorage.setPassword(password)
 
+  if ([options.privateKey, options.mnemonic, options.keystore].filter(Boolean).length > 1) {
+    outputError('Use only one of --private-key, --mnemonic or --keystore', ExitCode.INVALID_ARGS)
+  }
+  if (options.mnemonic) {
+    return importMnemonic(options, password)
+  }
+  if (options.derivationPath || options.index) {
+    outputError('--derivation-path and --index require --mnemonic', ExitCode.INVALID_ARGS)
+  }
+
   // Get private key
   let privateKey = options.privateKey
-  if (!privateKey) {
+  if (options.keystore) {
+    privateKey = await readKeystore(options.keystore)
+  } else if (!privateKey) {
     const privateKeyInput = await p.password({
       message: 'Enter your private key:',
       validate: (value) => validator.validatePrivateKey(value),
@@ -0,0 +1,63 @@
+import { parseAbi } from 'viem'
+
+// Built-in ABIs used to decode common Safe transactions without fetching from an explorer
+
+export const SAFE_ABI = parseAbi([
+  'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 _threshold)',
+  'function enableModule(address module)',
+  'function disableModule(address prevModule, address module)',
+  'function setGuard(address guard)',
+  'function setFallbackHandler(address handler)',
+  'function changeMasterCopy(address _masterCopy)',
+])
+
+export const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+])
+
+export const ERC721_ABI = parseAbi([
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function name() view returns (string)',
+])
+
+export const MULTISEND_ABI = parseAbi(['function multiSend(bytes transactions)'])
+
+export const SAFE_MIGRATION_ABI = parseAbi([
+  'function migrateSingleton()',
+  'function migrateWithFallbackHandler()',
+  'function migrateL2Singleton()',
+  'function migrateL2WithFallbackHandler()',
+])
+
+export const ALLOWANCE_MODULE_ABI = parseAbi([
+  'function addDelegate(address delegate)',
+  'function removeDelegate(address delegate, bool removeAllowances)',
+  'function setAllowance(address delegate, address token, uint96 allowanceAmount, uint16 resetTimeMin, uint32 resetBaseMin)',
+  'function resetAllowance(address delegate, address token)',
+  'function deleteAllowance(address delegate, address token)',
+  'function executeAllowanceTransfer(address safe, address token, address to, uint96 amount, address paymentToken, uint96 payment, address delegate, bytes signature)',
+  'function getDelegates(address safe, uint48 start, uint8 pageSize) view returns (address[] results, uint48 next)',
+  'function getTokens(address safe, address delegate) view returns (address[])',
+  'function getTokenAllowance(address safe, address delegate, address token) view returns (uint256[5])',
+])
+
+// Safe execution entry point and the events it emits, used to rebuild history from chain data
+export const SAFE_EXECUTION_ABI = parseAbi([
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+  'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+])
+
+// ERC-20 functions whose "amount" argument is a token amount
+export const ERC20_AMOUNT_FUNCTIONS = ['transfer', 'transferFrom', 'approve']
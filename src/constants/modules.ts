@@ -0,0 +1,39 @@
+import type { Address } from 'viem'
+
+// Head of the owner and module linked lists in the Safe contracts
+export const SENTINEL_ADDRESS = '0x0000000000000000000000000000000000000001' as Address
+
+// Canonical module deployments (safe-modules-deployments), keyed by lowercase address
+export const KNOWN_MODULES: Record<string, string> = {
+  '0xcfbfac74c26f8647cbdb8c5caf80bb5b32e43134': 'AllowanceModule 0.1.0',
+  '0x1fb403834c911eb98d56e74f5182b0d64c3b3b4d': 'AllowanceModule 0.1.0',
+  '0xaa46724893dedd72658219405185fb0fc91e091c': 'AllowanceModule 0.1.1',
+  '0xa581c4a4db7175302464ff3c06380bc3270b4037': 'Safe4337Module 0.2.0',
+  '0x75cf11467937ce3f2f357ce24ffc3dbf8fd5c226': 'Safe4337Module 0.3.0',
+  '0x4aa5bf7d840ac607cb5bd3249e6af6fc86c04897': 'SocialRecoveryModule 0.1.0',
+}
+
+/**
+ * Name of a canonical Safe module, or undefined for unknown modules
+ */
+export function getKnownModuleName(address: string): string | undefined {
+  return KNOWN_MODULES[address.toLowerCase()]
+}
+
+// AllowanceModule deployments, newest first. Chains have either 0.1.1 or one of the 0.1.0 ones.
+export const ALLOWANCE_MODULE_DEPLOYMENTS: Address[] = [
+  '0xAA46724893dedD72658219405185Fb0Fc91e091C',
+  '0xCFbFaC74C26F8647cBDb8c5caf80BB5b32E43134',
+  '0x1Fb403834C911eB98d56E74F5182b0d64C3b3b4D',
+]
+
+/**
+ * First enabled module that is a canonical AllowanceModule deployment
+ */
+export function findAllowanceModule(modules: Address[]): Address | undefined {
+  return modules.find((module) =>
+    ALLOWANCE_MODULE_DEPLOYMENTS.some(
+      (deployment) => deployment.toLowerCase() === module.toLowerCase()
+    )
+  )
+}
@@ -0,0 +1,54 @@
+import type { Address } from 'viem'
+
+// Canonical Safe singleton, fallback handler and migration deployments (safe-deployments)
+
+export interface KnownSingleton {
+  version: string
+  l2: boolean
+}
+
+// Lowercase singleton address -> version
+export const KNOWN_SINGLETONS: Record<string, KnownSingleton> = {
+  '0x34cfac646f301356faa8b21e94227e3583fe3f5f': { version: '1.1.1', l2: false },
+  '0x6851d6fdfafd08c0295c392436245e5bc78b0185': { version: '1.2.0', l2: false },
+  '0xd9db270c1b5e3bd161e8c8503c55ceabee709552': { version: '1.3.0', l2: false },
+  '0x69f4d1788e39c87893c980c06edf4b7f686e2938': { version: '1.3.0', l2: false },
+  '0x3e5c63644e683549055b9be8653de26e0b4cd36e': { version: '1.3.0', l2: true },
+  '0xfb1bffc9d739b8d520daf37df666da4c687191ea': { version: '1.3.0', l2: true },
+  '0x41675c099f32341bf84bfc5382af534df5c7461a': { version: '1.4.1', l2: false },
+  '0x29fcb43b46531bca003ddc8fcb67ffe91900c762': { version: '1.4.1', l2: true },
+}
+
+// Lowercase fallback handler address -> display name
+export const KNOWN_FALLBACK_HANDLERS: Record<string, string> = {
+  '0xd5d82b6addc9027b22dca772aa68d5d74cdbdf44': 'DefaultCallbackHandler 1.1.1',
+  '0xf48f2b2d2a534e402487b3ee7c18c33aec0fe5e4': 'CompatibilityFallbackHandler 1.3.0',
+  '0x017062a1de2fe6b99be3d9d37841fed19f573804': 'CompatibilityFallbackHandler 1.3.0',
+  '0xfd0732dc9e303f09fcef3a7388ad10a83459ec99': 'CompatibilityFallbackHandler 1.4.1',
+}
+
+export interface SafeUpgradeTarget {
+  singleton: Address
+  singletonL2: Address
+  fallbackHandler: Address
+  // SafeMigration contract, delegatecalled by Safes >= 1.3.0
+  migration: Address
+}
+
+// Versions `account upgrade --to` can migrate to
+export const SAFE_UPGRADE_TARGETS: Record<string, SafeUpgradeTarget> = {
+  '1.4.1': {
+    singleton: '0x41675C099F32341bf84BFc5382aF534df5C7461a',
+    singletonL2: '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762',
+    fallbackHandler: '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99',
+    migration: '0x526643F69b81B008F46d95CD5ced5eC0edFFDaC6',
+  },
+}
+
+export function getKnownSingleton(address: string): KnownSingleton | undefined {
+  return KNOWN_SINGLETONS[address.toLowerCase()]
+}
+
+export function getKnownFallbackHandlerName(address: string): string | undefined {
+  return KNOWN_FALLBACK_HANDLERS[address.toLowerCase()]
+}
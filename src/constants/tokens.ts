@@ -0,0 +1,60 @@
+import type { Address } from 'viem'
+
+// Well-known ERC-20 tokens per chain, so transfers can use a symbol instead of an address.
+// Symbols are upper case; decimals and symbols are still read on-chain.
+export const KNOWN_TOKENS: Record<string, Record<string, Address>> = {
+  // Ethereum Mainnet
+  '1': {
+    USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+    SAFE: '0x5aFE3855358E112B5647B952709E6165e1c1eEEe',
+  },
+  // Sepolia
+  '11155111': {
+    USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+    WETH: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+  },
+  // Gnosis Chain
+  '100': {
+    USDC: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83',
+    WXDAI: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
+    WETH: '0x6A023CCd1ff6F2045C3309768eAd9E68F978f6e1',
+    GNO: '0x9C58BAcC331c9aa871AFD802DB6379a98e80CEdb',
+  },
+  // Polygon
+  '137': {
+    USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+    WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+  },
+  // Arbitrum One
+  '42161': {
+    USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+    WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+  },
+  // Optimism
+  '10': {
+    USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+    WETH: '0x4200000000000000000000000000000000000006',
+  },
+  // Base
+  '8453': {
+    USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    WETH: '0x4200000000000000000000000000000000000006',
+  },
+}
+
+/**
+ * Address of a well-known token by symbol (case-insensitive), or undefined if unknown
+ */
+export function findKnownToken(chainId: string, symbol: string): Address | undefined {
+  return KNOWN_TOKENS[chainId]?.[symbol.toUpperCase()]
+}
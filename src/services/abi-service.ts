@@ -1,5 +1,6 @@
 import type { Address } from 'viem'
 import type { ChainConfig } from '../types/config.js'
+import type { ABICacheStore } from '../storage/abi-cache-store.js'
 import { SafeCLIError } from '../utils/errors.js'
 
 /**
@@ -73,10 +74,12 @@ export interface ContractInfo {
 export class ABIService {
   private chain: ChainConfig
   private etherscanApiKey?: string
+  private cache?: ABICacheStore
 
-  constructor(chain: ChainConfig, etherscanApiKey?: string) {
+  constructor(chain: ChainConfig, etherscanApiKey?: string, cache?: ABICacheStore) {
     this.chain = chain
     this.etherscanApiKey = etherscanApiKey
+    this.cache = cache
   }
 
   /**
@@ -93,8 +96,18 @@ export class ABIService {
    * Smart ordering:
    * - With API key: Etherscan first (has proxy detection), then Sourcify
    * - Without API key: Sourcify first (free), then Etherscan
+   * Results are served from the local ABI cache when one is configured
    */
   async fetchContractInfo(address: Address): Promise<ContractInfo> {
+    const cached = this.cache?.get(this.chain.chainId, address)
+    if (cached) return cached
+
+    const info = await this.fetchContractInfoFromSources(address)
+    this.cache?.set(this.chain.chainId, address, info)
+    return info
+  }
+
+  private async fetchContractInfoFromSources(address: Address): Promise<ContractInfo> {
     // Smart ordering: prefer Etherscan if API key is configured (for proxy detection)
     // Otherwise, try Sourcify first (free, no API key needed)
     const tryEtherscanFirst = !!this.etherscanApiKey
@@ -0,0 +1,242 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  zeroAddress,
+  type Address,
+  type Hash,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import type { ChainConfig } from '../types/config.js'
+import { SafeCLIError } from '../utils/errors.js'
+import { normalizePrivateKey } from '../utils/validation.js'
+import { getRemainingAllowance } from '../utils/allowance.js'
+import { ALLOWANCE_MODULE_ABI } from '../constants/abis.js'
+import { ALLOWANCE_MODULE_DEPLOYMENTS } from '../constants/modules.js'
+
+const DELEGATES_PAGE_SIZE = 50
+
+export interface TokenAllowance {
+  delegate: Address
+  token: Address // Zero address for the native token
+  amount: bigint
+  spent: bigint
+  remaining: bigint
+  resetTimeMin: number
+  lastResetMin: number
+  nextResetMin?: number
+  nonce: number
+}
+
+/**
+ * Reads Safe Allowance Module state and executes allowance transfers as a delegate
+ */
+export class AllowanceService {
+  private chain: ChainConfig
+  private privateKey?: `0x${string}`
+
+  constructor(chain: ChainConfig, privateKey?: string) {
+    this.chain = chain
+    if (privateKey) {
+      this.privateKey = normalizePrivateKey(privateKey)
+    }
+  }
+
+  /**
+   * Find the AllowanceModule deployment available on this chain
+   */
+  async findDeployment(): Promise<Address | null> {
+    try {
+      const client = this.createPublicClient()
+      for (const deployment of ALLOWANCE_MODULE_DEPLOYMENTS) {
+        const code = await client.getBytecode({ address: deployment })
+        if (code && code !== '0x') {
+          return deployment
+        }
+      }
+      return null
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to find allowance module: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Get all delegates of a Safe
+   */
+  async getDelegates(safeAddress: Address, module: Address): Promise<Address[]> {
+    try {
+      const client = this.createPublicClient()
+      const delegates: Address[] = []
+      let start = 0
+
+      do {
+        const [results, next] = await client.readContract({
+          address: module,
+          abi: ALLOWANCE_MODULE_ABI,
+          functionName: 'getDelegates',
+          args: [safeAddress, start, DELEGATES_PAGE_SIZE],
+        })
+        delegates.push(...results)
+        start = next
+      } while (start !== 0)
+
+      return delegates
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get delegates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Get the allowances of every delegate of a Safe
+   */
+  async getAllowances(safeAddress: Address, module: Address): Promise<TokenAllowance[]> {
+    const delegates = await this.getDelegates(safeAddress, module)
+
+    try {
+      const client = this.createPublicClient()
+      const allowances: TokenAllowance[] = []
+
+      for (const delegate of delegates) {
+        const tokens = await client.readContract({
+          address: module,
+          abi: ALLOWANCE_MODULE_ABI,
+          functionName: 'getTokens',
+          args: [safeAddress, delegate],
+        })
+
+        for (const token of tokens) {
+          allowances.push(await this.readAllowance(safeAddress, module, delegate, token))
+        }
+      }
+
+      return allowances
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get allowances: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Get a delegate's allowance for one token (amount 0 when none is set)
+   */
+  async getAllowance(
+    safeAddress: Address,
+    module: Address,
+    delegate: Address,
+    token: Address
+  ): Promise<TokenAllowance> {
+    try {
+      return await this.readAllowance(safeAddress, module, delegate, token)
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get allowance: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Transfer from the Safe within the delegate's allowance. The delegate sends the
+   * transaction itself, so no transfer signature is needed.
+   */
+  async executeAllowanceTransfer(
+    safeAddress: Address,
+    module: Address,
+    token: Address,
+    to: Address,
+    amount: bigint
+  ): Promise<Hash> {
+    if (!this.privateKey) {
+      throw new SafeCLIError('Private key required to execute allowance transfer')
+    }
+
+    try {
+      const account = privateKeyToAccount(this.privateKey)
+
+      const client = createWalletClient({
+        account,
+        chain: this.getViemChain(),
+        transport: http(this.chain.rpcUrl),
+      })
+
+      const hash = await client.sendTransaction({
+        to: module,
+        data: encodeFunctionData({
+          abi: ALLOWANCE_MODULE_ABI,
+          functionName: 'executeAllowanceTransfer',
+          args: [safeAddress, token, to, amount, zeroAddress, 0n, account.address, '0x'],
+        }),
+      })
+
+      const receipt = await this.createPublicClient().waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`)
+      }
+
+      return hash
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to execute allowance transfer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  private async readAllowance(
+    safeAddress: Address,
+    module: Address,
+    delegate: Address,
+    token: Address
+  ): Promise<TokenAllowance> {
+    const [amount, spent, resetTimeMin, lastResetMin, nonce] = await this.createPublicClient()
+      .readContract({
+        address: module,
+        abi: ALLOWANCE_MODULE_ABI,
+        functionName: 'getTokenAllowance',
+        args: [safeAddress, delegate, token],
+      })
+      .then((values) => values.map((value) => BigInt(value)))
+
+    const allowance = {
+      amount,
+      spent,
+      resetTimeMin: Number(resetTimeMin),
+      lastResetMin: Number(lastResetMin),
+    }
+
+    return {
+      delegate,
+      token,
+      ...allowance,
+      ...getRemainingAllowance(allowance, Math.floor(Date.now() / 60000)),
+      nonce: Number(nonce),
+    }
+  }
+
+  private getViemChain() {
+    return {
+      id: parseInt(this.chain.chainId, 10),
+      name: this.chain.name,
+      nativeCurrency: {
+        name: this.chain.currency,
+        symbol: this.chain.currency,
+        decimals: 18,
+      },
+      rpcUrls: {
+        default: { http: [this.chain.rpcUrl] },
+        public: { http: [this.chain.rpcUrl] },
+      },
+    }
+  }
+
+  private createPublicClient() {
+    return createPublicClient({
+      chain: this.getViemChain(),
+      transport: http(this.chain.rpcUrl),
+    })
+  }
+}
@@ -2,9 +2,13 @@ import SafeApiKit from '@safe-global/api-kit'
 import type { Address } from 'viem'
 import type { ChainConfig } from '../types/config.js'
 import type { TransactionMetadata } from '../types/transaction.js'
+import type { SafeMessageContent } from '../types/message.js'
 import { SafeCLIError } from '../utils/errors.js'
 import { convertToStagingUrl } from '../utils/url.js'
 
+// Page size used when walking the full transaction history
+const HISTORY_PAGE_SIZE = 100
+
 /**
  * Service for interacting with Safe Transaction Service API
  */
@@ -125,6 +129,28 @@ export class SafeTransactionServiceAPI {
     }
   }
 
+  /**
+   * Get every transaction of a Safe, following the service's pagination
+   */
+  async getTransactionHistory(safeAddress: Address): Promise<Array<Record<string, unknown>>> {
+    try {
+      const transactions: Array<Record<string, unknown>> = []
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const page = await this.apiKit.getAllTransactions(safeAddress, {
+          limit: HISTORY_PAGE_SIZE,
+          offset,
+        })
+        transactions.push(...((page.results || []) as Array<Record<string, unknown>>))
+        if (!page.next || !page.results?.length) break
+      }
+      return transactions
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to fetch transaction history: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
   /**
    * Get a specific transaction by safeTxHash
    */
@@ -148,4 +174,70 @@ export class SafeTransactionServiceAPI {
       )
     }
   }
+
+  /**
+   * Push a new message with its first signature to the Transaction Service
+   */
+  async addMessage(
+    safeAddress: Address,
+    message: SafeMessageContent,
+    signature: string
+  ): Promise<void> {
+    try {
+      const { getAddress } = await import('viem')
+
+      await this.apiKit.addMessage(getAddress(safeAddress), { message, signature })
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to add message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Add a signature to an existing message
+   */
+  async addMessageSignature(messageHash: string, signature: string): Promise<void> {
+    try {
+      await this.apiKit.addMessageSignature(messageHash, signature)
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to add message signature: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Get all messages for a Safe
+   */
+  async getMessages(safeAddress: Address): Promise<Array<Record<string, unknown>>> {
+    try {
+      const result = await this.apiKit.getMessages(safeAddress)
+      return (result.results || []) as unknown as Array<Record<string, unknown>>
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to fetch messages: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Get a specific message by its SafeMessage hash
+   */
+  async getMessage(messageHash: string): Promise<Record<string, unknown> | null> {
+    try {
+      return (await this.apiKit.getMessage(messageHash)) as unknown as Record<string, unknown>
+    } catch (error) {
+      // Message not found is expected, return null
+      if (error instanceof Error) {
+        const errorMessage = error.message.toLowerCase()
+        if (errorMessage.includes('404') || errorMessage.includes('not found')) {
+          return null
+        }
+      }
+      throw new SafeCLIError(
+        `Failed to fetch message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
 }
@@ -0,0 +1,279 @@
+import {
+  createPublicClient,
+  decodeFunctionData,
+  formatUnits,
+  getAddress,
+  hexToBigInt,
+  hexToNumber,
+  http,
+  sliceHex,
+  size,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Abi,
+  type AbiFunction,
+  type Address,
+  type Hex,
+} from 'viem'
+import type { ChainConfig } from '../types/config.js'
+import type { ABICacheStore } from '../storage/abi-cache-store.js'
+import {
+  ALLOWANCE_MODULE_ABI,
+  ERC20_ABI,
+  ERC20_AMOUNT_FUNCTIONS,
+  ERC721_ABI,
+  MULTISEND_ABI,
+  SAFE_ABI,
+  SAFE_MIGRATION_ABI,
+} from '../constants/abis.js'
+import { ABIService } from './abi-service.js'
+
+export interface DecodedArgument {
+  name: string
+  type: string
+  value: string
+  display?: string // Human-readable value, e.g. token amount with decimals
+}
+
+export interface DecodedSubCall {
+  operation: 0 | 1
+  to: Address
+  value: string
+  data: Hex
+  decoded: DecodedCall | null
+}
+
+export interface DecodedCall {
+  functionName: string
+  signature: string
+  args: DecodedArgument[]
+  source: 'builtin' | 'abi'
+  contractName?: string
+  subCalls?: DecodedSubCall[] // Present for MultiSend batches
+}
+
+interface TokenInfo {
+  decimals: number
+  symbol: string
+}
+
+const BUILTIN_ABI = [
+  ...SAFE_ABI,
+  ...MULTISEND_ABI,
+  ...SAFE_MIGRATION_ABI,
+  ...ALLOWANCE_MODULE_ABI,
+  ...ERC20_ABI,
+  ...ERC721_ABI,
+] as Abi
+
+// MultiSend batches are not expected to nest deeper than this
+const MAX_DEPTH = 2
+
+/**
+ * Decode the packed transactions argument of MultiSend.multiSend(bytes).
+ * Each entry is encoded as operation (1 byte), to (20 bytes), value (32 bytes),
+ * data length (32 bytes) and data.
+ */
+export function decodeMultiSendTransactions(transactions: Hex): Omit<DecodedSubCall, 'decoded'>[] {
+  const calls: Omit<DecodedSubCall, 'decoded'>[] = []
+  const total = size(transactions)
+  let offset = 0
+
+  while (offset < total) {
+    if (offset + 85 > total) {
+      throw new Error('Malformed MultiSend data')
+    }
+
+    const operation = hexToNumber(sliceHex(transactions, offset, offset + 1))
+    const to = getAddress(sliceHex(transactions, offset + 1, offset + 21))
+    const value = hexToBigInt(sliceHex(transactions, offset + 21, offset + 53))
+    const dataLength = Number(hexToBigInt(sliceHex(transactions, offset + 53, offset + 85)))
+    offset += 85
+
+    if (offset + dataLength > total) {
+      throw new Error('Malformed MultiSend data')
+    }
+
+    const data = dataLength > 0 ? sliceHex(transactions, offset, offset + dataLength) : '0x'
+    offset += dataLength
+
+    if (operation !== 0 && operation !== 1) {
+      throw new Error(`Invalid MultiSend operation: ${operation}`)
+    }
+
+    calls.push({ operation, to, value: value.toString(), data })
+  }
+
+  return calls
+}
+
+/**
+ * Format a decoded ABI value as a string for display
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'bigint') return value.toString()
+  if (typeof value === 'string') return value
+  if (typeof value === 'boolean' || typeof value === 'number') return String(value)
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v))
+}
+
+/**
+ * Find the function matching the calldata selector and decode its arguments
+ */
+function decodeWithAbi(
+  abi: Abi,
+  data: Hex
+): { item: AbiFunction; args: readonly unknown[] } | null {
+  const selector = data.slice(0, 10).toLowerCase()
+  const item = abi.find(
+    (entry): entry is AbiFunction =>
+      entry.type === 'function' && toFunctionSelector(entry) === selector
+  )
+  if (!item) return null
+
+  try {
+    const { args } = decodeFunctionData({ abi: [item], data })
+    return { item, args: args ?? [] }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Service for turning raw transaction calldata into a readable function call.
+ * Built-in ABIs (Safe, ERC-20, ERC-721, MultiSend) are tried first, then the
+ * verified contract ABI from Etherscan/Sourcify.
+ */
+export class CalldataDecoder {
+  private chain: ChainConfig
+  private abiService: ABIService
+  private tokenInfo = new Map<string, TokenInfo | null>()
+
+  constructor(chain: ChainConfig, etherscanApiKey?: string, abiCache?: ABICacheStore) {
+    this.chain = chain
+    this.abiService = new ABIService(chain, etherscanApiKey, abiCache)
+  }
+
+  /**
+   * Decode calldata sent to a contract.
+   * Returns null for plain value transfers or when no matching ABI is found.
+   */
+  async decode(to: Address, data: Hex, depth = 0): Promise<DecodedCall | null> {
+    if (!data || size(data) < 4) {
+      return null
+    }
+
+    let source: DecodedCall['source'] = 'builtin'
+    let contractName: string | undefined
+    let decoded = decodeWithAbi(BUILTIN_ABI, data)
+
+    if (!decoded) {
+      try {
+        const info = await this.abiService.fetchContractInfo(to)
+        contractName = info.name
+        decoded = decodeWithAbi(info.abi as Abi, data)
+
+        // Proxies expose the implementation's functions
+        if (!decoded && info.implementation) {
+          const implementation = await this.abiService.fetchContractInfo(info.implementation)
+          contractName = implementation.name || contractName
+          decoded = decodeWithAbi(implementation.abi as Abi, data)
+        }
+      } catch {
+        // Contract not verified - leave calldata undecoded
+      }
+      source = 'abi'
+    }
+
+    if (!decoded) {
+      return null
+    }
+
+    const { item, args } = decoded
+    const result: DecodedCall = {
+      functionName: item.name,
+      signature: toFunctionSignature(item),
+      args: item.inputs.map((input, index) => ({
+        name: input.name || `arg${index}`,
+        type: input.type,
+        value: formatValue(args[index]),
+      })),
+      source,
+      ...(contractName && { contractName }),
+    }
+
+    if (source === 'builtin' && ERC20_AMOUNT_FUNCTIONS.includes(item.name)) {
+      await this.addTokenAmount(to, result)
+    }
+
+    if (item.name === 'multiSend' && depth < MAX_DEPTH) {
+      try {
+        const calls = decodeMultiSendTransactions(args[0] as Hex)
+        result.subCalls = await Promise.all(
+          calls.map(async (call) => ({
+            ...call,
+            decoded: await this.decode(call.to, call.data, depth + 1),
+          }))
+        )
+      } catch {
+        // Not a well-formed MultiSend payload - show the raw bytes only
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Annotate the amount argument of an ERC-20 call with decimals and symbol
+   */
+  private async addTokenAmount(token: Address, call: DecodedCall): Promise<void> {
+    const amount = call.args.find((arg) => arg.type === 'uint256')
+    if (!amount) return
+
+    const info = await this.getTokenInfo(token)
+    if (!info) return
+
+    amount.display = `${formatUnits(BigInt(amount.value), info.decimals)} ${info.symbol}`
+  }
+
+  /**
+   * Read ERC-20 decimals and symbol (null when the contract is not an ERC-20)
+   */
+  private async getTokenInfo(token: Address): Promise<TokenInfo | null> {
+    const key = token.toLowerCase()
+    if (this.tokenInfo.has(key)) {
+      return this.tokenInfo.get(key) ?? null
+    }
+
+    let info: TokenInfo | null = null
+    try {
+      const client = createPublicClient({
+        chain: {
+          id: parseInt(this.chain.chainId, 10),
+          name: this.chain.name,
+          nativeCurrency: {
+            name: this.chain.currency,
+            symbol: this.chain.currency,
+            decimals: 18,
+          },
+          rpcUrls: {
+            default: { http: [this.chain.rpcUrl] },
+            public: { http: [this.chain.rpcUrl] },
+          },
+        },
+        transport: http(this.chain.rpcUrl),
+      })
+
+      const [decimals, symbol] = await Promise.all([
+        client.readContract({ address: token, abi: ERC20_ABI, functionName: 'decimals' }),
+        client.readContract({ address: token, abi: ERC20_ABI, functionName: 'symbol' }),
+      ])
+      info = { decimals: Number(decimals), symbol }
+    } catch {
+      // Not an ERC-20 (e.g. ERC-721 sharing the same selector) - keep raw amount
+    }
+
+    this.tokenInfo.set(key, info)
+    return info
+  }
+}
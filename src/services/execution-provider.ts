@@ -0,0 +1,356 @@
+import {
+  createPublicClient,
+  encodeFunctionData,
+  formatEther,
+  http,
+  serializeTransaction,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type TransactionSerializableEIP1559,
+} from 'viem'
+import type { ChainConfig } from '../types/config.js'
+import type { TransactionMetadata } from '../types/transaction.js'
+import { SafeCLIError } from '../utils/errors.js'
+import { packSafeSignatures } from '../utils/safe-tx-hash.js'
+import { SAFE_EXECUTION_ABI } from '../constants/abis.js'
+import type { LedgerService } from './ledger-service.js'
+import { TransactionService } from './transaction-service.js'
+
+export const EXECUTION_METHODS = ['eoa', 'ledger', 'relay'] as const
+
+export type ExecutionMethod = (typeof EXECUTION_METHODS)[number]
+
+export const DEFAULT_RELAY_URL = 'https://api.gelato.digital'
+
+// Relayed executions usually land within a few blocks
+export const RELAY_WAIT_MS = 120_000
+const RELAY_POLL_INTERVAL_MS = 3_000
+const FAILED_TASK_STATES = ['ExecReverted', 'Cancelled', 'Blacklisted', 'NotFound']
+
+export interface ExecutionSignature {
+  signer: Address
+  signature: string
+}
+
+/**
+ * Outcome of handing a Safe transaction to a provider. Direct providers wait for the
+ * receipt and return the transaction hash; relayers return a task to track.
+ */
+export type ExecutionResult = { txHash: string } | { taskId: string }
+
+/**
+ * Sends execTransaction for a Safe transaction that has enough signatures
+ */
+export interface ExecutionProvider {
+  readonly method: ExecutionMethod
+  execute(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    signatures: ExecutionSignature[]
+  ): Promise<ExecutionResult>
+}
+
+/**
+ * An unsigned execTransaction with its worst-case gas cost, ready for a hardware wallet
+ */
+export interface PreparedExecution {
+  transaction: TransactionSerializableEIP1559
+  maxCost: bigint // gas limit * max fee per gas, in wei
+  balance: bigint // Sender balance, in wei
+}
+
+export interface RelayTaskStatus {
+  taskId: string
+  state: 'pending' | 'success' | 'failed'
+  // Raw relayer state, e.g. ExecPending or ExecReverted
+  taskState: string
+  txHash?: string
+  message?: string
+}
+
+/**
+ * Encode the execTransaction call for a Safe transaction and its signatures
+ */
+export function encodeExecTransaction(
+  metadata: TransactionMetadata,
+  signatures: ExecutionSignature[]
+): Hex {
+  return encodeFunctionData({
+    abi: SAFE_EXECUTION_ABI,
+    functionName: 'execTransaction',
+    args: [
+      metadata.to,
+      BigInt(metadata.value || '0'),
+      metadata.data || '0x',
+      metadata.operation ?? 0,
+      BigInt(metadata.safeTxGas ?? '0'),
+      BigInt(metadata.baseGas ?? '0'),
+      BigInt(metadata.gasPrice ?? '0'),
+      metadata.gasToken ?? zeroAddress,
+      metadata.refundReceiver ?? zeroAddress,
+      packSafeSignatures(signatures),
+    ],
+  })
+}
+
+/**
+ * Executes from a private-key wallet that pays the gas
+ */
+export class EoaExecutionProvider implements ExecutionProvider {
+  readonly method = 'eoa'
+  private txService: TransactionService
+
+  constructor(chain: ChainConfig, privateKey: string) {
+    this.txService = new TransactionService(chain, privateKey)
+  }
+
+  async execute(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    signatures: ExecutionSignature[]
+  ): Promise<ExecutionResult> {
+    const txHash = await this.txService.executeTransaction(safeAddress, metadata, signatures)
+    return { txHash }
+  }
+}
+
+/**
+ * Executes from a Ledger account: the EIP-1559 transaction is built locally,
+ * signed on the device and broadcast through the chain's RPC.
+ * Use prepare() and send() separately to review the fees in between.
+ */
+export class LedgerExecutionProvider implements ExecutionProvider {
+  readonly method = 'ledger'
+  private chain: ChainConfig
+  private ledgerService: LedgerService
+  private derivationPath: string
+  private from: Address
+
+  constructor(
+    chain: ChainConfig,
+    ledgerService: LedgerService,
+    derivationPath: string,
+    from: Address
+  ) {
+    this.chain = chain
+    this.ledgerService = ledgerService
+    this.derivationPath = derivationPath
+    this.from = from
+  }
+
+  /**
+   * Build the execTransaction call and estimate its gas and fees, so they can be
+   * reviewed before anything is signed
+   */
+  async prepare(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    signatures: ExecutionSignature[]
+  ): Promise<PreparedExecution> {
+    try {
+      const client = this.createPublicClient()
+      const data = encodeExecTransaction(metadata, signatures)
+
+      const [nonce, fees, gas, balance] = await Promise.all([
+        client.getTransactionCount({ address: this.from, blockTag: 'pending' }),
+        client.estimateFeesPerGas(),
+        client.estimateGas({ account: this.from, to: safeAddress, data }),
+        client.getBalance({ address: this.from }),
+      ])
+
+      return {
+        transaction: {
+          type: 'eip1559',
+          chainId: parseInt(this.chain.chainId, 10),
+          nonce,
+          to: safeAddress,
+          value: 0n,
+          data,
+          gas,
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        },
+        maxCost: gas * fees.maxFeePerGas,
+        balance,
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to prepare Ledger execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Sign a prepared transaction on the device (which shows the gas and fees again),
+   * broadcast it and wait for the receipt
+   */
+  async send(prepared: PreparedExecution): Promise<ExecutionResult> {
+    if (prepared.balance < prepared.maxCost) {
+      throw new SafeCLIError(
+        `Insufficient ${this.chain.currency} for gas: ${this.from} has ${formatEther(prepared.balance)}, needs up to ${formatEther(prepared.maxCost)}`
+      )
+    }
+
+    try {
+      const client = this.createPublicClient()
+      const { transaction } = prepared
+
+      const { r, s, v } = await this.ledgerService.signTransaction(
+        this.derivationPath,
+        serializeTransaction(transaction)
+      )
+      const hash = await client.sendRawTransaction({
+        serializedTransaction: serializeTransaction(transaction, {
+          r,
+          s,
+          yParity: v >= 27 ? v - 27 : v,
+        }),
+      })
+
+      const receipt = await client.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`)
+      }
+
+      return { txHash: receipt.transactionHash }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to execute transaction with Ledger: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  async execute(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    signatures: ExecutionSignature[]
+  ): Promise<ExecutionResult> {
+    return this.send(await this.prepare(safeAddress, metadata, signatures))
+  }
+
+  private createPublicClient() {
+    return createPublicClient({
+      chain: {
+        id: parseInt(this.chain.chainId, 10),
+        name: this.chain.name,
+        nativeCurrency: {
+          name: this.chain.currency,
+          symbol: this.chain.currency,
+          decimals: 18,
+        },
+        rpcUrls: {
+          default: { http: [this.chain.rpcUrl] },
+          public: { http: [this.chain.rpcUrl] },
+        },
+      },
+      transport: http(this.chain.rpcUrl),
+    })
+  }
+}
+
+/**
+ * Submits execTransaction to a Gelato-compatible relayer (sponsored call), so the
+ * executor needs no wallet or ETH. The relayer reports progress per task.
+ */
+export class RelayExecutionProvider implements ExecutionProvider {
+  readonly method = 'relay'
+  private chain: ChainConfig
+  private relayUrl: string
+  private apiKey?: string
+
+  constructor(chain: ChainConfig, relayUrl: string = DEFAULT_RELAY_URL, apiKey?: string) {
+    this.chain = chain
+    this.relayUrl = relayUrl.replace(/\/+$/, '')
+    this.apiKey = apiKey
+  }
+
+  async execute(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    signatures: ExecutionSignature[]
+  ): Promise<ExecutionResult> {
+    try {
+      const response = await fetch(`${this.relayUrl}/relays/v2/sponsored-call`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chainId: parseInt(this.chain.chainId, 10),
+          target: safeAddress,
+          data: encodeExecTransaction(metadata, signatures),
+          ...(this.apiKey && { sponsorApiKey: this.apiKey }),
+        }),
+      })
+
+      const body = (await response.json().catch(() => ({}))) as {
+        taskId?: string
+        message?: string
+      }
+      if (!response.ok || !body.taskId) {
+        throw new Error(body.message || `Relayer returned HTTP ${response.status}`)
+      }
+
+      return { taskId: body.taskId }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to relay transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  async getTaskStatus(taskId: string): Promise<RelayTaskStatus> {
+    try {
+      const response = await fetch(`${this.relayUrl}/tasks/status/${taskId}`)
+      if (!response.ok) {
+        throw new Error(`Relayer returned HTTP ${response.status}`)
+      }
+
+      const { task } = (await response.json()) as {
+        task?: { taskState: string; transactionHash?: string; lastCheckMessage?: string }
+      }
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`)
+      }
+
+      // Success is only final once the relayer reports the transaction hash
+      let state: RelayTaskStatus['state'] = 'pending'
+      if (task.taskState === 'ExecSuccess' && task.transactionHash) {
+        state = 'success'
+      } else if (FAILED_TASK_STATES.includes(task.taskState)) {
+        state = 'failed'
+      }
+
+      return {
+        taskId,
+        state,
+        taskState: task.taskState,
+        txHash: task.transactionHash,
+        message: task.lastCheckMessage,
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get relay task status: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Poll a task until it succeeds or fails
+   * @returns The last status, still pending if the timeout was reached
+   */
+  async waitForTask(
+    taskId: string,
+    timeoutMs: number = RELAY_WAIT_MS,
+    intervalMs: number = RELAY_POLL_INTERVAL_MS
+  ): Promise<RelayTaskStatus> {
+    const deadline = Date.now() + timeoutMs
+
+    for (;;) {
+      const status = await this.getTaskStatus(taskId)
+      if (status.state !== 'pending' || Date.now() + intervalMs > deadline) {
+        return status
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+    }
+  }
+}
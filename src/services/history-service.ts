@@ -0,0 +1,200 @@
+import {
+  createPublicClient,
+  decodeFunctionData,
+  getAddress,
+  http,
+  type Address,
+  type Hex,
+} from 'viem'
+import type { ChainConfig } from '../types/config.js'
+import type { TransactionMetadata } from '../types/transaction.js'
+import { SafeCLIError } from '../utils/errors.js'
+import { findSafeTxNonce, recoverSafeTxSigners } from '../utils/safe-tx-hash.js'
+import { SAFE_EXECUTION_ABI } from '../constants/abis.js'
+
+export interface SafeExecution {
+  safeTxHash: Hex
+  success: boolean
+  txHash: Hex
+  blockNumber: bigint
+  timestamp: number // Unix seconds
+  executor: Address
+  gasUsed: bigint
+  // Only known when execTransaction was called directly (not through a relayer or module)
+  nonce?: number
+  metadata?: TransactionMetadata
+  signers: Address[]
+}
+
+export interface ExecutionScanOptions {
+  fromBlock: bigint
+  toBlock?: bigint
+  safeVersion: string
+  currentNonce: number
+}
+
+// Many RPC providers reject eth_getLogs over larger ranges
+const LOG_BLOCK_RANGE = 10_000n
+
+/**
+ * Decode the SafeTx fields and packed signatures of an execTransaction call
+ */
+function decodeExecTransaction(
+  input: Hex
+): { metadata: TransactionMetadata; signatures: Hex } | null {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: SAFE_EXECUTION_ABI, data: input })
+    if (functionName !== 'execTransaction') return null
+
+    const [
+      to,
+      value,
+      data,
+      operation,
+      safeTxGas,
+      baseGas,
+      gasPrice,
+      gasToken,
+      refundReceiver,
+      signatures,
+    ] = args
+    return {
+      metadata: {
+        to,
+        value: value.toString(),
+        data,
+        operation: operation === 1 ? 1 : 0,
+        safeTxGas: safeTxGas.toString(),
+        baseGas: baseGas.toString(),
+        gasPrice: gasPrice.toString(),
+        gasToken,
+        refundReceiver,
+      },
+      signatures,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Rebuilds a Safe's execution history from ExecutionSuccess/ExecutionFailure events,
+ * for chains without a Transaction Service.
+ */
+export class HistoryService {
+  private chain: ChainConfig
+
+  constructor(chain: ChainConfig) {
+    this.chain = chain
+  }
+
+  /**
+   * Executed Safe transactions in a block range, oldest first
+   */
+  async getExecutions(
+    safeAddress: Address,
+    options: ExecutionScanOptions
+  ): Promise<SafeExecution[]> {
+    try {
+      const client = this.createPublicClient()
+      const lastBlock = options.toBlock ?? (await client.getBlockNumber())
+      if (options.fromBlock > lastBlock) {
+        throw new Error(`From block ${options.fromBlock} is after to block ${lastBlock}`)
+      }
+
+      const executions: SafeExecution[] = []
+      const timestamps = new Map<bigint, number>()
+      let expectedNonce: number | undefined
+
+      for (let start = options.fromBlock; start <= lastBlock; start += LOG_BLOCK_RANGE) {
+        const end =
+          start + LOG_BLOCK_RANGE - 1n < lastBlock ? start + LOG_BLOCK_RANGE - 1n : lastBlock
+        const logs = await client.getLogs({
+          address: safeAddress,
+          events: SAFE_EXECUTION_ABI.filter((item) => item.type === 'event'),
+          fromBlock: start,
+          toBlock: end,
+          strict: false,
+        })
+
+        for (const log of logs) {
+          const safeTxHash = log.args.txHash
+          if (!safeTxHash || log.blockNumber === null || log.transactionHash === null) continue
+
+          const [transaction, receipt] = await Promise.all([
+            client.getTransaction({ hash: log.transactionHash }),
+            client.getTransactionReceipt({ hash: log.transactionHash }),
+          ])
+
+          let timestamp = timestamps.get(log.blockNumber)
+          if (timestamp === undefined) {
+            const block = await client.getBlock({ blockNumber: log.blockNumber })
+            timestamp = Number(block.timestamp)
+            timestamps.set(log.blockNumber, timestamp)
+          }
+
+          // Calldata is only the SafeTx when the Safe itself was called
+          const call =
+            transaction.to?.toLowerCase() === safeAddress.toLowerCase()
+              ? decodeExecTransaction(transaction.input)
+              : null
+
+          let nonce: number | undefined
+          let signers: Address[] = []
+          if (call) {
+            nonce = findSafeTxNonce(
+              this.chain.chainId,
+              safeAddress,
+              call.metadata,
+              options.safeVersion,
+              safeTxHash,
+              options.currentNonce,
+              expectedNonce
+            )
+            signers = await recoverSafeTxSigners(safeTxHash, call.signatures).catch(() => [])
+          }
+          // Every execution, successful or not, consumes the next nonce
+          expectedNonce = nonce !== undefined ? nonce + 1 : undefined
+
+          executions.push({
+            safeTxHash,
+            success: log.eventName === 'ExecutionSuccess',
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+            timestamp,
+            executor: getAddress(receipt.from),
+            gasUsed: receipt.gasUsed,
+            ...(nonce !== undefined && { nonce }),
+            ...(call && { metadata: { ...call.metadata, nonce } }),
+            signers,
+          })
+        }
+      }
+
+      return executions
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to scan Safe executions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  private createPublicClient() {
+    return createPublicClient({
+      chain: {
+        id: parseInt(this.chain.chainId, 10),
+        name: this.chain.name,
+        nativeCurrency: {
+          name: this.chain.currency,
+          symbol: this.chain.currency,
+          decimals: 18,
+        },
+        rpcUrls: {
+          default: { http: [this.chain.rpcUrl] },
+          public: { http: [this.chain.rpcUrl] },
+        },
+      },
+      transport: http(this.chain.rpcUrl),
+    })
+  }
+}
@@ -32,9 +32,19 @@ export interface ILedgerTransport {
     domainSeparatorHex: string | Buffer | Uint8Array,
     hashStructHex: string | Buffer | Uint8Array
   ): Promise<string>
+  signTransaction(derivationPath: string, serializedTxHex: string): Promise<LedgerTxSignature>
   close(): Promise<void>
 }
 
+/**
+ * Signature of an Ethereum transaction. For typed (EIP-2718) transactions v is the y-parity (0/1).
+ */
+export interface LedgerTxSignature {
+  r: `0x${string}`
+  s: `0x${string}`
+  v: number
+}
+
 /**
  * LedgerJS adapter implementing ILedgerTransport
  * Wraps @ledgerhq/hw-transport-node-hid and @ledgerhq/hw-app-eth
@@ -146,6 +156,32 @@ class LedgerJSTransport implements ILedgerTransport {
     }
   }
 
+  async signTransaction(
+    derivationPath: string,
+    serializedTxHex: string
+  ): Promise<LedgerTxSignature> {
+    if (!this.eth) {
+      throw new SafeCLIError('Ledger transport not connected. Call connect() first.')
+    }
+
+    try {
+      const cleanHex = serializedTxHex.startsWith('0x') ? serializedTxHex.slice(2) : serializedTxHex
+
+      // No resolution: the device shows the raw call data (blind signing)
+      const result = await this.eth.signTransaction(derivationPath, cleanHex, null)
+
+      return {
+        r: `0x${result.r.padStart(64, '0')}`,
+        s: `0x${result.s.padStart(64, '0')}`,
+        v: parseInt(result.v, 16),
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to sign transaction with Ledger: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
   async close(): Promise<void> {
     if (this.transport) {
       await this.transport.close()
@@ -261,6 +297,22 @@ export class LedgerService {
     return this.transport.signEIP712Hash(derivationPath, domainSeparator, hashStr)
   }
 
+  /**
+   * Sign a serialized, unsigned Ethereum transaction with Ledger
+   * The user reviews recipient, amount and fees on the device
+   *
+   * @param derivationPath HD wallet path
+   * @param serializedTx Unsigned transaction as serialized by viem (0x-prefixed hex)
+   * @returns r, s and y-parity of the signature
+   */
+  async signTransaction(derivationPath: string, serializedTx: string): Promise<LedgerTxSignature> {
+    if (!this.transport) {
+      throw new SafeCLIError('Not connected to Ledger. Call connect() first.')
+    }
+
+    return this.transport.signTransaction(derivationPath, serializedTx)
+  }
+
   /**
    * Verify an address on the Ledger device screen
    * User must confirm the address matches on their device
@@ -0,0 +1,87 @@
+import type { Address } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import type { ChainConfig } from '../types/config.js'
+import type { SafeMessageContent } from '../types/message.js'
+import { SafeCLIError } from '../utils/errors.js'
+import { normalizePrivateKey } from '../utils/validation.js'
+import { getSafeMessageHashes, getSafeMessageTypedData } from '../utils/safe-message-hash.js'
+import type { LedgerService } from './ledger-service.js'
+
+/**
+ * Service for signing Safe messages (EIP-1271 off-chain signatures).
+ * Owners sign the SafeMessage EIP-712 struct wrapping the EIP-191 or EIP-712 hash of the message.
+ */
+export class MessageService {
+  private chain: ChainConfig
+  private privateKey?: `0x${string}`
+
+  constructor(chain: ChainConfig, privateKey?: string) {
+    this.chain = chain
+    if (privateKey) {
+      this.privateKey = normalizePrivateKey(privateKey)
+    }
+  }
+
+  // Get the SafeMessage hash used as the message ID
+  getMessageHash(safeAddress: Address, message: SafeMessageContent, safeVersion: string): string {
+    try {
+      return getSafeMessageHashes(this.chain.chainId, safeAddress, message, safeVersion).messageHash
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to hash message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Sign a message with the private key
+  async signMessage(
+    safeAddress: Address,
+    message: SafeMessageContent,
+    safeVersion: string
+  ): Promise<string> {
+    if (!this.privateKey) {
+      throw new SafeCLIError('Private key required to sign message')
+    }
+
+    try {
+      const account = privateKeyToAccount(this.privateKey)
+      return await account.signTypedData(
+        getSafeMessageTypedData(this.chain.chainId, safeAddress, message, safeVersion)
+      )
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to sign message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Sign a message with Ledger hardware wallet
+  async signMessageWithLedger(
+    safeAddress: Address,
+    message: SafeMessageContent,
+    ledgerService: LedgerService,
+    derivationPath: string,
+    safeVersion: string
+  ): Promise<string> {
+    try {
+      const { domainSeparator, structHash } = getSafeMessageHashes(
+        this.chain.chainId,
+        safeAddress,
+        message,
+        safeVersion
+      )
+
+      // Display hashes for Ledger verification
+      console.log('')
+      console.log('Domain hash:', domainSeparator)
+      console.log('Message hash:', structHash)
+      console.log('')
+
+      return await ledgerService.signHash(derivationPath, structHash, domainSeparator)
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to sign message with Ledger: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+}
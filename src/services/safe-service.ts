@@ -6,6 +6,7 @@ import SafeSDK, {
 import { createPublicClient, createWalletClient, http, type Address } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 import type { ChainConfig } from '../types/config.js'
+import { SENTINEL_ADDRESS } from '../constants/modules.js'
 import { SafeCLIError } from '../utils/errors.js'
 import { normalizePrivateKey } from '../utils/validation.js'
 
@@ -18,9 +19,6 @@ const GUARD_STORAGE_SLOT =
 const FALLBACK_HANDLER_STORAGE_SLOT =
   '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5' as const
 
-// Sentinel address for module linked list
-const SENTINEL_MODULES = '0x0000000000000000000000000000000000000001' as const
-
 // EIP-1967 implementation slot for mastercopy detection
 const EIP1967_IMPLEMENTATION_SLOT =
   '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc' as const
@@ -223,7 +221,7 @@ export class SafeService {
           },
         ],
         functionName: 'getModulesPaginated',
-        args: [SENTINEL_MODULES, 100n], // Get up to 100 modules
+        args: [SENTINEL_ADDRESS, 100n], // Get up to 100 modules
       })
 
       return (result as [Address[], Address])[0]
@@ -234,7 +232,7 @@ export class SafeService {
   }
 
   // Get guard for a Safe
-  private async getGuard(safeAddress: Address): Promise<Address | null> {
+  async getGuard(safeAddress: Address): Promise<Address | null> {
     try {
       const publicClient = this.createPublicClient()
 
@@ -264,7 +262,7 @@ export class SafeService {
   }
 
   // Get fallback handler for a Safe
-  private async getFallbackHandler(safeAddress: Address): Promise<Address | null> {
+  async getFallbackHandler(safeAddress: Address): Promise<Address | null> {
     try {
       const publicClient = this.createPublicClient()
 
@@ -294,7 +292,7 @@ export class SafeService {
   }
 
   // Get mastercopy (implementation) address for a Safe proxy
-  private async getMasterCopy(safeAddress: Address): Promise<Address | null> {
+  async getMasterCopy(safeAddress: Address): Promise<Address | null> {
     try {
       const publicClient = this.createPublicClient()
 
@@ -0,0 +1,202 @@
+import {
+  BaseError,
+  createPublicClient,
+  decodeAbiParameters,
+  encodeFunctionData,
+  hexToBigInt,
+  http,
+  parseAbi,
+  size,
+  sliceHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import type { ChainConfig } from '../types/config.js'
+import type { TransactionMetadata } from '../types/transaction.js'
+import { SafeCLIError } from '../utils/errors.js'
+
+// Canonical SimulateTxAccessor deployments (safe-deployments)
+const SIMULATE_TX_ACCESSOR_ADDRESSES: Record<string, Address> = {
+  '1.3.0': '0x59AD6735bCd8152B84860Cb256dD9e96b85F69Da',
+  '1.4.1': '0x3d4BA2E0884aa488718476ca2FB8Efc291A46199',
+}
+
+const SIMULATION_ABI = parseAbi([
+  'function VERSION() view returns (string)',
+  'function simulateAndRevert(address targetContract, bytes calldataPayload)',
+  'function simulate(address to, uint256 value, bytes data, uint8 operation) returns (uint256 estimate, bool success, bytes returnData)',
+])
+
+export interface SimulationResult {
+  success: boolean
+  safeTxGas: string // Gas used by the inner call, usable as safeTxGas
+  returnData: Hex
+  revertReason?: string
+}
+
+/**
+ * Decode a revert reason from call return data (Error(string), Panic(uint256) or custom)
+ */
+export function decodeRevertReason(data: Hex): string | undefined {
+  if (!data || data === '0x') return undefined
+
+  const selector = data.slice(0, 10).toLowerCase()
+  try {
+    if (selector === '0x08c379a0') {
+      const [message] = decodeAbiParameters([{ type: 'string' }], sliceHex(data, 4))
+      return message
+    }
+    if (selector === '0x4e487b71') {
+      const [code] = decodeAbiParameters([{ type: 'uint256' }], sliceHex(data, 4))
+      return `Panic(0x${code.toString(16)})`
+    }
+  } catch {
+    // Fall through to raw data
+  }
+
+  return `Custom error ${data.length > 74 ? `${data.slice(0, 74)}...` : data}`
+}
+
+/**
+ * Decode the revert payload of StorageAccessible.simulateAndRevert wrapping
+ * SimulateTxAccessor.simulate: success (32 bytes), length (32 bytes) and the
+ * ABI-encoded (estimate, success, returnData) tuple.
+ */
+export function decodeSimulationResponse(response: Hex): SimulationResult {
+  if (size(response) < 64) {
+    throw new SafeCLIError('Unexpected simulation response')
+  }
+
+  const accessorSuccess = hexToBigInt(sliceHex(response, 0, 32)) === 1n
+  const length = Number(hexToBigInt(sliceHex(response, 32, 64)))
+  const payload = length > 0 ? sliceHex(response, 64, 64 + length) : '0x'
+
+  if (!accessorSuccess) {
+    throw new SafeCLIError(
+      `Simulation failed: ${decodeRevertReason(payload) ?? 'SimulateTxAccessor reverted'}`
+    )
+  }
+
+  const [estimate, success, returnData] = decodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'bool' }, { type: 'bytes' }],
+    payload
+  )
+
+  return {
+    success,
+    safeTxGas: estimate.toString(),
+    returnData,
+    ...(!success && { revertReason: decodeRevertReason(returnData) ?? 'Reverted without reason' }),
+  }
+}
+
+/**
+ * Service for simulating Safe transactions without sending them.
+ * The Safe delegatecalls SimulateTxAccessor through simulateAndRevert, so the call runs
+ * with the Safe's own state and no signatures are needed.
+ */
+export class SimulationService {
+  private chain: ChainConfig
+
+  constructor(chain: ChainConfig) {
+    this.chain = chain
+  }
+
+  async simulateTransaction(
+    safeAddress: Address,
+    metadata: Pick<TransactionMetadata, 'to' | 'value' | 'data' | 'operation'>
+  ): Promise<SimulationResult> {
+    const client = createPublicClient({
+      chain: {
+        id: parseInt(this.chain.chainId, 10),
+        name: this.chain.name,
+        nativeCurrency: {
+          name: this.chain.currency,
+          symbol: this.chain.currency,
+          decimals: 18,
+        },
+        rpcUrls: {
+          default: { http: [this.chain.rpcUrl] },
+          public: { http: [this.chain.rpcUrl] },
+        },
+      },
+      transport: http(this.chain.rpcUrl),
+    })
+
+    const accessor = await this.getAccessorAddress(client, safeAddress)
+
+    const payload = encodeFunctionData({
+      abi: SIMULATION_ABI,
+      functionName: 'simulate',
+      args: [
+        metadata.to,
+        BigInt(metadata.value || '0'),
+        metadata.data || '0x',
+        metadata.operation || 0,
+      ],
+    })
+
+    const callData = encodeFunctionData({
+      abi: SIMULATION_ABI,
+      functionName: 'simulateAndRevert',
+      args: [accessor, payload],
+    })
+
+    // simulateAndRevert always reverts; the result is carried in the revert data
+    let response: Hex | undefined
+    try {
+      const result = await client.call({ to: safeAddress, data: callData })
+      response = result.data
+    } catch (error) {
+      response = extractRevertData(error)
+      if (!response) {
+        throw new SafeCLIError(
+          `Failed to simulate transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+
+    if (!response) {
+      throw new SafeCLIError('Failed to simulate transaction: empty response')
+    }
+
+    return decodeSimulationResponse(response)
+  }
+
+  private async getAccessorAddress(client: PublicClient, safeAddress: Address): Promise<Address> {
+    const custom = this.chain.contractNetworks?.simulateTxAccessorAddress
+    if (custom) return custom as Address
+
+    let version: string
+    try {
+      version = await client.readContract({
+        address: safeAddress,
+        abi: SIMULATION_ABI,
+        functionName: 'VERSION',
+      })
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to read Safe version: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    const accessor = SIMULATE_TX_ACCESSOR_ADDRESSES[version]
+    if (!accessor) {
+      throw new SafeCLIError(`Simulation is not supported for Safe version ${version}`)
+    }
+    return accessor
+  }
+}
+
+/**
+ * Find the revert data in a viem call error
+ */
+function extractRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined
+
+  const cause = error.walk((e) => typeof (e as { data?: unknown }).data === 'string') as {
+    data?: Hex
+  } | null
+  return cause?.data
+}
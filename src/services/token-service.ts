@@ -0,0 +1,192 @@
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  parseAbiItem,
+  zeroAddress,
+  type Address,
+} from 'viem'
+import type { ChainConfig } from '../types/config.js'
+import { SafeCLIError } from '../utils/errors.js'
+import { ERC20_ABI, ERC721_ABI } from '../constants/abis.js'
+
+export interface TokenInfo {
+  symbol: string
+  decimals: number
+}
+
+export interface TokenBalance extends TokenInfo {
+  token: Address
+  balance: bigint
+}
+
+// ERC-20 and ERC-721 share this signature; ERC-721 collections are filtered out later
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+)
+
+// Many RPC providers reject eth_getLogs over larger ranges
+const LOG_BLOCK_RANGE = 10_000n
+
+/**
+ * Reads ERC-20 and ERC-721 token state. The zero address stands for the native currency.
+ */
+export class TokenService {
+  private chain: ChainConfig
+
+  constructor(chain: ChainConfig) {
+    this.chain = chain
+  }
+
+  /**
+   * Symbol and decimals of a token
+   */
+  async getTokenInfo(token: Address): Promise<TokenInfo> {
+    if (token.toLowerCase() === zeroAddress) {
+      return { symbol: this.chain.currency, decimals: 18 }
+    }
+
+    try {
+      const client = this.createPublicClient()
+      const [decimals, symbol] = await Promise.all([
+        client.readContract({ address: token, abi: ERC20_ABI, functionName: 'decimals' }),
+        client.readContract({ address: token, abi: ERC20_ABI, functionName: 'symbol' }),
+      ])
+      return { symbol, decimals: Number(decimals) }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to read token ${token}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Token balance of an account in base units
+   */
+  async getBalance(token: Address, account: Address): Promise<bigint> {
+    try {
+      const client = this.createPublicClient()
+      if (token.toLowerCase() === zeroAddress) {
+        return await client.getBalance({ address: account })
+      }
+      return await client.readContract({
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [account],
+      })
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get token balance: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Balances of several ERC-20 tokens. Tokens that cannot be read (e.g. not an ERC-20)
+   * are left out.
+   */
+  async getTokenBalances(tokens: Address[], account: Address): Promise<TokenBalance[]> {
+    const results = await Promise.all(
+      tokens.map(async (token) => {
+        try {
+          const [info, balance] = await Promise.all([
+            this.getTokenInfo(token),
+            this.getBalance(token, account),
+          ])
+          return { token, ...info, balance }
+        } catch {
+          return null
+        }
+      })
+    )
+
+    return results.filter((result): result is TokenBalance => result !== null)
+  }
+
+  /**
+   * Contracts that emitted a Transfer event to an account within a block range
+   * @param toBlock Last block to scan (defaults to the latest block)
+   */
+  async discoverTokens(account: Address, fromBlock: bigint, toBlock?: bigint): Promise<Address[]> {
+    try {
+      const client = this.createPublicClient()
+      const lastBlock = toBlock ?? (await client.getBlockNumber())
+      if (fromBlock > lastBlock) {
+        throw new Error(`From block ${fromBlock} is after to block ${lastBlock}`)
+      }
+
+      const tokens = new Map<string, Address>()
+      for (let start = fromBlock; start <= lastBlock; start += LOG_BLOCK_RANGE) {
+        const end =
+          start + LOG_BLOCK_RANGE - 1n < lastBlock ? start + LOG_BLOCK_RANGE - 1n : lastBlock
+        const logs = await client.getLogs({
+          event: TRANSFER_EVENT,
+          args: { to: account },
+          fromBlock: start,
+          toBlock: end,
+          strict: false,
+        })
+        for (const log of logs) {
+          tokens.set(log.address.toLowerCase(), getAddress(log.address))
+        }
+      }
+
+      return [...tokens.values()]
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to scan Transfer logs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  /**
+   * Current owner of an NFT and the collection name (when the contract exposes one)
+   */
+  async getNftInfo(
+    collection: Address,
+    tokenId: bigint
+  ): Promise<{ owner: Address; name?: string }> {
+    const client = this.createPublicClient()
+
+    let owner: Address
+    try {
+      owner = await client.readContract({
+        address: collection,
+        abi: ERC721_ABI,
+        functionName: 'ownerOf',
+        args: [tokenId],
+      })
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to read owner of token ${tokenId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    // name() is optional in ERC-721
+    const name = await client
+      .readContract({ address: collection, abi: ERC721_ABI, functionName: 'name' })
+      .catch(() => undefined)
+
+    return { owner, name }
+  }
+
+  private createPublicClient() {
+    return createPublicClient({
+      chain: {
+        id: parseInt(this.chain.chainId, 10),
+        name: this.chain.name,
+        nativeCurrency: {
+          name: this.chain.currency,
+          symbol: this.chain.currency,
+          decimals: 18,
+        },
+        rpcUrls: {
+          default: { http: [this.chain.rpcUrl] },
+          public: { http: [this.chain.rpcUrl] },
+        },
+      },
+      transport: http(this.chain.rpcUrl),
+    })
+  }
+}
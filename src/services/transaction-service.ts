@@ -1,15 +1,22 @@
 import SafeSDK from '@safe-global/protocol-kit'
-import { createPublicClient, http, type Address } from 'viem'
+import { createPublicClient, encodeFunctionData, http, zeroAddress, type Address } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 import type { ChainConfig } from '../types/config.js'
-import type { TransactionMetadata } from '../types/transaction.js'
+import type { BatchCall, TransactionMetadata } from '../types/transaction.js'
 import { SafeCLIError } from '../utils/errors.js'
 import { normalizePrivateKey } from '../utils/validation.js'
+import { getSafeTxHashes, getSafeTxTypedData } from '../utils/safe-tx-hash.js'
+import { getPreviousInSentinelList } from '../utils/sentinel-list.js'
+import type { SafeUpgradePlan } from '../utils/safe-upgrade.js'
+import { SAFE_ABI, SAFE_MIGRATION_ABI } from '../constants/abis.js'
+import { SENTINEL_ADDRESS } from '../constants/modules.js'
 import type { LedgerService } from './ledger-service.js'
 
 // ESM/CommonJS interop: Access the Safe class from the default export
 const Safe = (SafeSDK as unknown as { default: typeof SafeSDK }).default
 
+const MODULES_PAGE_SIZE = 50
+
 export interface SafeTransactionData {
   to: Address
   value: string
@@ -87,6 +94,61 @@ export class TransactionService {
     }
   }
 
+  // Create a batch transaction (delegatecall to MultiSendCallOnly, doesn't sign or execute)
+  async createBatchTransaction(
+    safeAddress: Address,
+    calls: BatchCall[],
+    nonce?: number
+  ): Promise<CreatedTransaction> {
+    if (calls.length === 0) {
+      throw new SafeCLIError('Batch must contain at least one call')
+    }
+
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+        // Custom MultiSendCallOnly deployments take precedence over the official ones
+        contractNetworks: this.chain.contractNetworks
+          ? { [this.chain.chainId]: this.chain.contractNetworks }
+          : undefined,
+      })
+
+      const safeTransaction = await protocolKit.createTransaction({
+        transactions: calls.map((call) => ({
+          to: call.to,
+          value: call.value,
+          data: call.data,
+          operation: 0,
+        })),
+        onlyCalls: true,
+        options: nonce !== undefined ? { nonce } : undefined,
+      })
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create batch transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
   // Sign a transaction with a private key
   async signTransaction(safeAddress: Address, metadata: TransactionMetadata): Promise<string> {
     if (!this.privateKey) {
@@ -135,60 +197,43 @@ export class TransactionService {
     }
   }
 
-  // Sign a transaction with Ledger hardware wallet
-  async signTransactionWithLedger(
+  // Sign a transaction locally from its metadata, without RPC access (air-gapped signers)
+  async signTransactionOffline(
     safeAddress: Address,
     metadata: TransactionMetadata,
-    ledgerService: LedgerService,
-    derivationPath: string
+    safeVersion: string
   ): Promise<string> {
-    try {
-      // Import viem utilities
-      const { keccak256, encodeAbiParameters, parseAbiParameters, toHex } = await import('viem')
-
-      const chainId = BigInt(this.chain.chainId)
-
-      // Compute Safe's EIP-712 domain separator
-      const domainTypeHash = keccak256(
-        toHex('EIP712Domain(uint256 chainId,address verifyingContract)')
-      )
+    if (!this.privateKey) {
+      throw new SafeCLIError('Private key required to sign transaction')
+    }
 
-      const domainSeparator = keccak256(
-        encodeAbiParameters(parseAbiParameters('bytes32, uint256, address'), [
-          domainTypeHash,
-          chainId,
-          safeAddress,
-        ])
+    try {
+      const account = privateKeyToAccount(this.privateKey)
+      return await account.signTypedData(
+        getSafeTxTypedData(this.chain.chainId, safeAddress, metadata, safeVersion)
       )
-
-      // Compute Safe transaction struct hash
-      // SafeTx type hash from Safe contracts
-      const safeTxTypeHash = keccak256(
-        toHex(
-          'SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)'
-        )
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to sign transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
       )
+    }
+  }
 
-      // Compute struct hash
-      const structHash = keccak256(
-        encodeAbiParameters(
-          parseAbiParameters(
-            'bytes32, address, uint256, bytes32, uint8, uint256, uint256, uint256, address, address, uint256'
-          ),
-          [
-            safeTxTypeHash,
-            metadata.to,
-            BigInt(metadata.value || '0'),
-            keccak256(metadata.data || '0x'),
-            metadata.operation || 0,
-            BigInt(metadata.safeTxGas || '0'),
-            BigInt(metadata.baseGas || '0'),
-            BigInt(metadata.gasPrice || '0'),
-            metadata.gasToken || '0x0000000000000000000000000000000000000000',
-            metadata.refundReceiver || '0x0000000000000000000000000000000000000000',
-            BigInt(metadata.nonce ?? 0),
-          ]
-        )
+  // Sign a transaction with Ledger hardware wallet
+  async signTransactionWithLedger(
+    safeAddress: Address,
+    metadata: TransactionMetadata,
+    ledgerService: LedgerService,
+    derivationPath: string,
+    safeVersion: string
+  ): Promise<string> {
+    try {
+      // Compute Safe's EIP-712 domain separator and SafeTx struct hash locally
+      const { domainSeparator, structHash } = getSafeTxHashes(
+        this.chain.chainId,
+        safeAddress,
+        metadata,
+        safeVersion
       )
 
       // Display hashes for Ledger verification
@@ -332,6 +377,22 @@ export class TransactionService {
     }
   }
 
+  // Get Safe contract version
+  async getVersion(safeAddress: Address): Promise<string> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      return protocolKit.getContractVersion()
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get Safe version: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
   // Create add owner transaction
   async createAddOwnerTransaction(
     safeAddress: Address,
@@ -414,6 +475,63 @@ export class TransactionService {
     }
   }
 
+  // Create swap owner transaction (replaces an owner in place, keeping the threshold)
+  async createSwapOwnerTransaction(
+    safeAddress: Address,
+    oldOwnerAddress: Address,
+    newOwnerAddress: Address
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      // swapOwner needs the old owner's predecessor in the linked list
+      const owners = (await protocolKit.getOwners()) as Address[]
+      if (owners.some((owner) => owner.toLowerCase() === newOwnerAddress.toLowerCase())) {
+        throw new Error(`${newOwnerAddress} is already an owner`)
+      }
+      const prevOwner = getPreviousInSentinelList(owners, oldOwnerAddress)
+
+      const safeTransaction = await protocolKit.createTransaction({
+        transactions: [
+          {
+            to: safeAddress,
+            value: '0',
+            data: encodeFunctionData({
+              abi: SAFE_ABI,
+              functionName: 'swapOwner',
+              args: [prevOwner, oldOwnerAddress, newOwnerAddress],
+            }),
+          },
+        ],
+      })
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create swap owner transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
   // Create change threshold transaction
   async createChangeThresholdTransaction(
     safeAddress: Address,
@@ -450,4 +568,323 @@ export class TransactionService {
       )
     }
   }
+
+  // Create rejection transaction (zero-value self-call that consumes the nonce)
+  async createRejectionTransaction(
+    safeAddress: Address,
+    nonce: number
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      const safeTransaction = await protocolKit.createRejectionTransaction(nonce)
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create rejection transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Get enabled modules in linked-list order
+  async getModules(safeAddress: Address): Promise<Address[]> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      return await this.fetchAllModules(protocolKit)
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to get modules: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Create enable module transaction
+  async createEnableModuleTransaction(
+    safeAddress: Address,
+    moduleAddress: Address
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      const safeTransaction = await protocolKit.createEnableModuleTx(moduleAddress)
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create enable module transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Create disable module transaction
+  async createDisableModuleTransaction(
+    safeAddress: Address,
+    moduleAddress: Address
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      // disableModule needs the module's predecessor in the linked list
+      const modules = await this.fetchAllModules(protocolKit)
+      if (!modules.some((module) => module.toLowerCase() === moduleAddress.toLowerCase())) {
+        throw new Error(`Module ${moduleAddress} is not enabled`)
+      }
+      const prevModule = getPreviousInSentinelList(modules, moduleAddress)
+
+      const safeTransaction = await protocolKit.createTransaction({
+        transactions: [
+          {
+            to: safeAddress,
+            value: '0',
+            data: encodeFunctionData({
+              abi: SAFE_ABI,
+              functionName: 'disableModule',
+              args: [prevModule, moduleAddress],
+            }),
+          },
+        ],
+      })
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create disable module transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Create set guard transaction (the zero address removes the guard)
+  async createSetGuardTransaction(
+    safeAddress: Address,
+    guardAddress: Address
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      const safeTransaction =
+        guardAddress.toLowerCase() === zeroAddress
+          ? await protocolKit.createDisableGuardTx()
+          : await protocolKit.createEnableGuardTx(guardAddress)
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create set guard transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Create set fallback handler transaction (the zero address removes the handler)
+  async createSetFallbackHandlerTransaction(
+    safeAddress: Address,
+    handlerAddress: Address
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      const safeTransaction =
+        handlerAddress.toLowerCase() === zeroAddress
+          ? await protocolKit.createDisableFallbackHandlerTx()
+          : await protocolKit.createEnableFallbackHandlerTx(handlerAddress)
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create set fallback handler transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Create singleton upgrade transaction: a delegatecall to SafeMigration for 1.3.0+,
+  // or a MultiSend of changeMasterCopy + setFallbackHandler for older Safes
+  async createUpgradeTransaction(
+    safeAddress: Address,
+    plan: SafeUpgradePlan
+  ): Promise<CreatedTransaction> {
+    try {
+      const protocolKit = await Safe.init({
+        provider: this.chain.rpcUrl,
+        safeAddress,
+      })
+
+      const transactions =
+        plan.method === 'migration'
+          ? [
+              {
+                to: plan.migrationContract as Address,
+                value: '0',
+                data: encodeFunctionData({
+                  abi: SAFE_MIGRATION_ABI,
+                  functionName: plan.l2
+                    ? 'migrateL2WithFallbackHandler'
+                    : 'migrateWithFallbackHandler',
+                }),
+                operation: 1,
+              },
+            ]
+          : [
+              {
+                to: safeAddress,
+                value: '0',
+                data: encodeFunctionData({
+                  abi: SAFE_ABI,
+                  functionName: 'changeMasterCopy',
+                  args: [plan.newSingleton],
+                }),
+                operation: 0,
+              },
+              {
+                to: safeAddress,
+                value: '0',
+                data: encodeFunctionData({
+                  abi: SAFE_ABI,
+                  functionName: 'setFallbackHandler',
+                  args: [plan.newFallbackHandler],
+                }),
+                operation: 0,
+              },
+            ]
+
+      const safeTransaction = await protocolKit.createTransaction({ transactions })
+
+      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction)
+
+      return {
+        safeTxHash,
+        metadata: {
+          to: safeTransaction.data.to as Address,
+          value: safeTransaction.data.value,
+          data: safeTransaction.data.data as `0x${string}`,
+          operation: safeTransaction.data.operation,
+          nonce: safeTransaction.data.nonce,
+          safeTxGas: safeTransaction.data.safeTxGas,
+          baseGas: safeTransaction.data.baseGas,
+          gasPrice: safeTransaction.data.gasPrice,
+          gasToken: safeTransaction.data.gasToken as Address,
+          refundReceiver: safeTransaction.data.refundReceiver as Address,
+        },
+      }
+    } catch (error) {
+      throw new SafeCLIError(
+        `Failed to create upgrade transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  // Walk getModulesPaginated from the sentinel. The last module of each page is used
+  // as the next start, since Safe 1.3.0 returns the first module of the next page as `next`.
+  private async fetchAllModules(protocolKit: InstanceType<typeof Safe>): Promise<Address[]> {
+    const modules: Address[] = []
+    let start: string = SENTINEL_ADDRESS
+
+    for (;;) {
+      const page = await protocolKit.getModulesPaginated(start, MODULES_PAGE_SIZE)
+      modules.push(...(page.modules as Address[]))
+
+      if (page.modules.length === 0 || page.next.toLowerCase() === SENTINEL_ADDRESS) {
+        return modules
+      }
+      start = page.modules[page.modules.length - 1]
+    }
+  }
 }
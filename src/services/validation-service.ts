@@ -1,5 +1,6 @@
 import { isAddress, isHex, getAddress, type Address } from 'viem'
 import { ValidationError } from '../utils/errors.js'
+import { isValidMnemonic, normalizeMnemonic } from '../utils/key-generation.js'
 import { isEIP3770, parseEIP3770, getChainIdFromShortName } from '../utils/eip3770.js'
 import type { ChainConfig } from '../types/config.js'
 
@@ -165,6 +166,24 @@ export class ValidationService {
     return value.startsWith('0x') ? (value as `0x${string}`) : (`0x${value}` as `0x${string}`)
   }
 
+  /**
+   * Validates a BIP-39 seed phrase (English wordlist and checksum)
+   * @returns Error message or undefined if valid
+   */
+  validateMnemonic(value: unknown): string | undefined {
+    if (!value || typeof value !== 'string' || !value.trim()) {
+      return 'Seed phrase is required'
+    }
+    const wordCount = normalizeMnemonic(value).split(' ').length
+    if (![12, 15, 18, 21, 24].includes(wordCount)) {
+      return `Invalid seed phrase. Expected 12, 15, 18, 21 or 24 words, got ${wordCount}`
+    }
+    if (!isValidMnemonic(value)) {
+      return 'Invalid seed phrase. Check for misspelled words or wrong word order'
+    }
+    return undefined
+  }
+
   /**
    * Validates a chain ID (positive integer)
    * @returns Error message or undefined if valid
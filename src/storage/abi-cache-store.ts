@@ -0,0 +1,88 @@
+import Conf from 'conf'
+import type { Address } from 'viem'
+import type { ABI, ContractInfo } from '../services/abi-service.js'
+
+interface CachedContract {
+  abi: ABI
+  name?: string
+  implementation?: Address
+  fetchedAt: string
+}
+
+interface ABICacheSchema {
+  contracts: Record<string, CachedContract>
+}
+
+// Proxies can be upgraded at any time, so the implementation they point to is
+// looked up again after this long. ABIs of regular contracts do not expire.
+export const PROXY_CACHE_TTL_MS = 15 * 60 * 1000
+
+/**
+ * Local cache of verified contract ABIs, so decoding a transaction
+ * does not hit Etherscan/Sourcify every time it is displayed.
+ */
+export class ABICacheStore {
+  private store: Conf<ABICacheSchema>
+
+  constructor(options?: { cwd?: string; projectName?: string }) {
+    this.store = new Conf<ABICacheSchema>({
+      projectName: options?.projectName || 'safe-cli',
+      configName: 'abi-cache',
+      cwd: options?.cwd,
+      defaults: {
+        contracts: {},
+      },
+    })
+  }
+
+  private getKey(chainId: string, address: Address): string {
+    return `${chainId}:${address.toLowerCase()}`
+  }
+
+  get(chainId: string, address: Address): ContractInfo | undefined {
+    const cached = this.store.get('contracts')[this.getKey(chainId, address)]
+    if (!cached) return undefined
+
+    if (
+      cached.implementation &&
+      !(Date.now() - new Date(cached.fetchedAt).getTime() < PROXY_CACHE_TTL_MS)
+    ) {
+      return undefined
+    }
+
+    return {
+      abi: cached.abi,
+      name: cached.name,
+      implementation: cached.implementation,
+    }
+  }
+
+  set(chainId: string, address: Address, info: ContractInfo): void {
+    const contracts = this.store.get('contracts')
+    contracts[this.getKey(chainId, address)] = {
+      abi: info.abi,
+      ...(info.name && { name: info.name }),
+      ...(info.implementation && { implementation: info.implementation }),
+      fetchedAt: new Date().toISOString(),
+    }
+    this.store.set('contracts', contracts)
+  }
+
+  clear(): void {
+    this.store.set('contracts', {})
+  }
+
+  getStorePath(): string {
+    return this.store.path
+  }
+}
+
+// Singleton instance
+let abiCacheStore: ABICacheStore | null = null
+
+export function getABICacheStore(): ABICacheStore {
+  if (!abiCacheStore) {
+    abiCacheStore = new ABICacheStore()
+  }
+  return abiCacheStore
+}
@@ -1,5 +1,14 @@
 import Conf from 'conf'
-import type { Config, ChainConfig } from '../types/config.js'
+import { getAddress, type Address } from 'viem'
+import {
+  HookConfigSchema,
+  SecretBackendConfigSchema,
+  type Config,
+  type ChainConfig,
+  type HookConfig,
+  type SecretBackendConfig,
+} from '../types/config.js'
+import { ConfigError } from '../utils/errors.js'
 import { DEFAULT_CHAINS } from '../constants/chains.js'
 
 export class ConfigStore {
@@ -12,6 +21,7 @@ export class ConfigStore {
       defaults: {
         version: '0.1.0',
         chains: DEFAULT_CHAINS,
+        tokens: {},
         defaults: {
           safeVersion: '1.4.1',
           signingMethod: 'ETH_SIGN_TYPED_DATA_V4',
@@ -20,6 +30,7 @@ export class ConfigStore {
         preferences: {
           isStagingSafeApi: false,
         },
+        hooks: [],
       },
     })
   }
@@ -102,6 +113,92 @@ export class ConfigStore {
     return DEFAULT_CHAINS['1']
   }
 
+  // Token lists (ERC-20 addresses tracked for balance reports)
+  getTokens(chainId: string): Address[] {
+    return (this.store.get(`tokens.${chainId}`, []) as string[]).map((token) => getAddress(token))
+  }
+
+  /**
+   * Add a token to a chain's list
+   * @returns false if the token is already in the list
+   */
+  addToken(chainId: string, token: Address): boolean {
+    const tokens = this.getTokens(chainId)
+    if (tokens.some((t) => t.toLowerCase() === token.toLowerCase())) {
+      return false
+    }
+    this.store.set(`tokens.${chainId}`, [...tokens, getAddress(token)])
+    return true
+  }
+
+  /**
+   * Remove a token from a chain's list
+   * @returns false if the token was not in the list
+   */
+  removeToken(chainId: string, token: Address): boolean {
+    const tokens = this.getTokens(chainId)
+    const remaining = tokens.filter((t) => t.toLowerCase() !== token.toLowerCase())
+    if (remaining.length === tokens.length) {
+      return false
+    }
+    this.store.set(`tokens.${chainId}`, remaining)
+    return true
+  }
+
+  // Lifecycle hooks (may be edited by hand in config.json, so validated on read)
+  getHooks(): HookConfig[] {
+    const hooks = this.store.get('hooks', []) as unknown[]
+    return hooks.map((hook, index) => {
+      const result = HookConfigSchema.safeParse(hook)
+      if (!result.success) {
+        throw new ConfigError(
+          `Invalid hook #${index + 1} in ${this.store.path}: ${result.error.issues[0].message}`
+        )
+      }
+      return result.data
+    })
+  }
+
+  addHook(hook: HookConfig): void {
+    this.store.set('hooks', [...this.getHooks(), HookConfigSchema.parse(hook)])
+  }
+
+  /**
+   * Remove a hook by its position in the list (0-based)
+   * @returns false if there is no hook at that position
+   */
+  removeHook(index: number): boolean {
+    const hooks = this.getHooks()
+    if (index < 0 || index >= hooks.length) {
+      return false
+    }
+    this.store.set(
+      'hooks',
+      hooks.filter((_, i) => i !== index)
+    )
+    return true
+  }
+
+  // Secret backend for wallet keys (file store unless configured)
+  getSecretBackend(): SecretBackendConfig {
+    const backend = this.store.get('secretBackend')
+    if (!backend) {
+      return { type: 'file' }
+    }
+
+    const result = SecretBackendConfigSchema.safeParse(backend)
+    if (!result.success) {
+      throw new ConfigError(
+        `Invalid secretBackend in ${this.store.path}: ${result.error.issues[0].message}`
+      )
+    }
+    return result.data
+  }
+
+  setSecretBackend(backend: SecretBackendConfig): void {
+    this.store.set('secretBackend', SecretBackendConfigSchema.parse(backend))
+  }
+
   // Defaults
   getDefaults() {
     return this.store.get('defaults')
@@ -0,0 +1,109 @@
+import Conf from 'conf'
+import type { Address } from 'viem'
+import type { MessageSignature, SafeMessageContent, StoredMessage } from '../types/message.js'
+import { SafeCLIError } from '../utils/errors.js'
+
+interface MessageStoreSchema {
+  messages: Record<string, StoredMessage>
+}
+
+export class MessageStore {
+  private store: Conf<MessageStoreSchema>
+
+  constructor(options?: { cwd?: string; projectName?: string }) {
+    this.store = new Conf<MessageStoreSchema>({
+      projectName: options?.projectName || 'safe-cli',
+      configName: 'messages',
+      cwd: options?.cwd,
+      defaults: {
+        messages: {},
+      },
+    })
+  }
+
+  createMessage(
+    messageHash: string,
+    safeAddress: Address,
+    chainId: string,
+    message: SafeMessageContent,
+    createdBy: Address
+  ): StoredMessage {
+    const storedMessage: StoredMessage = {
+      messageHash,
+      safeAddress,
+      chainId,
+      message,
+      signatures: [],
+      createdBy,
+      createdAt: new Date().toISOString(),
+    }
+
+    const messages = this.store.get('messages')
+    messages[messageHash] = storedMessage
+    this.store.set('messages', messages)
+
+    return storedMessage
+  }
+
+  getMessage(messageHash: string): StoredMessage | undefined {
+    const messages = this.store.get('messages')
+    return messages[messageHash]
+  }
+
+  getMessagesBySafe(safeAddress: Address, chainId?: string): StoredMessage[] {
+    const messages = this.store.get('messages')
+    return Object.values(messages).filter(
+      (msg) =>
+        msg.safeAddress.toLowerCase() === safeAddress.toLowerCase() &&
+        (!chainId || msg.chainId === chainId)
+    )
+  }
+
+  getAllMessages(): StoredMessage[] {
+    const messages = this.store.get('messages')
+    return Object.values(messages)
+  }
+
+  addSignature(messageHash: string, signature: MessageSignature): void {
+    const messages = this.store.get('messages')
+    const message = messages[messageHash]
+
+    if (!message) {
+      throw new SafeCLIError(`Message ${messageHash} not found`)
+    }
+
+    // Replace an existing signature from the same signer
+    const existingSignatureIndex = message.signatures.findIndex(
+      (sig) => sig.signer.toLowerCase() === signature.signer.toLowerCase()
+    )
+
+    if (existingSignatureIndex >= 0) {
+      message.signatures[existingSignatureIndex] = signature
+    } else {
+      message.signatures.push(signature)
+    }
+
+    messages[messageHash] = message
+    this.store.set('messages', messages)
+  }
+
+  deleteMessage(messageHash: string): void {
+    const messages = this.store.get('messages')
+    delete messages[messageHash]
+    this.store.set('messages', messages)
+  }
+
+  getStorePath(): string {
+    return this.store.path
+  }
+}
+
+// Singleton instance
+let messageStore: MessageStore | undefined
+
+export function getMessageStore(): MessageStore {
+  if (!messageStore) {
+    messageStore = new MessageStore()
+  }
+  return messageStore
+}
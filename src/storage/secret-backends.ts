@@ -0,0 +1,212 @@
+import Conf from 'conf'
+import { spawnSync } from 'child_process'
+import type { SecretBackendConfig } from '../types/config.js'
+import { WalletError } from '../utils/errors.js'
+
+/**
+ * Key-value store for encrypted wallet secrets (walletId -> encrypted private key,
+ * seed-<seedId> -> encrypted mnemonic). Entries are encrypted with the wallet password
+ * before they reach a backend.
+ */
+export interface SecretBackend {
+  readonly type: SecretBackendConfig['type']
+  get(key: string): string | undefined
+  set(key: string, value: string): void
+  delete(key: string): void
+}
+
+// Helpers may wait for a GPG pinentry or an unlock prompt
+export const SECRET_COMMAND_TIMEOUT_MS = 120_000
+
+/**
+ * Command templates for common password managers, stored under safe-cli/<key>
+ */
+export const SECRET_COMMAND_PRESETS = {
+  pass: {
+    get: 'pass show safe-cli/{key}',
+    set: 'pass insert --multiline --force safe-cli/{key}',
+    delete: 'pass rm --force safe-cli/{key}',
+  },
+  gopass: {
+    get: 'gopass show --password safe-cli/{key}',
+    set: 'gopass insert --force safe-cli/{key}',
+    delete: 'gopass rm --force safe-cli/{key}',
+  },
+} as const
+
+export type SecretCommandPreset = keyof typeof SECRET_COMMAND_PRESETS
+
+interface CommandResult {
+  status: number | null
+  stdout: string
+  stderr: string
+}
+
+function run(
+  command: string,
+  args: string[],
+  options: { input?: string; shell?: boolean; env?: NodeJS.ProcessEnv } = {}
+): CommandResult {
+  const result = spawnSync(command, args, {
+    input: options.input ?? '',
+    shell: options.shell,
+    env: options.env,
+    encoding: 'utf-8',
+    timeout: SECRET_COMMAND_TIMEOUT_MS,
+  })
+
+  if (result.error) {
+    const code = (result.error as NodeJS.ErrnoException).code
+    throw new WalletError(
+      code === 'ENOENT'
+        ? `${command} not found. Install it or choose another secret backend`
+        : `${command} failed: ${result.error.message}`
+    )
+  }
+
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr.trim() }
+}
+
+/**
+ * Encrypted entries in wallets-secure.json next to the CLI config (default)
+ */
+export class FileSecretBackend implements SecretBackend {
+  readonly type = 'file'
+  private store: Conf<Record<string, string>>
+
+  constructor(options?: { cwd?: string; projectName?: string }) {
+    this.store = new Conf<Record<string, string>>({
+      projectName: options?.projectName || 'safe-cli',
+      configName: 'wallets-secure',
+      cwd: options?.cwd,
+      defaults: {},
+    })
+  }
+
+  get(key: string): string | undefined {
+    return this.store.get(key)
+  }
+
+  set(key: string, value: string): void {
+    this.store.set(key, value)
+  }
+
+  delete(key: string): void {
+    this.store.delete(key)
+  }
+}
+
+/**
+ * Linux Secret Service (GNOME Keyring, KWallet) through libsecret's secret-tool
+ */
+export class LibsecretSecretBackend implements SecretBackend {
+  readonly type = 'libsecret'
+  private service: string
+
+  constructor(service: string = 'safe-cli') {
+    this.service = service
+  }
+
+  get(key: string): string | undefined {
+    const result = run('secret-tool', ['lookup', 'service', this.service, 'key', key])
+    // secret-tool exits with 1 and no output when nothing matches
+    if (result.status !== 0) {
+      if (result.stderr) {
+        throw new WalletError(`secret-tool lookup failed: ${result.stderr}`)
+      }
+      return undefined
+    }
+    return result.stdout.trim() || undefined
+  }
+
+  set(key: string, value: string): void {
+    const result = run(
+      'secret-tool',
+      ['store', `--label=Safe CLI ${key}`, 'service', this.service, 'key', key],
+      { input: value }
+    )
+    if (result.status !== 0) {
+      throw new WalletError(`secret-tool store failed: ${result.stderr || `exit ${result.status}`}`)
+    }
+  }
+
+  delete(key: string): void {
+    run('secret-tool', ['clear', 'service', this.service, 'key', key])
+  }
+}
+
+/**
+ * External password manager (pass, gopass, 1Password CLI wrappers, ...). Each
+ * operation runs a shell command with {key} replaced by the entry name, also exposed
+ * as SAFE_SECRET_KEY. "get" prints the secret, "set" reads it from stdin.
+ */
+export class CommandSecretBackend implements SecretBackend {
+  readonly type = 'command'
+  private commands: { get: string; set: string; delete: string }
+
+  constructor(commands: { get: string; set: string; delete: string }) {
+    this.commands = commands
+  }
+
+  private exec(operation: 'get' | 'set' | 'delete', key: string, input?: string) {
+    const command = this.commands[operation].replaceAll('{key}', key)
+    return {
+      command,
+      ...run(command, [], {
+        input,
+        shell: true,
+        env: { ...process.env, SAFE_SECRET_KEY: key },
+      }),
+    }
+  }
+
+  get(key: string): string | undefined {
+    const result = this.exec('get', key)
+    // Like secret-tool, "pass show" and "gopass show" exit non-zero without output for a missing entry
+    if (result.status !== 0 && !result.stdout.trim()) {
+      return undefined
+    }
+    if (result.status !== 0) {
+      throw new WalletError(
+        `Secret command "${result.command}" failed: ${result.stderr || `exit ${result.status}`}`
+      )
+    }
+    // Password managers print a trailing newline
+    return result.stdout.replace(/\r?\n$/, '') || undefined
+  }
+
+  set(key: string, value: string): void {
+    const result = this.exec('set', key, `${value}\n`)
+    if (result.status !== 0) {
+      throw new WalletError(
+        `Secret command "${result.command}" failed: ${result.stderr || `exit ${result.status}`}`
+      )
+    }
+  }
+
+  delete(key: string): void {
+    const result = this.exec('delete', key)
+    if (result.status !== 0) {
+      throw new WalletError(
+        `Secret command "${result.command}" failed: ${result.stderr || `exit ${result.status}`}`
+      )
+    }
+  }
+}
+
+/**
+ * Create the backend described by the config
+ */
+export function createSecretBackend(
+  config: SecretBackendConfig,
+  options?: { cwd?: string; projectName?: string }
+): SecretBackend {
+  switch (config.type) {
+    case 'file':
+      return new FileSecretBackend(options)
+    case 'libsecret':
+      return new LibsecretSecretBackend(options?.projectName)
+    case 'command':
+      return new CommandSecretBackend(config)
+  }
+}
@@ -1,21 +1,44 @@
 import Conf from 'conf'
 import type { Address } from 'viem'
 import type {
+  BatchCall,
   StoredTransaction,
+  TransactionEvent,
   TransactionMetadata,
   TransactionSignature,
 } from '../types/transaction.js'
 import { TransactionStatus } from '../types/transaction.js'
 import { SafeCLIError } from '../utils/errors.js'
+import { getSafeStorage } from './safe-store.js'
 
 interface TransactionStoreSchema {
   transactions: Record<string, StoredTransaction>
 }
 
+export type TransactionEventListener = (
+  event: TransactionEvent,
+  transaction: StoredTransaction
+) => void
+
+export interface TransactionStoreOptions {
+  cwd?: string
+  projectName?: string
+  /**
+   * Called after every lifecycle transition is saved
+   */
+  onEvent?: TransactionEventListener
+  /**
+   * Signature threshold of a transaction's Safe, used to report "threshold-reached"
+   */
+  resolveThreshold?: (transaction: StoredTransaction) => number | undefined
+}
+
 export class TransactionStore {
   private store: Conf<TransactionStoreSchema>
+  private onEvent?: TransactionEventListener
+  private resolveThreshold?: (transaction: StoredTransaction) => number | undefined
 
-  constructor(options?: { cwd?: string; projectName?: string }) {
+  constructor(options?: TransactionStoreOptions) {
     this.store = new Conf<TransactionStoreSchema>({
       projectName: options?.projectName || 'safe-cli',
       configName: 'transactions',
@@ -24,6 +47,12 @@ export class TransactionStore {
         transactions: {},
       },
     })
+    this.onEvent = options?.onEvent
+    this.resolveThreshold = options?.resolveThreshold
+  }
+
+  private emit(event: TransactionEvent, transaction: StoredTransaction): void {
+    this.onEvent?.(event, transaction)
   }
 
   createTransaction(
@@ -31,7 +60,8 @@ export class TransactionStore {
     safeAddress: Address,
     chainId: string,
     metadata: TransactionMetadata,
-    createdBy: Address
+    createdBy: Address,
+    batch?: BatchCall[]
   ): StoredTransaction {
     const transaction: StoredTransaction = {
       safeTxHash,
@@ -42,11 +72,13 @@ export class TransactionStore {
       signatures: [],
       createdBy,
       createdAt: new Date().toISOString(),
+      ...(batch && batch.length > 0 ? { batch } : {}),
     }
 
     const transactions = this.store.get('transactions')
     transactions[safeTxHash] = transaction
     this.store.set('transactions', transactions)
+    this.emit('created', transaction)
 
     return transaction
   }
@@ -109,6 +141,13 @@ export class TransactionStore {
 
     transactions[safeTxHash] = transaction
     this.store.set('transactions', transactions)
+
+    if (existingSignatureIndex < 0) {
+      this.emit('signed', transaction)
+      if (transaction.signatures.length === this.resolveThreshold?.(transaction)) {
+        this.emit('threshold-reached', transaction)
+      }
+    }
   }
 
   updateStatus(safeTxHash: string, status: TransactionStatus, txHash?: string): void {
@@ -119,18 +158,87 @@ export class TransactionStore {
       throw new SafeCLIError(`Transaction ${safeTxHash} not found`)
     }
 
+    const previousStatus = transaction.status
     transaction.status = status
     if (status === 'executed') {
       transaction.executedAt = new Date().toISOString()
       if (txHash) {
         transaction.txHash = txHash
       }
+      delete transaction.relayTaskId
+    }
+
+    transactions[safeTxHash] = transaction
+    this.store.set('transactions', transactions)
+
+    if (status !== previousStatus) {
+      if (status === TransactionStatus.EXECUTED) this.emit('executed', transaction)
+      if (status === TransactionStatus.REJECTED) this.emit('rejected', transaction)
+    }
+  }
+
+  /**
+   * Record the relayer task executing a transaction, or clear it when the task failed
+   */
+  setRelayTask(safeTxHash: string, taskId: string | undefined): void {
+    const transactions = this.store.get('transactions')
+    const transaction = transactions[safeTxHash]
+
+    if (!transaction) {
+      throw new SafeCLIError(`Transaction ${safeTxHash} not found`)
+    }
+
+    if (taskId) {
+      transaction.relayTaskId = taskId
+    } else {
+      delete transaction.relayTaskId
     }
 
     transactions[safeTxHash] = transaction
     this.store.set('transactions', transactions)
   }
 
+  /**
+   * Mark every other transaction with the same Safe, chain and nonce as rejected.
+   * Called once a transaction executes, since its nonce can no longer be used.
+   * @returns Hashes of the transactions that were marked rejected
+   */
+  rejectSameNonceTransactions(safeTxHash: string): string[] {
+    const transactions = this.store.get('transactions')
+    const executed = transactions[safeTxHash]
+
+    if (!executed) {
+      throw new SafeCLIError(`Transaction ${safeTxHash} not found`)
+    }
+
+    if (executed.metadata.nonce === undefined) {
+      return []
+    }
+
+    const rejected: string[] = []
+    for (const tx of Object.values(transactions)) {
+      if (
+        tx.safeTxHash !== safeTxHash &&
+        tx.chainId === executed.chainId &&
+        tx.safeAddress.toLowerCase() === executed.safeAddress.toLowerCase() &&
+        tx.metadata.nonce === executed.metadata.nonce &&
+        (tx.status === TransactionStatus.PENDING || tx.status === TransactionStatus.SIGNED)
+      ) {
+        tx.status = TransactionStatus.REJECTED
+        rejected.push(tx.safeTxHash)
+      }
+    }
+
+    if (rejected.length > 0) {
+      this.store.set('transactions', transactions)
+      for (const hash of rejected) {
+        this.emit('rejected', transactions[hash])
+      }
+    }
+
+    return rejected
+  }
+
   deleteTransaction(safeTxHash: string): void {
     const transactions = this.store.get('transactions')
     delete transactions[safeTxHash]
@@ -145,9 +253,26 @@ export class TransactionStore {
 // Singleton instance
 let transactionStore: TransactionStore | undefined
 
+// Listeners of the shared store, registered by the CLI (e.g. to run configured hooks)
+const transactionEventListeners: TransactionEventListener[] = []
+
+/**
+ * Subscribe to lifecycle events of the shared transaction store
+ */
+export function addTransactionEventListener(listener: TransactionEventListener): void {
+  transactionEventListeners.push(listener)
+}
+
 export function getTransactionStore(): TransactionStore {
   if (!transactionStore) {
-    transactionStore = new TransactionStore()
+    transactionStore = new TransactionStore({
+      onEvent: (event, tx) => {
+        for (const listener of transactionEventListeners) {
+          listener(event, tx)
+        }
+      },
+      resolveThreshold: (tx) => getSafeStorage().getSafe(tx.chainId, tx.safeAddress)?.threshold,
+    })
   }
   return transactionStore
 }
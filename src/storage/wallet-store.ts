@@ -1,51 +1,184 @@
 import Conf from 'conf'
-import { randomBytes, createCipheriv, createDecipheriv, pbkdf2Sync } from 'crypto'
+import { randomBytes, createCipheriv, createDecipheriv, pbkdf2Sync, scryptSync } from 'crypto'
 import { privateKeyToAccount } from 'viem/accounts'
-import type { Wallet, WalletStore, PrivateKeyWallet, LedgerWallet } from '../types/wallet.js'
+import type {
+  Wallet,
+  WalletStore,
+  PrivateKeyWallet,
+  LedgerWallet,
+  MnemonicWallet,
+  WatchOnlyWallet,
+} from '../types/wallet.js'
 import { WalletError } from '../utils/errors.js'
+import { getConfigStore } from './config-store.js'
+import { createSecretBackend, FileSecretBackend, type SecretBackend } from './secret-backends.js'
 import { isValidPrivateKey, normalizePrivateKey } from '../utils/validation.js'
 import { checksumAddress } from '../utils/ethereum.js'
-import { generateWalletId } from '../utils/key-generation.js'
+import {
+  deriveMnemonicAccount,
+  generateWalletId,
+  isValidMnemonic,
+  normalizeMnemonic,
+} from '../utils/key-generation.js'
+
+// Key derivation of encrypted entries. New entries record their KDF and parameters in a
+// versioned header, so stronger settings (or argon2id) can be adopted without breaking old entries.
+type KdfId = 'pbkdf2-sha256' | 'scrypt'
+
+interface KdfConfig {
+  id: KdfId
+  params: Record<string, number>
+}
+
+// Entries written before the versioned format: no header, PBKDF2 with a 64-byte salt
+const LEGACY_KDF: KdfConfig = { id: 'pbkdf2-sha256', params: { i: 100000 } }
+
+// OWASP recommended scrypt parameters (128 MiB)
+export const DEFAULT_KDF: KdfConfig = { id: 'scrypt', params: { n: 131072, r: 8, p: 1 } }
+
+// Parameter ranges accepted in a header. Weaker settings are refused, and stronger ones
+// are capped so a tampered entry cannot make key derivation run out of memory or time.
+const KDF_PARAM_LIMITS: Record<KdfId, Record<string, { min: number; max: number }>> = {
+  'pbkdf2-sha256': { i: { min: 100_000, max: 10_000_000 } },
+  scrypt: {
+    n: { min: 16_384, max: 1_048_576 },
+    r: { min: 8, max: 16 },
+    p: { min: 1, max: 16 },
+  },
+}
+
+// scrypt needs 128 * N * r bytes
+const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024
 
-// Simple encryption for private keys
-// Note: For production, consider using OS keychain (keytar/keychain)
+const FORMAT_VERSION = 'v2'
+
+// AES-256-GCM encryption of private keys and seeds. The encrypted entries are kept by a
+// SecretBackend (file, OS keychain or password manager).
+// Format: $v2$<kdf>$<param>=<value>,...$base64(salt + iv + tag + encrypted)
 class SecureStorage {
   private algorithm = 'aes-256-gcm'
   private keyLength = 32
   private ivLength = 16
-  private saltLength = 64
+  private saltLength = 32
+  private legacySaltLength = 64
   private tagLength = 16
+  private kdf: KdfConfig
+
+  constructor(kdf: KdfConfig = DEFAULT_KDF) {
+    this.kdf = kdf
+  }
+
+  private deriveKey(password: string, salt: Buffer, kdf: KdfConfig): Buffer {
+    const { n, r, p, i } = kdf.params
+    switch (kdf.id) {
+      case 'pbkdf2-sha256':
+        return pbkdf2Sync(password, salt, i, this.keyLength, 'sha256')
+      case 'scrypt':
+        return scryptSync(password, salt, this.keyLength, {
+          N: n,
+          r,
+          p,
+          maxmem: 256 * n * r + 1024 * 1024,
+        })
+    }
+  }
+
+  // Split an entry into its KDF and binary payload
+  private parse(encryptedData: string): { kdf: KdfConfig; buffer: Buffer; saltLength: number } {
+    if (!encryptedData.startsWith('$')) {
+      return {
+        kdf: LEGACY_KDF,
+        buffer: Buffer.from(encryptedData, 'base64'),
+        saltLength: this.legacySaltLength,
+      }
+    }
+
+    const [, version, id, params, payload] = encryptedData.split('$')
+    if (version !== FORMAT_VERSION) {
+      throw new WalletError(`Unsupported encryption format ${version}. Update safe-cli`)
+    }
+    if (id !== 'pbkdf2-sha256' && id !== 'scrypt') {
+      throw new WalletError(`Unsupported key derivation ${id}. Update safe-cli`)
+    }
 
-  private deriveKey(password: string, salt: Buffer): Buffer {
-    return pbkdf2Sync(password, salt, 100000, this.keyLength, 'sha256')
+    return {
+      kdf: { id, params: this.parseParams(id, params ?? '') },
+      buffer: Buffer.from(payload ?? '', 'base64'),
+      saltLength: this.saltLength,
+    }
+  }
+
+  // Read and check the KDF parameters of a header, e.g. "n=131072,r=8,p=1"
+  private parseParams(id: KdfId, params: string): Record<string, number> {
+    const corrupt = (reason: string) =>
+      new WalletError(`Corrupt encryption header $${FORMAT_VERSION}$${id}$${params}: ${reason}`)
+    const limits = KDF_PARAM_LIMITS[id]
+
+    const parsed: Record<string, number> = {}
+    for (const param of params.split(',')) {
+      const [key, value] = param.split('=')
+      if (!(key in limits)) {
+        throw corrupt(`unknown parameter "${key}"`)
+      }
+      if (key in parsed) {
+        throw corrupt(`duplicate parameter "${key}"`)
+      }
+      if (!/^\d+$/.test(value ?? '')) {
+        throw corrupt(`"${key}" must be a positive integer`)
+      }
+      const number = Number(value)
+      const { min, max } = limits[key]
+      if (number < min || number > max) {
+        throw corrupt(`"${key}" must be between ${min} and ${max}`)
+      }
+      parsed[key] = number
+    }
+
+    for (const key of Object.keys(limits)) {
+      if (!(key in parsed)) {
+        throw corrupt(`missing parameter "${key}"`)
+      }
+    }
+    if (id === 'scrypt') {
+      if ((parsed.n & (parsed.n - 1)) !== 0) {
+        throw corrupt('"n" must be a power of 2')
+      }
+      if (128 * parsed.n * parsed.r > MAX_SCRYPT_MEMORY) {
+        throw corrupt('"n" and "r" need more than 1 GiB of memory')
+      }
+    }
+    return parsed
   }
 
   encrypt(text: string, password: string): string {
     const salt = randomBytes(this.saltLength)
-    const key = this.deriveKey(password, salt)
+    const key = this.deriveKey(password, salt, this.kdf)
     const iv = randomBytes(this.ivLength)
 
     const cipher = createCipheriv(this.algorithm, key, iv)
     const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
     const tag = (cipher as unknown as { getAuthTag: () => Buffer }).getAuthTag()
 
-    // Combine salt + iv + tag + encrypted
-    const result = Buffer.concat([salt, iv, tag, encrypted])
-    return result.toString('base64')
+    // Combine salt + iv + tag + encrypted behind the header
+    const params = Object.entries(this.kdf.params)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',')
+    const payload = Buffer.concat([salt, iv, tag, encrypted]).toString('base64')
+    return `$${FORMAT_VERSION}$${this.kdf.id}$${params}$${payload}`
   }
 
   decrypt(encryptedData: string, password: string): string {
-    const buffer = Buffer.from(encryptedData, 'base64')
+    const { kdf, buffer, saltLength } = this.parse(encryptedData)
 
-    const salt = buffer.subarray(0, this.saltLength)
-    const iv = buffer.subarray(this.saltLength, this.saltLength + this.ivLength)
+    const salt = buffer.subarray(0, saltLength)
+    const iv = buffer.subarray(saltLength, saltLength + this.ivLength)
     const tag = buffer.subarray(
-      this.saltLength + this.ivLength,
-      this.saltLength + this.ivLength + this.tagLength
+      saltLength + this.ivLength,
+      saltLength + this.ivLength + this.tagLength
     )
-    const encrypted = buffer.subarray(this.saltLength + this.ivLength + this.tagLength)
+    const encrypted = buffer.subarray(saltLength + this.ivLength + this.tagLength)
 
-    const key = this.deriveKey(password, salt)
+    const key = this.deriveKey(password, salt, kdf)
     const decipher = createDecipheriv(this.algorithm, key, iv)
     ;(decipher as unknown as { setAuthTag: (tag: Buffer) => void }).setAuthTag(tag)
 
@@ -56,11 +189,11 @@ class SecureStorage {
 
 export class WalletStorageService {
   private store: Conf<WalletStore>
-  private secureStore: Conf<Record<string, string>> // walletId -> encrypted privateKey
+  private secrets: SecretBackend // walletId -> encrypted privateKey, seed-<seedId> -> encrypted mnemonic
   private secureStorage: SecureStorage
   private password: string | null = null
 
-  constructor(options?: { cwd?: string; projectName?: string }) {
+  constructor(options?: { cwd?: string; projectName?: string; secretBackend?: SecretBackend }) {
     this.store = new Conf<WalletStore>({
       projectName: options?.projectName || 'safe-cli',
       configName: 'wallets',
@@ -71,12 +204,9 @@ export class WalletStorageService {
       },
     })
 
-    this.secureStore = new Conf<Record<string, string>>({
-      projectName: options?.projectName || 'safe-cli',
-      configName: 'wallets-secure',
-      cwd: options?.cwd,
-      defaults: {},
-    })
+    this.secrets =
+      options?.secretBackend ??
+      new FileSecretBackend({ cwd: options?.cwd, projectName: options?.projectName })
 
     this.secureStorage = new SecureStorage()
   }
@@ -130,7 +260,7 @@ export class WalletStorageService {
 
     // Encrypt and store private key
     const encrypted = this.secureStorage.encrypt(normalizedKey, pwd)
-    this.secureStore.set(walletId, encrypted)
+    this.secrets.set(walletId, encrypted)
 
     // Store wallet metadata
     this.store.set(`wallets.${walletId}`, wallet)
@@ -183,7 +313,123 @@ export class WalletStorageService {
     return wallet
   }
 
-  // Get wallet private key (only for private-key wallets)
+  // Add an address-only wallet. Nothing is encrypted: signatures come from an external wallet
+  async importWatchOnlyWallet(name: string, address: string): Promise<WatchOnlyWallet> {
+    const checksummedAddress = checksumAddress(address)
+
+    const existingWallets = this.store.get('wallets', {})
+    const duplicate = Object.values(existingWallets).find((w) => w.address === checksummedAddress)
+    if (duplicate) {
+      throw new WalletError(
+        `Wallet with address ${checksummedAddress} already exists as "${duplicate.name}"`
+      )
+    }
+
+    const walletId = generateWalletId()
+    const wallet: WatchOnlyWallet = {
+      type: 'watch-only',
+      id: walletId,
+      name,
+      address: checksummedAddress,
+      createdAt: new Date().toISOString(),
+    }
+
+    this.store.set(`wallets.${walletId}`, wallet)
+
+    if (Object.keys(existingWallets).length === 0) {
+      this.store.set('activeWallet', walletId)
+    }
+
+    return wallet
+  }
+
+  // Import accounts of a BIP-39 seed phrase. The seed is encrypted once and shared by
+  // its accounts; importing more accounts of a stored seed reuses its entry.
+  async importMnemonicWallets(
+    mnemonic: string,
+    accounts: { name: string; derivationPath: string }[],
+    password?: string
+  ): Promise<MnemonicWallet[]> {
+    const pwd = password || this.ensurePassword()
+
+    const normalizedMnemonic = normalizeMnemonic(mnemonic)
+    if (!isValidMnemonic(normalizedMnemonic)) {
+      throw new WalletError('Invalid seed phrase')
+    }
+    if (accounts.length === 0) {
+      throw new WalletError('No accounts selected')
+    }
+
+    // Derive addresses and check none already exists
+    const existingWallets = this.store.get('wallets', {})
+    const addresses = new Set<string>()
+    const derived = accounts.map((account) => {
+      let address: string
+      try {
+        address = checksumAddress(
+          deriveMnemonicAccount(normalizedMnemonic, account.derivationPath).address
+        )
+      } catch {
+        throw new WalletError(`Invalid derivation path: ${account.derivationPath}`)
+      }
+
+      const duplicate = Object.values(existingWallets).find((w) => w.address === address)
+      if (duplicate) {
+        throw new WalletError(
+          `Wallet with address ${address} already exists as "${duplicate.name}"`
+        )
+      }
+      if (addresses.has(address)) {
+        throw new WalletError(`Derivation path ${account.derivationPath} is selected twice`)
+      }
+      addresses.add(address)
+
+      return { ...account, address }
+    })
+
+    // Reuse the stored seed if this phrase was imported before
+    const seedIds = new Set(
+      Object.values(existingWallets)
+        .filter((w): w is MnemonicWallet => w.type === 'mnemonic')
+        .map((w) => w.seedId)
+    )
+    let seedId = [...seedIds].find((id) => {
+      try {
+        const encrypted = this.secrets.get(`seed-${id}`)
+        return !!encrypted && this.secureStorage.decrypt(encrypted, pwd) === normalizedMnemonic
+      } catch {
+        return false
+      }
+    })
+    if (!seedId) {
+      seedId = generateWalletId()
+      this.secrets.set(`seed-${seedId}`, this.secureStorage.encrypt(normalizedMnemonic, pwd))
+    }
+
+    // Store wallet metadata
+    const wallets = derived.map(({ name, derivationPath, address }) => {
+      const wallet: MnemonicWallet = {
+        type: 'mnemonic',
+        id: generateWalletId(),
+        name,
+        address,
+        seedId: seedId!,
+        derivationPath,
+        createdAt: new Date().toISOString(),
+      }
+      this.store.set(`wallets.${wallet.id}`, wallet)
+      return wallet
+    })
+
+    // Set the first account as active if these are the first wallets
+    if (Object.keys(existingWallets).length === 0) {
+      this.store.set('activeWallet', wallets[0].id)
+    }
+
+    return wallets
+  }
+
+  // Get wallet private key (private-key wallets, or derived from the seed of mnemonic wallets)
   getPrivateKey(walletId: string, password?: string): string {
     const wallet = this.getWallet(walletId)
     if (!wallet) {
@@ -195,21 +441,154 @@ export class WalletStorageService {
         'Cannot get private key for Ledger wallet. Use Ledger device for signing.'
       )
     }
+    if (wallet.type === 'watch-only') {
+      throw new WalletError(
+        'Watch-only wallets have no private key. Sign with your external wallet instead.'
+      )
+    }
 
     const pwd = password || this.ensurePassword()
 
-    const encrypted = this.secureStore.get(walletId)
+    if (wallet.type === 'mnemonic') {
+      const encryptedSeed = this.secrets.get(`seed-${wallet.seedId}`)
+      if (!encryptedSeed) {
+        throw new WalletError(`Seed phrase not found for wallet ${walletId}`)
+      }
+
+      let mnemonic: string
+      try {
+        mnemonic = this.secureStorage.decrypt(encryptedSeed, pwd)
+      } catch (error) {
+        if (error instanceof WalletError) throw error
+        throw new WalletError('Failed to decrypt seed phrase. Incorrect password?')
+      }
+      return deriveMnemonicAccount(mnemonic, wallet.derivationPath).privateKey
+    }
+
+    const encrypted = this.secrets.get(walletId)
     if (!encrypted) {
       throw new WalletError(`Private key not found for wallet ${walletId}`)
     }
 
     try {
       return this.secureStorage.decrypt(encrypted, pwd)
-    } catch {
+    } catch (error) {
+      if (error instanceof WalletError) throw error
       throw new WalletError('Failed to decrypt private key. Incorrect password?')
     }
   }
 
+  // Names of the secrets referenced by stored wallets
+  private getSecretKeys(): string[] {
+    const keys = new Set<string>()
+    for (const wallet of this.getAllWallets()) {
+      if (wallet.type === 'private-key') keys.add(wallet.id)
+      if (wallet.type === 'mnemonic') keys.add(`seed-${wallet.seedId}`)
+    }
+    return [...keys]
+  }
+
+  // Re-encrypt every private key and seed with a new password (and the current KDF).
+  // Nothing is written unless all entries decrypt; the previous entries are restored
+  // if writing or verifying the new ones fails.
+  changePassword(currentPassword: string, newPassword: string): number {
+    const previous: Record<string, string> = {}
+    const decrypted: Record<string, string> = {}
+    for (const key of this.getSecretKeys()) {
+      const encrypted = this.secrets.get(key)
+      if (!encrypted) {
+        throw new WalletError(`Secret ${key} not found in the ${this.secrets.type} backend`)
+      }
+      previous[key] = encrypted
+
+      try {
+        decrypted[key] = this.secureStorage.decrypt(encrypted, currentPassword)
+      } catch (error) {
+        if (error instanceof WalletError) throw error
+        throw new WalletError('Failed to decrypt wallet keys. Incorrect password?')
+      }
+    }
+
+    const reencrypted = Object.fromEntries(
+      Object.entries(decrypted).map(([key, secret]) => [
+        key,
+        this.secureStorage.encrypt(secret, newPassword),
+      ])
+    )
+
+    try {
+      for (const [key, encrypted] of Object.entries(reencrypted)) {
+        this.secrets.set(key, encrypted)
+        const stored = this.secrets.get(key)
+        if (!stored || this.secureStorage.decrypt(stored, newPassword) !== decrypted[key]) {
+          throw new Error(`Verification of ${key} failed`)
+        }
+      }
+    } catch (error) {
+      for (const [key, encrypted] of Object.entries(previous)) {
+        this.secrets.set(key, encrypted)
+      }
+      throw new WalletError(
+        `Failed to change password, previous keys restored: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    this.password = newPassword
+    return Object.keys(reencrypted).length
+  }
+
+  // Move every secret to another backend. Entries are copied and read back, then
+  // onCopied persists the switch (e.g. in the config) before the current backend's
+  // entries are removed. If anything up to onCopied fails, the copies are removed.
+  // Entries the current backend fails to remove are returned in "leftover".
+  migrateSecrets(
+    target: SecretBackend,
+    onCopied?: () => void
+  ): { moved: number; leftover: string[] } {
+    const keys = this.getSecretKeys()
+    const copied: string[] = []
+
+    try {
+      for (const key of keys) {
+        const encrypted = this.secrets.get(key)
+        if (!encrypted) {
+          throw new Error(`Secret ${key} not found in the ${this.secrets.type} backend`)
+        }
+        target.set(key, encrypted)
+        copied.push(key)
+        if (target.get(key) !== encrypted) {
+          throw new Error(`Verification of ${key} failed`)
+        }
+      }
+      onCopied?.()
+    } catch (error) {
+      const stranded = copied.filter((key) => {
+        try {
+          target.delete(key)
+          return false
+        } catch {
+          return true
+        }
+      })
+      throw new WalletError(
+        `Failed to move secrets to the ${target.type} backend, nothing changed: ${error instanceof Error ? error.message : 'Unknown error'}` +
+          (stranded.length > 0 ? ` (could not remove the copies of ${stranded.join(', ')})` : '')
+      )
+    }
+
+    const previous = this.secrets
+    this.secrets = target
+    const leftover: string[] = []
+    for (const key of keys) {
+      try {
+        previous.delete(key)
+      } catch {
+        leftover.push(key)
+      }
+    }
+    return { moved: keys.length, leftover }
+  }
+
   // Get all wallets (without private keys)
   getAllWallets(): Wallet[] {
     const wallets = this.store.get('wallets', {})
@@ -253,7 +632,15 @@ export class WalletStorageService {
 
     // Remove encrypted private key (only for private-key wallets)
     if (wallet.type === 'private-key') {
-      this.secureStore.delete(walletId)
+      this.secrets.delete(walletId)
+    }
+
+    // Remove the encrypted seed once no account of it is left
+    if (
+      wallet.type === 'mnemonic' &&
+      !Object.values(wallets).some((w) => w.type === 'mnemonic' && w.seedId === wallet.seedId)
+    ) {
+      this.secrets.delete(`seed-${wallet.seedId}`)
     }
 
     // Update active wallet if necessary
@@ -279,7 +666,9 @@ let walletStorage: WalletStorageService | null = null
 
 export function getWalletStorage(): WalletStorageService {
   if (!walletStorage) {
-    walletStorage = new WalletStorageService()
+    walletStorage = new WalletStorageService({
+      secretBackend: createSecretBackend(getConfigStore().getSecretBackend()),
+    })
   }
   return walletStorage
 }
@@ -0,0 +1,49 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest'
+import type { Address } from 'viem'
+import { ABICacheStore, PROXY_CACHE_TTL_MS } from '../../storage/abi-cache-store.js'
+import { createTestStorage } from '../helpers/test-storage.js'
+
+const CONTRACT = '0x1234567890123456789012345678901234567890' as Address
+const IMPLEMENTATION = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address
+const ABI = [{ type: 'function', name: 'transfer', inputs: [], outputs: [] }]
+
+describe('ABI Cache Integration Tests', () => {
+  let cacheStore: ABICacheStore
+  let testStorage: ReturnType<typeof createTestStorage>
+
+  beforeEach(() => {
+    testStorage = createTestStorage('abi-cache-integration')
+    cacheStore = new ABICacheStore({ cwd: testStorage.configDir })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    testStorage.cleanup()
+  })
+
+  it('should keep contract ABIs', () => {
+    cacheStore.set('1', CONTRACT, { abi: ABI, name: 'Token' })
+    vi.useFakeTimers({ now: Date.now() + 365 * 24 * 60 * 60 * 1000 })
+
+    expect(cacheStore.get('1', CONTRACT)).toEqual({
+      abi: ABI,
+      name: 'Token',
+      implementation: undefined,
+    })
+  })
+
+  it('should expire proxies so upgrades are picked up', () => {
+    cacheStore.set('1', CONTRACT, { abi: ABI, implementation: IMPLEMENTATION })
+    expect(cacheStore.get('1', CONTRACT)?.implementation).toBe(IMPLEMENTATION)
+
+    vi.useFakeTimers({ now: Date.now() + PROXY_CACHE_TTL_MS + 1000 })
+    expect(cacheStore.get('1', CONTRACT)).toBeUndefined()
+  })
+
+  it('should be keyed by chain', () => {
+    cacheStore.set('1', CONTRACT, { abi: ABI })
+
+    expect(cacheStore.get('1', CONTRACT.toLowerCase() as Address)).toBeDefined()
+    expect(cacheStore.get('10', CONTRACT)).toBeUndefined()
+  })
+})
@@ -1,6 +1,9 @@
 import { beforeEach, afterEach, describe, it, expect } from 'vitest'
+import { writeFileSync } from 'fs'
 import { ConfigStore } from '../../storage/config-store.js'
+import { ConfigError } from '../../utils/errors.js'
 import { TEST_CHAIN } from './test-helpers.js'
+import { createTestStorage } from '../helpers/test-storage.js'
 
 describe('Config Integration Tests', () => {
   let configStore: ConfigStore
@@ -99,6 +102,140 @@ describe('Config Integration Tests', () => {
     })
   })
 
+  describe('Token Lists', () => {
+    const chainId = '999999'
+    const token = '0x5fbdb2315678afecb367f032d93f642f64180aa3'
+
+    afterEach(() => {
+      configStore.removeToken(chainId, token)
+    })
+
+    it('should return an empty list for chains without tokens', () => {
+      expect(configStore.getTokens(chainId)).toEqual([])
+    })
+
+    it('should add tokens with checksummed addresses', () => {
+      expect(configStore.addToken(chainId, token)).toBe(true)
+
+      expect(configStore.getTokens(chainId)).toEqual(['0x5FbDB2315678afecb367f032d93F642f64180aa3'])
+    })
+
+    it('should not add the same token twice', () => {
+      configStore.addToken(chainId, token)
+
+      expect(configStore.addToken(chainId, '0x5FbDB2315678afecb367f032d93F642f64180aa3')).toBe(
+        false
+      )
+      expect(configStore.getTokens(chainId)).toHaveLength(1)
+    })
+
+    it('should remove tokens', () => {
+      configStore.addToken(chainId, token)
+
+      expect(configStore.removeToken(chainId, token)).toBe(true)
+      expect(configStore.removeToken(chainId, token)).toBe(false)
+      expect(configStore.getTokens(chainId)).toEqual([])
+    })
+  })
+
+  describe('Hooks', () => {
+    let hookStore: ConfigStore
+    let testStorage: ReturnType<typeof createTestStorage>
+
+    beforeEach(() => {
+      testStorage = createTestStorage('config-hooks')
+      hookStore = new ConfigStore({ cwd: testStorage.configDir })
+    })
+
+    afterEach(() => {
+      testStorage.cleanup()
+    })
+
+    it('should have no hooks by default', () => {
+      expect(hookStore.getHooks()).toEqual([])
+    })
+
+    it('should add and remove hooks', () => {
+      hookStore.addHook({ type: 'command', events: ['created'], command: './notify.sh' })
+      hookStore.addHook({
+        type: 'http',
+        events: ['signed', 'executed'],
+        url: 'http://127.0.0.1:8080/hook',
+        headers: { Authorization: 'Bearer token' },
+      })
+
+      expect(hookStore.getHooks()).toHaveLength(2)
+      expect(hookStore.removeHook(0)).toBe(true)
+      expect(hookStore.removeHook(1)).toBe(false)
+      expect(hookStore.getHooks()).toEqual([
+        {
+          type: 'http',
+          events: ['signed', 'executed'],
+          url: 'http://127.0.0.1:8080/hook',
+          headers: { Authorization: 'Bearer token' },
+        },
+      ])
+    })
+
+    it('should persist hooks across instances', () => {
+      hookStore.addHook({ type: 'command', events: ['rejected'], command: 'true' })
+
+      const newStore = new ConfigStore({ cwd: testStorage.configDir })
+      expect(newStore.getHooks()).toHaveLength(1)
+    })
+
+    it('should reject hand-edited hooks that are invalid', () => {
+      writeFileSync(
+        hookStore.getConfigPath(),
+        JSON.stringify({ hooks: [{ type: 'http', events: ['sent'], url: 'not a url' }] })
+      )
+
+      expect(() => hookStore.getHooks()).toThrow(ConfigError)
+      expect(() => hookStore.getHooks()).toThrow('Invalid hook #1')
+    })
+  })
+
+  describe('Secret Backend', () => {
+    let backendStore: ConfigStore
+    let testStorage: ReturnType<typeof createTestStorage>
+
+    beforeEach(() => {
+      testStorage = createTestStorage('config-secret-backend')
+      backendStore = new ConfigStore({ cwd: testStorage.configDir })
+    })
+
+    afterEach(() => {
+      testStorage.cleanup()
+    })
+
+    it('should default to the file backend', () => {
+      expect(backendStore.getSecretBackend()).toEqual({ type: 'file' })
+    })
+
+    it('should persist a command backend', () => {
+      const backend = {
+        type: 'command' as const,
+        get: 'pass show safe-cli/{key}',
+        set: 'pass insert --multiline --force safe-cli/{key}',
+        delete: 'pass rm --force safe-cli/{key}',
+      }
+      backendStore.setSecretBackend(backend)
+
+      const newStore = new ConfigStore({ cwd: testStorage.configDir })
+      expect(newStore.getSecretBackend()).toEqual(backend)
+    })
+
+    it('should reject a hand-edited backend that is invalid', () => {
+      writeFileSync(
+        backendStore.getConfigPath(),
+        JSON.stringify({ secretBackend: { type: 'command', get: 'cat {key}' } })
+      )
+
+      expect(() => backendStore.getSecretBackend()).toThrow(ConfigError)
+      expect(() => backendStore.getSecretBackend()).toThrow('Invalid secretBackend')
+    })
+  })
+
   describe('Configuration Persistence', () => {
     it('should persist chains across instances', () => {
       configStore.setChain(TEST_CHAIN.chainId, TEST_CHAIN)
@@ -0,0 +1,193 @@
+import { beforeEach, afterEach, describe, it, expect } from 'vitest'
+import { MessageStore } from '../../storage/message-store.js'
+import { TEST_ADDRESS, TEST_SAFE_ADDRESS, TEST_CHAIN } from './test-helpers.js'
+import type { Address } from 'viem'
+import type { EIP712TypedData } from '../../types/message.js'
+import { createTestStorage } from '../helpers/test-storage.js'
+
+const TEST_MESSAGE_HASH = '0x' + '3'.repeat(64)
+const OTHER_OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address
+
+describe('Message Integration Tests', () => {
+  let messageStore: MessageStore
+  let testStorage: ReturnType<typeof createTestStorage>
+
+  beforeEach(() => {
+    // Create isolated test storage - NEVER touches user's actual config!
+    testStorage = createTestStorage('message-integration')
+    messageStore = new MessageStore({ cwd: testStorage.configDir })
+  })
+
+  afterEach(() => {
+    // Cleanup test directories
+    testStorage.cleanup()
+  })
+
+  describe('Message Creation and Retrieval', () => {
+    it('should create and retrieve text message', () => {
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        'Hello Safe',
+        TEST_ADDRESS
+      )
+
+      const msg = messageStore.getMessage(TEST_MESSAGE_HASH)
+      expect(msg?.messageHash).toBe(TEST_MESSAGE_HASH)
+      expect(msg?.safeAddress).toBe(TEST_SAFE_ADDRESS)
+      expect(msg?.message).toBe('Hello Safe')
+      expect(msg?.signatures).toEqual([])
+      expect(msg?.createdBy).toBe(TEST_ADDRESS)
+    })
+
+    it('should store typed data messages', () => {
+      const typedData: EIP712TypedData = {
+        domain: { name: 'Test App' },
+        types: { Login: [{ name: 'user', type: 'address' }] },
+        primaryType: 'Login',
+        message: { user: TEST_ADDRESS },
+      }
+
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        typedData,
+        TEST_ADDRESS
+      )
+
+      expect(messageStore.getMessage(TEST_MESSAGE_HASH)?.message).toEqual(typedData)
+    })
+
+    it('should return undefined for non-existent message', () => {
+      expect(messageStore.getMessage('0x' + '9'.repeat(64))).toBeUndefined()
+    })
+
+    it('should return empty array when no messages exist', () => {
+      expect(messageStore.getAllMessages()).toHaveLength(0)
+    })
+  })
+
+  describe('Message Filtering', () => {
+    beforeEach(() => {
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        'First',
+        TEST_ADDRESS
+      )
+      messageStore.createMessage(
+        '0x' + '4'.repeat(64),
+        TEST_SAFE_ADDRESS,
+        '11155111',
+        'Second',
+        TEST_ADDRESS
+      )
+      messageStore.createMessage(
+        '0x' + '5'.repeat(64),
+        OTHER_OWNER,
+        TEST_CHAIN.chainId,
+        'Third',
+        TEST_ADDRESS
+      )
+    })
+
+    it('should filter messages by Safe address', () => {
+      expect(messageStore.getMessagesBySafe(TEST_SAFE_ADDRESS)).toHaveLength(2)
+    })
+
+    it('should filter messages by Safe and chain', () => {
+      expect(messageStore.getMessagesBySafe(TEST_SAFE_ADDRESS, TEST_CHAIN.chainId)).toHaveLength(1)
+    })
+
+    it('should match Safe address case-insensitively', () => {
+      const lower = TEST_SAFE_ADDRESS.toLowerCase() as Address
+      expect(messageStore.getMessagesBySafe(lower)).toHaveLength(2)
+    })
+  })
+
+  describe('Message Signatures', () => {
+    beforeEach(() => {
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        'Hello Safe',
+        TEST_ADDRESS
+      )
+    })
+
+    it('should add signatures from multiple owners', () => {
+      messageStore.addSignature(TEST_MESSAGE_HASH, {
+        signer: TEST_ADDRESS,
+        signature: '0x1111',
+        signedAt: new Date().toISOString(),
+      })
+      messageStore.addSignature(TEST_MESSAGE_HASH, {
+        signer: OTHER_OWNER,
+        signature: '0x2222',
+        signedAt: new Date().toISOString(),
+      })
+
+      expect(messageStore.getMessage(TEST_MESSAGE_HASH)?.signatures).toHaveLength(2)
+    })
+
+    it('should replace signature from same signer', () => {
+      messageStore.addSignature(TEST_MESSAGE_HASH, {
+        signer: TEST_ADDRESS,
+        signature: '0x1111',
+        signedAt: new Date().toISOString(),
+      })
+      messageStore.addSignature(TEST_MESSAGE_HASH, {
+        signer: TEST_ADDRESS.toLowerCase() as Address,
+        signature: '0x3333',
+        signedAt: new Date().toISOString(),
+      })
+
+      const signatures = messageStore.getMessage(TEST_MESSAGE_HASH)?.signatures
+      expect(signatures).toHaveLength(1)
+      expect(signatures?.[0].signature).toBe('0x3333')
+    })
+
+    it('should throw when adding signature to non-existent message', () => {
+      expect(() =>
+        messageStore.addSignature('0x' + '9'.repeat(64), {
+          signer: TEST_ADDRESS,
+          signature: '0x1111',
+          signedAt: new Date().toISOString(),
+        })
+      ).toThrow('not found')
+    })
+  })
+
+  describe('Message Removal and Persistence', () => {
+    it('should remove message', () => {
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        'Hello Safe',
+        TEST_ADDRESS
+      )
+
+      messageStore.deleteMessage(TEST_MESSAGE_HASH)
+
+      expect(messageStore.getMessage(TEST_MESSAGE_HASH)).toBeUndefined()
+    })
+
+    it('should persist message across instances', () => {
+      messageStore.createMessage(
+        TEST_MESSAGE_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        'Hello Safe',
+        TEST_ADDRESS
+      )
+
+      const newStore = new MessageStore({ cwd: testStorage.configDir })
+      expect(newStore.getMessage(TEST_MESSAGE_HASH)?.message).toBe('Hello Safe')
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { beforeEach, afterEach, describe, it, expect } from 'vitest'
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest'
 import { TransactionStore } from '../../storage/transaction-store.js'
 import { SafeAccountStorage } from '../../storage/safe-store.js'
 import { WalletStorageService } from '../../storage/wallet-store.js'
@@ -282,6 +282,106 @@ describe('Transaction Integration Tests', () => {
     })
   })
 
+  describe('Same-Nonce Rejection', () => {
+    const otherHash = '0x' + 'b'.repeat(64)
+    const rejectionHash = '0x' + 'c'.repeat(64)
+    const nextNonceHash = '0x' + 'd'.repeat(64)
+
+    beforeEach(() => {
+      transactionStore.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        {
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address,
+          value: '1000000000000000000',
+          data: '0x',
+          nonce: 3,
+        },
+        TEST_ADDRESS
+      )
+      transactionStore.createTransaction(
+        otherHash,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        {
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address,
+          value: '5',
+          data: '0x',
+          nonce: 3,
+        },
+        TEST_ADDRESS
+      )
+      transactionStore.createTransaction(
+        rejectionHash,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        { to: TEST_SAFE_ADDRESS, value: '0', data: '0x', nonce: 3 },
+        TEST_ADDRESS
+      )
+      transactionStore.createTransaction(
+        nextNonceHash,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        {
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address,
+          value: '1',
+          data: '0x',
+          nonce: 4,
+        },
+        TEST_ADDRESS
+      )
+    })
+
+    it('should mark other transactions with the same nonce as rejected', () => {
+      transactionStore.updateStatus(rejectionHash, TransactionStatus.EXECUTED)
+
+      const rejected = transactionStore.rejectSameNonceTransactions(rejectionHash)
+
+      expect(rejected.sort()).toEqual([TEST_SAFE_TX_HASH, otherHash].sort())
+      expect(transactionStore.getTransaction(TEST_SAFE_TX_HASH)?.status).toBe(
+        TransactionStatus.REJECTED
+      )
+      expect(transactionStore.getTransaction(otherHash)?.status).toBe(TransactionStatus.REJECTED)
+      expect(transactionStore.getTransaction(rejectionHash)?.status).toBe(
+        TransactionStatus.EXECUTED
+      )
+    })
+
+    it('should not touch transactions with a different nonce', () => {
+      transactionStore.rejectSameNonceTransactions(rejectionHash)
+
+      expect(transactionStore.getTransaction(nextNonceHash)?.status).toBe(TransactionStatus.PENDING)
+    })
+
+    it('should not touch transactions of another chain', () => {
+      const otherChainHash = '0x' + 'e'.repeat(64)
+      transactionStore.createTransaction(
+        otherChainHash,
+        TEST_SAFE_ADDRESS,
+        '11155111',
+        { to: TEST_SAFE_ADDRESS, value: '0', data: '0x', nonce: 3 },
+        TEST_ADDRESS
+      )
+
+      transactionStore.rejectSameNonceTransactions(rejectionHash)
+
+      expect(transactionStore.getTransaction(otherChainHash)?.status).toBe(
+        TransactionStatus.PENDING
+      )
+    })
+
+    it('should return empty list when there are no competing transactions', () => {
+      expect(transactionStore.rejectSameNonceTransactions(nextNonceHash)).toEqual([])
+    })
+
+    it('should throw for unknown transaction', () => {
+      expect(() => transactionStore.rejectSameNonceTransactions('0x' + '9'.repeat(64))).toThrow(
+        'not found'
+      )
+    })
+  })
+
   describe('Transaction Removal', () => {
     it('should remove transaction', () => {
       transactionStore.createTransaction(
@@ -357,4 +457,153 @@ describe('Transaction Integration Tests', () => {
       expect(tx?.signatures).toHaveLength(1)
     })
   })
+
+  describe('Relay Tasks', () => {
+    beforeEach(() => {
+      transactionStore.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        {
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address,
+          value: '0',
+          data: '0x',
+        },
+        TEST_ADDRESS
+      )
+    })
+
+    it('should record and clear the relay task', () => {
+      transactionStore.setRelayTask(TEST_SAFE_TX_HASH, 'task-1')
+      expect(transactionStore.getTransaction(TEST_SAFE_TX_HASH)?.relayTaskId).toBe('task-1')
+
+      transactionStore.setRelayTask(TEST_SAFE_TX_HASH, undefined)
+      expect(transactionStore.getTransaction(TEST_SAFE_TX_HASH)?.relayTaskId).toBeUndefined()
+    })
+
+    it('should clear the relay task once executed', () => {
+      transactionStore.setRelayTask(TEST_SAFE_TX_HASH, 'task-1')
+      transactionStore.updateStatus(TEST_SAFE_TX_HASH, TransactionStatus.EXECUTED, '0xhash')
+
+      const tx = transactionStore.getTransaction(TEST_SAFE_TX_HASH)
+      expect(tx?.relayTaskId).toBeUndefined()
+      expect(tx?.txHash).toBe('0xhash')
+    })
+
+    it('should throw for unknown transactions', () => {
+      expect(() => transactionStore.setRelayTask('0x' + '9'.repeat(64), 'task-1')).toThrow(
+        'not found'
+      )
+    })
+  })
+
+  describe('Lifecycle Events', () => {
+    const metadata = {
+      to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address,
+      value: '0',
+      data: '0x' as const,
+      nonce: 3,
+    }
+    const otherHash = '0x' + '2'.repeat(64)
+    const signer2 = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' as Address
+
+    let onEvent: ReturnType<typeof vi.fn>
+    let store: TransactionStore
+
+    const signature = (signer: Address) => ({
+      signer,
+      signature: '0x' + '1'.repeat(130),
+      signedAt: new Date().toISOString(),
+    })
+    const events = () => onEvent.mock.calls.map(([event, tx]) => [event, tx.safeTxHash])
+
+    beforeEach(() => {
+      onEvent = vi.fn()
+      store = new TransactionStore({
+        cwd: testStorage.configDir,
+        onEvent,
+        resolveThreshold: () => 2,
+      })
+    })
+
+    it('should emit created, signed and threshold-reached', () => {
+      store.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        metadata,
+        TEST_ADDRESS
+      )
+      store.addSignature(TEST_SAFE_TX_HASH, signature(TEST_ADDRESS))
+      store.addSignature(TEST_SAFE_TX_HASH, signature(signer2))
+
+      expect(events()).toEqual([
+        ['created', TEST_SAFE_TX_HASH],
+        ['signed', TEST_SAFE_TX_HASH],
+        ['signed', TEST_SAFE_TX_HASH],
+        ['threshold-reached', TEST_SAFE_TX_HASH],
+      ])
+      expect(onEvent.mock.calls[3][1].signatures).toHaveLength(2)
+    })
+
+    it('should not emit again when a signer re-signs', () => {
+      store.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        metadata,
+        TEST_ADDRESS
+      )
+      store.addSignature(TEST_SAFE_TX_HASH, signature(TEST_ADDRESS))
+      store.addSignature(TEST_SAFE_TX_HASH, signature(TEST_ADDRESS))
+
+      expect(events()).toEqual([
+        ['created', TEST_SAFE_TX_HASH],
+        ['signed', TEST_SAFE_TX_HASH],
+      ])
+    })
+
+    it('should emit executed once and rejected for same-nonce transactions', () => {
+      store.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        metadata,
+        TEST_ADDRESS
+      )
+      store.createTransaction(
+        otherHash,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        metadata,
+        TEST_ADDRESS
+      )
+      onEvent.mockClear()
+
+      store.updateStatus(TEST_SAFE_TX_HASH, TransactionStatus.EXECUTED, '0x' + 'a'.repeat(64))
+      store.updateStatus(TEST_SAFE_TX_HASH, TransactionStatus.EXECUTED, '0x' + 'a'.repeat(64))
+      store.rejectSameNonceTransactions(TEST_SAFE_TX_HASH)
+
+      expect(events()).toEqual([
+        ['executed', TEST_SAFE_TX_HASH],
+        ['rejected', otherHash],
+      ])
+    })
+
+    it('should emit rejected on a status update', () => {
+      store.createTransaction(
+        TEST_SAFE_TX_HASH,
+        TEST_SAFE_ADDRESS,
+        TEST_CHAIN.chainId,
+        metadata,
+        TEST_ADDRESS
+      )
+      store.updateStatus(TEST_SAFE_TX_HASH, TransactionStatus.REJECTED)
+
+      expect(events()).toEqual([
+        ['created', TEST_SAFE_TX_HASH],
+        ['rejected', TEST_SAFE_TX_HASH],
+      ])
+    })
+  })
 })
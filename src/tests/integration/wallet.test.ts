@@ -1,5 +1,9 @@
-import { beforeEach, afterEach, describe, it, expect } from 'vitest'
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { createCipheriv, pbkdf2Sync, randomBytes } from 'crypto'
 import { WalletStorageService } from '../../storage/wallet-store.js'
+import { CommandSecretBackend, FileSecretBackend } from '../../storage/secret-backends.js'
 import { TEST_PRIVATE_KEY, TEST_PASSWORD } from './test-helpers.js'
 import { createTestStorage } from '../helpers/test-storage.js'
 
@@ -228,6 +232,38 @@ describe('Wallet Integration Tests', () => {
     })
   })
 
+  describe('importWatchOnlyWallet', { timeout: 30000 }, () => {
+    it('should import an address without a key', async () => {
+      const wallet = await walletStorage.importWatchOnlyWallet(
+        'Phone',
+        '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+      )
+
+      expect(wallet.type).toBe('watch-only')
+      expect(wallet.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8')
+      expect(walletStorage.getActiveWallet()?.id).toBe(wallet.id)
+      expect(() => walletStorage.getPrivateKey(wallet.id)).toThrow('Watch-only wallets')
+    })
+
+    it('should prevent duplicates of existing wallets', async () => {
+      await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      await expect(
+        walletStorage.importWatchOnlyWallet('Phone', '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266')
+      ).rejects.toThrow('already exists as "Test Wallet"')
+    })
+
+    it('should be left out of password changes', async () => {
+      await walletStorage.importWatchOnlyWallet(
+        'Phone',
+        '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+      )
+      await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      expect(walletStorage.changePassword(TEST_PASSWORD, 'NewPassword456!')).toBe(1)
+    })
+  })
+
   describe('Mixed wallet types', () => {
     it('should handle both private-key and Ledger wallets', async () => {
       const pkWallet = await walletStorage.importWallet('PK Wallet', TEST_PRIVATE_KEY)
@@ -266,4 +302,354 @@ describe('Wallet Integration Tests', () => {
       )
     })
   })
+
+  describe('importMnemonicWallets', () => {
+    const TEST_MNEMONIC = 'test test test test test test test test test test test junk'
+
+    it('should import several accounts backed by one seed', async () => {
+      const wallets = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #0', derivationPath: "m/44'/60'/0'/0/0" },
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+
+      expect(wallets.map((w) => w.address)).toEqual([
+        '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+        '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      ])
+      expect(wallets[0].type).toBe('mnemonic')
+      expect(wallets[0].seedId).toBe(wallets[1].seedId)
+      expect(walletStorage.getActiveWallet()?.id).toBe(wallets[0].id)
+    })
+
+    it('should derive private keys from the encrypted seed', async () => {
+      const [wallet] = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #0', derivationPath: "m/44'/60'/0'/0/0" },
+      ])
+
+      expect(walletStorage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+      expect(() => walletStorage.getPrivateKey(wallet.id, 'wrong-password')).toThrow(
+        'Failed to decrypt seed phrase'
+      )
+    })
+
+    it('should reuse the stored seed when importing more accounts', async () => {
+      const [first] = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #0', derivationPath: "m/44'/60'/0'/0/0" },
+      ])
+      const [second] = await walletStorage.importMnemonicWallets(TEST_MNEMONIC.toUpperCase(), [
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+
+      expect(second.seedId).toBe(first.seedId)
+    })
+
+    it('should reject invalid phrases and existing addresses', async () => {
+      await expect(
+        walletStorage.importMnemonicWallets('abandon '.repeat(12), [
+          { name: 'Bad', derivationPath: "m/44'/60'/0'/0/0" },
+        ])
+      ).rejects.toThrow('Invalid seed phrase')
+
+      await walletStorage.importWallet('PK Wallet', TEST_PRIVATE_KEY)
+      await expect(
+        walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+          { name: 'Seed #0', derivationPath: "m/44'/60'/0'/0/0" },
+        ])
+      ).rejects.toThrow('already exists as "PK Wallet"')
+    })
+
+    it('should delete the seed with its last account', async () => {
+      const [first, second] = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #0', derivationPath: "m/44'/60'/0'/0/0" },
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+
+      walletStorage.removeWallet(first.id)
+      expect(walletStorage.getPrivateKey(second.id)).toMatch(/^0x[0-9a-f]{64}$/)
+
+      walletStorage.removeWallet(second.id)
+      const reimported = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+      expect(reimported[0].seedId).not.toBe(second.seedId)
+    })
+  })
+
+  // Each scrypt derivation takes ~0.5s
+  describe('Encryption format', { timeout: 30000 }, () => {
+    const NEW_PASSWORD = 'new-password-456'
+
+    function readSecureStore(): Record<string, string> {
+      return JSON.parse(readFileSync(join(testStorage.configDir, 'wallets-secure.json'), 'utf-8'))
+    }
+
+    function writeSecureStore(entries: Record<string, string>): void {
+      writeFileSync(join(testStorage.configDir, 'wallets-secure.json'), JSON.stringify(entries))
+    }
+
+    // Entry as written before the versioned header: PBKDF2 (100k), 64-byte salt
+    function encryptLegacy(text: string, password: string): string {
+      const salt = randomBytes(64)
+      const iv = randomBytes(16)
+      const key = pbkdf2Sync(password, salt, 100000, 32, 'sha256')
+      const cipher = createCipheriv('aes-256-gcm', key, iv)
+      const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+      return Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]).toString('base64')
+    }
+
+    it('should write a versioned header with the KDF parameters', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      expect(readSecureStore()[wallet.id]).toMatch(
+        /^\$v2\$scrypt\$n=131072,r=8,p=1\$[A-Za-z0-9+/=]+$/
+      )
+    })
+
+    it('should still decrypt legacy entries', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      writeSecureStore({ [wallet.id]: encryptLegacy(TEST_PRIVATE_KEY, TEST_PASSWORD) })
+
+      expect(walletStorage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+    })
+
+    it('should reject unknown formats', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      writeSecureStore({ [wallet.id]: '$v9$argon2id$m=65536$AAAA' })
+
+      expect(() => walletStorage.getPrivateKey(wallet.id)).toThrow(
+        'Unsupported encryption format v9'
+      )
+    })
+
+    it('should reject corrupt KDF parameters', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const payload = readSecureStore()[wallet.id].split('$')[4]
+      const cases: Record<string, string> = {
+        'n=131072,r=8': 'missing parameter "p"',
+        'n=131072,r=8,p=1,x=1': 'unknown parameter "x"',
+        'n=abc,r=8,p=1': '"n" must be a positive integer',
+        'n=1024,r=8,p=1': '"n" must be between',
+        'n=131073,r=8,p=1': '"n" must be a power of 2',
+        'n=1048576,r=16,p=1': '"n" and "r" need more than 1 GiB of memory',
+      }
+
+      for (const [params, reason] of Object.entries(cases)) {
+        writeSecureStore({ [wallet.id]: `$v2$scrypt$${params}$${payload}` })
+        expect(() => walletStorage.getPrivateKey(wallet.id)).toThrow(
+          `Corrupt encryption header $v2$scrypt$${params}: ${reason}`
+        )
+      }
+
+      writeSecureStore({ [wallet.id]: `$v2$pbkdf2-sha256$i=1$${payload}` })
+      expect(() => walletStorage.getPrivateKey(wallet.id)).toThrow('"i" must be between')
+    })
+
+    it('should re-encrypt all keys and seeds with a new password', async () => {
+      const pkWallet = await walletStorage.importWallet('PK Wallet', TEST_PRIVATE_KEY)
+      const [seedWallet] = await walletStorage.importMnemonicWallets(
+        'test test test test test test test test test test test junk',
+        [{ name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" }]
+      )
+      // Upgrade a legacy entry on the way
+      writeSecureStore({
+        ...readSecureStore(),
+        [pkWallet.id]: encryptLegacy(TEST_PRIVATE_KEY, TEST_PASSWORD),
+      })
+
+      expect(walletStorage.changePassword(TEST_PASSWORD, NEW_PASSWORD)).toBe(2)
+
+      expect(Object.values(readSecureStore()).every((entry) => entry.startsWith('$v2$'))).toBe(true)
+      expect(walletStorage.getPrivateKey(pkWallet.id)).toBe(TEST_PRIVATE_KEY)
+      expect(walletStorage.getPrivateKey(seedWallet.id, NEW_PASSWORD)).toMatch(/^0x/)
+      expect(() => walletStorage.getPrivateKey(pkWallet.id, TEST_PASSWORD)).toThrow(
+        'Incorrect password'
+      )
+    })
+
+    it('should not touch the store with a wrong current password', async () => {
+      await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const before = readSecureStore()
+
+      expect(() => walletStorage.changePassword('wrong-password', NEW_PASSWORD)).toThrow(
+        'Incorrect password'
+      )
+      expect(readSecureStore()).toEqual(before)
+    })
+
+    it('should restore the previous keys when verification fails', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const before = readSecureStore()
+
+      const { secureStorage } = walletStorage as unknown as {
+        secureStorage: { decrypt: (data: string, password: string) => string }
+      }
+      const decrypt = secureStorage.decrypt.bind(secureStorage)
+      vi.spyOn(secureStorage, 'decrypt').mockImplementation((data, password) => {
+        if (password === NEW_PASSWORD) throw new Error('disk corrupted')
+        return decrypt(data, password)
+      })
+
+      expect(() => walletStorage.changePassword(TEST_PASSWORD, NEW_PASSWORD)).toThrow(
+        'previous keys restored'
+      )
+      vi.restoreAllMocks()
+
+      expect(readSecureStore()).toEqual(before)
+      expect(walletStorage.getPrivateKey(wallet.id, TEST_PASSWORD)).toBe(TEST_PRIVATE_KEY)
+    })
+  })
+
+  describe('Secret backends', { timeout: 30000 }, () => {
+    const TEST_MNEMONIC = 'test test test test test test test test test test test junk'
+    let secretsDir: string
+    let commands: { get: string; set: string; delete: string }
+    let commandBackend: CommandSecretBackend
+
+    beforeEach(() => {
+      // Plain files stand in for a password manager
+      secretsDir = join(testStorage.dataDir, 'secrets')
+      mkdirSync(secretsDir, { recursive: true })
+      commands = {
+        get: `cat "${secretsDir}/{key}"`,
+        set: `cat > "${secretsDir}/$SAFE_SECRET_KEY"`,
+        delete: `rm -f "${secretsDir}/{key}"`,
+      }
+      commandBackend = new CommandSecretBackend(commands)
+    })
+
+    it('should store keys through a command backend', async () => {
+      const storage = new WalletStorageService({
+        cwd: testStorage.configDir,
+        secretBackend: commandBackend,
+      })
+      storage.setPassword(TEST_PASSWORD)
+
+      const wallet = await storage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      expect(existsSync(join(secretsDir, wallet.id))).toBe(true)
+      expect(readFileSync(join(secretsDir, wallet.id), 'utf-8')).toMatch(/^\$v2\$scrypt\$/)
+      expect(existsSync(join(testStorage.configDir, 'wallets-secure.json'))).toBe(false)
+      expect(storage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+
+      storage.removeWallet(wallet.id)
+      expect(existsSync(join(secretsDir, wallet.id))).toBe(false)
+    })
+
+    it('should report failing commands', () => {
+      const failing = new CommandSecretBackend({
+        get: 'echo "vault is locked"; exit 1',
+        set: 'exit 1',
+        delete: 'echo "entry is read-only" >&2; exit 1',
+      })
+
+      expect(() => failing.get('key')).toThrow('vault is locked')
+      expect(() => failing.set('key', 'value')).toThrow('exit 1')
+      expect(() => failing.delete('key')).toThrow('entry is read-only')
+    })
+
+    it('should treat a missing entry as not found', async () => {
+      // "pass show" prints to stderr and exits 1 for an unknown entry
+      const storage = new WalletStorageService({
+        cwd: testStorage.configDir,
+        secretBackend: new CommandSecretBackend({
+          ...commands,
+          get: 'echo "Error: {key} is not in the password store." >&2; exit 1',
+        }),
+      })
+      storage.setPassword(TEST_PASSWORD)
+
+      const wallet = await storage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      expect(() => storage.getPrivateKey(wallet.id)).toThrow(
+        `Private key not found for wallet ${wallet.id}`
+      )
+    })
+
+    it('should move keys and seeds to another backend', async () => {
+      const key = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const [seed] = await walletStorage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+
+      expect(walletStorage.migrateSecrets(commandBackend)).toEqual({ moved: 2, leftover: [] })
+
+      expect(readFileSync(join(testStorage.configDir, 'wallets-secure.json'), 'utf-8')).toBe('{}')
+      expect(existsSync(join(secretsDir, key.id))).toBe(true)
+      expect(existsSync(join(secretsDir, `seed-${seed.seedId}`))).toBe(true)
+      expect(walletStorage.getPrivateKey(key.id)).toBe(TEST_PRIVATE_KEY)
+      expect(walletStorage.getPrivateKey(seed.id)).toBe(
+        '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+      )
+    })
+
+    it('should keep the current backend when moving fails', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const broken = new CommandSecretBackend({ ...commands, get: 'echo corrupted' })
+
+      expect(() => walletStorage.migrateSecrets(broken)).toThrow('nothing changed')
+
+      expect(existsSync(join(secretsDir, wallet.id))).toBe(false)
+      expect(walletStorage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+    })
+
+    it('should persist the switch before removing the current entries', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+      const securePath = join(testStorage.configDir, 'wallets-secure.json')
+      let secureAtSwitch = ''
+
+      walletStorage.migrateSecrets(commandBackend, () => {
+        secureAtSwitch = readFileSync(securePath, 'utf-8')
+      })
+
+      expect(JSON.parse(secureAtSwitch)).toHaveProperty(wallet.id)
+      expect(readFileSync(securePath, 'utf-8')).toBe('{}')
+    })
+
+    it('should report entries the current backend fails to remove', async () => {
+      const storage = new WalletStorageService({
+        cwd: testStorage.configDir,
+        secretBackend: new CommandSecretBackend({ ...commands, delete: 'exit 1' }),
+      })
+      storage.setPassword(TEST_PASSWORD)
+      const wallet = await storage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      const result = storage.migrateSecrets(new FileSecretBackend({ cwd: testStorage.configDir }))
+
+      expect(result).toEqual({ moved: 1, leftover: [wallet.id] })
+      expect(existsSync(join(secretsDir, wallet.id))).toBe(true)
+      expect(storage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+    })
+
+    it('should keep the current backend when the switch cannot be saved', async () => {
+      const wallet = await walletStorage.importWallet('Test Wallet', TEST_PRIVATE_KEY)
+
+      expect(() =>
+        walletStorage.migrateSecrets(commandBackend, () => {
+          throw new Error('config is read-only')
+        })
+      ).toThrow('config is read-only')
+
+      expect(existsSync(join(secretsDir, wallet.id))).toBe(false)
+      expect(walletStorage.getPrivateKey(wallet.id)).toBe(TEST_PRIVATE_KEY)
+    })
+
+    it('should import a seed phrase when a stored seed is missing from the backend', async () => {
+      const storage = new WalletStorageService({
+        cwd: testStorage.configDir,
+        secretBackend: commandBackend,
+      })
+      storage.setPassword(TEST_PASSWORD)
+      const [stale] = await storage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #1', derivationPath: "m/44'/60'/0'/0/1" },
+      ])
+      rmSync(join(secretsDir, `seed-${stale.seedId}`))
+
+      const [wallet] = await storage.importMnemonicWallets(TEST_MNEMONIC, [
+        { name: 'Seed #2', derivationPath: "m/44'/60'/0'/0/2" },
+      ])
+
+      expect(wallet.seedId).not.toBe(stale.seedId)
+      expect(storage.getPrivateKey(wallet.id)).toMatch(/^0x[0-9a-f]{64}$/)
+    })
+  })
 })
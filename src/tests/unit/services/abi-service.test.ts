@@ -329,6 +329,59 @@ describe('ABIService', () => {
     })
   })
 
+  describe('local cache', () => {
+    const mockCache = {
+      get: vi.fn(),
+      set: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockCache.get.mockReset()
+      mockCache.set.mockReset()
+    })
+
+    it('should return cached contract info without fetching', async () => {
+      mockCache.get.mockReturnValue({ abi: mockABI, name: 'Cached' })
+      const svc = new ABIService(testChain, undefined, mockCache as any)
+
+      const info = await svc.fetchContractInfo(TEST_ADDRESSES.safe1)
+
+      expect(info.name).toBe('Cached')
+      expect(mockCache.get).toHaveBeenCalledWith(testChain.chainId, TEST_ADDRESSES.safe1)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should store fetched contract info in cache', async () => {
+      mockCache.get.mockReturnValue(undefined)
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          status: '1',
+          result: [{ ABI: JSON.stringify(mockABI), ContractName: 'TestContract' }],
+        }),
+      })
+      const svc = new ABIService(testChain, testApiKey, mockCache as any)
+
+      await svc.fetchABI(TEST_ADDRESSES.safe1)
+
+      expect(mockCache.set).toHaveBeenCalledWith(testChain.chainId, TEST_ADDRESSES.safe1, {
+        abi: mockABI,
+        name: 'TestContract',
+        implementation: undefined,
+      })
+    })
+
+    it('should not cache failed lookups', async () => {
+      mockCache.get.mockReturnValue(undefined)
+      mockFetch.mockRejectedValue(new Error('Network error'))
+      const svc = new ABIService(testChain, undefined, mockCache as any)
+
+      await expect(svc.fetchABI(TEST_ADDRESSES.safe1)).rejects.toThrow(SafeCLIError)
+      expect(mockCache.set).not.toHaveBeenCalled()
+    })
+  })
+
   describe('extract Functions', () => {
     it('should extract state-changing functions (nonpayable)', () => {
       const abi: ABI = [
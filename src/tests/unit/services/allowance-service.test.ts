@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { decodeFunctionData, zeroAddress } from 'viem'
+import { AllowanceService } from '../../../services/allowance-service.js'
+import { ALLOWANCE_MODULE_DEPLOYMENTS } from '../../../constants/modules.js'
+import { ALLOWANCE_MODULE_ABI } from '../../../constants/abis.js'
+import { TEST_ADDRESSES, TEST_CHAINS, TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+
+// Mock clients, keep encoding helpers
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(),
+    createWalletClient: vi.fn(),
+    http: vi.fn((url: string) => url),
+  }
+})
+
+// Import mocked modules for assertions
+import { createPublicClient, createWalletClient } from 'viem'
+
+describe('AllowanceService', () => {
+  const testChain = TEST_CHAINS.ethereum
+  const safe = TEST_ADDRESSES.safe1
+  const module = ALLOWANCE_MODULE_DEPLOYMENTS[0]
+  const delegate = TEST_ADDRESSES.owner1
+
+  const mockPublicClient = {
+    getBytecode: vi.fn(),
+    readContract: vi.fn(),
+    waitForTransactionReceipt: vi.fn(),
+  }
+  const mockWalletClient = {
+    sendTransaction: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createPublicClient).mockReturnValue(mockPublicClient as any)
+    vi.mocked(createWalletClient).mockReturnValue(mockWalletClient as any)
+  })
+
+  describe('findDeployment', () => {
+    it('should return the first deployment with bytecode', async () => {
+      mockPublicClient.getBytecode.mockResolvedValueOnce('0x').mockResolvedValueOnce('0x6080')
+
+      const result = await new AllowanceService(testChain).findDeployment()
+
+      expect(result).toBe(ALLOWANCE_MODULE_DEPLOYMENTS[1])
+    })
+
+    it('should return null when no deployment exists', async () => {
+      mockPublicClient.getBytecode.mockResolvedValue(undefined)
+
+      const result = await new AllowanceService(testChain).findDeployment()
+
+      expect(result).toBeNull()
+      expect(mockPublicClient.getBytecode).toHaveBeenCalledTimes(
+        ALLOWANCE_MODULE_DEPLOYMENTS.length
+      )
+    })
+  })
+
+  describe('getDelegates', () => {
+    it('should follow pagination until the next start is zero', async () => {
+      mockPublicClient.readContract
+        .mockResolvedValueOnce([[TEST_ADDRESSES.owner1], 42])
+        .mockResolvedValueOnce([[TEST_ADDRESSES.owner2], 0])
+
+      const result = await new AllowanceService(testChain).getDelegates(safe, module)
+
+      expect(result).toEqual([TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2])
+      expect(mockPublicClient.readContract).toHaveBeenLastCalledWith(
+        expect.objectContaining({ functionName: 'getDelegates', args: [safe, 42, 50] })
+      )
+    })
+
+    it('should wrap errors in SafeCLIError', async () => {
+      mockPublicClient.readContract.mockRejectedValue(new Error('RPC down'))
+
+      await expect(new AllowanceService(testChain).getDelegates(safe, module)).rejects.toThrow(
+        'Failed to get delegates: RPC down'
+      )
+    })
+  })
+
+  describe('getAllowances', () => {
+    it('should read every token allowance of every delegate', async () => {
+      const nowMin = Math.floor(Date.now() / 60000)
+      mockPublicClient.readContract.mockImplementation(async ({ functionName, args }) => {
+        if (functionName === 'getDelegates') return [[delegate], 0]
+        if (functionName === 'getTokens') return [zeroAddress, TEST_ADDRESSES.erc20Token]
+        if (functionName === 'getTokenAllowance') {
+          return args[2] === zeroAddress
+            ? [100n, 30n, 0n, 0n, 2n]
+            : [500n, 500n, 60n, BigInt(nowMin - 10), 1n]
+        }
+        throw new Error(`Unexpected call ${functionName}`)
+      })
+
+      const result = await new AllowanceService(testChain).getAllowances(safe, module)
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({
+        delegate,
+        token: zeroAddress,
+        amount: 100n,
+        spent: 30n,
+        remaining: 70n,
+        resetTimeMin: 0,
+        nextResetMin: undefined,
+        nonce: 2,
+      })
+      expect(result[1]).toMatchObject({
+        token: TEST_ADDRESSES.erc20Token,
+        remaining: 0n,
+        resetTimeMin: 60,
+        nextResetMin: nowMin + 50,
+      })
+    })
+  })
+
+  describe('executeAllowanceTransfer', () => {
+    const txHash = `0x${'ab'.repeat(32)}` as const
+
+    it('should require a private key', async () => {
+      await expect(
+        new AllowanceService(testChain).executeAllowanceTransfer(
+          safe,
+          module,
+          zeroAddress,
+          TEST_ADDRESSES.recipient1,
+          1n
+        )
+      ).rejects.toThrow(SafeCLIError)
+    })
+
+    it('should send the transfer from the delegate without a signature', async () => {
+      mockWalletClient.sendTransaction.mockResolvedValue(txHash)
+      mockPublicClient.waitForTransactionReceipt.mockResolvedValue({ status: 'success' })
+
+      const result = await new AllowanceService(
+        testChain,
+        TEST_PRIVATE_KEYS.owner1
+      ).executeAllowanceTransfer(safe, module, zeroAddress, TEST_ADDRESSES.recipient1, 10n)
+
+      expect(result).toBe(txHash)
+      const { to, data } = mockWalletClient.sendTransaction.mock.calls[0][0]
+      expect(to).toBe(module)
+      const decoded = decodeFunctionData({ abi: ALLOWANCE_MODULE_ABI, data })
+      expect(decoded.functionName).toBe('executeAllowanceTransfer')
+      expect(decoded.args).toEqual([
+        safe,
+        zeroAddress,
+        TEST_ADDRESSES.recipient1,
+        10n,
+        zeroAddress,
+        0n,
+        delegate,
+        '0x',
+      ])
+    })
+
+    it('should throw when the transaction reverts', async () => {
+      mockWalletClient.sendTransaction.mockResolvedValue(txHash)
+      mockPublicClient.waitForTransactionReceipt.mockResolvedValue({ status: 'reverted' })
+
+      await expect(
+        new AllowanceService(testChain, TEST_PRIVATE_KEYS.owner1).executeAllowanceTransfer(
+          safe,
+          module,
+          zeroAddress,
+          TEST_ADDRESSES.recipient1,
+          10n
+        )
+      ).rejects.toThrow('reverted')
+    })
+  })
+})
@@ -12,6 +12,10 @@ vi.mock('@safe-global/api-kit', () => {
     getPendingTransactions: vi.fn(),
     getAllTransactions: vi.fn(),
     getTransaction: vi.fn(),
+    addMessage: vi.fn(),
+    addMessageSignature: vi.fn(),
+    getMessages: vi.fn(),
+    getMessage: vi.fn(),
   }
   const mockCalls: any[] = []
   function MockConstructor(this: any, ...args: any[]) {
@@ -567,6 +571,42 @@ describe('SafeTransactionServiceAPI', () => {
     })
   })
 
+  describe('getTransactionHistory', () => {
+    it('should follow pagination until there is no next page', async () => {
+      mockApiKit.getAllTransactions
+        .mockResolvedValueOnce({ results: [{ safeTxHash: '0xtx1' }], next: 'page-2' })
+        .mockResolvedValueOnce({ results: [{ safeTxHash: '0xtx2' }], next: null })
+
+      const result = await service.getTransactionHistory(TEST_ADDRESSES.safe1)
+
+      expect(result).toEqual([{ safeTxHash: '0xtx1' }, { safeTxHash: '0xtx2' }])
+      expect(mockApiKit.getAllTransactions).toHaveBeenNthCalledWith(1, TEST_ADDRESSES.safe1, {
+        limit: 100,
+        offset: 0,
+      })
+      expect(mockApiKit.getAllTransactions).toHaveBeenNthCalledWith(2, TEST_ADDRESSES.safe1, {
+        limit: 100,
+        offset: 100,
+      })
+    })
+
+    it('should stop on an empty page', async () => {
+      mockApiKit.getAllTransactions.mockResolvedValue({ results: [], next: 'page-2' })
+
+      const result = await service.getTransactionHistory(TEST_ADDRESSES.safe1)
+
+      expect(result).toEqual([])
+      expect(mockApiKit.getAllTransactions).toHaveBeenCalledTimes(1)
+    })
+
+    it('should throw SafeCLIError when API call fails', async () => {
+      mockApiKit.getAllTransactions.mockRejectedValue(new Error('API error'))
+
+      await expect(service.getTransactionHistory(TEST_ADDRESSES.safe1)).rejects.toThrow(
+        'Failed to fetch transaction history: API error'
+      )
+    })
+  })
   describe('getTransaction', () => {
     const safeTxHash = '0xtxhash123'
     const mockTransaction = {
@@ -634,4 +674,100 @@ describe('SafeTransactionServiceAPI', () => {
       await expect(service.getTransaction(safeTxHash)).rejects.toThrow('Unknown error')
     })
   })
+
+  describe('addMessage', () => {
+    it('should add message with first signature', async () => {
+      mockApiKit.addMessage.mockResolvedValue(undefined)
+
+      await service.addMessage(TEST_ADDRESSES.safe1, 'Hello Safe', '0xsig')
+
+      expect(mockApiKit.addMessage).toHaveBeenCalledWith(TEST_ADDRESSES.safe1, {
+        message: 'Hello Safe',
+        signature: '0xsig',
+      })
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockApiKit.addMessage.mockRejectedValue(new Error('Invalid signature'))
+
+      await expect(service.addMessage(TEST_ADDRESSES.safe1, 'Hello Safe', '0xsig')).rejects.toThrow(
+        'Failed to add message: Invalid signature'
+      )
+    })
+  })
+
+  describe('addMessageSignature', () => {
+    it('should add signature to message', async () => {
+      mockApiKit.addMessageSignature.mockResolvedValue(undefined)
+
+      await service.addMessageSignature('0xmsghash', '0xsig')
+
+      expect(mockApiKit.addMessageSignature).toHaveBeenCalledWith('0xmsghash', '0xsig')
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockApiKit.addMessageSignature.mockRejectedValue(new Error('Owner already signed'))
+
+      await expect(service.addMessageSignature('0xmsghash', '0xsig')).rejects.toThrow(SafeCLIError)
+      await expect(service.addMessageSignature('0xmsghash', '0xsig')).rejects.toThrow(
+        'Failed to add message signature: Owner already signed'
+      )
+    })
+  })
+
+  describe('getMessages', () => {
+    it('should return messages for Safe', async () => {
+      const messages = [{ messageHash: '0x1' }, { messageHash: '0x2' }]
+      mockApiKit.getMessages.mockResolvedValue({ results: messages })
+
+      const result = await service.getMessages(TEST_ADDRESSES.safe1)
+
+      expect(result).toEqual(messages)
+      expect(mockApiKit.getMessages).toHaveBeenCalledWith(TEST_ADDRESSES.safe1)
+    })
+
+    it('should return empty array when results is undefined', async () => {
+      mockApiKit.getMessages.mockResolvedValue({})
+
+      const result = await service.getMessages(TEST_ADDRESSES.safe1)
+
+      expect(result).toEqual([])
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockApiKit.getMessages.mockRejectedValue(new Error('API error'))
+
+      await expect(service.getMessages(TEST_ADDRESSES.safe1)).rejects.toThrow(
+        'Failed to fetch messages: API error'
+      )
+    })
+  })
+
+  describe('getMessage', () => {
+    it('should return message by hash', async () => {
+      const message = { messageHash: '0xmsghash', confirmations: [] }
+      mockApiKit.getMessage.mockResolvedValue(message)
+
+      const result = await service.getMessage('0xmsghash')
+
+      expect(result).toEqual(message)
+      expect(mockApiKit.getMessage).toHaveBeenCalledWith('0xmsghash')
+    })
+
+    it('should return null for 404 error', async () => {
+      mockApiKit.getMessage.mockRejectedValue(new Error('404 Not Found'))
+
+      const result = await service.getMessage('0xmsghash')
+
+      expect(result).toBeNull()
+    })
+
+    it('should throw SafeCLIError for other errors', async () => {
+      mockApiKit.getMessage.mockRejectedValue(new Error('Network timeout'))
+
+      await expect(service.getMessage('0xmsghash')).rejects.toThrow(
+        'Failed to fetch message: Network timeout'
+      )
+    })
+  })
 })
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { encodeFunctionData, encodePacked, parseAbi, size, type Address, type Hex } from 'viem'
+import { CalldataDecoder, decodeMultiSendTransactions } from '../../../services/calldata-decoder.js'
+import { TEST_ADDRESSES, TEST_CHAINS } from '../../fixtures/index.js'
+
+const { mockFetchContractInfo, mockReadContract } = vi.hoisted(() => ({
+  mockFetchContractInfo: vi.fn(),
+  mockReadContract: vi.fn(),
+}))
+
+vi.mock('../../../services/abi-service.js', () => ({
+  ABIService: vi.fn().mockImplementation(() => ({
+    fetchContractInfo: mockFetchContractInfo,
+  })),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ readContract: mockReadContract })),
+  }
+})
+
+const erc20Abi = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+])
+const safeAbi = parseAbi(['function addOwnerWithThreshold(address owner, uint256 _threshold)'])
+const multiSendAbi = parseAbi(['function multiSend(bytes transactions)'])
+
+function packMultiSend(calls: Array<{ operation: number; to: Address; value: bigint; data: Hex }>) {
+  return ('0x' +
+    calls
+      .map((call) =>
+        encodePacked(
+          ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+          [call.operation, call.to, call.value, BigInt(size(call.data)), call.data]
+        ).slice(2)
+      )
+      .join('')) as Hex
+}
+
+describe('calldata-decoder', () => {
+  describe('decodeMultiSendTransactions', () => {
+    it('should decode packed transactions', () => {
+      const transferData = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [TEST_ADDRESSES.recipient1, 5n],
+      })
+      const packed = packMultiSend([
+        { operation: 0, to: TEST_ADDRESSES.recipient1, value: 1000n, data: '0x' },
+        { operation: 1, to: TEST_ADDRESSES.erc20Token, value: 0n, data: transferData },
+      ])
+
+      const result = decodeMultiSendTransactions(packed)
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toEqual({
+        operation: 0,
+        to: TEST_ADDRESSES.recipient1,
+        value: '1000',
+        data: '0x',
+      })
+      expect(result[1].operation).toBe(1)
+      expect(result[1].data).toBe(transferData)
+    })
+
+    it('should return empty array for empty payload', () => {
+      expect(decodeMultiSendTransactions('0x')).toEqual([])
+    })
+
+    it('should throw on truncated payload', () => {
+      const packed = packMultiSend([
+        { operation: 0, to: TEST_ADDRESSES.recipient1, value: 0n, data: '0xabcdef' },
+      ])
+      expect(() => decodeMultiSendTransactions(packed.slice(0, -2) as Hex)).toThrow(
+        'Malformed MultiSend data'
+      )
+    })
+  })
+
+  describe('CalldataDecoder', () => {
+    let decoder: CalldataDecoder
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      mockFetchContractInfo.mockReset()
+      mockReadContract.mockReset()
+      decoder = new CalldataDecoder(TEST_CHAINS.ethereum)
+    })
+
+    it('should return null for empty calldata', async () => {
+      expect(await decoder.decode(TEST_ADDRESSES.recipient1, '0x')).toBeNull()
+    })
+
+    it('should decode Safe owner management with built-in ABI', async () => {
+      const data = encodeFunctionData({
+        abi: safeAbi,
+        functionName: 'addOwnerWithThreshold',
+        args: [TEST_ADDRESSES.owner2, 2n],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.safe1, data)
+
+      expect(result).toMatchObject({
+        functionName: 'addOwnerWithThreshold',
+        signature: 'addOwnerWithThreshold(address,uint256)',
+        source: 'builtin',
+        args: [
+          { name: 'owner', type: 'address', value: TEST_ADDRESSES.owner2 },
+          { name: '_threshold', type: 'uint256', value: '2' },
+        ],
+      })
+      expect(mockFetchContractInfo).not.toHaveBeenCalled()
+    })
+
+    it('should format ERC-20 amounts with token decimals', async () => {
+      mockReadContract.mockImplementation(async ({ functionName }) =>
+        functionName === 'decimals' ? 6 : 'USDC'
+      )
+      const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [TEST_ADDRESSES.recipient1, 1500000n],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.erc20Token, data)
+
+      expect(result?.args[1]).toEqual({
+        name: 'amount',
+        type: 'uint256',
+        value: '1500000',
+        display: '1.5 USDC',
+      })
+    })
+
+    it('should keep raw amount when token info is unavailable', async () => {
+      mockReadContract.mockRejectedValue(new Error('execution reverted'))
+      const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [TEST_ADDRESSES.recipient1, 42n],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.erc721Token, data)
+
+      expect(result?.args[1].display).toBeUndefined()
+      expect(result?.args[1].value).toBe('42')
+    })
+
+    it('should decode with fetched ABI for unknown functions', async () => {
+      const customAbi = parseAbi(['function deposit(uint256 poolId, bool stake)'])
+      mockFetchContractInfo.mockResolvedValue({ abi: customAbi, name: 'Vault' })
+      const data = encodeFunctionData({
+        abi: customAbi,
+        functionName: 'deposit',
+        args: [7n, true],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.safe2, data)
+
+      expect(mockFetchContractInfo).toHaveBeenCalledWith(TEST_ADDRESSES.safe2)
+      expect(result).toMatchObject({
+        functionName: 'deposit',
+        source: 'abi',
+        contractName: 'Vault',
+        args: [
+          { name: 'poolId', value: '7' },
+          { name: 'stake', value: 'true' },
+        ],
+      })
+    })
+
+    it('should fall back to implementation ABI for proxies', async () => {
+      const implAbi = parseAbi(['function harvest(address to)'])
+      mockFetchContractInfo
+        .mockResolvedValueOnce({
+          abi: [],
+          name: 'Proxy',
+          implementation: TEST_ADDRESSES.implementationContract,
+        })
+        .mockResolvedValueOnce({ abi: implAbi, name: 'Strategy' })
+      const data = encodeFunctionData({
+        abi: implAbi,
+        functionName: 'harvest',
+        args: [TEST_ADDRESSES.recipient1],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.proxyContract, data)
+
+      expect(mockFetchContractInfo).toHaveBeenLastCalledWith(TEST_ADDRESSES.implementationContract)
+      expect(result?.functionName).toBe('harvest')
+      expect(result?.contractName).toBe('Strategy')
+    })
+
+    it('should return null when ABI cannot be fetched', async () => {
+      mockFetchContractInfo.mockRejectedValue(new Error('Not verified'))
+
+      const result = await decoder.decode(TEST_ADDRESSES.safe2, '0x12345678')
+
+      expect(result).toBeNull()
+    })
+
+    it('should decode MultiSend sub-calls', async () => {
+      mockReadContract.mockImplementation(async ({ functionName }) =>
+        functionName === 'decimals' ? 18 : 'DAI'
+      )
+      const transferData = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [TEST_ADDRESSES.recipient2, 2000000000000000000n],
+      })
+      const data = encodeFunctionData({
+        abi: multiSendAbi,
+        functionName: 'multiSend',
+        args: [
+          packMultiSend([
+            { operation: 0, to: TEST_ADDRESSES.recipient1, value: 1n, data: '0x' },
+            { operation: 0, to: TEST_ADDRESSES.erc20Token, value: 0n, data: transferData },
+          ]),
+        ],
+      })
+
+      const result = await decoder.decode(TEST_ADDRESSES.safe3, data)
+
+      expect(result?.functionName).toBe('multiSend')
+      expect(result?.subCalls).toHaveLength(2)
+      expect(result?.subCalls?.[0].decoded).toBeNull()
+      expect(result?.subCalls?.[1].decoded).toMatchObject({
+        functionName: 'transfer',
+        args: [{ name: 'to' }, { name: 'amount', display: '2 DAI' }],
+      })
+    })
+  })
+})
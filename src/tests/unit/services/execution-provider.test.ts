@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  decodeFunctionData,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  zeroAddress,
+  type TransactionSerialized,
+} from 'viem'
+import { privateKeyToAccount, sign } from 'viem/accounts'
+import {
+  LedgerExecutionProvider,
+  RelayExecutionProvider,
+  encodeExecTransaction,
+} from '../../../services/execution-provider.js'
+import type { LedgerService } from '../../../services/ledger-service.js'
+import { SAFE_EXECUTION_ABI } from '../../../constants/abis.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import type { TransactionMetadata } from '../../../types/transaction.js'
+import { TEST_ADDRESSES, TEST_CHAINS, TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
+
+// Mock dependencies
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(),
+    http: vi.fn((url: string) => url),
+  }
+})
+
+// Import mocked modules for assertions
+import { createPublicClient } from 'viem'
+
+describe('Execution providers', () => {
+  const testChain = TEST_CHAINS.ethereum
+  const metadata: TransactionMetadata = {
+    to: TEST_ADDRESSES.recipient1,
+    value: '1000',
+    data: '0x',
+    operation: 0,
+    nonce: 3,
+  }
+  const signatures = [
+    { signer: TEST_ADDRESSES.owner2, signature: `0x${'22'.repeat(65)}` },
+    { signer: TEST_ADDRESSES.owner1, signature: `0x${'11'.repeat(65)}` },
+  ]
+
+  describe('encodeExecTransaction', () => {
+    it('should encode the SafeTx fields with sorted, packed signatures', () => {
+      const { functionName, args } = decodeFunctionData({
+        abi: SAFE_EXECUTION_ABI,
+        data: encodeExecTransaction(metadata, signatures),
+      })
+
+      const [first, second] = [...signatures].sort((a, b) =>
+        a.signer.toLowerCase() < b.signer.toLowerCase() ? -1 : 1
+      )
+      expect(functionName).toBe('execTransaction')
+      expect(args).toEqual([
+        metadata.to,
+        1000n,
+        '0x',
+        0,
+        0n,
+        0n,
+        0n,
+        zeroAddress,
+        zeroAddress,
+        first.signature + second.signature.slice(2),
+      ])
+    })
+  })
+
+  describe('LedgerExecutionProvider', () => {
+    const account = privateKeyToAccount(TEST_PRIVATE_KEYS.owner1 as `0x${string}`)
+    const mockPublicClient = {
+      getTransactionCount: vi.fn(),
+      estimateFeesPerGas: vi.fn(),
+      estimateGas: vi.fn(),
+      getBalance: vi.fn(),
+      sendRawTransaction: vi.fn(),
+      waitForTransactionReceipt: vi.fn(),
+    }
+    // Signs like the device would, with the test key
+    const ledgerService = {
+      signTransaction: vi.fn(async (_path: string, serialized: string) => {
+        const { r, s, yParity } = await sign({
+          hash: keccak256(serialized as `0x${string}`),
+          privateKey: TEST_PRIVATE_KEYS.owner1 as `0x${string}`,
+        })
+        return { r, s, v: yParity! }
+      }),
+    }
+
+    let provider: LedgerExecutionProvider
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      vi.mocked(createPublicClient).mockReturnValue(mockPublicClient as any)
+      mockPublicClient.getTransactionCount.mockResolvedValue(4)
+      mockPublicClient.estimateFeesPerGas.mockResolvedValue({
+        maxFeePerGas: 30_000_000_000n,
+        maxPriorityFeePerGas: 1_000_000_000n,
+      })
+      mockPublicClient.estimateGas.mockResolvedValue(120_000n)
+      mockPublicClient.getBalance.mockResolvedValue(10n ** 18n)
+      mockPublicClient.sendRawTransaction.mockResolvedValue(`0x${'ab'.repeat(32)}`)
+      mockPublicClient.waitForTransactionReceipt.mockResolvedValue({
+        status: 'success',
+        transactionHash: `0x${'ab'.repeat(32)}`,
+      })
+      provider = new LedgerExecutionProvider(
+        testChain,
+        ledgerService as unknown as LedgerService,
+        "44'/60'/0'/0/0",
+        account.address
+      )
+    })
+
+    it('should broadcast an EIP-1559 execTransaction signed by the device', async () => {
+      const result = await provider.execute(TEST_ADDRESSES.safe1, metadata, signatures)
+
+      expect(result).toEqual({ txHash: `0x${'ab'.repeat(32)}` })
+      expect(ledgerService.signTransaction).toHaveBeenCalledWith(
+        "44'/60'/0'/0/0",
+        expect.stringMatching(/^0x02/)
+      )
+
+      const { serializedTransaction } = mockPublicClient.sendRawTransaction.mock.calls[0][0]
+      const tx = parseTransaction(serializedTransaction)
+      expect(tx).toMatchObject({
+        type: 'eip1559',
+        chainId: 1,
+        nonce: 4,
+        to: TEST_ADDRESSES.safe1,
+        gas: 120_000n,
+        maxFeePerGas: 30_000_000_000n,
+        maxPriorityFeePerGas: 1_000_000_000n,
+        data: encodeExecTransaction(metadata, signatures),
+      })
+      expect(
+        await recoverTransactionAddress({
+          serializedTransaction: serializedTransaction as TransactionSerialized,
+        })
+      ).toBe(account.address)
+    })
+
+    it('should prepare the transaction with its maximum gas cost', async () => {
+      const prepared = await provider.prepare(TEST_ADDRESSES.safe1, metadata, signatures)
+
+      expect(prepared.maxCost).toBe(120_000n * 30_000_000_000n)
+      expect(prepared.balance).toBe(10n ** 18n)
+      expect(prepared.transaction.to).toBe(TEST_ADDRESSES.safe1)
+      expect(mockPublicClient.getTransactionCount).toHaveBeenCalledWith({
+        address: account.address,
+        blockTag: 'pending',
+      })
+      expect(ledgerService.signTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should not ask the device to sign without enough balance for gas', async () => {
+      mockPublicClient.getBalance.mockResolvedValue(1000n)
+      const prepared = await provider.prepare(TEST_ADDRESSES.safe1, metadata, signatures)
+
+      await expect(provider.send(prepared)).rejects.toThrow('Insufficient ETH for gas')
+      expect(ledgerService.signTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should throw SafeCLIError when the transaction reverts', async () => {
+      mockPublicClient.waitForTransactionReceipt.mockResolvedValue({ status: 'reverted' })
+
+      await expect(provider.execute(TEST_ADDRESSES.safe1, metadata, signatures)).rejects.toThrow(
+        'Failed to execute transaction with Ledger'
+      )
+    })
+
+    it('should throw SafeCLIError when the device rejects', async () => {
+      ledgerService.signTransaction.mockRejectedValueOnce(new Error('Denied by the user'))
+
+      await expect(provider.execute(TEST_ADDRESSES.safe1, metadata, signatures)).rejects.toThrow(
+        SafeCLIError
+      )
+      expect(mockPublicClient.sendRawTransaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('RelayExecutionProvider', () => {
+    const mockFetch = vi.fn()
+    const relayUrl = 'https://relay.example.com/'
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+      vi.stubGlobal('fetch', mockFetch)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    function respond(status: number, body: unknown) {
+      mockFetch.mockResolvedValueOnce({
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body,
+      })
+    }
+
+    it('should submit a sponsored call and return the task ID', async () => {
+      respond(201, { taskId: 'task-1' })
+      const provider = new RelayExecutionProvider(testChain, relayUrl, 'sponsor-key')
+
+      const result = await provider.execute(TEST_ADDRESSES.safe1, metadata, signatures)
+
+      expect(result).toEqual({ taskId: 'task-1' })
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://relay.example.com/relays/v2/sponsored-call')
+      expect(JSON.parse(init.body)).toEqual({
+        chainId: 1,
+        target: TEST_ADDRESSES.safe1,
+        data: encodeExecTransaction(metadata, signatures),
+        sponsorApiKey: 'sponsor-key',
+      })
+    })
+
+    it('should surface relayer errors', async () => {
+      respond(400, { message: 'Invalid sponsor key' })
+      const provider = new RelayExecutionProvider(testChain, relayUrl)
+
+      await expect(provider.execute(TEST_ADDRESSES.safe1, metadata, signatures)).rejects.toThrow(
+        'Failed to relay transaction: Invalid sponsor key'
+      )
+    })
+
+    it('should map task states', async () => {
+      const provider = new RelayExecutionProvider(testChain, relayUrl)
+
+      respond(200, { task: { taskState: 'ExecPending' } })
+      expect(await provider.getTaskStatus('task-1')).toMatchObject({ state: 'pending' })
+
+      respond(200, { task: { taskState: 'ExecSuccess', transactionHash: '0xhash' } })
+      expect(await provider.getTaskStatus('task-1')).toEqual({
+        taskId: 'task-1',
+        state: 'success',
+        taskState: 'ExecSuccess',
+        txHash: '0xhash',
+        message: undefined,
+      })
+
+      respond(200, { task: { taskState: 'ExecReverted', lastCheckMessage: 'GS026' } })
+      expect(await provider.getTaskStatus('task-1')).toMatchObject({
+        state: 'failed',
+        message: 'GS026',
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('https://relay.example.com/tasks/status/task-1')
+    })
+
+    it('should keep a successful task pending until it has a transaction hash', async () => {
+      respond(200, { task: { taskState: 'ExecSuccess' } })
+      const provider = new RelayExecutionProvider(testChain, relayUrl)
+
+      expect(await provider.getTaskStatus('task-1')).toMatchObject({
+        state: 'pending',
+        taskState: 'ExecSuccess',
+        txHash: undefined,
+      })
+    })
+
+    it('should poll until the task finishes', async () => {
+      respond(200, { task: { taskState: 'CheckPending' } })
+      respond(200, { task: { taskState: 'WaitingForConfirmation' } })
+      respond(200, { task: { taskState: 'ExecSuccess', transactionHash: '0xhash' } })
+      const provider = new RelayExecutionProvider(testChain, relayUrl)
+
+      const status = await provider.waitForTask('task-1', 1000, 1)
+
+      expect(status.state).toBe('success')
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should return the pending status after the timeout', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ task: { taskState: 'ExecPending' } }),
+      })
+      const provider = new RelayExecutionProvider(testChain, relayUrl)
+
+      const status = await provider.waitForTask('task-1', 0, 1)
+
+      expect(status.state).toBe('pending')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+})
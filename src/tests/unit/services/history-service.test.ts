@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { encodeFunctionData, zeroAddress } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { HistoryService } from '../../../services/history-service.js'
+import { SAFE_EXECUTION_ABI } from '../../../constants/abis.js'
+import { getSafeTxHashes, getSafeTxTypedData } from '../../../utils/safe-tx-hash.js'
+import type { TransactionMetadata } from '../../../types/transaction.js'
+import { TEST_ADDRESSES, TEST_CHAINS, TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
+
+// Mock dependencies
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(),
+    http: vi.fn((url: string) => url),
+  }
+})
+
+// Import mocked modules for assertions
+import { createPublicClient } from 'viem'
+
+describe('HistoryService', () => {
+  const testChain = TEST_CHAINS.ethereum
+  const owner = privateKeyToAccount(TEST_PRIVATE_KEYS.owner1 as `0x${string}`)
+  const txHash = `0x${'cd'.repeat(32)}` as `0x${string}`
+  const metadata: TransactionMetadata = {
+    to: TEST_ADDRESSES.recipient1,
+    value: '1000',
+    data: '0x',
+    operation: 0,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce: 3,
+  }
+  const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+  let service: HistoryService
+
+  const mockPublicClient = {
+    getBlock: vi.fn(),
+    getBlockNumber: vi.fn(),
+    getLogs: vi.fn(),
+    getTransaction: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+  }
+
+  async function execTransactionInput() {
+    const signature = await owner.signTypedData(
+      getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+    )
+    return encodeFunctionData({
+      abi: SAFE_EXECUTION_ABI,
+      functionName: 'execTransaction',
+      args: [metadata.to, 1000n, '0x', 0, 0n, 0n, 0n, zeroAddress, zeroAddress, signature],
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createPublicClient).mockReturnValue(mockPublicClient as any)
+    mockPublicClient.getBlock.mockResolvedValue({ timestamp: 1_700_000_000n })
+    mockPublicClient.getTransactionReceipt.mockResolvedValue({
+      from: TEST_ADDRESSES.owner2.toLowerCase(),
+      gasUsed: 90_000n,
+    })
+    service = new HistoryService(testChain)
+  })
+
+  describe('getExecutions', () => {
+    it('should decode a direct execTransaction call', async () => {
+      mockPublicClient.getLogs.mockResolvedValue([
+        {
+          eventName: 'ExecutionSuccess',
+          args: { txHash: safeTxHash },
+          blockNumber: 150n,
+          transactionHash: txHash,
+        },
+      ])
+      mockPublicClient.getTransaction.mockResolvedValue({
+        to: TEST_ADDRESSES.safe1,
+        input: await execTransactionInput(),
+      })
+
+      const result = await service.getExecutions(TEST_ADDRESSES.safe1, {
+        fromBlock: 100n,
+        toBlock: 200n,
+        safeVersion: '1.4.1',
+        currentNonce: 5,
+      })
+
+      expect(result).toEqual([
+        {
+          safeTxHash,
+          success: true,
+          txHash,
+          blockNumber: 150n,
+          timestamp: 1_700_000_000,
+          executor: TEST_ADDRESSES.owner2,
+          gasUsed: 90_000n,
+          nonce: 3,
+          metadata,
+          signers: [owner.address],
+        },
+      ])
+      expect(mockPublicClient.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ address: TEST_ADDRESSES.safe1, fromBlock: 100n, toBlock: 200n })
+      )
+    })
+
+    it('should keep executions relayed through another contract without call details', async () => {
+      mockPublicClient.getLogs.mockResolvedValue([
+        {
+          eventName: 'ExecutionFailure',
+          args: { txHash: safeTxHash },
+          blockNumber: 150n,
+          transactionHash: txHash,
+        },
+      ])
+      mockPublicClient.getTransaction.mockResolvedValue({
+        to: TEST_ADDRESSES.owner3,
+        input: '0x12345678',
+      })
+
+      const [execution] = await service.getExecutions(TEST_ADDRESSES.safe1, {
+        fromBlock: 100n,
+        toBlock: 200n,
+        safeVersion: '1.4.1',
+        currentNonce: 5,
+      })
+
+      expect(execution.success).toBe(false)
+      expect(execution.nonce).toBeUndefined()
+      expect(execution.metadata).toBeUndefined()
+      expect(execution.signers).toEqual([])
+    })
+
+    it('should scan up to the latest block in chunks', async () => {
+      mockPublicClient.getBlockNumber.mockResolvedValue(15_000n)
+      mockPublicClient.getLogs.mockResolvedValue([])
+
+      const result = await service.getExecutions(TEST_ADDRESSES.safe1, {
+        fromBlock: 1n,
+        safeVersion: '1.4.1',
+        currentNonce: 0,
+      })
+
+      expect(result).toEqual([])
+      expect(mockPublicClient.getLogs).toHaveBeenCalledTimes(2)
+      expect(mockPublicClient.getLogs).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fromBlock: 10_001n, toBlock: 15_000n })
+      )
+    })
+
+    it('should reject an inverted range', async () => {
+      await expect(
+        service.getExecutions(TEST_ADDRESSES.safe1, {
+          fromBlock: 300n,
+          toBlock: 200n,
+          safeVersion: '1.4.1',
+          currentNonce: 0,
+        })
+      ).rejects.toThrow('Failed to scan Safe executions: From block 300 is after to block 200')
+    })
+  })
+})
@@ -127,6 +127,60 @@ describe('LedgerService', () => {
   })
 })
 
+describe('LedgerService signTransaction', () => {
+  const path = "44'/60'/0'/0/0"
+  let service: LedgerService
+  let mockEth: { signTransaction: Mock }
+
+  beforeEach(async () => {
+    const TransportNodeHid = (await import('@ledgerhq/hw-transport-node-hid')).default
+    const Eth = (await import('@ledgerhq/hw-app-eth')).default
+    ;(TransportNodeHid.create as Mock).mockResolvedValue({ close: vi.fn() })
+    mockEth = { signTransaction: vi.fn() }
+    ;(Eth as unknown as Mock).mockImplementation(() => mockEth)
+
+    service = new LedgerService()
+  })
+
+  it('should throw if not connected', async () => {
+    await expect(service.signTransaction(path, '0x02c0')).rejects.toThrow('Not connected to Ledger')
+  })
+
+  it('should sign the raw transaction without the 0x prefix', async () => {
+    mockEth.signTransaction.mockResolvedValue({ r: 'ab'.repeat(32), s: 'cd'.repeat(32), v: '01' })
+    await service.connect()
+
+    const signature = await service.signTransaction(path, '0x02f0aa')
+
+    expect(mockEth.signTransaction).toHaveBeenCalledWith(path, '02f0aa', null)
+    expect(signature).toEqual({
+      r: `0x${'ab'.repeat(32)}`,
+      s: `0x${'cd'.repeat(32)}`,
+      v: 1,
+    })
+  })
+
+  it('should pad short r and s values', async () => {
+    mockEth.signTransaction.mockResolvedValue({ r: 'ab'.repeat(31), s: '01', v: '00' })
+    await service.connect()
+
+    const signature = await service.signTransaction(path, '0x02f0aa')
+
+    expect(signature.r).toBe(`0x00${'ab'.repeat(31)}`)
+    expect(signature.s).toBe(`0x${'0'.repeat(62)}01`)
+    expect(signature.v).toBe(0)
+  })
+
+  it('should wrap device errors', async () => {
+    mockEth.signTransaction.mockRejectedValue(new Error('Condition of use not satisfied'))
+    await service.connect()
+
+    await expect(service.signTransaction(path, '0x02f0aa')).rejects.toThrow(
+      'Failed to sign transaction with Ledger: Condition of use not satisfied'
+    )
+  })
+})
+
 describe('DERIVATION_PATHS', () => {
   it('should generate Ledger Live path correctly', () => {
     expect(DERIVATION_PATHS.LEDGER_LIVE(0)).toBe("44'/60'/0'/0/0")
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MessageService } from '../../../services/message-service.js'
+import { TEST_ADDRESSES, TEST_PRIVATE_KEYS, TEST_CHAINS } from '../../fixtures/index.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { getSafeMessageHashes } from '../../../utils/safe-message-hash.js'
+import { recoverSafeTxSigner } from '../../../utils/safe-tx-hash.js'
+import type { LedgerService } from '../../../services/ledger-service.js'
+
+describe('MessageService', () => {
+  const testChain = TEST_CHAINS.ethereum
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getMessageHash', () => {
+    it('should return the SafeMessage hash', () => {
+      const service = new MessageService(testChain)
+
+      const hash = service.getMessageHash(TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+
+      expect(hash).toBe(
+        getSafeMessageHashes(testChain.chainId, TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+          .messageHash
+      )
+    })
+
+    it('should throw SafeCLIError on invalid Safe version', () => {
+      const service = new MessageService(testChain)
+
+      expect(() => service.getMessageHash(TEST_ADDRESSES.safe1, 'Hello Safe', 'latest')).toThrow(
+        SafeCLIError
+      )
+      expect(() => service.getMessageHash(TEST_ADDRESSES.safe1, 'Hello Safe', 'latest')).toThrow(
+        'Failed to hash message: Invalid Safe version: latest'
+      )
+    })
+  })
+
+  describe('signMessage', () => {
+    it('should produce a signature recoverable to the owner', async () => {
+      const service = new MessageService(testChain, TEST_PRIVATE_KEYS.owner1)
+
+      const signature = await service.signMessage(TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+
+      const { messageHash } = getSafeMessageHashes(
+        testChain.chainId,
+        TEST_ADDRESSES.safe1,
+        'Hello Safe',
+        '1.4.1'
+      )
+      expect(await recoverSafeTxSigner(messageHash, signature as `0x${string}`)).toBe(
+        TEST_ADDRESSES.owner1
+      )
+    })
+
+    it('should accept private key without 0x prefix', async () => {
+      const service = new MessageService(testChain, TEST_PRIVATE_KEYS.noPrefix)
+
+      const signature = await service.signMessage(TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+
+      expect(signature).toMatch(/^0x[0-9a-f]{130}$/)
+    })
+
+    it('should throw without private key', async () => {
+      const service = new MessageService(testChain)
+
+      await expect(
+        service.signMessage(TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+      ).rejects.toThrow('Private key required to sign message')
+    })
+  })
+
+  describe('signMessageWithLedger', () => {
+    it('should sign the struct hash with the Safe domain separator', async () => {
+      const service = new MessageService(testChain)
+      const ledger = { signHash: vi.fn().mockResolvedValue('0xledger') }
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const signature = await service.signMessageWithLedger(
+        TEST_ADDRESSES.safe1,
+        'Hello Safe',
+        ledger as unknown as LedgerService,
+        "44'/60'/0'/0/0",
+        '1.4.1'
+      )
+
+      const { domainSeparator, structHash } = getSafeMessageHashes(
+        testChain.chainId,
+        TEST_ADDRESSES.safe1,
+        'Hello Safe',
+        '1.4.1'
+      )
+      expect(signature).toBe('0xledger')
+      expect(ledger.signHash).toHaveBeenCalledWith("44'/60'/0'/0/0", structHash, domainSeparator)
+    })
+
+    it('should wrap Ledger errors', async () => {
+      const service = new MessageService(testChain)
+      const ledger = { signHash: vi.fn().mockRejectedValue(new Error('Rejected by user')) }
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      await expect(
+        service.signMessageWithLedger(
+          TEST_ADDRESSES.safe1,
+          'Hello Safe',
+          ledger as unknown as LedgerService,
+          "44'/60'/0'/0/0",
+          '1.4.1'
+        )
+      ).rejects.toThrow('Failed to sign message with Ledger: Rejected by user')
+    })
+  })
+})
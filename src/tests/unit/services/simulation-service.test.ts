@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  BaseError,
+  concat,
+  encodeAbiParameters,
+  encodeErrorResult,
+  parseAbi,
+  toHex,
+  type Hex,
+} from 'viem'
+import {
+  SimulationService,
+  decodeRevertReason,
+  decodeSimulationResponse,
+} from '../../../services/simulation-service.js'
+import { TEST_ADDRESSES, TEST_CHAINS } from '../../fixtures/index.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+
+const { mockCall, mockReadContract } = vi.hoisted(() => ({
+  mockCall: vi.fn(),
+  mockReadContract: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ call: mockCall, readContract: mockReadContract })),
+  }
+})
+
+const errorAbi = parseAbi(['error Error(string)', 'error Panic(uint256)'])
+
+/**
+ * Build the revert payload produced by simulateAndRevert
+ */
+function buildResponse(estimate: bigint, success: boolean, returnData: Hex): Hex {
+  const payload = encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'bool' }, { type: 'bytes' }],
+    [estimate, success, returnData]
+  )
+  return concat([
+    toHex(1n, { size: 32 }),
+    toHex(BigInt((payload.length - 2) / 2), { size: 32 }),
+    payload,
+  ])
+}
+
+class RevertError extends BaseError {
+  data: Hex
+  constructor(data: Hex) {
+    super('execution reverted')
+    this.data = data
+  }
+}
+
+describe('SimulationService', () => {
+  describe('decodeRevertReason', () => {
+    it('should decode Error(string)', () => {
+      const data = encodeErrorResult({ abi: errorAbi, errorName: 'Error', args: ['GS013'] })
+      expect(decodeRevertReason(data)).toBe('GS013')
+    })
+
+    it('should decode Panic(uint256)', () => {
+      const data = encodeErrorResult({ abi: errorAbi, errorName: 'Panic', args: [0x11n] })
+      expect(decodeRevertReason(data)).toBe('Panic(0x11)')
+    })
+
+    it('should return custom error data', () => {
+      expect(decodeRevertReason('0xdeadbeef')).toBe('Custom error 0xdeadbeef')
+    })
+
+    it('should return undefined for empty data', () => {
+      expect(decodeRevertReason('0x')).toBeUndefined()
+    })
+  })
+
+  describe('decodeSimulationResponse', () => {
+    it('should decode successful simulation', () => {
+      const result = decodeSimulationResponse(buildResponse(21000n, true, '0x'))
+
+      expect(result).toEqual({ success: true, safeTxGas: '21000', returnData: '0x' })
+    })
+
+    it('should decode reverted simulation with reason', () => {
+      const revertData = encodeErrorResult({
+        abi: errorAbi,
+        errorName: 'Error',
+        args: ['ERC20: transfer amount exceeds balance'],
+      })
+
+      const result = decodeSimulationResponse(buildResponse(30000n, false, revertData))
+
+      expect(result.success).toBe(false)
+      expect(result.safeTxGas).toBe('30000')
+      expect(result.revertReason).toBe('ERC20: transfer amount exceeds balance')
+    })
+
+    it('should report revert without reason', () => {
+      const result = decodeSimulationResponse(buildResponse(100n, false, '0x'))
+
+      expect(result.revertReason).toBe('Reverted without reason')
+    })
+
+    it('should throw on short response', () => {
+      expect(() => decodeSimulationResponse('0x1234')).toThrow('Unexpected simulation response')
+    })
+  })
+
+  describe('simulateTransaction', () => {
+    const testChain = TEST_CHAINS.ethereum
+    const metadata = {
+      to: TEST_ADDRESSES.recipient1,
+      value: '1000',
+      data: '0x' as const,
+      operation: 0 as const,
+    }
+    let service: SimulationService
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      mockReadContract.mockResolvedValue('1.4.1')
+      service = new SimulationService(testChain)
+    })
+
+    it('should decode result from revert data', async () => {
+      mockCall.mockRejectedValue(new RevertError(buildResponse(25000n, true, '0x')))
+
+      const result = await service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)
+
+      expect(result.success).toBe(true)
+      expect(result.safeTxGas).toBe('25000')
+      expect(mockCall).toHaveBeenCalledWith(expect.objectContaining({ to: TEST_ADDRESSES.safe1 }))
+    })
+
+    it('should use SimulateTxAccessor matching the Safe version', async () => {
+      mockCall.mockRejectedValue(new RevertError(buildResponse(1n, true, '0x')))
+
+      await service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)
+
+      const { data } = mockCall.mock.calls[0][0]
+      expect(data.toLowerCase()).toContain('3d4ba2e0884aa488718476ca2fb8efc291a46199')
+    })
+
+    it('should prefer custom SimulateTxAccessor address', async () => {
+      const custom = TEST_ADDRESSES.safe3
+      const svc = new SimulationService({
+        ...testChain,
+        contractNetworks: { simulateTxAccessorAddress: custom },
+      })
+      mockCall.mockRejectedValue(new RevertError(buildResponse(1n, true, '0x')))
+
+      await svc.simulateTransaction(TEST_ADDRESSES.safe1, metadata)
+
+      expect(mockReadContract).not.toHaveBeenCalled()
+      expect(mockCall.mock.calls[0][0].data.toLowerCase()).toContain(custom.slice(2).toLowerCase())
+    })
+
+    it('should accept result returned without revert', async () => {
+      mockCall.mockResolvedValue({ data: buildResponse(5n, true, '0x') })
+
+      const result = await service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)
+
+      expect(result.safeTxGas).toBe('5')
+    })
+
+    it('should throw for unsupported Safe versions', async () => {
+      mockReadContract.mockResolvedValue('1.1.1')
+
+      await expect(service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)).rejects.toThrow(
+        'Simulation is not supported for Safe version 1.1.1'
+      )
+    })
+
+    it('should throw SafeCLIError when RPC fails without revert data', async () => {
+      mockCall.mockRejectedValue(new Error('connection refused'))
+
+      await expect(service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)).rejects.toThrow(
+        SafeCLIError
+      )
+      await expect(service.simulateTransaction(TEST_ADDRESSES.safe1, metadata)).rejects.toThrow(
+        'Failed to simulate transaction: connection refused'
+      )
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { zeroAddress } from 'viem'
+import { TokenService } from '../../../services/token-service.js'
+import { TEST_ADDRESSES, TEST_CHAINS } from '../../fixtures/index.js'
+
+// Mock dependencies
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(),
+    http: vi.fn((url: string) => url),
+  }
+})
+
+// Import mocked modules for assertions
+import { createPublicClient } from 'viem'
+
+describe('TokenService', () => {
+  const testChain = TEST_CHAINS.ethereum
+  let service: TokenService
+
+  const mockPublicClient = {
+    getBalance: vi.fn(),
+    getBlockNumber: vi.fn(),
+    getLogs: vi.fn(),
+    readContract: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createPublicClient).mockReturnValue(mockPublicClient as any)
+    service = new TokenService(testChain)
+  })
+
+  describe('getTokenInfo', () => {
+    it('should return the chain currency for the zero address', async () => {
+      const result = await service.getTokenInfo(zeroAddress)
+
+      expect(result).toEqual({ symbol: 'ETH', decimals: 18 })
+      expect(mockPublicClient.readContract).not.toHaveBeenCalled()
+    })
+
+    it('should read ERC-20 symbol and decimals', async () => {
+      mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === 'decimals' ? 6 : 'USDC'
+      )
+
+      const result = await service.getTokenInfo(TEST_ADDRESSES.erc20Token)
+
+      expect(result).toEqual({ symbol: 'USDC', decimals: 6 })
+    })
+
+    it('should wrap errors for non-token contracts', async () => {
+      mockPublicClient.readContract.mockRejectedValue(new Error('execution reverted'))
+
+      await expect(service.getTokenInfo(TEST_ADDRESSES.safe1)).rejects.toThrow(
+        `Failed to read token ${TEST_ADDRESSES.safe1}: execution reverted`
+      )
+    })
+  })
+
+  describe('getBalance', () => {
+    it('should read the native balance for the zero address', async () => {
+      mockPublicClient.getBalance.mockResolvedValue(7n)
+
+      const result = await service.getBalance(zeroAddress, TEST_ADDRESSES.safe1)
+
+      expect(result).toBe(7n)
+      expect(mockPublicClient.getBalance).toHaveBeenCalledWith({ address: TEST_ADDRESSES.safe1 })
+    })
+
+    it('should call balanceOf for ERC-20 tokens', async () => {
+      mockPublicClient.readContract.mockResolvedValue(1000n)
+
+      const result = await service.getBalance(TEST_ADDRESSES.erc20Token, TEST_ADDRESSES.safe1)
+
+      expect(result).toBe(1000n)
+      expect(mockPublicClient.readContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: TEST_ADDRESSES.erc20Token,
+          functionName: 'balanceOf',
+          args: [TEST_ADDRESSES.safe1],
+        })
+      )
+    })
+  })
+
+  describe('getTokenBalances', () => {
+    it('should return balances and skip unreadable tokens', async () => {
+      mockPublicClient.readContract.mockImplementation(async ({ address, functionName }) => {
+        if (address === TEST_ADDRESSES.erc721Token) throw new Error('execution reverted')
+        if (functionName === 'decimals') return 6
+        if (functionName === 'symbol') return 'USDC'
+        return 2500000n
+      })
+
+      const result = await service.getTokenBalances(
+        [TEST_ADDRESSES.erc20Token, TEST_ADDRESSES.erc721Token],
+        TEST_ADDRESSES.safe1
+      )
+
+      expect(result).toEqual([
+        { token: TEST_ADDRESSES.erc20Token, symbol: 'USDC', decimals: 6, balance: 2500000n },
+      ])
+    })
+  })
+
+  describe('discoverTokens', () => {
+    it('should scan up to the latest block in chunks', async () => {
+      mockPublicClient.getBlockNumber.mockResolvedValue(25_000n)
+      mockPublicClient.getLogs
+        .mockResolvedValueOnce([{ address: TEST_ADDRESSES.erc20Token.toLowerCase() }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { address: TEST_ADDRESSES.erc20Token },
+          { address: TEST_ADDRESSES.erc721Token },
+        ])
+
+      const result = await service.discoverTokens(TEST_ADDRESSES.safe1, 1n)
+
+      expect(result).toEqual([TEST_ADDRESSES.erc20Token, TEST_ADDRESSES.erc721Token])
+      expect(mockPublicClient.getLogs).toHaveBeenCalledTimes(3)
+      expect(mockPublicClient.getLogs).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          args: { to: TEST_ADDRESSES.safe1 },
+          fromBlock: 1n,
+          toBlock: 10_000n,
+        })
+      )
+      expect(mockPublicClient.getLogs).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fromBlock: 20_001n, toBlock: 25_000n })
+      )
+    })
+
+    it('should use the given end block', async () => {
+      mockPublicClient.getLogs.mockResolvedValue([])
+
+      await service.discoverTokens(TEST_ADDRESSES.safe1, 100n, 200n)
+
+      expect(mockPublicClient.getBlockNumber).not.toHaveBeenCalled()
+      expect(mockPublicClient.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 100n, toBlock: 200n })
+      )
+    })
+
+    it('should reject an inverted range', async () => {
+      await expect(service.discoverTokens(TEST_ADDRESSES.safe1, 300n, 200n)).rejects.toThrow(
+        'From block 300 is after to block 200'
+      )
+    })
+  })
+
+  describe('getNftInfo', () => {
+    it('should return the owner and collection name', async () => {
+      mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === 'ownerOf' ? TEST_ADDRESSES.safe1 : 'Test Collection'
+      )
+
+      const result = await service.getNftInfo(TEST_ADDRESSES.erc721Token, 42n)
+
+      expect(result).toEqual({ owner: TEST_ADDRESSES.safe1, name: 'Test Collection' })
+    })
+
+    it('should tolerate collections without name()', async () => {
+      mockPublicClient.readContract.mockImplementation(async ({ functionName }) => {
+        if (functionName === 'ownerOf') return TEST_ADDRESSES.safe1
+        throw new Error('execution reverted')
+      })
+
+      const result = await service.getNftInfo(TEST_ADDRESSES.erc721Token, 42n)
+
+      expect(result).toEqual({ owner: TEST_ADDRESSES.safe1, name: undefined })
+    })
+
+    it('should fail when the token does not exist', async () => {
+      mockPublicClient.readContract.mockRejectedValue(new Error('invalid token ID'))
+
+      await expect(service.getNftInfo(TEST_ADDRESSES.erc721Token, 42n)).rejects.toThrow(
+        'Failed to read owner of token 42: invalid token ID'
+      )
+    })
+  })
+})
@@ -3,6 +3,9 @@ import { TransactionService } from '../../../services/transaction-service.js'
 import { TEST_ADDRESSES, TEST_PRIVATE_KEYS, TEST_CHAINS } from '../../fixtures/index.js'
 import { SafeCLIError } from '../../../utils/errors.js'
 import type { TransactionMetadata } from '../../../types/transaction.js'
+import { SAFE_ABI, SAFE_MIGRATION_ABI } from '../../../constants/abis.js'
+import { SENTINEL_ADDRESS } from '../../../constants/modules.js'
+import type { SafeUpgradePlan } from '../../../utils/safe-upgrade.js'
 
 // Mock Safe SDK init function using vi.hoisted() to ensure it's available during hoisting
 const { mockSafeInit } = vi.hoisted(() => ({
@@ -20,17 +23,21 @@ vi.mock('@safe-global/protocol-kit', () => {
   }
 })
 
-vi.mock('viem', () => ({
-  createPublicClient: vi.fn(),
-  http: vi.fn((url: string) => url),
-}))
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(),
+    http: vi.fn((url: string) => url),
+  }
+})
 
 vi.mock('viem/accounts', () => ({
   privateKeyToAccount: vi.fn(),
 }))
 
 // Import mocked modules for assertions
-import { createPublicClient } from 'viem'
+import { createPublicClient, decodeFunctionData, zeroAddress } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 
 describe('TransactionService', () => {
@@ -813,6 +820,99 @@ describe('TransactionService', () => {
     })
   })
 
+  describe('getVersion', () => {
+    const mockProtocolKit = {
+      getContractVersion: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.getContractVersion.mockReturnValue('1.4.1')
+    })
+
+    it('should get Safe version', async () => {
+      const version = await service.getVersion(TEST_ADDRESSES.safe1)
+
+      expect(version).toBe('1.4.1')
+    })
+
+    it('should throw SafeCLIError when SDK init fails', async () => {
+      mockSafeInit.mockRejectedValue(new Error('SDK init failed'))
+
+      await expect(service.getVersion(TEST_ADDRESSES.safe1)).rejects.toThrow(SafeCLIError)
+      await expect(service.getVersion(TEST_ADDRESSES.safe1)).rejects.toThrow(
+        'Failed to get Safe version: SDK init failed'
+      )
+    })
+  })
+
+  describe('signTransactionOffline', () => {
+    const metadata: TransactionMetadata = {
+      to: TEST_ADDRESSES.safe2,
+      value: '100',
+      data: '0x',
+      operation: 0,
+      nonce: 3,
+    }
+    const mockAccount = {
+      signTypedData: vi.fn(),
+    }
+
+    beforeEach(() => {
+      vi.mocked(privateKeyToAccount).mockReturnValue(mockAccount as any)
+      mockAccount.signTypedData.mockResolvedValue('0xsignature')
+    })
+
+    it('should sign the SafeTx typed data without RPC access', async () => {
+      const svc = new TransactionService(testChain, TEST_PRIVATE_KEYS.owner1)
+
+      const signature = await svc.signTransactionOffline(TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+      expect(signature).toBe('0xsignature')
+      expect(mockSafeInit).not.toHaveBeenCalled()
+      expect(mockAccount.signTypedData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          domain: {
+            chainId: BigInt(testChain.chainId),
+            verifyingContract: TEST_ADDRESSES.safe1,
+          },
+          primaryType: 'SafeTx',
+          message: expect.objectContaining({
+            to: TEST_ADDRESSES.safe2,
+            value: 100n,
+            nonce: 3n,
+          }),
+        })
+      )
+    })
+
+    it('should omit chainId from the domain for Safes before 1.3.0', async () => {
+      const svc = new TransactionService(testChain, TEST_PRIVATE_KEYS.owner1)
+
+      await svc.signTransactionOffline(TEST_ADDRESSES.safe1, metadata, '1.1.1')
+
+      expect(mockAccount.signTypedData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          domain: { verifyingContract: TEST_ADDRESSES.safe1 },
+        })
+      )
+    })
+
+    it('should throw without private key', async () => {
+      await expect(
+        service.signTransactionOffline(TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      ).rejects.toThrow('Private key required to sign transaction')
+    })
+
+    it('should throw SafeCLIError on invalid Safe version', async () => {
+      const svc = new TransactionService(testChain, TEST_PRIVATE_KEYS.owner1)
+
+      await expect(
+        svc.signTransactionOffline(TEST_ADDRESSES.safe1, metadata, 'latest')
+      ).rejects.toThrow('Failed to sign transaction: Invalid Safe version: latest')
+    })
+  })
+
   describe('createAddOwnerTransaction', () => {
     const mockProtocolKit = {
       createAddOwnerTx: vi.fn(),
@@ -1035,6 +1135,74 @@ describe('TransactionService', () => {
     })
   })
 
+  describe('createSwapOwnerTransaction', () => {
+    const mockProtocolKit = {
+      getOwners: vi.fn(),
+      createTransaction: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.getOwners.mockResolvedValue([TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2])
+      mockProtocolKit.createTransaction.mockImplementation(async ({ transactions }) => ({
+        data: { ...transactions[0], operation: 0, nonce: 2 },
+      }))
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xswaphash')
+    })
+
+    const decodeArgs = (data: `0x${string}`) => decodeFunctionData({ abi: SAFE_ABI, data }).args
+
+    it('should use the sentinel as prevOwner for the first owner', async () => {
+      const result = await service.createSwapOwnerTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner1,
+        TEST_ADDRESSES.owner3
+      )
+
+      expect(result.safeTxHash).toBe('0xswaphash')
+      expect(result.metadata.to).toBe(TEST_ADDRESSES.safe1)
+      expect(decodeArgs(result.metadata.data)).toEqual([
+        SENTINEL_ADDRESS,
+        TEST_ADDRESSES.owner1,
+        TEST_ADDRESSES.owner3,
+      ])
+    })
+
+    it('should use the preceding owner as prevOwner', async () => {
+      const result = await service.createSwapOwnerTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner2,
+        TEST_ADDRESSES.owner3
+      )
+
+      expect(decodeArgs(result.metadata.data)?.[0]).toBe(TEST_ADDRESSES.owner1)
+    })
+
+    it('should throw when the old owner is not an owner', async () => {
+      await expect(
+        service.createSwapOwnerTransaction(
+          TEST_ADDRESSES.safe1,
+          TEST_ADDRESSES.owner3,
+          TEST_ADDRESSES.safe2
+        )
+      ).rejects.toThrow(
+        `Failed to create swap owner transaction: ${TEST_ADDRESSES.owner3} is not in the list`
+      )
+    })
+
+    it('should throw when the new owner is already an owner', async () => {
+      await expect(
+        service.createSwapOwnerTransaction(
+          TEST_ADDRESSES.safe1,
+          TEST_ADDRESSES.owner1,
+          TEST_ADDRESSES.owner2
+        )
+      ).rejects.toThrow(`${TEST_ADDRESSES.owner2} is already an owner`)
+      expect(mockProtocolKit.createTransaction).not.toHaveBeenCalled()
+    })
+  })
+
   describe('createChangeThresholdTransaction', () => {
     const mockProtocolKit = {
       createChangeThresholdTx: vi.fn(),
@@ -1134,4 +1302,494 @@ describe('TransactionService', () => {
       ).rejects.toThrow('Unknown error')
     })
   })
+
+  describe('createRejectionTransaction', () => {
+    const mockProtocolKit = {
+      createRejectionTransaction: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    const mockTransaction = {
+      data: {
+        to: TEST_ADDRESSES.safe1,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        nonce: 7,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: '0x0000000000000000000000000000000000000000',
+        refundReceiver: '0x0000000000000000000000000000000000000000',
+      },
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createRejectionTransaction.mockResolvedValue(mockTransaction)
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xrejecthash')
+    })
+
+    it('should create rejection transaction with the given nonce', async () => {
+      const result = await service.createRejectionTransaction(TEST_ADDRESSES.safe1, 7)
+
+      expect(mockProtocolKit.createRejectionTransaction).toHaveBeenCalledWith(7)
+      expect(result.safeTxHash).toBe('0xrejecthash')
+      expect(result.metadata).toMatchObject({
+        to: TEST_ADDRESSES.safe1,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        nonce: 7,
+      })
+    })
+
+    it('should initialize Safe SDK', async () => {
+      await service.createRejectionTransaction(TEST_ADDRESSES.safe1, 7)
+
+      expect(mockSafeInit).toHaveBeenCalledWith({
+        provider: testChain.rpcUrl,
+        safeAddress: TEST_ADDRESSES.safe1,
+      })
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.createRejectionTransaction.mockRejectedValue(new Error('Invalid nonce'))
+
+      await expect(service.createRejectionTransaction(TEST_ADDRESSES.safe1, 7)).rejects.toThrow(
+        SafeCLIError
+      )
+      await expect(service.createRejectionTransaction(TEST_ADDRESSES.safe1, 7)).rejects.toThrow(
+        'Failed to create rejection transaction: Invalid nonce'
+      )
+    })
+  })
+
+  describe('getModules', () => {
+    const mockProtocolKit = {
+      getModulesPaginated: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+    })
+
+    it('should return modules from a single page', async () => {
+      mockProtocolKit.getModulesPaginated.mockResolvedValue({
+        modules: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+        next: SENTINEL_ADDRESS,
+      })
+
+      const modules = await service.getModules(TEST_ADDRESSES.safe1)
+
+      expect(modules).toEqual([TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2])
+      expect(mockProtocolKit.getModulesPaginated).toHaveBeenCalledWith(SENTINEL_ADDRESS, 50)
+    })
+
+    it('should follow pagination from the last module of each page', async () => {
+      mockProtocolKit.getModulesPaginated
+        .mockResolvedValueOnce({
+          modules: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+          next: TEST_ADDRESSES.owner3,
+        })
+        .mockResolvedValueOnce({ modules: [TEST_ADDRESSES.owner3], next: SENTINEL_ADDRESS })
+
+      const modules = await service.getModules(TEST_ADDRESSES.safe1)
+
+      expect(modules).toEqual([TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2, TEST_ADDRESSES.owner3])
+      expect(mockProtocolKit.getModulesPaginated).toHaveBeenLastCalledWith(
+        TEST_ADDRESSES.owner2,
+        50
+      )
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.getModulesPaginated.mockRejectedValue(new Error('RPC error'))
+
+      await expect(service.getModules(TEST_ADDRESSES.safe1)).rejects.toThrow(
+        'Failed to get modules: RPC error'
+      )
+    })
+  })
+
+  describe('createEnableModuleTransaction', () => {
+    const mockProtocolKit = {
+      createEnableModuleTx: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createEnableModuleTx.mockResolvedValue({
+        data: { to: TEST_ADDRESSES.safe1, value: '0', data: '0x610b5925', operation: 0, nonce: 3 },
+      })
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xenablehash')
+    })
+
+    it('should create enable module transaction', async () => {
+      const result = await service.createEnableModuleTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner3
+      )
+
+      expect(mockProtocolKit.createEnableModuleTx).toHaveBeenCalledWith(TEST_ADDRESSES.owner3)
+      expect(result.safeTxHash).toBe('0xenablehash')
+      expect(result.metadata).toMatchObject({ to: TEST_ADDRESSES.safe1, nonce: 3 })
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.createEnableModuleTx.mockRejectedValue(new Error('Module already enabled'))
+
+      await expect(
+        service.createEnableModuleTransaction(TEST_ADDRESSES.safe1, TEST_ADDRESSES.owner3)
+      ).rejects.toThrow('Failed to create enable module transaction: Module already enabled')
+    })
+  })
+
+  describe('createSetGuardTransaction', () => {
+    const mockProtocolKit = {
+      createEnableGuardTx: vi.fn(),
+      createDisableGuardTx: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createEnableGuardTx.mockResolvedValue({
+        data: { to: TEST_ADDRESSES.safe1, value: '0', data: '0xe19a9dd9', operation: 0, nonce: 4 },
+      })
+      mockProtocolKit.createDisableGuardTx.mockResolvedValue({
+        data: { to: TEST_ADDRESSES.safe1, value: '0', data: '0xe19a9dd9', operation: 0, nonce: 4 },
+      })
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xguardhash')
+    })
+
+    it('should create set guard transaction', async () => {
+      const result = await service.createSetGuardTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner3
+      )
+
+      expect(mockProtocolKit.createEnableGuardTx).toHaveBeenCalledWith(TEST_ADDRESSES.owner3)
+      expect(mockProtocolKit.createDisableGuardTx).not.toHaveBeenCalled()
+      expect(result.safeTxHash).toBe('0xguardhash')
+      expect(result.metadata).toMatchObject({ to: TEST_ADDRESSES.safe1, nonce: 4 })
+    })
+
+    it('should remove the guard for the zero address', async () => {
+      await service.createSetGuardTransaction(TEST_ADDRESSES.safe1, zeroAddress)
+
+      expect(mockProtocolKit.createDisableGuardTx).toHaveBeenCalled()
+      expect(mockProtocolKit.createEnableGuardTx).not.toHaveBeenCalled()
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.createEnableGuardTx.mockRejectedValue(new Error('Invalid guard'))
+
+      await expect(
+        service.createSetGuardTransaction(TEST_ADDRESSES.safe1, TEST_ADDRESSES.owner3)
+      ).rejects.toThrow('Failed to create set guard transaction: Invalid guard')
+    })
+  })
+
+  describe('createSetFallbackHandlerTransaction', () => {
+    const mockProtocolKit = {
+      createEnableFallbackHandlerTx: vi.fn(),
+      createDisableFallbackHandlerTx: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createEnableFallbackHandlerTx.mockResolvedValue({
+        data: { to: TEST_ADDRESSES.safe1, value: '0', data: '0xf08a0323', operation: 0, nonce: 5 },
+      })
+      mockProtocolKit.createDisableFallbackHandlerTx.mockResolvedValue({
+        data: { to: TEST_ADDRESSES.safe1, value: '0', data: '0xf08a0323', operation: 0, nonce: 5 },
+      })
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xhandlerhash')
+    })
+
+    it('should create set fallback handler transaction', async () => {
+      const result = await service.createSetFallbackHandlerTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner3
+      )
+
+      expect(mockProtocolKit.createEnableFallbackHandlerTx).toHaveBeenCalledWith(
+        TEST_ADDRESSES.owner3
+      )
+      expect(mockProtocolKit.createDisableFallbackHandlerTx).not.toHaveBeenCalled()
+      expect(result.safeTxHash).toBe('0xhandlerhash')
+      expect(result.metadata).toMatchObject({ to: TEST_ADDRESSES.safe1, nonce: 5 })
+    })
+
+    it('should remove the fallback handler for the zero address', async () => {
+      await service.createSetFallbackHandlerTransaction(TEST_ADDRESSES.safe1, zeroAddress)
+
+      expect(mockProtocolKit.createDisableFallbackHandlerTx).toHaveBeenCalled()
+      expect(mockProtocolKit.createEnableFallbackHandlerTx).not.toHaveBeenCalled()
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.createEnableFallbackHandlerTx.mockRejectedValue(new Error('Invalid handler'))
+
+      await expect(
+        service.createSetFallbackHandlerTransaction(TEST_ADDRESSES.safe1, TEST_ADDRESSES.owner3)
+      ).rejects.toThrow('Failed to create set fallback handler transaction: Invalid handler')
+    })
+  })
+
+  describe('createDisableModuleTransaction', () => {
+    const mockProtocolKit = {
+      getModulesPaginated: vi.fn(),
+      createTransaction: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.getModulesPaginated.mockResolvedValue({
+        modules: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+        next: SENTINEL_ADDRESS,
+      })
+      mockProtocolKit.createTransaction.mockImplementation(async ({ transactions }) => ({
+        data: { ...transactions[0], operation: 0, nonce: 4 },
+      }))
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xdisablehash')
+    })
+
+    const decodeArgs = (data: `0x${string}`) => decodeFunctionData({ abi: SAFE_ABI, data }).args
+
+    it('should use the sentinel as prevModule for the first module', async () => {
+      const result = await service.createDisableModuleTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner1
+      )
+
+      expect(result.safeTxHash).toBe('0xdisablehash')
+      expect(result.metadata.to).toBe(TEST_ADDRESSES.safe1)
+      expect(decodeArgs(result.metadata.data)).toEqual([SENTINEL_ADDRESS, TEST_ADDRESSES.owner1])
+    })
+
+    it('should use the preceding module as prevModule', async () => {
+      const result = await service.createDisableModuleTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner2
+      )
+
+      expect(decodeArgs(result.metadata.data)).toEqual([
+        TEST_ADDRESSES.owner1,
+        TEST_ADDRESSES.owner2,
+      ])
+    })
+
+    it('should match module addresses case-insensitively', async () => {
+      const result = await service.createDisableModuleTransaction(
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.owner2.toLowerCase() as `0x${string}`
+      )
+
+      expect(decodeArgs(result.metadata.data)?.[0]).toBe(TEST_ADDRESSES.owner1)
+    })
+
+    it('should throw when the module is not enabled', async () => {
+      await expect(
+        service.createDisableModuleTransaction(TEST_ADDRESSES.safe1, TEST_ADDRESSES.owner3)
+      ).rejects.toThrow(
+        `Failed to create disable module transaction: Module ${TEST_ADDRESSES.owner3} is not enabled`
+      )
+      expect(mockProtocolKit.createTransaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createUpgradeTransaction', () => {
+    const mockProtocolKit = {
+      createTransaction: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    const migrationPlan: SafeUpgradePlan = {
+      fromVersion: '1.3.0',
+      toVersion: '1.4.1',
+      method: 'migration',
+      l2: false,
+      currentSingleton: TEST_ADDRESSES.owner1,
+      newSingleton: TEST_ADDRESSES.owner2,
+      currentFallbackHandler: null,
+      newFallbackHandler: TEST_ADDRESSES.owner3,
+      migrationContract: TEST_ADDRESSES.safe2,
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createTransaction.mockImplementation(async ({ transactions }) => ({
+        data: { ...transactions[0], nonce: 6 },
+      }))
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xupgradehash')
+    })
+
+    it('should delegatecall the SafeMigration contract', async () => {
+      const result = await service.createUpgradeTransaction(TEST_ADDRESSES.safe1, migrationPlan)
+
+      expect(result.safeTxHash).toBe('0xupgradehash')
+      expect(result.metadata).toMatchObject({ to: TEST_ADDRESSES.safe2, operation: 1, nonce: 6 })
+      expect(
+        decodeFunctionData({ abi: SAFE_MIGRATION_ABI, data: result.metadata.data }).functionName
+      ).toBe('migrateWithFallbackHandler')
+    })
+
+    it('should use the L2 migration for L2 Safes', async () => {
+      const result = await service.createUpgradeTransaction(TEST_ADDRESSES.safe1, {
+        ...migrationPlan,
+        l2: true,
+      })
+
+      expect(
+        decodeFunctionData({ abi: SAFE_MIGRATION_ABI, data: result.metadata.data }).functionName
+      ).toBe('migrateL2WithFallbackHandler')
+    })
+
+    it('should batch changeMasterCopy and setFallbackHandler for older Safes', async () => {
+      await service.createUpgradeTransaction(TEST_ADDRESSES.safe1, {
+        ...migrationPlan,
+        fromVersion: '1.1.1',
+        method: 'changeMasterCopy',
+        migrationContract: undefined,
+      })
+
+      const { transactions } = mockProtocolKit.createTransaction.mock.calls[0][0]
+      expect(transactions).toHaveLength(2)
+      expect(transactions.every((tx: any) => tx.to === TEST_ADDRESSES.safe1)).toBe(true)
+      expect(decodeFunctionData({ abi: SAFE_ABI, data: transactions[0].data })).toMatchObject({
+        functionName: 'changeMasterCopy',
+        args: [TEST_ADDRESSES.owner2],
+      })
+      expect(decodeFunctionData({ abi: SAFE_ABI, data: transactions[1].data })).toMatchObject({
+        functionName: 'setFallbackHandler',
+        args: [TEST_ADDRESSES.owner3],
+      })
+    })
+
+    it('should throw SafeCLIError on failure', async () => {
+      mockProtocolKit.createTransaction.mockRejectedValue(new Error('RPC down'))
+
+      await expect(
+        service.createUpgradeTransaction(TEST_ADDRESSES.safe1, migrationPlan)
+      ).rejects.toThrow('Failed to create upgrade transaction: RPC down')
+    })
+  })
+
+  describe('createBatchTransaction', () => {
+    const mockProtocolKit = {
+      createTransaction: vi.fn(),
+      getTransactionHash: vi.fn(),
+    }
+
+    const calls = [
+      { to: TEST_ADDRESSES.recipient1, value: '1000', data: '0x' as const },
+      { to: TEST_ADDRESSES.recipient2, value: '0', data: '0xa9059cbb' as const },
+    ]
+
+    const mockTransaction = {
+      data: {
+        to: TEST_ADDRESSES.safe2,
+        value: '0',
+        data: '0x8d80ff0a',
+        operation: 1,
+        nonce: 7,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: TEST_ADDRESSES.owner1,
+        refundReceiver: TEST_ADDRESSES.owner2,
+      },
+    }
+
+    beforeEach(() => {
+      mockSafeInit.mockResolvedValue(mockProtocolKit as any)
+      mockProtocolKit.createTransaction.mockResolvedValue(mockTransaction)
+      mockProtocolKit.getTransactionHash.mockResolvedValue('0xbatchhash')
+    })
+
+    it('should create batch transaction with MultiSendCallOnly', async () => {
+      const result = await service.createBatchTransaction(TEST_ADDRESSES.safe1, calls)
+
+      expect(result.safeTxHash).toBe('0xbatchhash')
+      expect(mockProtocolKit.createTransaction).toHaveBeenCalledWith({
+        transactions: [
+          { to: TEST_ADDRESSES.recipient1, value: '1000', data: '0x', operation: 0 },
+          { to: TEST_ADDRESSES.recipient2, value: '0', data: '0xa9059cbb', operation: 0 },
+        ],
+        onlyCalls: true,
+        options: undefined,
+      })
+    })
+
+    it('should pass nonce option when provided', async () => {
+      await service.createBatchTransaction(TEST_ADDRESSES.safe1, calls, 7)
+
+      expect(mockProtocolKit.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ options: { nonce: 7 } })
+      )
+    })
+
+    it('should initialize Safe SDK without custom contracts by default', async () => {
+      await service.createBatchTransaction(TEST_ADDRESSES.safe1, calls)
+
+      expect(mockSafeInit).toHaveBeenCalledWith({
+        provider: testChain.rpcUrl,
+        safeAddress: TEST_ADDRESSES.safe1,
+        contractNetworks: undefined,
+      })
+    })
+
+    it('should pass custom contract networks to Safe SDK', async () => {
+      const contractNetworks = { multiSendCallOnlyAddress: TEST_ADDRESSES.safe2 }
+      const svc = new TransactionService({ ...testChain, contractNetworks } as any)
+
+      await svc.createBatchTransaction(TEST_ADDRESSES.safe1, calls)
+
+      expect(mockSafeInit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contractNetworks: { [testChain.chainId]: contractNetworks },
+        })
+      )
+    })
+
+    it('should return MultiSend transaction metadata', async () => {
+      const result = await service.createBatchTransaction(TEST_ADDRESSES.safe1, calls)
+
+      expect(result.metadata).toEqual({
+        to: TEST_ADDRESSES.safe2,
+        value: '0',
+        data: '0x8d80ff0a',
+        operation: 1,
+        nonce: 7,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: TEST_ADDRESSES.owner1,
+        refundReceiver: TEST_ADDRESSES.owner2,
+      })
+    })
+
+    it('should throw on empty batch', async () => {
+      await expect(service.createBatchTransaction(TEST_ADDRESSES.safe1, [])).rejects.toThrow(
+        'Batch must contain at least one call'
+      )
+      expect(mockSafeInit).not.toHaveBeenCalled()
+    })
+
+    it('should throw SafeCLIError when SDK fails', async () => {
+      mockProtocolKit.createTransaction.mockRejectedValue(new Error('MultiSend not deployed'))
+
+      await expect(service.createBatchTransaction(TEST_ADDRESSES.safe1, calls)).rejects.toThrow(
+        SafeCLIError
+      )
+      await expect(service.createBatchTransaction(TEST_ADDRESSES.safe1, calls)).rejects.toThrow(
+        'Failed to create batch transaction: MultiSend not deployed'
+      )
+    })
+  })
 })
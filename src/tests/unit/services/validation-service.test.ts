@@ -238,6 +238,29 @@ describe('ValidationService', () => {
     })
   })
 
+  describe('validateMnemonic', () => {
+    it('should accept a valid seed phrase regardless of case and spacing', () => {
+      expect(
+        service.validateMnemonic('  Test test test test test test test test test test test  junk ')
+      ).toBeUndefined()
+    })
+
+    it('should reject a missing seed phrase', () => {
+      expect(service.validateMnemonic('')).toBe('Seed phrase is required')
+      expect(service.validateMnemonic(undefined)).toBe('Seed phrase is required')
+    })
+
+    it('should reject a wrong number of words', () => {
+      expect(service.validateMnemonic('test test test')).toContain('got 3')
+    })
+
+    it('should reject a phrase with a bad checksum', () => {
+      expect(service.validateMnemonic(Array(12).fill('abandon').join(' '))).toContain(
+        'misspelled words or wrong word order'
+      )
+    })
+  })
+
   describe('validateChainId / assertChainId', () => {
     describe('valid chain IDs', () => {
       it('should accept positive integer as string', () => {
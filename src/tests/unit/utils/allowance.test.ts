@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { decodeFunctionData, zeroAddress } from 'viem'
+import {
+  MAX_ALLOWANCE_AMOUNT,
+  encodeAddDelegate,
+  encodeRemoveDelegate,
+  encodeSetAllowance,
+  formatResetPeriod,
+  getRemainingAllowance,
+  parseResetPeriod,
+} from '../../../utils/allowance.js'
+import { ALLOWANCE_MODULE_ABI } from '../../../constants/abis.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+const MODULE = TEST_ADDRESSES.safe2
+const DELEGATE = TEST_ADDRESSES.owner1
+
+describe('allowance utils', () => {
+  describe('parseResetPeriod', () => {
+    it('should parse unit suffixes into minutes', () => {
+      expect(parseResetPeriod('30m')).toBe(30)
+      expect(parseResetPeriod('12h')).toBe(720)
+      expect(parseResetPeriod('1d')).toBe(1440)
+      expect(parseResetPeriod('1w')).toBe(10080)
+    })
+
+    it('should treat plain numbers as minutes', () => {
+      expect(parseResetPeriod('0')).toBe(0)
+      expect(parseResetPeriod('90')).toBe(90)
+    })
+
+    it('should accept whitespace and upper case', () => {
+      expect(parseResetPeriod(' 2D ')).toBe(2880)
+    })
+
+    it('should reject invalid formats', () => {
+      expect(() => parseResetPeriod('')).toThrow(SafeCLIError)
+      expect(() => parseResetPeriod('1y')).toThrow('Invalid reset period')
+      expect(() => parseResetPeriod('-1d')).toThrow('Invalid reset period')
+      expect(() => parseResetPeriod('1.5h')).toThrow('Invalid reset period')
+    })
+
+    it('should reject periods that do not fit in uint16 minutes', () => {
+      expect(parseResetPeriod('45d')).toBe(64800)
+      expect(() => parseResetPeriod('46d')).toThrow('cannot exceed 65535 minutes')
+    })
+  })
+
+  describe('formatResetPeriod', () => {
+    it('should format one-time allowances', () => {
+      expect(formatResetPeriod(0)).toBe('one-time')
+    })
+
+    it('should use the largest whole unit', () => {
+      expect(formatResetPeriod(10080)).toBe('every 1w')
+      expect(formatResetPeriod(2880)).toBe('every 2d')
+      expect(formatResetPeriod(720)).toBe('every 12h')
+      expect(formatResetPeriod(90)).toBe('every 90m')
+    })
+  })
+
+  describe('getRemainingAllowance', () => {
+    it('should subtract spent amount within the current period', () => {
+      const result = getRemainingAllowance(
+        { amount: 100n, spent: 40n, resetTimeMin: 60, lastResetMin: 1000 },
+        1030
+      )
+
+      expect(result).toEqual({ remaining: 60n, nextResetMin: 1060 })
+    })
+
+    it('should apply a pending reset', () => {
+      const result = getRemainingAllowance(
+        { amount: 100n, spent: 100n, resetTimeMin: 60, lastResetMin: 1000 },
+        1150
+      )
+
+      // Resets align to the period: 1000 + 2 * 60
+      expect(result).toEqual({ remaining: 100n, nextResetMin: 1180 })
+    })
+
+    it('should never reset one-time allowances', () => {
+      const result = getRemainingAllowance(
+        { amount: 100n, spent: 70n, resetTimeMin: 0, lastResetMin: 0 },
+        1_000_000
+      )
+
+      expect(result).toEqual({ remaining: 30n, nextResetMin: undefined })
+    })
+
+    it('should not return a negative remaining amount', () => {
+      const result = getRemainingAllowance(
+        { amount: 50n, spent: 80n, resetTimeMin: 0, lastResetMin: 0 },
+        0
+      )
+
+      expect(result.remaining).toBe(0n)
+    })
+  })
+
+  describe('encode helpers', () => {
+    it('should encode addDelegate to the module', () => {
+      const call = encodeAddDelegate(MODULE, DELEGATE)
+      const decoded = decodeFunctionData({ abi: ALLOWANCE_MODULE_ABI, data: call.data })
+
+      expect(call.to).toBe(MODULE)
+      expect(call.value).toBe('0')
+      expect(decoded.functionName).toBe('addDelegate')
+      expect(decoded.args).toEqual([DELEGATE])
+    })
+
+    it('should encode removeDelegate and remove its allowances', () => {
+      const call = encodeRemoveDelegate(MODULE, DELEGATE)
+      const decoded = decodeFunctionData({ abi: ALLOWANCE_MODULE_ABI, data: call.data })
+
+      expect(decoded.functionName).toBe('removeDelegate')
+      expect(decoded.args).toEqual([DELEGATE, true])
+    })
+
+    it('should encode setAllowance with a zero reset base', () => {
+      const call = encodeSetAllowance(MODULE, DELEGATE, zeroAddress, 10n ** 18n, 1440)
+      const decoded = decodeFunctionData({ abi: ALLOWANCE_MODULE_ABI, data: call.data })
+
+      expect(call.to).toBe(MODULE)
+      expect(decoded.functionName).toBe('setAllowance')
+      expect(decoded.args).toEqual([DELEGATE, zeroAddress, 10n ** 18n, 1440, 0])
+    })
+
+    it('should reject amounts above uint96', () => {
+      expect(() =>
+        encodeSetAllowance(MODULE, DELEGATE, zeroAddress, MAX_ALLOWANCE_AMOUNT + 1n, 0)
+      ).toThrow('exceeds the uint96 maximum')
+    })
+  })
+})
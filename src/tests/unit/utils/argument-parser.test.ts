@@ -4,9 +4,13 @@ import {
   parseJsonArgument,
   parseAddressArgument,
   parseFunctionCall,
+  encodeFunctionCall,
+  parseOperationArgument,
+  parseBatchCalls,
   parseNumericArgument,
   parseChainArgument,
 } from '../../../utils/argument-parser.js'
+import { encodeFunctionData, parseAbi } from 'viem'
 import { TEST_ADDRESSES } from '../../fixtures/index.js'
 import { writeFileSync, unlinkSync } from 'fs'
 import { resolve } from 'path'
@@ -181,6 +185,172 @@ describe('argument-parser', () => {
     })
   })
 
+  describe('encodeFunctionCall', () => {
+    const erc20Abi = parseAbi([
+      'function transfer(address to, uint256 amount)',
+      'function approve(address spender, uint256 amount)',
+    ])
+
+    it('should encode function call with string numeric arguments', () => {
+      const result = encodeFunctionCall({
+        signature: 'transfer(address,uint256)',
+        args: [TEST_ADDRESSES.recipient1, '1000000000000000000'],
+      })
+      expect(result).toBe(
+        encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [TEST_ADDRESSES.recipient1, 1000000000000000000n],
+        })
+      )
+    })
+
+    it('should encode function call with number arguments', () => {
+      const result = encodeFunctionCall({
+        signature: 'approve(address,uint256)',
+        args: [TEST_ADDRESSES.recipient1, 42],
+      })
+      expect(result).toBe(
+        encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [TEST_ADDRESSES.recipient1, 42n],
+        })
+      )
+    })
+
+    it('should accept signatures prefixed with "function"', () => {
+      const result = encodeFunctionCall({
+        signature: 'function transfer(address to, uint256 amount)',
+        args: [TEST_ADDRESSES.recipient1, '1'],
+      })
+      expect(result.startsWith('0xa9059cbb')).toBe(true)
+    })
+
+    it('should encode function without arguments', () => {
+      const result = encodeFunctionCall({ signature: 'pause()', args: [] })
+      expect(result).toMatch(/^0x[0-9a-f]{8}$/)
+    })
+
+    it('should encode array arguments', () => {
+      const result = encodeFunctionCall({
+        signature: 'batch(address[],uint256[])',
+        args: [
+          [TEST_ADDRESSES.recipient1, TEST_ADDRESSES.recipient2],
+          ['1', 2],
+        ],
+      })
+      expect(result).toBe(
+        encodeFunctionData({
+          abi: parseAbi(['function batch(address[], uint256[])']),
+          functionName: 'batch',
+          args: [
+            [TEST_ADDRESSES.recipient1, TEST_ADDRESSES.recipient2],
+            [1n, 2n],
+          ],
+        })
+      )
+    })
+
+    it('should throw on invalid signature', () => {
+      expect(() => encodeFunctionCall({ signature: 'not a function', args: [] })).toThrow(
+        'Invalid function signature'
+      )
+    })
+
+    it('should throw on argument count mismatch', () => {
+      expect(() =>
+        encodeFunctionCall({
+          signature: 'transfer(address,uint256)',
+          args: [TEST_ADDRESSES.recipient1],
+        })
+      ).toThrow('expects 2 argument(s), got 1')
+    })
+
+    it('should throw on invalid integer argument', () => {
+      expect(() =>
+        encodeFunctionCall({
+          signature: 'transfer(address,uint256)',
+          args: [TEST_ADDRESSES.recipient1, 'abc'],
+        })
+      ).toThrow('Invalid integer')
+    })
+
+    it('should throw on invalid address argument', () => {
+      expect(() =>
+        encodeFunctionCall({
+          signature: 'transfer(address,uint256)',
+          args: ['0xinvalid', '1'],
+        })
+      ).toThrow('Failed to encode transfer')
+    })
+  })
+
+  describe('parseOperationArgument', () => {
+    it('should parse call operation', () => {
+      expect(parseOperationArgument('0')).toBe(0)
+      expect(parseOperationArgument('call')).toBe(0)
+    })
+
+    it('should parse delegatecall operation', () => {
+      expect(parseOperationArgument('1')).toBe(1)
+      expect(parseOperationArgument('DelegateCall')).toBe(1)
+    })
+
+    it('should throw on invalid operation', () => {
+      expect(() => parseOperationArgument('2')).toThrow('Invalid operation')
+    })
+  })
+
+  describe('parseBatchCalls', () => {
+    it('should parse array of calls with defaults', () => {
+      const result = parseBatchCalls([
+        { to: TEST_ADDRESSES.recipient1.toLowerCase(), value: '1000' },
+        { to: TEST_ADDRESSES.recipient2, data: '0xabcd' },
+      ])
+      expect(result).toEqual([
+        { to: TEST_ADDRESSES.recipient1, value: '1000', data: '0x' },
+        { to: TEST_ADDRESSES.recipient2, value: '0', data: '0xabcd' },
+      ])
+    })
+
+    it('should accept object with transactions array', () => {
+      const result = parseBatchCalls({ transactions: [{ to: TEST_ADDRESSES.recipient1 }] })
+      expect(result).toHaveLength(1)
+    })
+
+    it('should encode function calls', () => {
+      const result = parseBatchCalls([
+        {
+          to: TEST_ADDRESSES.recipient1,
+          function: 'transfer(address,uint256)',
+          args: [TEST_ADDRESSES.recipient2, '1'],
+        },
+      ])
+      expect(result[0].data.startsWith('0xa9059cbb')).toBe(true)
+    })
+
+    it('should throw on empty batch', () => {
+      expect(() => parseBatchCalls([])).toThrow('Batch contains no calls')
+    })
+
+    it('should throw on invalid shape', () => {
+      expect(() => parseBatchCalls({ calls: [] })).toThrow('Batch must be an array')
+    })
+
+    it('should report index of invalid call', () => {
+      expect(() =>
+        parseBatchCalls([{ to: TEST_ADDRESSES.recipient1 }, { to: '0xinvalid' }])
+      ).toThrow('Call 2:')
+    })
+
+    it('should throw when both data and function are given', () => {
+      expect(() =>
+        parseBatchCalls([{ to: TEST_ADDRESSES.recipient1, data: '0x', function: 'pause()' }])
+      ).toThrow('Call 1:')
+    })
+  })
+
   describe('parseNumericArgument', () => {
     it('should parse integer string', () => {
       const result = parseNumericArgument('1234567890')
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { getBalance, getBalances, formatBalance } from '../../../utils/balance.js'
+import {
+  getBalance,
+  getBalances,
+  formatBalance,
+  collectBalanceTokens,
+} from '../../../utils/balance.js'
 import type { Address } from 'viem'
 import type { ChainConfig } from '../../../types/config.js'
 
@@ -179,4 +184,45 @@ describe('Balance Utils', () => {
       expect(formatBalance('1e6', 'ETH')).toBe('1000000 ETH')
     })
   })
+
+  describe('collectBalanceTokens', () => {
+    const tokenA = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Address
+    const tokenB = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512' as Address
+    const tokenC = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0' as Address
+
+    it('should merge sources in order', () => {
+      const result = collectBalanceTokens({
+        config: [tokenA],
+        known: [tokenB],
+        discovered: [tokenC],
+      })
+
+      expect(result).toEqual([
+        { token: tokenA, source: 'config' },
+        { token: tokenB, source: 'known' },
+        { token: tokenC, source: 'discovered' },
+      ])
+    })
+
+    it('should attribute duplicates to the first source', () => {
+      const result = collectBalanceTokens({
+        config: [tokenA],
+        known: [tokenA, tokenB],
+        discovered: [tokenB.toLowerCase() as Address, tokenC],
+      })
+
+      expect(result).toEqual([
+        { token: tokenA, source: 'config' },
+        { token: tokenB, source: 'known' },
+        { token: tokenC, source: 'discovered' },
+      ])
+    })
+
+    it('should handle missing sources', () => {
+      expect(collectBalanceTokens({})).toEqual([])
+      expect(collectBalanceTokens({ discovered: [tokenC] })).toEqual([
+        { token: tokenC, source: 'discovered' },
+      ])
+    })
+  })
 })
@@ -33,6 +33,13 @@ vi.mock('../../../storage/transaction-store.js', () => ({
   })),
 }))
 
+vi.mock('../../../storage/message-store.js', () => ({
+  getMessageStore: vi.fn(() => ({
+    getAllMessages: vi.fn(() => []),
+    getMessage: vi.fn(),
+  })),
+}))
+
 vi.mock('../../../services/validation-service.js', () => ({
   getValidationService: vi.fn(() => ({
     validateAddress: vi.fn(),
@@ -53,6 +60,7 @@ describe('command-context', () => {
       expect(context).toHaveProperty('safeStorage')
       expect(context).toHaveProperty('walletStorage')
       expect(context).toHaveProperty('transactionStore')
+      expect(context).toHaveProperty('messageStore')
       expect(context).toHaveProperty('validator')
       expect(context).toHaveProperty('chains')
     })
@@ -85,6 +93,13 @@ describe('command-context', () => {
       expect(context.transactionStore.getAllTransactions).toBeDefined()
     })
 
+    it('should initialize messageStore', () => {
+      const context = createCommandContext()
+
+      expect(context.messageStore).toBeDefined()
+      expect(context.messageStore.getAllMessages).toBeDefined()
+    })
+
     it('should initialize validator', () => {
       const context = createCommandContext()
 
@@ -5,6 +5,7 @@ import {
   handleCommandError,
   checkCancelled,
   promptPassword,
+  confirmDangerousAction,
   output,
   outputSuccess,
   outputError,
@@ -224,6 +225,45 @@ describe('command-helpers', () => {
     })
   })
 
+  describe('confirmDangerousAction', () => {
+    it('should show the warning and return true when the word is typed', async () => {
+      vi.mocked(p.text).mockResolvedValue('CONFIRM')
+      vi.mocked(p.isCancel).mockReturnValue(false)
+
+      const result = await confirmDangerousAction('This can brick your Safe')
+
+      expect(result).toBe(true)
+      expect(p.note).toHaveBeenCalledWith(
+        expect.stringContaining('This can brick your Safe'),
+        expect.any(String)
+      )
+    })
+
+    it('should return false when something else is typed', async () => {
+      vi.mocked(p.text).mockResolvedValue('yes')
+      vi.mocked(p.isCancel).mockReturnValue(false)
+
+      const result = await confirmDangerousAction('Warning')
+
+      expect(result).toBe(false)
+      expect(p.cancel).toHaveBeenCalledWith('Operation cancelled')
+    })
+
+    it('should support a custom confirmation word', async () => {
+      vi.mocked(p.text).mockResolvedValue('UPGRADE')
+      vi.mocked(p.isCancel).mockReturnValue(false)
+
+      expect(await confirmDangerousAction('Warning', 'UPGRADE')).toBe(true)
+    })
+
+    it('should return false when cancelled', async () => {
+      vi.mocked(p.text).mockResolvedValue(Symbol('cancel'))
+      vi.mocked(p.isCancel).mockReturnValue(true)
+
+      expect(await confirmDangerousAction('Warning')).toBe(false)
+    })
+  })
+
   describe('output', () => {
     let consoleLogSpy: ReturnType<typeof vi.spyOn>
 
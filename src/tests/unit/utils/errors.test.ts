@@ -6,6 +6,7 @@ import {
   WalletError,
   handleError,
 } from '../../../utils/errors.js'
+import { trackHookRun, waitForHooks } from '../../../utils/hook-runs.js'
 
 describe('errors utils', () => {
   describe('SafeCLIError', () => {
@@ -246,6 +247,24 @@ describe('errors utils', () => {
         expect(processExitSpy).toHaveBeenCalledWith(1)
       })
     })
+
+    it('should report failed and unfinished hook runs before exiting', async () => {
+      trackHookRun(Promise.resolve(['webhook returned HTTP 500']))
+      await Promise.resolve()
+      let finish: (errors: string[]) => void = () => {}
+      trackHookRun(new Promise((resolve) => (finish = resolve)))
+
+      expect(() => handleError(new SafeCLIError('Test error'))).toThrow('process.exit called')
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Warning: Hook failed: webhook returned HTTP 500'
+      )
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Warning: 1 hook run(s) did not finish before exiting'
+      )
+
+      finish([])
+      await waitForHooks()
+    })
   })
 
   describe('error inheritance chain', () => {
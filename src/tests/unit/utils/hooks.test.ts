@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  createTransactionHookPayload,
+  dispatchTransactionHooks,
+  postHook,
+  runHookCommand,
+  runHooks,
+  type HookPayload,
+} from '../../../utils/hooks.js'
+import { getPendingHookCount, waitForHooks } from '../../../utils/hook-runs.js'
+import type { HookConfig } from '../../../types/config.js'
+import { TransactionStatus, type StoredTransaction } from '../../../types/transaction.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+const { getHooks } = vi.hoisted(() => ({ getHooks: vi.fn() }))
+
+vi.mock('../../../storage/config-store.js', () => ({
+  getConfigStore: () => ({ getHooks }),
+}))
+
+const payload: HookPayload = {
+  event: 'new',
+  safeTxHash: '0x' + 'ab'.repeat(32),
+  safeAddress: TEST_ADDRESSES.safe1,
+  chainId: '1',
+  nonce: 7,
+}
+
+const tx: StoredTransaction = {
+  safeTxHash: payload.safeTxHash,
+  safeAddress: TEST_ADDRESSES.safe1,
+  chainId: '1',
+  status: TransactionStatus.EXECUTED,
+  metadata: { to: TEST_ADDRESSES.recipient1, value: '100', data: '0x', nonce: 7 },
+  signatures: [
+    { signer: TEST_ADDRESSES.owner1, signature: '0x', signedAt: '2024-01-01T00:00:00Z' },
+  ],
+  createdBy: TEST_ADDRESSES.owner1,
+  createdAt: '2024-01-01T00:00:00Z',
+  txHash: '0x' + 'cd'.repeat(32),
+}
+
+// Runs a Node one-liner so the tests do not depend on a particular shell
+function node(script: string): string {
+  return `"${process.execPath}" -e "${script}"`
+}
+
+describe('hooks utils', () => {
+  describe('runHookCommand', () => {
+    it('should pass the payload on stdin and as environment variables', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'safe-hooks-'))
+      const file = join(dir, 'out.json')
+      try {
+        await runHookCommand(
+          node(
+            `let s='';process.stdin.on('data',d=>s+=d).on('end',()=>require('fs').writeFileSync(process.argv[1],JSON.stringify({stdin:JSON.parse(s),env:[process.env.SAFE_EVENT,process.env.SAFE_TX_HASH,process.env.SAFE_NONCE]})))`
+          ) + ` "${file}"`,
+          payload
+        )
+
+        const result = JSON.parse(readFileSync(file, 'utf-8'))
+        expect(result.stdin).toEqual(payload)
+        expect(result.env).toEqual(['new', payload.safeTxHash, '7'])
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('should reject with stderr on a non-zero exit', async () => {
+      await expect(
+        runHookCommand(node(`console.error('boom');process.exit(3)`), payload)
+      ).rejects.toThrow('exited with code 3: boom')
+    })
+
+    it('should reject when the hook times out', async () => {
+      await expect(runHookCommand(node('setTimeout(()=>{},5000)'), payload, 200)).rejects.toThrow(
+        'timed out'
+      )
+    })
+  })
+
+  describe('postHook', () => {
+    let server: Server
+    let url: string
+    let received: Array<{ headers: IncomingHttpHeaders; body: unknown }>
+    let status: number
+
+    beforeEach(async () => {
+      received = []
+      status = 200
+      server = createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+          received.push({ headers: req.headers, body: JSON.parse(body) })
+          res.statusCode = status
+          res.end()
+        })
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+    })
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should POST the payload as JSON with custom headers', async () => {
+      await postHook(url, payload, { Authorization: 'Bearer token' })
+
+      expect(received).toHaveLength(1)
+      expect(received[0].body).toEqual(payload)
+      expect(received[0].headers['content-type']).toBe('application/json')
+      expect(received[0].headers.authorization).toBe('Bearer token')
+    })
+
+    it('should reject on a non-2xx response', async () => {
+      status = 500
+
+      await expect(postHook(url, payload)).rejects.toThrow('returned HTTP 500')
+    })
+
+    it('should reject when the listener is unreachable', async () => {
+      await new Promise((resolve) => server.close(resolve))
+      server = createServer()
+      server.listen(0)
+
+      await expect(postHook(url, payload)).rejects.toThrow(`Hook ${url} failed`)
+    })
+
+    describe('runHooks', () => {
+      it('should only run hooks subscribed to the event and collect failures', async () => {
+        const hooks: HookConfig[] = [
+          { type: 'http', events: ['signed'], url },
+          { type: 'http', events: ['created'], url },
+          { type: 'command', events: ['signed'], command: node('process.exit(1)') },
+        ]
+
+        const errors = await runHooks(hooks, { ...payload, event: 'signed' })
+
+        expect(received).toHaveLength(1)
+        expect(received[0].body).toMatchObject({ event: 'signed' })
+        expect(errors).toHaveLength(1)
+        expect(errors[0]).toContain('exited with code 1')
+      })
+
+      it('should do nothing when no hook matches', async () => {
+        const errors = await runHooks([{ type: 'http', events: ['executed'], url }], payload)
+
+        expect(errors).toEqual([])
+        expect(received).toEqual([])
+      })
+    })
+  })
+
+  describe('createTransactionHookPayload', () => {
+    it('should describe the stored transaction', () => {
+      expect(createTransactionHookPayload('executed', tx)).toMatchObject({
+        event: 'executed',
+        safeTxHash: tx.safeTxHash,
+        safeAddress: TEST_ADDRESSES.safe1,
+        chainId: '1',
+        nonce: 7,
+        status: TransactionStatus.EXECUTED,
+        to: TEST_ADDRESSES.recipient1,
+        value: '100',
+        signers: [TEST_ADDRESSES.owner1],
+        txHash: tx.txHash,
+      })
+    })
+  })
+  describe('dispatchTransactionHooks', () => {
+    it('should track configured hook runs until they are awaited', async () => {
+      getHooks.mockReturnValue([
+        { type: 'command', events: ['executed'], command: node('setTimeout(()=>{},200)') },
+        { type: 'command', events: ['executed'], command: node('process.exit(1)') },
+        { type: 'command', events: ['created'], command: node('process.exit(1)') },
+      ] satisfies HookConfig[])
+
+      dispatchTransactionHooks('executed', tx)
+      expect(getPendingHookCount()).toBe(1)
+
+      const errors = await waitForHooks()
+      expect(errors).toHaveLength(1)
+      expect(getPendingHookCount()).toBe(0)
+      expect(await waitForHooks()).toEqual([])
+    })
+
+    it('should report an invalid hooks config instead of throwing', async () => {
+      getHooks.mockImplementation(() => {
+        throw new Error('Invalid hooks in config.json')
+      })
+
+      expect(() => dispatchTransactionHooks('executed', tx)).not.toThrow()
+      expect(await waitForHooks()).toEqual(['Hooks skipped: Invalid hooks in config.json'])
+    })
+  })
+})
@@ -4,6 +4,11 @@ import {
   generatePrivateKey,
   deriveWalletFromPrivateKey,
   generateWalletId,
+  generateMnemonicPhrase,
+  isValidMnemonic,
+  normalizeMnemonic,
+  getMnemonicDerivationPath,
+  deriveMnemonicAccount,
 } from '../../../utils/key-generation.js'
 import { isValidPrivateKey } from '../../../utils/validation.js'
 import { TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
@@ -245,4 +250,52 @@ describe('key-generation utils', () => {
       })
     })
   })
+
+  describe('mnemonics', () => {
+    // Hardhat / Anvil default seed phrase
+    const TEST_MNEMONIC = 'test test test test test test test test test test test junk'
+
+    it('should generate valid 12 and 24 word phrases', () => {
+      const short = generateMnemonicPhrase()
+      const long = generateMnemonicPhrase(24)
+
+      expect(short.split(' ')).toHaveLength(12)
+      expect(long.split(' ')).toHaveLength(24)
+      expect(isValidMnemonic(short)).toBe(true)
+      expect(isValidMnemonic(long)).toBe(true)
+      expect(generateMnemonicPhrase()).not.toBe(short)
+    })
+
+    it('should validate the BIP-39 checksum', () => {
+      // BIP-39 test vectors (all-zero entropy)
+      expect(isValidMnemonic(`${'abandon '.repeat(11)}about`)).toBe(true)
+      expect(isValidMnemonic(`${'abandon '.repeat(23)}art`)).toBe(true)
+
+      expect(isValidMnemonic('abandon '.repeat(12).trim())).toBe(false)
+      expect(isValidMnemonic(`${'abandon '.repeat(11)}abandonn`)).toBe(false)
+      expect(isValidMnemonic(`${'abandon '.repeat(10)}about`)).toBe(false)
+    })
+
+    it('should normalize case and whitespace', () => {
+      expect(normalizeMnemonic('  Test\tTEST  junk\n')).toBe('test test junk')
+      expect(isValidMnemonic(TEST_MNEMONIC.toUpperCase())).toBe(true)
+    })
+
+    it('should build BIP-44 Ethereum paths', () => {
+      expect(getMnemonicDerivationPath(0)).toBe("m/44'/60'/0'/0/0")
+      expect(getMnemonicDerivationPath(7, "m/44'/60'/1'/0")).toBe("m/44'/60'/1'/0/7")
+    })
+
+    it('should derive accounts by path', () => {
+      const first = deriveMnemonicAccount(TEST_MNEMONIC, getMnemonicDerivationPath(0))
+      const second = deriveMnemonicAccount(TEST_MNEMONIC, getMnemonicDerivationPath(1))
+
+      expect(first).toEqual({
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+        privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+      })
+      expect(second.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8')
+      expect(deriveWalletFromPrivateKey(second.privateKey).address).toBe(second.address)
+    })
+  })
 })
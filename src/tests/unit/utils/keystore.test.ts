@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decryptKeystore,
+  encryptKeystore,
+  getKeystoreFileName,
+  parseKeystore,
+} from '../../../utils/keystore.js'
+import { WalletError } from '../../../utils/errors.js'
+import { TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
+
+// Test vectors from the Web3 Secret Storage Definition
+const VECTOR_PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d'
+const VECTOR_PASSWORD = 'testpassword'
+
+const PBKDF2_KEYSTORE = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+}
+
+// scrypt with r = 1 and N = 2^18, beyond what OpenSSL accepts
+const WIKI_SCRYPT_KEYSTORE = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      p: 8,
+      r: 1,
+      salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19',
+    },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+}
+
+// Same key and password with geth-style scrypt parameters (r = 8)
+const SCRYPT_KEYSTORE = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '22'.repeat(16) },
+    ciphertext: 'b913b17d0a9a9ce090c56c4c0698669423e5db803a8287055c6face282c366a8',
+    kdf: 'scrypt',
+    kdfparams: { dklen: 32, n: 4096, p: 1, r: 8, salt: '11'.repeat(32) },
+    mac: '46445380f63d9cf20473b884e4a3716ce52fc73cf8c6860fc59b7b56bbe7dee8',
+  },
+  version: 3,
+}
+
+// Cheap scrypt parameters to keep round trips fast
+const FAST_PARAMS = { n: 1024, r: 8, p: 1 }
+
+describe('keystore utils', () => {
+  describe('parseKeystore', () => {
+    it('should parse a V3 keystore', () => {
+      expect(parseKeystore(JSON.stringify(PBKDF2_KEYSTORE)).crypto.kdf).toBe('pbkdf2')
+    })
+
+    it('should accept the capitalized "Crypto" key', () => {
+      const { crypto, ...rest } = WIKI_SCRYPT_KEYSTORE
+      expect(parseKeystore(JSON.stringify({ ...rest, Crypto: crypto })).crypto.kdf).toBe('scrypt')
+    })
+
+    it('should reject invalid files', () => {
+      expect(() => parseKeystore('not json')).toThrow('not a JSON file')
+      expect(() => parseKeystore(JSON.stringify({ ...PBKDF2_KEYSTORE, version: 1 }))).toThrow(
+        WalletError
+      )
+      expect(() =>
+        parseKeystore(
+          JSON.stringify({
+            ...PBKDF2_KEYSTORE,
+            crypto: { ...PBKDF2_KEYSTORE.crypto, cipher: 'aes-256-cbc' },
+          })
+        )
+      ).toThrow('Invalid keystore: crypto.cipher')
+    })
+  })
+
+  describe('decryptKeystore', () => {
+    it('should decrypt the pbkdf2 test vector', async () => {
+      const keystore = parseKeystore(JSON.stringify(PBKDF2_KEYSTORE))
+      expect(await decryptKeystore(keystore, VECTOR_PASSWORD)).toBe(VECTOR_PRIVATE_KEY)
+    })
+
+    it('should decrypt the scrypt test vector', async () => {
+      const keystore = parseKeystore(JSON.stringify(SCRYPT_KEYSTORE))
+      expect(await decryptKeystore(keystore, VECTOR_PASSWORD)).toBe(VECTOR_PRIVATE_KEY)
+    })
+
+    it('should report scrypt parameters Node cannot compute', async () => {
+      const keystore = parseKeystore(JSON.stringify(WIKI_SCRYPT_KEYSTORE))
+      await expect(decryptKeystore(keystore, VECTOR_PASSWORD)).rejects.toThrow(
+        'Unsupported keystore scrypt parameters'
+      )
+    })
+
+    it('should reject a wrong password', async () => {
+      const keystore = parseKeystore(JSON.stringify(PBKDF2_KEYSTORE))
+      await expect(decryptKeystore(keystore, 'wrong')).rejects.toThrow(
+        'Failed to decrypt keystore. Incorrect password?'
+      )
+    })
+
+    it('should reject a key that does not match the address', async () => {
+      const keystore = parseKeystore(
+        JSON.stringify({ ...PBKDF2_KEYSTORE, address: '0000000000000000000000000000000000000001' })
+      )
+      await expect(decryptKeystore(keystore, VECTOR_PASSWORD)).rejects.toThrow(
+        'key does not match address'
+      )
+    })
+  })
+
+  describe('encryptKeystore', () => {
+    it('should round-trip a private key', async () => {
+      const keystore = await encryptKeystore(TEST_PRIVATE_KEYS.owner1, 'secret', FAST_PARAMS)
+
+      expect(keystore).toMatchObject({
+        version: 3,
+        address: 'f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+        crypto: { cipher: 'aes-128-ctr', kdf: 'scrypt', kdfparams: { dklen: 32, n: 1024 } },
+      })
+      expect(keystore.id).toMatch(/^[0-9a-f-]{36}$/)
+
+      const reparsed = parseKeystore(JSON.stringify(keystore))
+      expect(await decryptKeystore(reparsed, 'secret')).toBe(TEST_PRIVATE_KEYS.owner1)
+    })
+
+    it('should use a fresh salt and IV each time', async () => {
+      const first = await encryptKeystore(TEST_PRIVATE_KEYS.owner1, 'secret', FAST_PARAMS)
+      const second = await encryptKeystore(TEST_PRIVATE_KEYS.owner1, 'secret', FAST_PARAMS)
+
+      expect(first.crypto.ciphertext).not.toBe(second.crypto.ciphertext)
+      expect(first.crypto.kdfparams.salt).not.toBe(second.crypto.kdfparams.salt)
+    })
+
+    it('should reject invalid private keys', async () => {
+      await expect(encryptKeystore('0x1234', 'secret', FAST_PARAMS)).rejects.toThrow(
+        'Invalid private key format'
+      )
+    })
+  })
+
+  describe('getKeystoreFileName', () => {
+    it('should follow the geth naming scheme', () => {
+      expect(
+        getKeystoreFileName(
+          '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+          new Date('2024-01-02T03:04:05.678Z')
+        )
+      ).toBe('UTC--2024-01-02T03-04-05.678Z--f39fd6e51aad88f6f4ce6ab8827279cfffb92266')
+    })
+  })
+})
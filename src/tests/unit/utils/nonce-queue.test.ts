@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeNonceQueue,
+  getNonceWarnings,
+  isQueuedTransaction,
+} from '../../../utils/nonce-queue.js'
+import { TransactionStatus, type StoredTransaction } from '../../../types/transaction.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+function createTx(
+  id: number,
+  nonce: number | undefined,
+  status: TransactionStatus = TransactionStatus.PENDING
+): StoredTransaction {
+  return {
+    safeTxHash: '0x' + id.toString(16).padStart(64, '0'),
+    safeAddress: TEST_ADDRESSES.safe1,
+    chainId: '1',
+    status,
+    metadata: { to: TEST_ADDRESSES.recipient1, value: '0', data: '0x', nonce },
+    signatures: [],
+    createdBy: TEST_ADDRESSES.owner1,
+    createdAt: new Date(1700000000000 + id * 1000).toISOString(),
+  }
+}
+
+describe('nonce-queue', () => {
+  describe('isQueuedTransaction', () => {
+    it('should treat pending and signed transactions as queued', () => {
+      expect(isQueuedTransaction(createTx(1, 0, TransactionStatus.PENDING))).toBe(true)
+      expect(isQueuedTransaction(createTx(2, 0, TransactionStatus.SIGNED))).toBe(true)
+    })
+
+    it('should not treat finished transactions as queued', () => {
+      expect(isQueuedTransaction(createTx(1, 0, TransactionStatus.EXECUTED))).toBe(false)
+      expect(isQueuedTransaction(createTx(2, 0, TransactionStatus.REJECTED))).toBe(false)
+      expect(isQueuedTransaction(createTx(3, 0, TransactionStatus.REPLACED))).toBe(false)
+    })
+  })
+
+  describe('analyzeNonceQueue', () => {
+    it('should order queued transactions by nonce', () => {
+      const queue = analyzeNonceQueue([createTx(1, 7), createTx(2, 5), createTx(3, 6)], 5)
+
+      expect(queue.entries.map((entry) => entry.nonce)).toEqual([5, 6, 7])
+      expect(queue.nextNonce).toBe(8)
+      expect(queue.duplicates).toEqual([])
+      expect(queue.gaps).toEqual([])
+      expect(queue.stale).toEqual([])
+    })
+
+    it('should use the on-chain nonce as next nonce when the queue is empty', () => {
+      const queue = analyzeNonceQueue([], 3)
+
+      expect(queue.entries).toEqual([])
+      expect(queue.nextNonce).toBe(3)
+    })
+
+    it('should detect duplicate nonces and keep creation order', () => {
+      const queue = analyzeNonceQueue([createTx(2, 5), createTx(1, 5), createTx(3, 6)], 5)
+
+      expect(queue.duplicates).toEqual([5])
+      expect(queue.entries[0].transactions.map((tx) => tx.safeTxHash)).toEqual([
+        createTx(1, 5).safeTxHash,
+        createTx(2, 5).safeTxHash,
+      ])
+    })
+
+    it('should detect gaps between the on-chain nonce and queued nonces', () => {
+      const queue = analyzeNonceQueue([createTx(1, 6), createTx(2, 9)], 5)
+
+      expect(queue.gaps).toEqual([5, 7, 8])
+      expect(queue.nextNonce).toBe(10)
+    })
+
+    it('should report queued transactions below the on-chain nonce as stale', () => {
+      const stale = createTx(1, 2, TransactionStatus.SIGNED)
+      const queue = analyzeNonceQueue([stale, createTx(2, 4)], 4)
+
+      expect(queue.stale).toEqual([stale])
+      expect(queue.entries.map((entry) => entry.nonce)).toEqual([4])
+    })
+
+    it('should ignore finished transactions and transactions without nonce', () => {
+      const queue = analyzeNonceQueue(
+        [
+          createTx(1, 2, TransactionStatus.EXECUTED),
+          createTx(2, 5, TransactionStatus.REJECTED),
+          createTx(3, undefined),
+        ],
+        4
+      )
+
+      expect(queue.entries).toEqual([])
+      expect(queue.stale).toEqual([])
+    })
+  })
+
+  describe('getNonceWarnings', () => {
+    it('should return no warnings for the next free nonce', () => {
+      const queue = analyzeNonceQueue([createTx(1, 5)], 5)
+
+      expect(getNonceWarnings(queue, 6)).toEqual([])
+    })
+
+    it('should warn when the nonce is already taken', () => {
+      const tx = createTx(1, 5)
+      const queue = analyzeNonceQueue([tx], 5)
+
+      const warnings = getNonceWarnings(queue, 5)
+
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]).toContain('Nonce 5 is already used')
+      expect(warnings[0]).toContain(tx.safeTxHash)
+    })
+
+    it('should warn when the nonce skips ahead of the queue', () => {
+      const queue = analyzeNonceQueue([createTx(1, 5)], 5)
+
+      expect(getNonceWarnings(queue, 8)).toEqual([
+        'Nonce 8 skips nonce(s) 6-7; it cannot execute until they are used',
+      ])
+    })
+
+    it('should warn when filling a later slot while an earlier gap remains', () => {
+      const queue = analyzeNonceQueue([createTx(1, 7)], 5)
+
+      expect(getNonceWarnings(queue, 6)).toEqual([
+        'Nonce 5 has no queued transaction; nonce 6 cannot execute until it is used',
+      ])
+      expect(getNonceWarnings(queue, 5)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { decodeFunctionData, type Address } from 'viem'
+import {
+  describeOwnerChange,
+  planOwnerChanges,
+  toOwnerChangeCalls,
+  type OwnerChange,
+} from '../../../utils/owner-changes.js'
+import { SENTINEL_ADDRESS } from '../../../constants/modules.js'
+import { SAFE_ABI } from '../../../constants/abis.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+const A = TEST_ADDRESSES.owner1
+const B = TEST_ADDRESSES.owner2
+const C = TEST_ADDRESSES.owner3
+const D = TEST_ADDRESSES.safe1
+const E = TEST_ADDRESSES.safe2
+
+/**
+ * Applies changes the way the Safe OwnerManager does, failing on a wrong prevOwner
+ * or an invalid intermediate threshold.
+ */
+function applyChanges(owners: Address[], threshold: number, changes: OwnerChange[]) {
+  const list = [...owners]
+  const prevOf = (owner: Address) => {
+    const index = list.indexOf(owner)
+    return index === 0 ? SENTINEL_ADDRESS : list[index - 1]
+  }
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'swapOwner':
+        expect(change.prevOwner).toBe(prevOf(change.oldOwner))
+        list[list.indexOf(change.oldOwner)] = change.newOwner
+        break
+      case 'addOwnerWithThreshold':
+        list.unshift(change.owner)
+        threshold = change.threshold
+        break
+      case 'removeOwner':
+        expect(change.prevOwner).toBe(prevOf(change.owner))
+        list.splice(list.indexOf(change.owner), 1)
+        threshold = change.threshold
+        break
+      case 'changeThreshold':
+        threshold = change.threshold
+        break
+    }
+    expect(threshold).toBeGreaterThanOrEqual(1)
+    expect(threshold).toBeLessThanOrEqual(list.length)
+  }
+
+  return { owners: list, threshold }
+}
+
+describe('owner-changes', () => {
+  describe('planOwnerChanges', () => {
+    it('should swap a single replaced owner', () => {
+      const changes = planOwnerChanges([A, B, C], 2, [A, D, C], 2)
+
+      expect(changes).toEqual([{ type: 'swapOwner', prevOwner: A, oldOwner: B, newOwner: D }])
+    })
+
+    it('should change only the threshold when owners are unchanged', () => {
+      expect(planOwnerChanges([A, B, C], 2, [C, B, A], 3)).toEqual([
+        { type: 'changeThreshold', threshold: 3 },
+      ])
+    })
+
+    it('should return no changes when nothing differs', () => {
+      expect(planOwnerChanges([A, B], 1, [A, B], 1)).toEqual([])
+    })
+
+    it('should fold the threshold into the last add', () => {
+      const changes = planOwnerChanges([A], 1, [A, B, C], 2)
+
+      expect(changes).toEqual([
+        { type: 'addOwnerWithThreshold', owner: B, threshold: 1 },
+        { type: 'addOwnerWithThreshold', owner: C, threshold: 2 },
+      ])
+    })
+
+    it('should keep intermediate thresholds valid while removing', () => {
+      const changes = planOwnerChanges([A, B, C], 3, [A], 1)
+
+      expect(changes.map((change) => change.type)).toEqual(['removeOwner', 'removeOwner'])
+      expect(applyChanges([A, B, C], 3, changes)).toEqual({ owners: [A], threshold: 1 })
+    })
+
+    it('should combine swaps with adds and track prevOwner through the list', () => {
+      const changes = planOwnerChanges([A, B, C], 2, [A, D, E, C], 3)
+
+      expect(changes.map((change) => change.type)).toEqual(['swapOwner', 'addOwnerWithThreshold'])
+      const result = applyChanges([A, B, C], 2, changes)
+      expect(new Set(result.owners)).toEqual(new Set([A, D, E, C]))
+      expect(result.threshold).toBe(3)
+    })
+
+    it('should combine swaps with removes and append changeThreshold after pure swaps', () => {
+      const changes = planOwnerChanges([A, B, C], 2, [D], 1)
+      expect(changes.map((change) => change.type)).toEqual([
+        'swapOwner',
+        'removeOwner',
+        'removeOwner',
+      ])
+      expect(applyChanges([A, B, C], 2, changes)).toEqual({ owners: [D], threshold: 1 })
+
+      const swaps = planOwnerChanges([A, B], 1, [C, D], 2)
+      expect(swaps.map((change) => change.type)).toEqual([
+        'swapOwner',
+        'swapOwner',
+        'changeThreshold',
+      ])
+      expect(applyChanges([A, B], 1, swaps)).toEqual({ owners: [C, D], threshold: 2 })
+    })
+
+    it('should match owners case-insensitively', () => {
+      expect(planOwnerChanges([A, B], 1, [A.toLowerCase() as Address, B], 1)).toEqual([])
+    })
+
+    it('should reject invalid target sets', () => {
+      expect(() => planOwnerChanges([A], 1, [], 1)).toThrow('At least one owner is required')
+      expect(() => planOwnerChanges([A], 1, [B, B], 1)).toThrow(`Duplicate owner: ${B}`)
+      expect(() => planOwnerChanges([A], 1, [SENTINEL_ADDRESS], 1)).toThrow(SafeCLIError)
+      expect(() => planOwnerChanges([A], 1, [A, B], 3)).toThrow('Threshold cannot exceed 2')
+      expect(() => planOwnerChanges([A], 1, [A, B], 0)).toThrow('Threshold must be at least 1')
+    })
+  })
+
+  describe('toOwnerChangeCalls', () => {
+    it('should encode calls to the Safe itself', () => {
+      const changes = planOwnerChanges([A, B], 1, [A, C, D], 2)
+      const calls = toOwnerChangeCalls(E, changes)
+
+      expect(calls).toHaveLength(2)
+      expect(calls.every((call) => call.to === E && call.value === '0')).toBe(true)
+      expect(decodeFunctionData({ abi: SAFE_ABI, data: calls[0].data })).toMatchObject({
+        functionName: 'swapOwner',
+        args: [A, B, C],
+      })
+      expect(decodeFunctionData({ abi: SAFE_ABI, data: calls[1].data })).toMatchObject({
+        functionName: 'addOwnerWithThreshold',
+        args: [D, 2n],
+      })
+    })
+  })
+
+  describe('describeOwnerChange', () => {
+    it('should describe each change type', () => {
+      expect(describeOwnerChange({ type: 'changeThreshold', threshold: 2 })).toBe(
+        'Change threshold to 2'
+      )
+      expect(
+        describeOwnerChange({ type: 'swapOwner', prevOwner: A, oldOwner: B, newOwner: C })
+      ).toBe(`Swap ${B} → ${C}`)
+    })
+  })
+})
@@ -5,15 +5,20 @@ import {
   ensureWalletIsOwner,
   parseAddressInput,
   selectTransaction,
+  selectMessage,
+  formatMessagePreview,
+  isRejectionTransaction,
 } from '../../../utils/safe-helpers.js'
 import * as p from '@clack/prompts'
 import type { SafeAccountStorage } from '../../../storage/safe-store.js'
 import type { ConfigStore } from '../../../storage/config-store.js'
 import type { TransactionStore } from '../../../storage/transaction-store.js'
+import type { MessageStore } from '../../../storage/message-store.js'
 import type { SafeAccount } from '../../../types/safe.js'
 import type { ChainConfig } from '../../../types/config.js'
 import type { Wallet } from '../../../types/wallet.js'
 import type { StoredTransaction } from '../../../types/transaction.js'
+import type { StoredMessage } from '../../../types/message.js'
 import { TEST_ADDRESSES, TEST_CHAINS } from '../../fixtures/index.js'
 import type { Address } from 'viem'
 
@@ -465,4 +470,131 @@ describe('safe-helpers', () => {
       expect(selectCall.message).toBe('Custom select message')
     })
   })
+
+  describe('isRejectionTransaction', () => {
+    const baseTx = {
+      safeTxHash: '0x' + 'a'.repeat(64),
+      safeAddress: TEST_ADDRESSES.safe1,
+      chainId: '1',
+      signatures: [],
+      status: 'pending',
+      createdBy: TEST_ADDRESSES.owner1,
+      createdAt: new Date().toISOString(),
+    } as unknown as StoredTransaction
+
+    it('should detect zero-value empty self-call', () => {
+      const tx = {
+        ...baseTx,
+        metadata: { to: TEST_ADDRESSES.safe1.toLowerCase() as Address, value: '0', data: '0x' },
+      } as StoredTransaction
+
+      expect(isRejectionTransaction(tx)).toBe(true)
+    })
+
+    it('should not treat calls to other addresses as rejections', () => {
+      const tx = {
+        ...baseTx,
+        metadata: { to: TEST_ADDRESSES.owner1, value: '0', data: '0x' },
+      } as StoredTransaction
+
+      expect(isRejectionTransaction(tx)).toBe(false)
+    })
+
+    it('should not treat self-calls with data or value as rejections', () => {
+      const withData = {
+        ...baseTx,
+        metadata: { to: TEST_ADDRESSES.safe1, value: '0', data: '0x694e80c3' },
+      } as StoredTransaction
+      const withValue = {
+        ...baseTx,
+        metadata: { to: TEST_ADDRESSES.safe1, value: '1', data: '0x' },
+      } as StoredTransaction
+
+      expect(isRejectionTransaction(withData)).toBe(false)
+      expect(isRejectionTransaction(withValue)).toBe(false)
+    })
+  })
+
+  describe('formatMessagePreview', () => {
+    it('should return short text unchanged', () => {
+      expect(formatMessagePreview('Hello Safe')).toBe('Hello Safe')
+    })
+
+    it('should collapse whitespace and truncate long text', () => {
+      const message = 'example.com wants you to sign in\nwith your Ethereum account'
+      expect(formatMessagePreview(message, 20)).toBe('example.com wants yo...')
+    })
+
+    it('should describe typed data by primary type and domain name', () => {
+      expect(
+        formatMessagePreview({
+          domain: { name: 'CoW Protocol' },
+          types: { Order: [] },
+          primaryType: 'Order',
+          message: {},
+        })
+      ).toBe('EIP-712 Order (CoW Protocol)')
+    })
+  })
+
+  describe('selectMessage', () => {
+    const mockMessage: StoredMessage = {
+      messageHash: '0xmsg123',
+      chainId: '1',
+      safeAddress: TEST_ADDRESSES.safe1,
+      message: 'Hello Safe',
+      signatures: [],
+      createdBy: TEST_ADDRESSES.owner1,
+      createdAt: new Date().toISOString(),
+    }
+
+    const mockSafeStorage = {
+      getSafe: vi.fn(() => ({ name: 'My Safe' })),
+    } as unknown as SafeAccountStorage
+
+    const mockConfigStore = {
+      getAllChains: vi.fn(() => ({ '1': TEST_CHAINS.ethereum })),
+    } as unknown as ConfigStore
+
+    it('should return selected message hash', async () => {
+      const mockMessageStore = {
+        getAllMessages: vi.fn(() => [mockMessage]),
+      } as unknown as MessageStore
+
+      vi.mocked(p.select).mockResolvedValue('0xmsg123')
+      vi.mocked(p.isCancel).mockReturnValue(false)
+
+      const result = await selectMessage(mockMessageStore, mockSafeStorage, mockConfigStore)
+      expect(result).toBe('0xmsg123')
+
+      const selectCall = vi.mocked(p.select).mock.calls[0][0]
+      expect(selectCall.options[0].label).toContain('Hello Safe')
+    })
+
+    it('should return null when no messages found', async () => {
+      const mockMessageStore = {
+        getAllMessages: vi.fn(() => []),
+      } as unknown as MessageStore
+
+      vi.mocked(p.log.error).mockImplementation(() => {})
+      vi.mocked(p.outro).mockImplementation(() => {})
+
+      const result = await selectMessage(mockMessageStore, mockSafeStorage, mockConfigStore)
+      expect(result).toBeNull()
+      expect(p.log.error).toHaveBeenCalledWith('No messages found')
+    })
+
+    it('should return null when selection is cancelled', async () => {
+      const mockMessageStore = {
+        getAllMessages: vi.fn(() => [mockMessage]),
+      } as unknown as MessageStore
+
+      vi.mocked(p.select).mockResolvedValue(Symbol('cancel'))
+      vi.mocked(p.isCancel).mockReturnValue(true)
+      vi.mocked(p.cancel).mockImplementation(() => {})
+
+      const result = await selectMessage(mockMessageStore, mockSafeStorage, mockConfigStore)
+      expect(result).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  concat,
+  encodeAbiParameters,
+  hashMessage,
+  hashTypedData,
+  keccak256,
+  toHex,
+  type TypedDataDefinition,
+} from 'viem'
+import {
+  getSafeMessageHashes,
+  getSafeMessageTypedData,
+  hashSafeMessageContent,
+} from '../../../utils/safe-message-hash.js'
+import { getSafeTxHashes } from '../../../utils/safe-tx-hash.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+import type { EIP712TypedData } from '../../../types/message.js'
+
+// keccak256("SafeMessage(bytes message)") as defined in the Safe contracts
+const SAFE_MSG_TYPEHASH = '0x60b3cbf8b4a223d68d641b3b6ddf9a298e7f33710cf3d3a9d1146b5a6150fbca'
+
+const typedData: EIP712TypedData = {
+  domain: { name: 'Test App', version: '1', chainId: 1 },
+  types: {
+    Order: [
+      { name: 'maker', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  primaryType: 'Order',
+  message: { maker: TEST_ADDRESSES.owner1, amount: '1000' },
+}
+
+describe('safe-message-hash utils', () => {
+  describe('hashSafeMessageContent', () => {
+    it('should hash plain text with EIP-191', () => {
+      expect(hashSafeMessageContent('Hello Safe')).toBe(hashMessage('Hello Safe'))
+    })
+
+    it('should hash typed data with EIP-712', () => {
+      expect(hashSafeMessageContent(typedData)).toBe(
+        hashTypedData(typedData as unknown as TypedDataDefinition)
+      )
+    })
+  })
+
+  describe('getSafeMessageTypedData', () => {
+    it('should wrap the message hash in a SafeMessage struct', () => {
+      const result = getSafeMessageTypedData('1', TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+
+      expect(result.primaryType).toBe('SafeMessage')
+      expect(result.domain).toEqual({ chainId: 1n, verifyingContract: TEST_ADDRESSES.safe1 })
+      expect(result.message).toEqual({ message: hashMessage('Hello Safe') })
+    })
+
+    it('should omit chainId from the domain before Safe 1.3.0', () => {
+      const result = getSafeMessageTypedData('1', TEST_ADDRESSES.safe1, 'Hello Safe', '1.1.1')
+
+      expect(result.domain).toEqual({ verifyingContract: TEST_ADDRESSES.safe1 })
+    })
+  })
+
+  describe('getSafeMessageHashes', () => {
+    it('should match the Safe contract struct hash', () => {
+      expect(keccak256(toHex('SafeMessage(bytes message)'))).toBe(SAFE_MSG_TYPEHASH)
+
+      const { structHash } = getSafeMessageHashes('1', TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+
+      expect(structHash).toBe(
+        keccak256(
+          encodeAbiParameters(
+            [{ type: 'bytes32' }, { type: 'bytes32' }],
+            [SAFE_MSG_TYPEHASH, keccak256(hashMessage('Hello Safe'))]
+          )
+        )
+      )
+    })
+
+    it('should compute the hash from domain separator and struct hash', () => {
+      const { domainSeparator, structHash, messageHash } = getSafeMessageHashes(
+        '1',
+        TEST_ADDRESSES.safe1,
+        typedData,
+        '1.4.1'
+      )
+
+      expect(messageHash).toBe(keccak256(concat(['0x1901', domainSeparator, structHash])))
+    })
+
+    it('should share the domain separator with SafeTx', () => {
+      const message = getSafeMessageHashes('1', TEST_ADDRESSES.safe1, 'Hello Safe', '1.3.0')
+      const tx = getSafeTxHashes(
+        '1',
+        TEST_ADDRESSES.safe1,
+        { to: TEST_ADDRESSES.owner1, value: '0', data: '0x', nonce: 0 },
+        '1.3.0'
+      )
+
+      expect(message.domainSeparator).toBe(tx.domainSeparator)
+    })
+
+    it('should differ per Safe', () => {
+      const first = getSafeMessageHashes('1', TEST_ADDRESSES.safe1, 'Hello Safe', '1.4.1')
+      const second = getSafeMessageHashes('1', TEST_ADDRESSES.safe2, 'Hello Safe', '1.4.1')
+
+      expect(first.messageHash).not.toBe(second.messageHash)
+    })
+  })
+})
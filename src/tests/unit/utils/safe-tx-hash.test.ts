@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest'
+import { concat, hashMessage, hashTypedData, keccak256, pad, sliceHex, toHex } from 'viem'
+import { privateKeyToAccount, sign } from 'viem/accounts'
+import {
+  findSafeTxNonce,
+  getSafeTxHashes,
+  getSafeTxTypedData,
+  getSafeTxTypedDataJson,
+  normalizeSafeTxSignature,
+  packSafeSignatures,
+  recoverSafeTxSigner,
+  recoverSafeTxSigners,
+} from '../../../utils/safe-tx-hash.js'
+import { TEST_ADDRESSES, TEST_PRIVATE_KEYS } from '../../fixtures/index.js'
+import type { TransactionMetadata } from '../../../types/transaction.js'
+
+const metadata: TransactionMetadata = {
+  to: TEST_ADDRESSES.owner2,
+  value: '1000000000000000000',
+  data: '0x',
+  operation: 0,
+  nonce: 7,
+}
+
+describe('safe-tx-hash utils', () => {
+  describe('getSafeTxTypedData', () => {
+    it('should include chainId in the domain for Safe 1.3.0+', () => {
+      const typedData = getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.3.0')
+
+      expect(typedData.domain).toEqual({ chainId: 1n, verifyingContract: TEST_ADDRESSES.safe1 })
+    })
+
+    it('should omit chainId from the domain before Safe 1.3.0', () => {
+      const typedData = getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.2.0')
+
+      expect(typedData.domain).toEqual({ verifyingContract: TEST_ADDRESSES.safe1 })
+    })
+
+    it('should fill in default gas and refund fields', () => {
+      const typedData = getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+      expect(typedData.message).toEqual({
+        to: TEST_ADDRESSES.owner2,
+        value: 1000000000000000000n,
+        data: '0x',
+        operation: 0,
+        safeTxGas: 0n,
+        baseGas: 0n,
+        gasPrice: 0n,
+        gasToken: '0x0000000000000000000000000000000000000000',
+        refundReceiver: '0x0000000000000000000000000000000000000000',
+        nonce: 7n,
+      })
+    })
+
+    it('should throw on invalid Safe version', () => {
+      expect(() => getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, 'abc')).toThrow(
+        'Invalid Safe version: abc'
+      )
+    })
+
+    it('should throw on unsupported Safe version', () => {
+      expect(() => getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '0.1.0')).toThrow(
+        'Safe version 0.1.0 is not supported'
+      )
+    })
+  })
+
+  describe('getSafeTxHashes', () => {
+    it('should compute the hash from domain separator and struct hash', () => {
+      const { domainSeparator, structHash, safeTxHash } = getSafeTxHashes(
+        '1',
+        TEST_ADDRESSES.safe1,
+        metadata,
+        '1.4.1'
+      )
+
+      expect(safeTxHash).toBe(keccak256(concat(['0x1901', domainSeparator, structHash])))
+    })
+
+    it('should depend on the chain for Safe 1.3.0+', () => {
+      const mainnet = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      const sepolia = getSafeTxHashes('11155111', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+      expect(mainnet.safeTxHash).not.toBe(sepolia.safeTxHash)
+      expect(mainnet.structHash).toBe(sepolia.structHash)
+    })
+
+    it('should not depend on the chain before Safe 1.3.0', () => {
+      const mainnet = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.1.1')
+      const sepolia = getSafeTxHashes('11155111', TEST_ADDRESSES.safe1, metadata, '1.1.1')
+
+      expect(mainnet.safeTxHash).toBe(sepolia.safeTxHash)
+    })
+
+    it('should depend on the nonce', () => {
+      const first = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      const second = getSafeTxHashes('1', TEST_ADDRESSES.safe1, { ...metadata, nonce: 8 }, '1.4.1')
+
+      expect(first.safeTxHash).not.toBe(second.safeTxHash)
+    })
+  })
+
+  describe('recoverSafeTxSigner', () => {
+    const account = privateKeyToAccount(TEST_PRIVATE_KEYS.owner1 as `0x${string}`)
+
+    it('should recover the signer of an EIP-712 signature', async () => {
+      const typedData = getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      const signature = await account.signTypedData(typedData)
+
+      const signer = await recoverSafeTxSigner(safeTxHash, signature)
+
+      expect(signer).toBe(account.address)
+    })
+
+    it('should recover the signer of an eth_sign signature (v + 4)', async () => {
+      const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      const { r, s, v } = await sign({
+        hash: hashMessage({ raw: safeTxHash }),
+        privateKey: TEST_PRIVATE_KEYS.owner1 as `0x${string}`,
+      })
+      const signature = concat([r, s, toHex(Number(v) + 4, { size: 1 })])
+
+      const signer = await recoverSafeTxSigner(safeTxHash, signature)
+
+      expect(signer).toBe(account.address)
+    })
+
+    it('should throw on invalid signature length', async () => {
+      const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+      await expect(recoverSafeTxSigner(safeTxHash, toHex(1, { size: 64 }))).rejects.toThrow(
+        'Invalid signature length'
+      )
+    })
+  })
+
+  describe('getSafeTxTypedDataJson', () => {
+    it('should build a JSON-safe eth_signTypedData_v4 payload', () => {
+      const typedData = getSafeTxTypedDataJson('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+      expect(typedData.types.EIP712Domain).toEqual([
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ])
+      expect(typedData.domain).toEqual({ chainId: 1, verifyingContract: TEST_ADDRESSES.safe1 })
+      expect(typedData.message).toMatchObject({ value: '1000000000000000000', nonce: '7' })
+      expect(JSON.parse(JSON.stringify(typedData))).toEqual(typedData)
+    })
+
+    it('should hash to the SafeTx hash', () => {
+      const typedData = getSafeTxTypedDataJson('1', TEST_ADDRESSES.safe1, metadata, '1.1.1')
+      const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.1.1')
+
+      expect(typedData.domain).toEqual({ verifyingContract: TEST_ADDRESSES.safe1 })
+      expect(hashTypedData(typedData as Parameters<typeof hashTypedData>[0])).toBe(safeTxHash)
+    })
+  })
+
+  describe('normalizeSafeTxSignature', () => {
+    const account = privateKeyToAccount(TEST_PRIVATE_KEYS.owner1 as `0x${string}`)
+    const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+    it('should keep EIP-712 signatures of the owner', async () => {
+      const signature = await account.signTypedData(
+        getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      )
+
+      expect(await normalizeSafeTxSignature(safeTxHash, signature, account.address)).toBe(signature)
+    })
+
+    it('should move v = 0/1 to 27/28', async () => {
+      const signature = await account.signTypedData(
+        getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      )
+      const v = parseInt(signature.slice(-2), 16)
+      const compact = concat([sliceHex(signature, 0, 64), toHex(v - 27, { size: 1 })])
+
+      expect(await normalizeSafeTxSignature(safeTxHash, compact, account.address)).toBe(signature)
+    })
+
+    it('should mark personal_sign signatures of the hash as eth_sign (v + 4)', async () => {
+      const signature = await account.signMessage({ message: { raw: safeTxHash } })
+      const v = parseInt(signature.slice(-2), 16)
+
+      expect(await normalizeSafeTxSignature(safeTxHash, signature, account.address)).toBe(
+        concat([sliceHex(signature, 0, 64), toHex(v + 4, { size: 1 })])
+      )
+    })
+
+    it('should reject signatures of another owner', async () => {
+      const signature = await account.signTypedData(
+        getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+      )
+
+      await expect(
+        normalizeSafeTxSignature(safeTxHash, signature, TEST_ADDRESSES.owner2)
+      ).rejects.toThrow(`Signature does not recover to ${TEST_ADDRESSES.owner2}`)
+      await expect(normalizeSafeTxSignature(safeTxHash, '0x1234', account.address)).rejects.toThrow(
+        'Invalid signature length'
+      )
+    })
+  })
+
+  describe('recoverSafeTxSigners', () => {
+    const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+    const typedData = getSafeTxTypedData('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+    it('should recover every ECDSA signer in order', async () => {
+      const owner1 = privateKeyToAccount(TEST_PRIVATE_KEYS.owner1 as `0x${string}`)
+      const owner2 = privateKeyToAccount(TEST_PRIVATE_KEYS.owner2 as `0x${string}`)
+      const signatures = concat([
+        await owner1.signTypedData(typedData),
+        await owner2.signTypedData(typedData),
+      ])
+
+      const signers = await recoverSafeTxSigners(safeTxHash, signatures)
+
+      expect(signers).toEqual([owner1.address, owner2.address])
+    })
+
+    it('should read the owner of an approved hash from r', async () => {
+      const signature = concat([pad(TEST_ADDRESSES.owner3), pad('0x00'), '0x01'])
+
+      const signers = await recoverSafeTxSigners(safeTxHash, signature)
+
+      expect(signers).toEqual([TEST_ADDRESSES.owner3])
+    })
+
+    it('should stop at the dynamic part of contract signatures', async () => {
+      // Static part pointing at offset 65, followed by length and contract signature data
+      const signature = concat([
+        pad(TEST_ADDRESSES.owner4),
+        pad(toHex(65)),
+        '0x00',
+        pad(toHex(65)),
+        toHex(1, { size: 65 }),
+      ])
+
+      const signers = await recoverSafeTxSigners(safeTxHash, signature)
+
+      expect(signers).toEqual([TEST_ADDRESSES.owner4])
+    })
+
+    it('should return no signers for empty signatures', async () => {
+      expect(await recoverSafeTxSigners(safeTxHash, '0x')).toEqual([])
+    })
+  })
+
+  describe('findSafeTxNonce', () => {
+    const { to, value, data, operation } = metadata
+    const { safeTxHash } = getSafeTxHashes('1', TEST_ADDRESSES.safe1, metadata, '1.4.1')
+
+    it('should find the nonce below the current Safe nonce', () => {
+      const nonce = findSafeTxNonce(
+        '1',
+        TEST_ADDRESSES.safe1,
+        { to, value, data, operation },
+        '1.4.1',
+        safeTxHash,
+        10
+      )
+
+      expect(nonce).toBe(7)
+    })
+
+    it('should accept the expected nonce', () => {
+      const nonce = findSafeTxNonce(
+        '1',
+        TEST_ADDRESSES.safe1,
+        { to, value, data, operation },
+        '1.4.1',
+        safeTxHash,
+        10,
+        7
+      )
+
+      expect(nonce).toBe(7)
+    })
+
+    it('should return undefined when no nonce matches', () => {
+      const nonce = findSafeTxNonce(
+        '1',
+        TEST_ADDRESSES.safe1,
+        { to, value, data, operation },
+        '1.4.1',
+        safeTxHash,
+        7
+      )
+
+      expect(nonce).toBeUndefined()
+    })
+  })
+  describe('packSafeSignatures', () => {
+    const sig = (byte: string) => `0x${byte.repeat(65)}`
+
+    it('should sort signatures by owner address', () => {
+      const packed = packSafeSignatures([
+        { signer: '0x00000000000000000000000000000000000000B0', signature: sig('bb') },
+        { signer: '0x00000000000000000000000000000000000000a0', signature: sig('aa') },
+      ])
+
+      expect(packed).toBe(concat([sig('aa'), sig('bb')] as `0x${string}`[]))
+    })
+
+    it('should reject signatures that are not 65 bytes', () => {
+      expect(() =>
+        packSafeSignatures([{ signer: TEST_ADDRESSES.owner1, signature: '0x1234' }])
+      ).toThrow('Invalid signature length')
+    })
+
+    it('should return empty bytes without signatures', () => {
+      expect(packSafeSignatures([])).toBe('0x')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import type { Address } from 'viem'
+import { compareSafeVersions, planSafeUpgrade } from '../../../utils/safe-upgrade.js'
+import {
+  SAFE_UPGRADE_TARGETS,
+  getKnownFallbackHandlerName,
+  getKnownSingleton,
+} from '../../../constants/singletons.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+const SINGLETON_1_1_1 = '0x34CfAC646f301356fAa8B21e94227e3583Fe3F5F' as Address
+const SINGLETON_1_3_0 = '0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552' as Address
+const SINGLETON_L2_1_3_0 = '0x3E5c63644E683549055b9Be8653de26E0B4CD36E' as Address
+const HANDLER_1_3_0 = '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4' as Address
+
+describe('safe-upgrade', () => {
+  const target = SAFE_UPGRADE_TARGETS['1.4.1']
+
+  describe('compareSafeVersions', () => {
+    it('should order versions numerically', () => {
+      expect(compareSafeVersions('1.3.0', '1.4.1')).toBeLessThan(0)
+      expect(compareSafeVersions('1.10.0', '1.4.1')).toBeGreaterThan(0)
+      expect(compareSafeVersions('1.4.1', '1.4.1')).toBe(0)
+    })
+  })
+
+  describe('planSafeUpgrade', () => {
+    it('should use the SafeMigration contract for 1.3.0', () => {
+      const plan = planSafeUpgrade(
+        { masterCopy: SINGLETON_1_3_0, fallbackHandler: HANDLER_1_3_0 },
+        '1.4.1'
+      )
+
+      expect(plan).toEqual({
+        fromVersion: '1.3.0',
+        toVersion: '1.4.1',
+        method: 'migration',
+        l2: false,
+        currentSingleton: SINGLETON_1_3_0,
+        newSingleton: target.singleton,
+        currentFallbackHandler: HANDLER_1_3_0,
+        newFallbackHandler: target.fallbackHandler,
+        migrationContract: target.migration,
+      })
+    })
+
+    it('should keep L2 Safes on the L2 singleton', () => {
+      const plan = planSafeUpgrade(
+        { masterCopy: SINGLETON_L2_1_3_0, fallbackHandler: null },
+        '1.4.1'
+      )
+
+      expect(plan.l2).toBe(true)
+      expect(plan.newSingleton).toBe(target.singletonL2)
+    })
+
+    it('should use changeMasterCopy for Safes older than 1.3.0', () => {
+      const plan = planSafeUpgrade({ masterCopy: SINGLETON_1_1_1, fallbackHandler: null }, '1.4.1')
+
+      expect(plan.method).toBe('changeMasterCopy')
+      expect(plan.fromVersion).toBe('1.1.1')
+      expect(plan.migrationContract).toBeUndefined()
+    })
+
+    it('should reject unsupported target versions', () => {
+      expect(() =>
+        planSafeUpgrade({ masterCopy: SINGLETON_1_3_0, fallbackHandler: null }, '9.9.9')
+      ).toThrow('Unsupported target version 9.9.9')
+    })
+
+    it('should reject Safes already on the target version', () => {
+      expect(() =>
+        planSafeUpgrade({ masterCopy: target.singleton, fallbackHandler: null }, '1.4.1')
+      ).toThrow('Safe is already on version 1.4.1')
+    })
+
+    it('should reject unknown singletons', () => {
+      expect(() =>
+        planSafeUpgrade({ masterCopy: TEST_ADDRESSES.owner1, fallbackHandler: null }, '1.4.1')
+      ).toThrow(SafeCLIError)
+    })
+
+    it('should reject Safes without a detectable singleton', () => {
+      expect(() => planSafeUpgrade({ masterCopy: null, fallbackHandler: null }, '1.4.1')).toThrow(
+        'Could not determine the singleton of this Safe'
+      )
+    })
+  })
+
+  describe('known deployments', () => {
+    it('should look up singletons and handlers case-insensitively', () => {
+      expect(getKnownSingleton(SINGLETON_1_3_0.toUpperCase())).toEqual({
+        version: '1.3.0',
+        l2: false,
+      })
+      expect(getKnownFallbackHandlerName(HANDLER_1_3_0.toLowerCase())).toBe(
+        'CompatibilityFallbackHandler 1.3.0'
+      )
+      expect(getKnownSingleton(TEST_ADDRESSES.owner1)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import type { Address } from 'viem'
+import { getPreviousInSentinelList } from '../../../utils/sentinel-list.js'
+import { SENTINEL_ADDRESS, getKnownModuleName } from '../../../constants/modules.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+describe('sentinel-list', () => {
+  const list = [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2, TEST_ADDRESSES.owner3]
+
+  describe('getPreviousInSentinelList', () => {
+    it('should return the sentinel for the first entry', () => {
+      expect(getPreviousInSentinelList(list, TEST_ADDRESSES.owner1)).toBe(SENTINEL_ADDRESS)
+    })
+
+    it('should return the preceding entry', () => {
+      expect(getPreviousInSentinelList(list, TEST_ADDRESSES.owner2)).toBe(TEST_ADDRESSES.owner1)
+      expect(getPreviousInSentinelList(list, TEST_ADDRESSES.owner3)).toBe(TEST_ADDRESSES.owner2)
+    })
+
+    it('should match addresses case-insensitively', () => {
+      expect(getPreviousInSentinelList(list, TEST_ADDRESSES.owner3.toLowerCase() as Address)).toBe(
+        TEST_ADDRESSES.owner2
+      )
+    })
+
+    it('should throw for entries not in the list', () => {
+      expect(() => getPreviousInSentinelList(list, TEST_ADDRESSES.safe1)).toThrow(SafeCLIError)
+      expect(() => getPreviousInSentinelList([], TEST_ADDRESSES.owner1)).toThrow('not in the list')
+    })
+  })
+
+  describe('getKnownModuleName', () => {
+    it('should name canonical modules regardless of case', () => {
+      expect(getKnownModuleName('0xAA46724893dedD72658219405185Fb0Fc91e091C')).toBe(
+        'AllowanceModule 0.1.1'
+      )
+      expect(getKnownModuleName('0xaa46724893dedd72658219405185fb0fc91e091c')).toBe(
+        'AllowanceModule 0.1.1'
+      )
+    })
+
+    it('should return undefined for unknown modules', () => {
+      expect(getKnownModuleName(TEST_ADDRESSES.owner1)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { decodeFunctionData, getAddress, zeroAddress } from 'viem'
+import {
+  encodeNftTransfer,
+  encodeTokenTransfer,
+  parseTokenAmount,
+} from '../../../utils/token-transfer.js'
+import { ERC20_ABI, ERC721_ABI } from '../../../constants/abis.js'
+import { KNOWN_TOKENS, findKnownToken } from '../../../constants/tokens.js'
+import { SafeCLIError } from '../../../utils/errors.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+describe('token transfer utils', () => {
+  describe('parseTokenAmount', () => {
+    it('should parse decimal amounts into base units', () => {
+      expect(parseTokenAmount('12.5', 6)).toBe(12_500_000n)
+      expect(parseTokenAmount('1', 18)).toBe(10n ** 18n)
+      expect(parseTokenAmount(' 0.000001 ', 6)).toBe(1n)
+    })
+
+    it('should reject malformed amounts', () => {
+      expect(() => parseTokenAmount('', 18)).toThrow(SafeCLIError)
+      expect(() => parseTokenAmount('-1', 18)).toThrow('Invalid amount')
+      expect(() => parseTokenAmount('1e18', 18)).toThrow('Invalid amount')
+      expect(() => parseTokenAmount('1.', 18)).toThrow('Invalid amount')
+    })
+
+    it('should reject more decimals than the token supports', () => {
+      expect(() => parseTokenAmount('0.0000001', 6)).toThrow('more than 6 decimal places')
+      expect(() => parseTokenAmount('1.5', 0)).toThrow('more than 0 decimal places')
+    })
+
+    it('should reject zero', () => {
+      expect(() => parseTokenAmount('0.00', 6)).toThrow('greater than zero')
+    })
+  })
+
+  describe('encodeTokenTransfer', () => {
+    it('should send value directly for the native currency', () => {
+      const call = encodeTokenTransfer(zeroAddress, TEST_ADDRESSES.recipient1, 5n)
+
+      expect(call).toEqual({ to: TEST_ADDRESSES.recipient1, value: '5', data: '0x' })
+    })
+
+    it('should call transfer on ERC-20 tokens', () => {
+      const call = encodeTokenTransfer(TEST_ADDRESSES.erc20Token, TEST_ADDRESSES.recipient1, 5n)
+      const decoded = decodeFunctionData({ abi: ERC20_ABI, data: call.data })
+
+      expect(call.to).toBe(TEST_ADDRESSES.erc20Token)
+      expect(call.value).toBe('0')
+      expect(decoded.functionName).toBe('transfer')
+      expect(decoded.args).toEqual([TEST_ADDRESSES.recipient1, 5n])
+    })
+  })
+
+  describe('encodeNftTransfer', () => {
+    it('should call safeTransferFrom from the Safe', () => {
+      const call = encodeNftTransfer(
+        TEST_ADDRESSES.erc721Token,
+        TEST_ADDRESSES.safe1,
+        TEST_ADDRESSES.recipient1,
+        42n
+      )
+      const decoded = decodeFunctionData({ abi: ERC721_ABI, data: call.data })
+
+      expect(call.to).toBe(TEST_ADDRESSES.erc721Token)
+      expect(call.value).toBe('0')
+      expect(decoded.functionName).toBe('safeTransferFrom')
+      expect(decoded.args).toEqual([TEST_ADDRESSES.safe1, TEST_ADDRESSES.recipient1, 42n])
+    })
+  })
+
+  describe('findKnownToken', () => {
+    it('should resolve symbols case-insensitively per chain', () => {
+      expect(findKnownToken('1', 'usdc')).toBe('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48')
+      expect(findKnownToken('8453', 'USDC')).toBe('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')
+    })
+
+    it('should return undefined for unknown symbols or chains', () => {
+      expect(findKnownToken('1', 'NOPE')).toBeUndefined()
+      expect(findKnownToken('999999', 'USDC')).toBeUndefined()
+    })
+
+    it('should only contain checksummed addresses', () => {
+      for (const tokens of Object.values(KNOWN_TOKENS)) {
+        for (const address of Object.values(tokens)) {
+          expect(getAddress(address)).toBe(address)
+        }
+      }
+    })
+  })
+})
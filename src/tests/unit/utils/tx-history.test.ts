@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatDecodedCall,
+  fromSafeExecution,
+  fromServiceTransaction,
+  fromStoredTransaction,
+  historyToCsv,
+  mergeHistory,
+  type HistoryEntry,
+} from '../../../utils/tx-history.js'
+import { TransactionStatus, type StoredTransaction } from '../../../types/transaction.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+const SAFE_TX_HASH = `0x${'ab'.repeat(32)}`
+const TX_HASH = `0x${'cd'.repeat(32)}` as `0x${string}`
+
+function entry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    safeTxHash: SAFE_TX_HASH,
+    status: 'executed',
+    signers: [],
+    sources: ['local'],
+    ...overrides,
+  }
+}
+
+describe('tx-history utils', () => {
+  describe('fromStoredTransaction', () => {
+    it('should map metadata and signers of a local transaction', () => {
+      const tx: StoredTransaction = {
+        safeTxHash: SAFE_TX_HASH,
+        safeAddress: TEST_ADDRESSES.safe1,
+        chainId: '1',
+        status: TransactionStatus.SIGNED,
+        metadata: { to: TEST_ADDRESSES.recipient1, value: '5', data: '0x', nonce: 3 },
+        signatures: [
+          { signer: TEST_ADDRESSES.owner1, signature: '0x', signedAt: '2024-01-01T00:00:00Z' },
+        ],
+        createdBy: TEST_ADDRESSES.owner1,
+        createdAt: '2024-01-01T00:00:00Z',
+      }
+
+      expect(fromStoredTransaction(tx)).toEqual({
+        safeTxHash: SAFE_TX_HASH,
+        nonce: 3,
+        status: 'signed',
+        to: TEST_ADDRESSES.recipient1,
+        value: '5',
+        data: '0x',
+        operation: 0,
+        signers: [TEST_ADDRESSES.owner1],
+        timestamp: undefined,
+        txHash: undefined,
+        sources: ['local'],
+      })
+    })
+  })
+
+  describe('fromServiceTransaction', () => {
+    const record = {
+      txType: 'MULTISIG_TRANSACTION',
+      safeTxHash: SAFE_TX_HASH,
+      nonce: '12',
+      to: TEST_ADDRESSES.recipient1.toLowerCase(),
+      value: '0',
+      data: null,
+      operation: 0,
+      isExecuted: true,
+      isSuccessful: true,
+      executor: TEST_ADDRESSES.owner2.toLowerCase(),
+      transactionHash: TX_HASH,
+      executionDate: '2024-05-01T12:00:00Z',
+      blockNumber: 19_000_000,
+      gasUsed: 85_000,
+      confirmations: [{ owner: TEST_ADDRESSES.owner1.toLowerCase() }],
+    }
+
+    it('should map an executed multisig transaction', () => {
+      expect(fromServiceTransaction(record)).toEqual({
+        safeTxHash: SAFE_TX_HASH,
+        nonce: 12,
+        status: 'executed',
+        to: TEST_ADDRESSES.recipient1,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        signers: [TEST_ADDRESSES.owner1],
+        executor: TEST_ADDRESSES.owner2,
+        gasUsed: '85000',
+        blockNumber: '19000000',
+        timestamp: '2024-05-01T12:00:00.000Z',
+        txHash: TX_HASH,
+        sources: ['service'],
+      })
+    })
+
+    it('should mark failed executions', () => {
+      expect(fromServiceTransaction({ ...record, isSuccessful: false })?.status).toBe('failed')
+    })
+
+    it('should skip queued, module and incoming transactions', () => {
+      expect(fromServiceTransaction({ ...record, isExecuted: false })).toBeNull()
+      expect(fromServiceTransaction({ txType: 'MODULE_TRANSACTION' })).toBeNull()
+      expect(fromServiceTransaction({ txType: 'ETHEREUM_TRANSACTION' })).toBeNull()
+    })
+  })
+
+  describe('fromSafeExecution', () => {
+    it('should map an on-chain execution', () => {
+      const result = fromSafeExecution({
+        safeTxHash: SAFE_TX_HASH as `0x${string}`,
+        success: false,
+        txHash: TX_HASH,
+        blockNumber: 100n,
+        timestamp: 1_700_000_000,
+        executor: TEST_ADDRESSES.owner1,
+        gasUsed: 60_000n,
+        nonce: 4,
+        metadata: { to: TEST_ADDRESSES.recipient1, value: '1', data: '0x', operation: 0 },
+        signers: [TEST_ADDRESSES.owner2],
+      })
+
+      expect(result).toMatchObject({
+        nonce: 4,
+        status: 'failed',
+        to: TEST_ADDRESSES.recipient1,
+        executor: TEST_ADDRESSES.owner1,
+        gasUsed: '60000',
+        blockNumber: '100',
+        timestamp: '2023-11-14T22:13:20.000Z',
+        signers: [TEST_ADDRESSES.owner2],
+        sources: ['chain'],
+      })
+    })
+  })
+
+  describe('mergeHistory', () => {
+    it('should let later sources override fields and combine signers', () => {
+      const result = mergeHistory([
+        entry({ status: 'signed', nonce: 1, signers: [TEST_ADDRESSES.owner1] }),
+        entry({
+          safeTxHash: SAFE_TX_HASH.toUpperCase().replace('0X', '0x'),
+          status: 'executed',
+          executor: TEST_ADDRESSES.owner2,
+          signers: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+          sources: ['service'],
+        }),
+      ])
+
+      expect(result).toHaveLength(1)
+      expect(result[0]).toMatchObject({
+        nonce: 1,
+        status: 'executed',
+        executor: TEST_ADDRESSES.owner2,
+        signers: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+        sources: ['local', 'service'],
+      })
+    })
+
+    it('should sort by nonce with unknown nonces last', () => {
+      const result = mergeHistory([
+        entry({ safeTxHash: '0x03' }),
+        entry({ safeTxHash: '0x02', nonce: 5 }),
+        entry({ safeTxHash: '0x01', nonce: 2 }),
+      ])
+
+      expect(result.map((e) => e.safeTxHash)).toEqual(['0x01', '0x02', '0x03'])
+    })
+  })
+
+  describe('formatDecodedCall', () => {
+    it('should format arguments, preferring display values', () => {
+      const result = formatDecodedCall({
+        functionName: 'transfer',
+        signature: 'transfer(address,uint256)',
+        args: [
+          { name: 'to', type: 'address', value: TEST_ADDRESSES.recipient1 },
+          { name: 'amount', type: 'uint256', value: '1000000', display: '1 USDC' },
+        ],
+        source: 'builtin',
+      })
+
+      expect(result).toBe(`transfer(to=${TEST_ADDRESSES.recipient1}, amount=1 USDC)`)
+    })
+
+    it('should include MultiSend sub-calls', () => {
+      const result = formatDecodedCall({
+        functionName: 'multiSend',
+        signature: 'multiSend(bytes)',
+        args: [{ name: 'transactions', type: 'bytes', value: '0x' }],
+        source: 'builtin',
+        subCalls: [
+          {
+            operation: 0,
+            to: TEST_ADDRESSES.safe1,
+            value: '0',
+            data: '0x',
+            decoded: {
+              functionName: 'changeThreshold',
+              signature: 'changeThreshold(uint256)',
+              args: [{ name: '_threshold', type: 'uint256', value: '2' }],
+              source: 'builtin',
+            },
+          },
+          { operation: 0, to: TEST_ADDRESSES.recipient1, value: '1', data: '0x', decoded: null },
+        ],
+      })
+
+      expect(result).toBe(
+        `multiSend(transactions=0x) [changeThreshold(_threshold=2); call ${TEST_ADDRESSES.recipient1}]`
+      )
+    })
+  })
+
+  describe('historyToCsv', () => {
+    it('should write a header and one row per entry', () => {
+      const csv = historyToCsv([
+        entry({
+          nonce: 1,
+          signers: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+          gasUsed: '21000',
+        }),
+      ])
+
+      const [header, row] = csv.trimEnd().split('\n')
+      expect(header).toBe(
+        'nonce,safeTxHash,status,to,value,operation,call,data,signers,executor,gasUsed,blockNumber,timestamp,txHash'
+      )
+      expect(row).toBe(
+        `1,${SAFE_TX_HASH},executed,,,,,,${TEST_ADDRESSES.owner1} ${TEST_ADDRESSES.owner2},,21000,,,`
+      )
+    })
+
+    it('should escape commas and quotes', () => {
+      const csv = historyToCsv([entry({ call: 'f(a=1, b="x")' })])
+
+      expect(csv).toContain('"f(a=1, b=""x"")"')
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectWatchEntries,
+  diffWatchEntries,
+  type WatchSafeState,
+} from '../../../utils/tx-watch.js'
+import { TransactionStatus, type StoredTransaction } from '../../../types/transaction.js'
+import { TEST_ADDRESSES } from '../../fixtures/index.js'
+
+function hash(id: number): string {
+  return '0x' + id.toString(16).padStart(64, '0')
+}
+
+function createTx(
+  id: number,
+  nonce: number,
+  signers: string[] = [],
+  status: TransactionStatus = TransactionStatus.PENDING
+): StoredTransaction {
+  return {
+    safeTxHash: hash(id),
+    safeAddress: TEST_ADDRESSES.safe1,
+    chainId: '1',
+    status,
+    metadata: { to: TEST_ADDRESSES.recipient1, value: '0', data: '0x', nonce },
+    signatures: signers.map((signer) => ({
+      signer: signer as `0x${string}`,
+      signature: '0x',
+      signedAt: '2024-01-01T00:00:00Z',
+    })),
+    createdBy: TEST_ADDRESSES.owner1,
+    createdAt: '2024-01-01T00:00:00Z',
+  }
+}
+
+function state(overrides: Partial<WatchSafeState> = {}): WatchSafeState {
+  return {
+    safeAddress: TEST_ADDRESSES.safe1,
+    chainId: '1',
+    currentNonce: 5,
+    threshold: 2,
+    owners: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2, TEST_ADDRESSES.owner3],
+    local: [],
+    service: [],
+    wallet: TEST_ADDRESSES.owner1,
+    ...overrides,
+  }
+}
+
+describe('tx-watch utils', () => {
+  describe('collectWatchEntries', () => {
+    it('should merge local and service confirmations by SafeTx hash', () => {
+      const entries = collectWatchEntries(
+        state({
+          local: [createTx(1, 5, [TEST_ADDRESSES.owner1])],
+          service: [
+            {
+              safeTxHash: hash(1),
+              nonce: '5',
+              to: TEST_ADDRESSES.recipient1.toLowerCase(),
+              value: '0',
+              isExecuted: false,
+              confirmations: [{ owner: TEST_ADDRESSES.owner2.toLowerCase() }],
+            },
+          ],
+        })
+      )
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0]).toMatchObject({
+        safeTxHash: hash(1),
+        nonce: 5,
+        confirmations: [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2],
+        needsSignature: false,
+        executable: true,
+      })
+    })
+
+    it('should flag transactions the active wallet has not signed', () => {
+      const [entry] = collectWatchEntries(
+        state({ local: [createTx(1, 5, [TEST_ADDRESSES.owner2])] })
+      )
+
+      expect(entry.needsSignature).toBe(true)
+      expect(entry.executable).toBe(false)
+    })
+
+    it('should not ask non-owners to sign', () => {
+      const [entry] = collectWatchEntries(
+        state({ local: [createTx(1, 5)], wallet: TEST_ADDRESSES.owner5 })
+      )
+
+      expect(entry.needsSignature).toBe(false)
+    })
+
+    it('should ignore confirmations of removed owners', () => {
+      const [entry] = collectWatchEntries(
+        state({ local: [createTx(1, 5, [TEST_ADDRESSES.owner4, TEST_ADDRESSES.owner5])] })
+      )
+
+      expect(entry.confirmations).toEqual([])
+    })
+
+    it('should only mark the next nonce as executable', () => {
+      const entries = collectWatchEntries(
+        state({
+          local: [
+            createTx(2, 6, [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2]),
+            createTx(1, 5, [TEST_ADDRESSES.owner1]),
+          ],
+        })
+      )
+
+      expect(entries.map((e) => [e.nonce, e.executable])).toEqual([
+        [5, false],
+        [6, false],
+      ])
+    })
+
+    it('should skip executed, stale and already executed service transactions', () => {
+      const entries = collectWatchEntries(
+        state({
+          local: [createTx(1, 5, [], TransactionStatus.EXECUTED), createTx(2, 4)],
+          service: [
+            { safeTxHash: hash(3), nonce: 5, to: TEST_ADDRESSES.recipient1, isExecuted: true },
+          ],
+        })
+      )
+
+      expect(entries).toEqual([])
+    })
+  })
+
+  describe('diffWatchEntries', () => {
+    const [pending] = collectWatchEntries(
+      state({ local: [createTx(1, 5, [TEST_ADDRESSES.owner1])] })
+    )
+    const [ready] = collectWatchEntries(
+      state({ local: [createTx(1, 5, [TEST_ADDRESSES.owner1, TEST_ADDRESSES.owner2])] })
+    )
+
+    it('should report new transactions', () => {
+      expect(diffWatchEntries([], [pending])).toEqual({ added: [pending], executable: [] })
+    })
+
+    it('should report transactions that became executable', () => {
+      expect(diffWatchEntries([pending], [ready])).toEqual({ added: [], executable: [ready] })
+    })
+
+    it('should not repeat transactions that were already executable', () => {
+      expect(diffWatchEntries([ready], [ready])).toEqual({ added: [], executable: [] })
+    })
+  })
+})
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { TRANSACTION_EVENTS } from './transaction.js'
 
 export const ChainConfigSchema = z.object({
   name: z.string(),
@@ -17,6 +18,7 @@ export const ChainConfigSchema = z.object({
       fallbackHandlerAddress: z.string().optional(),
       signMessageLibAddress: z.string().optional(),
       createCallAddress: z.string().optional(),
+      simulateTxAccessorAddress: z.string().optional(),
     })
     .optional(),
 })
@@ -32,17 +34,53 @@ export const DefaultsConfigSchema = z.object({
 export const PreferencesConfigSchema = z.object({
   safeApiKey: z.string().optional(),
   etherscanApiKey: z.string().optional(),
+  relayUrl: z.string().url().optional(), // Gelato-compatible relayer for `tx execute --via relay`
+  relayApiKey: z.string().optional(),
   isStagingSafeApi: z.boolean().optional().default(false),
 })
 
+const HookEventSchema = z.enum(TRANSACTION_EVENTS)
+
+export const HookConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('command'),
+    events: z.array(HookEventSchema).min(1),
+    command: z.string().min(1), // Run through the shell with the payload on stdin
+  }),
+  z.object({
+    type: z.literal('http'),
+    events: z.array(HookEventSchema).min(1),
+    url: z.string().url(), // Receives the payload as a JSON POST body
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+])
+
+// Where encrypted private keys and seeds are kept
+export const SecretBackendConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('file') }), // wallets-secure.json next to the config
+  z.object({ type: z.literal('libsecret') }), // Linux Secret Service through secret-tool
+  z.object({
+    type: z.literal('command'),
+    // Shell commands; {key} is replaced by the entry name
+    get: z.string().min(1), // Prints the secret on stdout
+    set: z.string().min(1), // Reads the secret from stdin
+    delete: z.string().min(1),
+  }),
+])
+
 export const ConfigSchema = z.object({
   version: z.string().default('0.1.0'),
   chains: z.record(z.string(), ChainConfigSchema).default({}),
+  tokens: z.record(z.string(), z.array(z.string())).default({}), // ERC-20 addresses per chain ID
   defaults: DefaultsConfigSchema.default({}),
   preferences: PreferencesConfigSchema.default({}),
+  hooks: z.array(HookConfigSchema).default([]),
+  secretBackend: SecretBackendConfigSchema.optional(),
 })
 
 export type ChainConfig = z.infer<typeof ChainConfigSchema>
 export type DefaultsConfig = z.infer<typeof DefaultsConfigSchema>
 export type PreferencesConfig = z.infer<typeof PreferencesConfigSchema>
+export type HookConfig = z.infer<typeof HookConfigSchema>
+export type SecretBackendConfig = z.infer<typeof SecretBackendConfigSchema>
 export type Config = z.infer<typeof ConfigSchema>
@@ -0,0 +1,28 @@
+import type { Address } from 'viem'
+
+// EIP-712 typed data as accepted by eth_signTypedData_v4 and the Transaction Service
+export interface EIP712TypedData {
+  domain: Record<string, unknown>
+  types: Record<string, Array<{ name: string; type: string }>>
+  primaryType: string
+  message: Record<string, unknown>
+}
+
+// Plain text (signed with EIP-191) or EIP-712 typed data
+export type SafeMessageContent = string | EIP712TypedData
+
+export interface MessageSignature {
+  signer: Address
+  signature: string
+  signedAt: string // ISO 8601 format
+}
+
+export interface StoredMessage {
+  messageHash: string // SafeMessage EIP-712 hash (this is the message ID)
+  safeAddress: Address
+  chainId: string
+  message: SafeMessageContent
+  signatures: MessageSignature[]
+  createdBy: Address
+  createdAt: string // ISO 8601 format
+}
@@ -5,8 +5,20 @@ export enum TransactionStatus {
   SIGNED = 'signed',
   EXECUTED = 'executed',
   REJECTED = 'rejected',
+  REPLACED = 'replaced',
 }
 
+// Lifecycle transitions reported by TransactionStore (and sent to configured hooks)
+export const TRANSACTION_EVENTS = [
+  'created',
+  'signed',
+  'threshold-reached',
+  'executed',
+  'rejected',
+] as const
+
+export type TransactionEvent = (typeof TRANSACTION_EVENTS)[number]
+
 export interface TransactionMetadata {
   to: Address
   value: string
@@ -20,12 +32,27 @@ export interface TransactionMetadata {
   nonce?: number
 }
 
+// A single call inside a MultiSendCallOnly batch
+export interface BatchCall {
+  to: Address
+  value: string
+  data: `0x${string}`
+}
+
 export interface TransactionSignature {
   signer: Address
   signature: string
   signedAt: string // ISO 8601 format
 }
 
+// Signature-only payload written by offline signing and merged by `tx import`
+export interface TransactionSignatureExport {
+  safeTxHash: string
+  chainId: string
+  safeAddress: Address
+  signatures: TransactionSignature[]
+}
+
 export interface StoredTransaction {
   safeTxHash: string // This is the transaction ID (no separate id field)
   safeAddress: Address
@@ -37,6 +64,8 @@ export interface StoredTransaction {
   createdAt: string // ISO 8601 format
   executedAt?: string // ISO 8601 format
   txHash?: string // On-chain transaction hash after execution
+  relayTaskId?: string // Relayer task while execution is pending (`tx execute --via relay`)
+  batch?: BatchCall[] // Sub-calls when the transaction is a MultiSend batch
 }
 
 export interface CreateTransactionInput {
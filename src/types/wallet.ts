@@ -20,10 +20,24 @@ export const LedgerWalletSchema = BaseWalletSchema.extend({
   derivationPath: z.string(), // e.g., "44'/60'/0'/0/0"
 })
 
+// HD account of a BIP-39 seed phrase. Accounts of the same seed share one encrypted seed entry
+export const MnemonicWalletSchema = BaseWalletSchema.extend({
+  type: z.literal('mnemonic'),
+  seedId: z.string(),
+  derivationPath: z.string(), // e.g., "m/44'/60'/0'/0/0"
+})
+
+// Address-only owner that signs with an external wallet (signatures are pasted in)
+export const WatchOnlyWalletSchema = BaseWalletSchema.extend({
+  type: z.literal('watch-only'),
+})
+
 // Union of all wallet types
 export const WalletSchema = z.discriminatedUnion('type', [
   PrivateKeyWalletSchema,
   LedgerWalletSchema,
+  MnemonicWalletSchema,
+  WatchOnlyWalletSchema,
 ])
 
 export const WalletStoreSchema = z.object({
@@ -33,6 +47,8 @@ export const WalletStoreSchema = z.object({
 
 export type PrivateKeyWallet = z.infer<typeof PrivateKeyWalletSchema>
 export type LedgerWallet = z.infer<typeof LedgerWalletSchema>
+export type MnemonicWallet = z.infer<typeof MnemonicWalletSchema>
+export type WatchOnlyWallet = z.infer<typeof WatchOnlyWalletSchema>
 export type Wallet = z.infer<typeof WalletSchema>
 export type WalletStore = z.infer<typeof WalletStoreSchema>
 
@@ -40,3 +56,36 @@ export type WalletStore = z.infer<typeof WalletStoreSchema>
 export interface WalletWithPrivateKey extends PrivateKeyWallet {
   privateKey: string
 }
+
+// Web3 Secret Storage (V3) keystore, as written by geth, foundry and MetaMask
+const HexStringSchema = z.string().regex(/^(0x)?[0-9a-fA-F]*$/, 'must be hex')
+
+export const KeystoreV3Schema = z.object({
+  version: z.literal(3),
+  id: z.string().optional(),
+  address: z.string().optional(),
+  crypto: z.object({
+    ciphertext: HexStringSchema,
+    cipherparams: z.object({ iv: HexStringSchema }),
+    cipher: z.literal('aes-128-ctr'),
+    kdf: z.enum(['scrypt', 'pbkdf2']),
+    kdfparams: z.union([
+      z.object({
+        dklen: z.number().int().min(32),
+        salt: HexStringSchema,
+        n: z.number().int().positive(),
+        r: z.number().int().positive(),
+        p: z.number().int().positive(),
+      }),
+      z.object({
+        dklen: z.number().int().min(32),
+        salt: HexStringSchema,
+        c: z.number().int().positive(),
+        prf: z.literal('hmac-sha256'),
+      }),
+    ]),
+    mac: HexStringSchema,
+  }),
+})
+
+export type KeystoreV3 = z.infer<typeof KeystoreV3Schema>
@@ -0,0 +1,80 @@
+import React from 'react'
+import { Box, Text } from 'ink'
+import { theme } from '../theme.js'
+import type { DecodedCall as DecodedCallData } from '../../services/calldata-decoder.js'
+
+export interface DecodedCallProps {
+  /**
+   * Decoded function call to display
+   */
+  call: DecodedCallData
+
+  /**
+   * Indentation level (0 = no indent, 1 = 2 spaces, 2 = 4 spaces, etc.)
+   */
+  indent?: number
+}
+
+/**
+ * DecodedCall component for displaying a decoded function call with named arguments.
+ * MultiSend batches are rendered with each sub-call nested below.
+ *
+ * @example
+ * ```tsx
+ * <DecodedCall call={decoded} indent={1} />
+ * ```
+ */
+export function DecodedCall({ call, indent = 0 }: DecodedCallProps): React.ReactElement {
+  return (
+    <Box flexDirection="column" marginLeft={indent * 2}>
+      <Text>
+        <Text bold color={theme.colors.primary}>
+          {call.functionName}
+        </Text>
+        {call.contractName && <Text color={theme.colors.dim}> ({call.contractName})</Text>}
+      </Text>
+      {call.args.map((arg, index) => (
+        <Box key={index} marginLeft={2}>
+          <Text>
+            <Text color={theme.colors.dim}>
+              {arg.name} ({arg.type}):
+            </Text>{' '}
+            {arg.display ? (
+              <>
+                <Text color={theme.colors.success}>{arg.display}</Text>
+                <Text color={theme.colors.dim}> [{arg.value}]</Text>
+              </>
+            ) : (
+              <Text>{arg.value}</Text>
+            )}
+          </Text>
+        </Box>
+      ))}
+      {call.subCalls && (
+        <Box flexDirection="column" marginLeft={2} marginTop={1}>
+          <Text color={theme.colors.dim}>Sub-calls ({call.subCalls.length}):</Text>
+          {call.subCalls.map((subCall, index) => (
+            <Box key={index} flexDirection="column" marginLeft={2}>
+              <Text>
+                <Text color={theme.colors.dim}>{index + 1}.</Text> {subCall.to}
+                {subCall.value !== '0' && <Text> ({subCall.value} wei)</Text>}
+                {subCall.operation === 1 && (
+                  <Text color={theme.colors.warning}> [DelegateCall]</Text>
+                )}
+              </Text>
+              {subCall.decoded ? (
+                <DecodedCall call={subCall.decoded} indent={1} />
+              ) : (
+                subCall.data !== '0x' && (
+                  <Box marginLeft={2}>
+                    <Text color={theme.colors.dim}>data: {subCall.data}</Text>
+                  </Box>
+                )
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  )
+}
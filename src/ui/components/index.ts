@@ -20,3 +20,6 @@ export type { StatusBadgeProps, StatusType } from './StatusBadge.js'
 
 export { Spinner } from './Spinner.js'
 export type { SpinnerProps } from './Spinner.js'
+
+export { DecodedCall } from './DecodedCall.js'
+export type { DecodedCallProps } from './DecodedCall.js'
@@ -49,3 +49,29 @@ export function renderScreenSync<T extends Record<string, unknown>>(
 ) {
   return render(<Component {...props} />)
 }
+
+/**
+ * Renders an Ink component whose props change over time, e.g. a polling display.
+ *
+ * @param Component - The React component to render
+ * @param props - Initial props
+ * @returns An object to replace the props, unmount, and wait for exit (e.g. Ctrl+C)
+ *
+ * @example
+ * ```typescript
+ * const screen = renderLiveScreen(WatchScreen, { rows: [] })
+ * screen.update({ rows: await poll() })
+ * ```
+ */
+export function renderLiveScreen<T extends object>(
+  Component: React.ComponentType<T>,
+  props: T
+) {
+  const instance = render(<Component {...props} />)
+
+  return {
+    update: (nextProps: T) => instance.rerender(<Component {...nextProps} />),
+    unmount: instance.unmount,
+    waitUntilExit: instance.waitUntilExit,
+  }
+}
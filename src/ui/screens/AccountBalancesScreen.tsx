@@ -0,0 +1,112 @@
+import React, { useEffect } from 'react'
+import { Box, Text } from 'ink'
+import type { Address } from 'viem'
+import { Header, Table } from '../components/index.js'
+import { theme } from '../theme.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { getConfigStore } from '../../storage/config-store.js'
+
+export interface AccountBalanceEntry {
+  symbol: string
+  token?: Address // Undefined for the native currency
+  balance: string
+  source?: string
+}
+
+export interface AccountBalancesReport {
+  name?: string
+  safeAddress: Address
+  chainId: string
+  chainName: string
+  balances: AccountBalanceEntry[]
+  error?: string
+}
+
+export interface AccountBalancesScreenProps {
+  /**
+   * Balance report per Safe
+   */
+  reports: AccountBalancesReport[]
+
+  /**
+   * Optional callback when the screen is ready to exit
+   */
+  onExit?: () => void
+}
+
+/**
+ * AccountBalancesScreen displays native and ERC-20 balances of one or more Safes.
+ *
+ * Features:
+ * - One table per Safe with formatted balances
+ * - Marks tokens discovered from Transfer logs
+ * - Shows per-Safe fetch errors without hiding the other reports
+ */
+export function AccountBalancesScreen({
+  reports,
+  onExit,
+}: AccountBalancesScreenProps): React.ReactElement {
+  // Auto-exit after rendering
+  useEffect(() => {
+    if (onExit) {
+      onExit()
+    }
+  }, [onExit])
+
+  const configStore = getConfigStore()
+  const chains = configStore.getAllChains()
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header title="Balances" />
+
+      {reports.map((report, index) => (
+        <Box
+          key={`${report.chainId}:${report.safeAddress}`}
+          flexDirection="column"
+          marginBottom={index < reports.length - 1 ? 1 : 0}
+        >
+          <Box>
+            {report.name && (
+              <Text bold color={theme.colors.primary}>
+                {report.name}{' '}
+              </Text>
+            )}
+            <Text>{formatSafeAddress(report.safeAddress, report.chainId, chains)}</Text>
+            <Text color={theme.colors.dim}> ({report.chainName})</Text>
+          </Box>
+
+          <Box marginLeft={2} flexDirection="column">
+            {report.error ? (
+              <Text color={theme.colors.error}>Error: {report.error}</Text>
+            ) : (
+              <Table
+                columns={[
+                  { header: 'Token', accessor: (row: AccountBalanceEntry) => row.symbol },
+                  {
+                    header: 'Balance',
+                    accessor: (row: AccountBalanceEntry) => row.balance,
+                    align: 'right',
+                  },
+                  {
+                    header: 'Address',
+                    accessor: (row: AccountBalanceEntry) =>
+                      row.token ? `${row.token}${row.source === 'discovered' ? ' *' : ''}` : '',
+                    color: theme.colors.dim,
+                  },
+                ]}
+                data={report.balances}
+              />
+            )}
+          </Box>
+        </Box>
+      ))}
+
+      {reports.some((report) => report.balances.some((b) => b.source === 'discovered')) && (
+        <Box marginTop={1}>
+          <Text color={theme.colors.dim}>* discovered from Transfer logs</Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -8,6 +8,7 @@ import { SafeService } from '../../services/safe-service.js'
 import { ABIService } from '../../services/abi-service.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
 import { getConfigStore } from '../../storage/config-store.js'
+import { getKnownModuleName } from '../../constants/modules.js'
 
 export interface AccountInfoScreenProps {
   /**
@@ -287,9 +288,19 @@ export function AccountInfoScreen({
                           <Text color={theme.colors.dim}>{i + 1}. </Text>
                           <Text>{module}</Text>
                         </Box>
-                        {contractNames[module] && (
+                        {(getKnownModuleName(module) || contractNames[module]) && (
                           <Box marginLeft={3}>
-                            <Text color={theme.colors.success}>→ {contractNames[module]}</Text>
+                            <Text color={theme.colors.success}>
+                              → {getKnownModuleName(module) || contractNames[module]}
+                            </Text>
+                          </Box>
+                        )}
+                        {!getKnownModuleName(module) && (
+                          <Box marginLeft={3}>
+                            <Text color={theme.colors.warning}>
+                              ⚠ Unknown module - it can execute transactions without owner
+                              signatures
+                            </Text>
                           </Box>
                         )}
                         {chain.explorer && (
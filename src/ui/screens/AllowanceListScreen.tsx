@@ -0,0 +1,134 @@
+import React, { useEffect } from 'react'
+import { Box, Text } from 'ink'
+import type { Address } from 'viem'
+import { Header } from '../components/index.js'
+import { theme } from '../theme.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { getConfigStore } from '../../storage/config-store.js'
+
+export interface AllowanceListEntry {
+  token: Address
+  symbol: string
+  amount: string
+  spent: string
+  remaining: string
+  reset: string
+  nextReset?: string
+}
+
+export interface AllowanceListScreenProps {
+  /**
+   * Safe address
+   */
+  safeAddress: Address
+
+  /**
+   * Chain ID
+   */
+  chainId: string
+
+  /**
+   * Allowance module address
+   */
+  module: Address
+
+  /**
+   * Delegates with their formatted token allowances
+   */
+  delegates: Array<{ delegate: Address; allowances: AllowanceListEntry[] }>
+
+  /**
+   * Optional callback when the screen is ready to exit
+   */
+  onExit?: () => void
+}
+
+/**
+ * AllowanceListScreen displays the Allowance Module delegates of a Safe.
+ *
+ * Features:
+ * - Groups token allowances by delegate
+ * - Shows spent and remaining amounts and the reset schedule
+ */
+export function AllowanceListScreen({
+  safeAddress,
+  chainId,
+  module,
+  delegates,
+  onExit,
+}: AllowanceListScreenProps): React.ReactElement {
+  // Auto-exit after rendering
+  useEffect(() => {
+    if (onExit) {
+      onExit()
+    }
+  }, [onExit])
+
+  const configStore = getConfigStore()
+  const chains = configStore.getAllChains()
+  const eip3770 = formatSafeAddress(safeAddress, chainId, chains)
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header title="Allowances" />
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Box>
+          <Text color={theme.colors.dim}>Safe: </Text>
+          <Text>{eip3770}</Text>
+        </Box>
+        <Box>
+          <Text color={theme.colors.dim}>Module: </Text>
+          <Text>{module}</Text>
+        </Box>
+      </Box>
+
+      {delegates.length === 0 ? (
+        <Box flexDirection="column">
+          <Box marginBottom={1}>
+            <Text color={theme.colors.dim}>No delegates</Text>
+          </Box>
+          <Text color={theme.colors.info}>Use "safe allowance set" to add an allowance</Text>
+        </Box>
+      ) : (
+        <Box flexDirection="column">
+          {delegates.map(({ delegate, allowances }, index) => (
+            <Box
+              key={delegate}
+              flexDirection="column"
+              marginBottom={index < delegates.length - 1 ? 1 : 0}
+            >
+              <Box>
+                <Text color={theme.colors.primary}>● </Text>
+                <Text bold>{delegate}</Text>
+              </Box>
+              <Box marginLeft={2} flexDirection="column">
+                {allowances.length === 0 ? (
+                  <Text color={theme.colors.dim}>No allowances</Text>
+                ) : (
+                  allowances.map((allowance) => (
+                    <Box key={allowance.token} flexDirection="column">
+                      <Box>
+                        <Text bold>{allowance.symbol}: </Text>
+                        <Text color={theme.colors.success}>{allowance.remaining}</Text>
+                        <Text color={theme.colors.dim}> of {allowance.amount} remaining</Text>
+                        <Text color={theme.colors.dim}> ({allowance.spent} spent)</Text>
+                      </Box>
+                      <Box marginLeft={2}>
+                        <Text color={theme.colors.dim}>Reset: </Text>
+                        <Text>{allowance.reset}</Text>
+                        {allowance.nextReset && (
+                          <Text color={theme.colors.dim}> · next {allowance.nextReset}</Text>
+                        )}
+                      </Box>
+                    </Box>
+                  ))
+                )}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  )
+}
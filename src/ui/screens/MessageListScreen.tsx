@@ -0,0 +1,126 @@
+import React, { useEffect } from 'react'
+import { Box, Text } from 'ink'
+import { Header, KeyValue } from '../components/index.js'
+import { theme } from '../theme.js'
+import type { StoredMessage } from '../../types/message.js'
+import { getConfigStore } from '../../storage/config-store.js'
+import { getSafeStorage } from '../../storage/safe-store.js'
+import { formatSafeAddress } from '../../utils/eip3770.js'
+import { formatMessagePreview } from '../../utils/safe-helpers.js'
+
+export interface MessageListScreenProps {
+  /**
+   * Messages to display
+   */
+  messages: StoredMessage[]
+
+  /**
+   * Whether the list is filtered by a Safe (changes the empty state hint)
+   */
+  filtered?: boolean
+
+  /**
+   * Optional callback when the screen is ready to exit
+   */
+  onExit?: () => void
+}
+
+/**
+ * Individual message item component
+ */
+function MessageItem({ message }: { message: StoredMessage }): React.ReactElement {
+  const configStore = getConfigStore()
+  const safeStorage = getSafeStorage()
+  const chains = configStore.getAllChains()
+
+  const safe = safeStorage.getSafe(message.chainId, message.safeAddress)
+  const eip3770 = formatSafeAddress(message.safeAddress, message.chainId, chains)
+  const threshold = safe?.threshold
+  const isReady = threshold !== undefined && message.signatures.length >= threshold
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Box marginBottom={1}>
+        {isReady ? (
+          <Text color={theme.colors.success}>✅ CONFIRMED</Text>
+        ) : (
+          <Text color={theme.colors.warning}>⏳ NEEDS SIGNATURES</Text>
+        )}
+      </Box>
+
+      <Box marginLeft={2}>
+        <KeyValue
+          items={[
+            { key: 'Message Hash', value: message.messageHash, valueColor: theme.colors.primary },
+            { key: 'Safe', value: `${safe?.name || 'Unknown'} (${eip3770})` },
+            { key: 'Message', value: formatMessagePreview(message.message, 60) },
+            {
+              key: 'Signatures',
+              value: `${message.signatures.length}${threshold !== undefined ? `/${threshold}` : ''}`,
+            },
+            { key: 'Created', value: new Date(message.createdAt).toLocaleString() },
+          ]}
+        />
+      </Box>
+    </Box>
+  )
+}
+
+/**
+ * MessageListScreen displays stored Safe messages (EIP-1271 off-chain signatures).
+ *
+ * Features:
+ * - Sorted by creation date (newest first)
+ * - Signature progress against the stored Safe threshold
+ * - Empty state handling
+ */
+export function MessageListScreen({
+  messages,
+  filtered = false,
+  onExit,
+}: MessageListScreenProps): React.ReactElement {
+  // Auto-exit after rendering
+  useEffect(() => {
+    if (onExit) {
+      onExit()
+    }
+  }, [onExit])
+
+  const sorted = [...messages].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+
+  if (sorted.length === 0) {
+    return (
+      <Box flexDirection="column" paddingY={1}>
+        <Header title="Safe Messages" />
+        <Box marginBottom={1}>
+          <Text color={theme.colors.warning}>No messages found</Text>
+        </Box>
+        <Text color={theme.colors.dim}>
+          {filtered
+            ? 'This Safe has no messages yet'
+            : 'No messages found. Sign one with "safe msg sign"'}
+        </Text>
+      </Box>
+    )
+  }
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header title="Safe Messages" />
+
+      <Box marginBottom={1}>
+        <Text>
+          Found <Text bold>{sorted.length}</Text> message(s)
+        </Text>
+      </Box>
+
+      <Box flexDirection="column">
+        {sorted.map((message) => (
+          <MessageItem key={message.messageHash} message={message} />
+        ))}
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,153 @@
+import React, { useEffect } from 'react'
+import { Box, Text } from 'ink'
+import type { Address } from 'viem'
+import { Header, KeyValue } from '../components/index.js'
+import { theme } from '../theme.js'
+import type { MessageSignature, SafeMessageContent } from '../../types/message.js'
+
+export interface MessageStatusScreenProps {
+  /**
+   * SafeMessage hash
+   */
+  messageHash: string
+
+  /**
+   * Safe address in EIP-3770 format
+   */
+  safeEip3770: string
+
+  /**
+   * Chain name
+   */
+  chainName: string
+
+  /**
+   * Message content (plain text or EIP-712 typed data)
+   */
+  message: SafeMessageContent
+
+  /**
+   * Collected owner signatures
+   */
+  signatures: MessageSignature[]
+
+  /**
+   * Required threshold
+   */
+  threshold?: number
+
+  /**
+   * Safe owners (used to show who still has to sign)
+   */
+  owners?: Address[]
+
+  /**
+   * Combined signature for isValidSignature, once the threshold is met
+   */
+  safeSignature?: string
+
+  /**
+   * Optional callback when the screen is ready to exit
+   */
+  onExit?: () => void
+}
+
+/**
+ * MessageStatusScreen displays a Safe message with its signature progress.
+ *
+ * Features:
+ * - Full message content (text or typed data JSON)
+ * - Signers and missing owners
+ * - Combined EIP-1271 signature when confirmed
+ */
+export function MessageStatusScreen({
+  messageHash,
+  safeEip3770,
+  chainName,
+  message,
+  signatures,
+  threshold,
+  owners,
+  safeSignature,
+  onExit,
+}: MessageStatusScreenProps): React.ReactElement {
+  // Auto-exit after rendering
+  useEffect(() => {
+    if (onExit) {
+      onExit()
+    }
+  }, [onExit])
+
+  const signed = new Set(signatures.map((sig) => sig.signer.toLowerCase()))
+  const missingOwners = (owners || []).filter((owner) => !signed.has(owner.toLowerCase()))
+  const content = typeof message === 'string' ? message : JSON.stringify(message, null, 2)
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header title="Safe Message Status" />
+
+      <KeyValue
+        items={[
+          { key: 'Message Hash', value: messageHash, valueColor: theme.colors.primary },
+          { key: 'Safe', value: safeEip3770 },
+          { key: 'Chain', value: chainName },
+          {
+            key: 'Type',
+            value: typeof message === 'string' ? 'Text (EIP-191)' : 'Typed data (EIP-712)',
+          },
+          {
+            key: 'Signatures',
+            value: `${signatures.length}${threshold !== undefined ? `/${threshold}` : ''}`,
+            valueColor: safeSignature ? theme.colors.success : theme.colors.warning,
+          },
+        ]}
+      />
+
+      <Box flexDirection="column" marginTop={1}>
+        <Text bold>Message:</Text>
+        <Box marginLeft={2}>
+          <Text>{content}</Text>
+        </Box>
+      </Box>
+
+      {signatures.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold>Signed by:</Text>
+          {signatures.map((sig) => (
+            <Box key={sig.signer} marginLeft={2}>
+              <Text color={theme.colors.success}>✓ {sig.signer}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {!safeSignature && missingOwners.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold>Awaiting:</Text>
+          {missingOwners.map((owner) => (
+            <Box key={owner} marginLeft={2}>
+              <Text color={theme.colors.dim}>○ {owner}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {safeSignature ? (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color={theme.colors.success}>
+            Message is confirmed. Safe signature (EIP-1271):
+          </Text>
+          <Box marginLeft={2}>
+            <Text>{safeSignature}</Text>
+          </Box>
+        </Box>
+      ) : (
+        <Box marginTop={1}>
+          <Text color={theme.colors.dim}>
+            Other owners can sign with: safe msg pull, then safe msg sign --hash {messageHash}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -2,13 +2,15 @@ import React, { useEffect, useMemo, useState } from 'react'
 import { Box, Text } from 'ink'
 import type { Address } from 'viem'
 import { useTransactions, useTransactionsBySafe } from '../hooks/index.js'
-import { Header, KeyValue, Spinner } from '../components/index.js'
+import { DecodedCall, Header, KeyValue, Spinner } from '../components/index.js'
 import { theme } from '../theme.js'
 import type { StoredTransaction, TransactionStatus } from '../../types/transaction.js'
 import { getConfigStore } from '../../storage/config-store.js'
 import { getSafeStorage } from '../../storage/safe-store.js'
 import { formatSafeAddress } from '../../utils/eip3770.js'
 import { TransactionService } from '../../services/transaction-service.js'
+import type { DecodedCall as DecodedCallData } from '../../services/calldata-decoder.js'
+import { isRejectionTransaction } from '../../utils/safe-helpers.js'
 
 export interface TransactionListScreenProps {
   /**
@@ -26,6 +28,11 @@ export interface TransactionListScreenProps {
    */
   statusFilter?: TransactionStatus
 
+  /**
+   * Decoded calldata by Safe TX hash (decoded by the command before rendering)
+   */
+  decoded?: Record<string, DecodedCallData>
+
   /**
    * Optional callback when the screen is ready to exit
    */
@@ -34,6 +41,36 @@ export interface TransactionListScreenProps {
 
 interface TransactionItemProps {
   transaction: StoredTransaction
+  decoded?: DecodedCallData
+}
+
+interface NonceGroup {
+  key: string
+  nonce?: number
+  transactions: StoredTransaction[]
+}
+
+/**
+ * Groups transactions competing for the same nonce of the same Safe.
+ * Groups keep the order of their first transaction in the input.
+ */
+function groupByNonce(transactions: StoredTransaction[]): NonceGroup[] {
+  const groups = new Map<string, NonceGroup>()
+
+  for (const tx of transactions) {
+    const key =
+      tx.metadata.nonce === undefined
+        ? tx.safeTxHash
+        : `${tx.chainId}:${tx.safeAddress.toLowerCase()}:${tx.metadata.nonce}`
+    const group = groups.get(key)
+    if (group) {
+      group.transactions.push(tx)
+    } else {
+      groups.set(key, { key, nonce: tx.metadata.nonce, transactions: [tx] })
+    }
+  }
+
+  return [...groups.values()]
 }
 
 /**
@@ -49,6 +86,8 @@ function getStatusBadge(status: TransactionStatus): { emoji: string; text: strin
       return { emoji: '✅', text: 'EXECUTED', color: theme.colors.success }
     case 'rejected':
       return { emoji: '❌', text: 'REJECTED', color: theme.colors.error }
+    case 'replaced':
+      return { emoji: '↪️', text: 'REPLACED', color: theme.colors.dim }
     default:
       return { emoji: '❓', text: 'UNKNOWN', color: theme.colors.dim }
   }
@@ -57,7 +96,7 @@ function getStatusBadge(status: TransactionStatus): { emoji: string; text: strin
 /**
  * Individual transaction item component
  */
-function TransactionItem({ transaction }: TransactionItemProps): React.ReactElement {
+function TransactionItem({ transaction, decoded }: TransactionItemProps): React.ReactElement {
   const configStore = getConfigStore()
   const safeStorage = getSafeStorage()
   const chains = configStore.getAllChains()
@@ -66,9 +105,14 @@ function TransactionItem({ transaction }: TransactionItemProps): React.ReactElem
   const safe = safeStorage.getSafe(transaction.chainId, transaction.safeAddress)
   const safeName = safe?.name || 'Unknown'
   const eip3770 = formatSafeAddress(transaction.safeAddress as Address, transaction.chainId, chains)
-  const chain = configStore.getChain(transaction.chainId)
+  // The store returns a new object on every read, so keep one per chain for the effect below
+  const chain = useMemo(
+    () => configStore.getChain(transaction.chainId),
+    [configStore, transaction.chainId]
+  )
 
   const statusBadge = getStatusBadge(transaction.status)
+  const isRejection = isRejectionTransaction(transaction)
 
   // Fetch live threshold from blockchain
   useEffect(() => {
@@ -94,13 +138,18 @@ function TransactionItem({ transaction }: TransactionItemProps): React.ReactElem
         <Text color={statusBadge.color}>
           {statusBadge.emoji} {statusBadge.text}
         </Text>
+        {isRejection && <Text color={theme.colors.dim}> (on-chain rejection)</Text>}
       </Box>
 
       {/* Transaction details */}
       <Box marginLeft={2}>
         <KeyValue
           items={[
-            { key: 'Safe TX Hash', value: transaction.safeTxHash, valueColor: theme.colors.primary },
+            {
+              key: 'Safe TX Hash',
+              value: transaction.safeTxHash,
+              valueColor: theme.colors.primary,
+            },
             { key: 'Safe', value: `${safeName} (${eip3770})` },
             { key: 'Chain', value: chain?.name || transaction.chainId },
             { key: 'To', value: transaction.metadata.to },
@@ -135,6 +184,13 @@ function TransactionItem({ transaction }: TransactionItemProps): React.ReactElem
           ]}
         />
       </Box>
+
+      {/* Decoded calldata */}
+      {decoded && (
+        <Box marginLeft={2} marginTop={1}>
+          <DecodedCall call={decoded} />
+        </Box>
+      )}
     </Box>
   )
 }
@@ -149,23 +205,24 @@ function TransactionItem({ transaction }: TransactionItemProps): React.ReactElem
  * - Displays summary statistics by status
  * - Empty state handling
  * - Sorted by creation date (newest first)
+ * - Transactions competing for the same nonce are grouped together
  */
 export function TransactionListScreen({
   safeAddress,
   chainId,
   statusFilter,
+  decoded = {},
   onExit,
 }: TransactionListScreenProps): React.ReactElement {
   // Use appropriate hook based on filtering
   const allTransactionsResult = useTransactions()
-  const filteredTransactionsResult = useTransactionsBySafe(
-    (safeAddress || '') as Address,
-    chainId
-  )
+  const filteredTransactionsResult = useTransactionsBySafe((safeAddress || '') as Address, chainId)
 
-  const { transactions: rawTransactions, loading, error } = safeAddress
-    ? filteredTransactionsResult
-    : allTransactionsResult
+  const {
+    transactions: rawTransactions,
+    loading,
+    error,
+  } = safeAddress ? filteredTransactionsResult : allTransactionsResult
 
   // Auto-exit after rendering
   useEffect(() => {
@@ -193,6 +250,8 @@ export function TransactionListScreen({
     return result
   }, [rawTransactions, statusFilter])
 
+  const groups = useMemo(() => groupByNonce(transactions), [transactions])
+
   // Calculate summary statistics
   const summary = useMemo(() => {
     return {
@@ -200,6 +259,7 @@ export function TransactionListScreen({
       signed: transactions.filter((tx) => tx.status === 'signed').length,
       executed: transactions.filter((tx) => tx.status === 'executed').length,
       rejected: transactions.filter((tx) => tx.status === 'rejected').length,
+      replaced: transactions.filter((tx) => tx.status === 'replaced').length,
     }
   }, [transactions])
 
@@ -247,9 +307,33 @@ export function TransactionListScreen({
 
       {/* Transaction list */}
       <Box flexDirection="column" marginBottom={1}>
-        {transactions.map((tx) => (
-          <TransactionItem key={tx.safeTxHash} transaction={tx} />
-        ))}
+        {groups.map((group) =>
+          group.transactions.length === 1 ? (
+            <TransactionItem
+              key={group.key}
+              transaction={group.transactions[0]}
+              decoded={decoded[group.transactions[0].safeTxHash]}
+            />
+          ) : (
+            <Box key={group.key} flexDirection="column">
+              <Box marginBottom={1}>
+                <Text color={theme.colors.warning} bold>
+                  Nonce {group.nonce} — {group.transactions.length} competing transactions (only one
+                  can execute)
+                </Text>
+              </Box>
+              <Box flexDirection="column" marginLeft={2}>
+                {group.transactions.map((tx) => (
+                  <TransactionItem
+                    key={tx.safeTxHash}
+                    transaction={tx}
+                    decoded={decoded[tx.safeTxHash]}
+                  />
+                ))}
+              </Box>
+            </Box>
+          )
+        )}
       </Box>
 
       {/* Summary statistics */}
@@ -259,8 +343,13 @@ export function TransactionListScreen({
           items={[
             { key: 'Pending', value: summary.pending.toString(), valueColor: theme.colors.warning },
             { key: 'Signed', value: summary.signed.toString(), valueColor: theme.colors.info },
-            { key: 'Executed', value: summary.executed.toString(), valueColor: theme.colors.success },
+            {
+              key: 'Executed',
+              value: summary.executed.toString(),
+              valueColor: theme.colors.success,
+            },
             { key: 'Rejected', value: summary.rejected.toString(), valueColor: theme.colors.error },
+            { key: 'Replaced', value: summary.replaced.toString(), valueColor: theme.colors.dim },
           ]}
         />
       </Box>
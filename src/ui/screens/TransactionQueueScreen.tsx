@@ -0,0 +1,165 @@
+import React, { useEffect } from 'react'
+import { Box, Text } from 'ink'
+import { Header, KeyValue } from '../components/index.js'
+import { theme } from '../theme.js'
+import type { StoredTransaction } from '../../types/transaction.js'
+import type { NonceQueue } from '../../utils/nonce-queue.js'
+import { isRejectionTransaction } from '../../utils/safe-helpers.js'
+
+export interface TransactionQueueScreenProps {
+  /**
+   * Safe address in EIP-3770 format
+   */
+  safeEip3770: string
+
+  /**
+   * Chain name
+   */
+  chainName: string
+
+  /**
+   * Queue analysis against the on-chain nonce
+   */
+  queue: NonceQueue
+
+  /**
+   * Required threshold
+   */
+  threshold?: number
+
+  /**
+   * Optional callback when the screen is ready to exit
+   */
+  onExit?: () => void
+}
+
+function QueuedTransaction({
+  transaction,
+  threshold,
+}: {
+  transaction: StoredTransaction
+  threshold?: number
+}): React.ReactElement {
+  const signatures = transaction.signatures?.length || 0
+  const ready = threshold !== undefined && signatures >= threshold
+  const target = isRejectionTransaction(transaction)
+    ? 'On-chain rejection'
+    : `→ ${transaction.metadata.to}`
+
+  return (
+    <Box marginLeft={2}>
+      <Text color={theme.colors.primary}>{transaction.safeTxHash.slice(0, 10)}...</Text>
+      <Text> {target} </Text>
+      <Text color={ready ? theme.colors.success : theme.colors.warning}>
+        ({signatures}
+        {threshold !== undefined ? `/${threshold}` : ''} signatures)
+      </Text>
+    </Box>
+  )
+}
+
+/**
+ * TransactionQueueScreen displays the queued transactions of a Safe ordered by nonce.
+ *
+ * Features:
+ * - Current on-chain nonce and next free nonce
+ * - Duplicate nonces (competing transactions)
+ * - Gaps that block later transactions
+ * - Stale transactions that were marked replaced
+ */
+export function TransactionQueueScreen({
+  safeEip3770,
+  chainName,
+  queue,
+  threshold,
+  onExit,
+}: TransactionQueueScreenProps): React.ReactElement {
+  // Auto-exit after rendering
+  useEffect(() => {
+    if (onExit) {
+      onExit()
+    }
+  }, [onExit])
+
+  const slots: Array<{ nonce: number; transactions: StoredTransaction[] }> = []
+  for (let nonce = queue.currentNonce; nonce < queue.nextNonce; nonce++) {
+    slots.push({
+      nonce,
+      transactions: queue.entries.find((entry) => entry.nonce === nonce)?.transactions || [],
+    })
+  }
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header title="Transaction Queue" />
+
+      <KeyValue
+        items={[
+          { key: 'Safe', value: safeEip3770 },
+          { key: 'Chain', value: chainName },
+          { key: 'On-chain nonce', value: queue.currentNonce.toString() },
+          { key: 'Next free nonce', value: queue.nextNonce.toString() },
+        ]}
+      />
+
+      <Box flexDirection="column" marginTop={1}>
+        {slots.length === 0 ? (
+          <Text color={theme.colors.dim}>No queued transactions</Text>
+        ) : (
+          slots.map((slot) => (
+            <Box key={slot.nonce} flexDirection="column" marginBottom={1}>
+              {slot.transactions.length === 0 ? (
+                <Text color={theme.colors.error}>
+                  Nonce {slot.nonce} — missing (blocks later transactions)
+                </Text>
+              ) : (
+                <Text bold color={slot.transactions.length > 1 ? theme.colors.warning : undefined}>
+                  Nonce {slot.nonce}
+                  {slot.transactions.length > 1
+                    ? ` — ${slot.transactions.length} competing transactions (only one can execute)`
+                    : ''}
+                </Text>
+              )}
+              {slot.transactions.map((tx) => (
+                <QueuedTransaction key={tx.safeTxHash} transaction={tx} threshold={threshold} />
+              ))}
+            </Box>
+          ))
+        )}
+      </Box>
+
+      {queue.stale.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color={theme.colors.dim}>
+            Marked {queue.stale.length} stale transaction(s) as replaced (nonce already used
+            on-chain):
+          </Text>
+          {queue.stale.map((tx) => (
+            <Box key={tx.safeTxHash} marginLeft={2}>
+              <Text color={theme.colors.dim}>
+                ↪ {tx.safeTxHash.slice(0, 10)}... (nonce {tx.metadata.nonce})
+              </Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {(queue.duplicates.length > 0 || queue.gaps.length > 0) && (
+        <Box flexDirection="column">
+          {queue.duplicates.length > 0 && (
+            <Text color={theme.colors.warning}>
+              ⚠ Duplicate nonce(s): {queue.duplicates.join(', ')} — only one transaction per nonce
+              can execute
+            </Text>
+          )}
+          {queue.gaps.length > 0 && (
+            <Text color={theme.colors.error}>
+              ⚠ Missing nonce(s): {queue.gaps.join(', ')} — create transactions for them with
+              --nonce
+            </Text>
+          )}
+        </Box>
+      )}
+    </Box>
+  )
+}
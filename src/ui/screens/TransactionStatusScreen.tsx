@@ -1,7 +1,9 @@
 import React, { useEffect } from 'react'
 import { Box, Text } from 'ink'
 import type { Address } from 'viem'
-import { Header, KeyValue, List } from '../components/index.js'
+import type { BatchCall } from '../../types/transaction.js'
+import type { DecodedCall as DecodedCallData } from '../../services/calldata-decoder.js'
+import { DecodedCall, Header, KeyValue, List } from '../components/index.js'
 import { theme } from '../theme.js'
 
 export interface TransactionStatusScreenProps {
@@ -25,6 +27,16 @@ export interface TransactionStatusScreenProps {
    */
   value: string
 
+  /**
+   * Transaction data (hex)
+   */
+  data?: string
+
+  /**
+   * Decoded calldata (if the function could be identified)
+   */
+  decoded?: DecodedCallData | null
+
   /**
    * Transaction nonce
    */
@@ -55,6 +67,11 @@ export interface TransactionStatusScreenProps {
    */
   owners: Address[]
 
+  /**
+   * Sub-calls when the transaction is a MultiSend batch
+   */
+  batch?: BatchCall[]
+
   /**
    * Blockchain transaction hash (if executed)
    */
@@ -86,12 +103,15 @@ export function TransactionStatusScreen({
   safeEip3770,
   to,
   value,
+  data,
+  decoded,
   nonce,
   status,
   signaturesCollected,
   signaturesRequired,
   signers,
   owners,
+  batch,
   txHash,
   explorerUrl,
   onExit,
@@ -129,6 +149,53 @@ export function TransactionStatusScreen({
         />
       </Box>
 
+      {/* Decoded calldata */}
+      {decoded ? (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color={theme.colors.primary}>
+            Decoded Call:
+          </Text>
+          <Box marginLeft={2}>
+            <DecodedCall call={decoded} />
+          </Box>
+        </Box>
+      ) : (
+        data &&
+        data !== '0x' && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text bold color={theme.colors.primary}>
+              Data:
+            </Text>
+            <Box marginLeft={2}>
+              <Text color={theme.colors.dim}>{data}</Text>
+            </Box>
+            <Box marginLeft={2}>
+              <Text color={theme.colors.warning}>
+                ⚠ Could not decode calldata - verify before signing
+              </Text>
+            </Box>
+          </Box>
+        )
+      )}
+
+      {/* Batch calls (only when the MultiSend payload could not be decoded) */}
+      {!decoded?.subCalls && batch && batch.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold color={theme.colors.primary}>
+            Batch Calls ({batch.length}):
+          </Text>
+          <List
+            items={batch}
+            renderItem={(call, index) => (
+              <Text>
+                <Text color={theme.colors.dim}>{index + 1}.</Text> {call.to} ({call.value} wei
+                {call.data !== '0x' ? `, ${call.data.slice(0, 10)}` : ''})
+              </Text>
+            )}
+          />
+        </Box>
+      )}
+
       {/* Signature status */}
       <Box flexDirection="column" marginBottom={1}>
         <Text bold color={theme.colors.primary}>
@@ -0,0 +1,142 @@
+import React from 'react'
+import { Box, Text } from 'ink'
+import type { Address } from 'viem'
+import { Header, Table } from '../components/index.js'
+import { theme } from '../theme.js'
+import type { WatchEntry } from '../../utils/tx-watch.js'
+
+export interface WatchedSafe {
+  name?: string
+  safeEip3770: string
+  chainName: string
+  currentNonce?: number
+  threshold?: number
+  entries: WatchEntry[]
+  error?: string
+}
+
+export interface TransactionWatchScreenProps {
+  /**
+   * Queue state per watched Safe
+   */
+  safes: WatchedSafe[]
+
+  /**
+   * Active wallet address, used to highlight missing signatures
+   */
+  walletAddress?: Address
+
+  /**
+   * Time of the last completed poll (ISO 8601), undefined while the first poll runs
+   */
+  lastUpdated?: string
+
+  /**
+   * Poll interval in seconds
+   */
+  interval: number
+
+  /**
+   * Recent events and hook results, newest last
+   */
+  events: string[]
+}
+
+function statusLabel(entry: WatchEntry): string {
+  if (entry.executable) return 'Ready to execute'
+  if (entry.needsSignature) return 'Needs your signature'
+  if (entry.confirmations.length >= entry.threshold) return 'Waiting for nonce'
+  return 'Awaiting signatures'
+}
+
+/**
+ * TransactionWatchScreen is a live view of queued transactions, re-rendered on every poll.
+ *
+ * Features:
+ * - One table per Safe with nonce, target, confirmations and status
+ * - Marks transactions that need the active wallet's signature
+ * - Shows the latest watch events and hook failures
+ */
+export function TransactionWatchScreen({
+  safes,
+  walletAddress,
+  lastUpdated,
+  interval,
+  events,
+}: TransactionWatchScreenProps): React.ReactElement {
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Header
+        title="Watching Transactions"
+        subtitle={
+          lastUpdated
+            ? `Updated ${new Date(lastUpdated).toLocaleTimeString()} · every ${interval}s · Ctrl+C to stop`
+            : 'Fetching transactions...'
+        }
+      />
+
+      {walletAddress && (
+        <Box marginBottom={1}>
+          <Text color={theme.colors.dim}>Active wallet: {walletAddress}</Text>
+        </Box>
+      )}
+
+      {safes.map((safe) => (
+        <Box key={safe.safeEip3770} flexDirection="column" marginBottom={1}>
+          <Box>
+            {safe.name && (
+              <Text bold color={theme.colors.primary}>
+                {safe.name}{' '}
+              </Text>
+            )}
+            <Text>{safe.safeEip3770}</Text>
+            <Text color={theme.colors.dim}>
+              {' '}
+              ({safe.chainName}
+              {safe.currentNonce !== undefined ? ` · nonce ${safe.currentNonce}` : ''}
+              {safe.threshold !== undefined ? ` · threshold ${safe.threshold}` : ''})
+            </Text>
+          </Box>
+
+          <Box marginLeft={2} flexDirection="column">
+            {safe.error ? (
+              <Text color={theme.colors.error}>Error: {safe.error}</Text>
+            ) : safe.entries.length === 0 ? (
+              <Text color={theme.colors.dim}>No queued transactions</Text>
+            ) : (
+              <Table
+                columns={[
+                  { header: 'Nonce', accessor: (row: WatchEntry) => row.nonce, align: 'right' },
+                  {
+                    header: 'SafeTxHash',
+                    accessor: (row: WatchEntry) => `${row.safeTxHash.slice(0, 10)}...`,
+                    color: theme.colors.primary,
+                  },
+                  { header: 'To', accessor: (row: WatchEntry) => row.to },
+                  {
+                    header: 'Signatures',
+                    accessor: (row: WatchEntry) => `${row.confirmations.length}/${row.threshold}`,
+                    align: 'right',
+                  },
+                  { header: 'Status', accessor: statusLabel },
+                ]}
+                data={safe.entries}
+              />
+            )}
+          </Box>
+        </Box>
+      ))}
+
+      {events.length > 0 && (
+        <Box flexDirection="column">
+          <Text bold>Recent events</Text>
+          {events.map((event, index) => (
+            <Text key={index} color={theme.colors.dim}>
+              {event}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -7,6 +7,14 @@ import { theme } from '../theme.js'
 import { shortenAddress } from '../../utils/ethereum.js'
 import { getBalances, formatBalance } from '../../utils/balance.js'
 import { getConfigStore } from '../../storage/config-store.js'
+import type { Wallet } from '../../types/wallet.js'
+
+const WALLET_TYPE_LABELS: Record<Wallet['type'], string> = {
+  'private-key': '🔑 Private Key',
+  ledger: '🔐 Ledger',
+  mnemonic: '🌱 Seed Phrase',
+  'watch-only': '👁  Watch-only',
+}
 
 export interface WalletListScreenProps {
   /**
@@ -81,7 +89,7 @@ export function WalletListScreen({ onExit }: WalletListScreenProps): React.React
         </Box>
         <Box flexDirection="column">
           <Text color={theme.colors.info}>
-            Use "safe wallet import" to import a wallet from private key
+            Use "safe wallet import" to import a wallet from private key or seed phrase
           </Text>
           <Text color={theme.colors.info}>
             Use "safe wallet import-ledger" to import a Ledger hardware wallet
@@ -114,7 +122,7 @@ export function WalletListScreen({ onExit }: WalletListScreenProps): React.React
             const items = [
               {
                 key: 'Type',
-                value: wallet.type === 'ledger' ? '🔐 Ledger' : '🔑 Private Key',
+                value: WALLET_TYPE_LABELS[wallet.type],
               },
               { key: 'Address', value: wallet.address },
               { key: 'Short', value: shortenAddress(wallet.address) },
@@ -131,8 +139,8 @@ export function WalletListScreen({ onExit }: WalletListScreenProps): React.React
               }
             }
 
-            // Add derivation path for Ledger wallets
-            if (wallet.type === 'ledger') {
+            // Add derivation path for Ledger and seed phrase wallets
+            if (wallet.type === 'ledger' || wallet.type === 'mnemonic') {
               items.push({
                 key: 'Path',
                 value: wallet.derivationPath,
@@ -38,6 +38,13 @@ export type { ConfigShowScreenProps } from './ConfigShowScreen.js'
 export { AccountInfoScreen } from './AccountInfoScreen.js'
 export type { AccountInfoScreenProps } from './AccountInfoScreen.js'
 
+export { AccountBalancesScreen } from './AccountBalancesScreen.js'
+export type {
+  AccountBalancesScreenProps,
+  AccountBalancesReport,
+  AccountBalanceEntry,
+} from './AccountBalancesScreen.js'
+
 export { TransactionListScreen } from './TransactionListScreen.js'
 export type { TransactionListScreenProps } from './TransactionListScreen.js'
 
@@ -63,6 +70,12 @@ export type { OwnerRemoveSuccessScreenProps } from './OwnerRemoveSuccessScreen.j
 export { ThresholdChangeSuccessScreen } from './ThresholdChangeSuccessScreen.js'
 export type { ThresholdChangeSuccessScreenProps } from './ThresholdChangeSuccessScreen.js'
 
+export { ModuleChangeSuccessScreen } from './ModuleChangeSuccessScreen.js'
+export type { ModuleChangeSuccessScreenProps } from './ModuleChangeSuccessScreen.js'
+
+export { SafeConfigChangeSuccessScreen } from './SafeConfigChangeSuccessScreen.js'
+export type { SafeConfigChangeSuccessScreenProps } from './SafeConfigChangeSuccessScreen.js'
+
 export { TransactionCreateSuccessScreen } from './TransactionCreateSuccessScreen.js'
 export type { TransactionCreateSuccessScreenProps } from './TransactionCreateSuccessScreen.js'
 
@@ -108,7 +121,22 @@ export type { TransactionImportBuilderSuccessScreenProps } from './TransactionIm
 export { TransactionImportSuccessScreen } from './TransactionImportSuccessScreen.js'
 export type { TransactionImportSuccessScreenProps } from './TransactionImportSuccessScreen.js'
 
+export { MessageListScreen } from './MessageListScreen.js'
+export type { MessageListScreenProps } from './MessageListScreen.js'
+
+export { MessageStatusScreen } from './MessageStatusScreen.js'
+export type { MessageStatusScreenProps } from './MessageStatusScreen.js'
+
 export { AISuggestionScreen } from './AISuggestionScreen.js'
 export type { AISuggestionScreenProps } from './AISuggestionScreen.js'
 
 // TODO: Phase 4 - Add remaining screen components as commands are migrated
+
+export { TransactionQueueScreen } from './TransactionQueueScreen.js'
+export type { TransactionQueueScreenProps } from './TransactionQueueScreen.js'
+
+export { AllowanceListScreen } from './AllowanceListScreen.js'
+export type { AllowanceListScreenProps } from './AllowanceListScreen.js'
+
+export { TransactionWatchScreen } from './TransactionWatchScreen.js'
+export type { TransactionWatchScreenProps, WatchedSafe } from './TransactionWatchScreen.js'
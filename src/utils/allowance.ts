@@ -0,0 +1,131 @@
+import { encodeFunctionData, type Address } from 'viem'
+import type { BatchCall } from '../types/transaction.js'
+import { ALLOWANCE_MODULE_ABI } from '../constants/abis.js'
+import { SafeCLIError } from './errors.js'
+
+// setAllowance stores the amount as uint96 and the reset period as uint16 minutes
+export const MAX_ALLOWANCE_AMOUNT = 2n ** 96n - 1n
+export const MAX_RESET_MINUTES = 2 ** 16 - 1
+
+const RESET_UNITS: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 60 * 24,
+  w: 60 * 24 * 7,
+}
+
+/**
+ * Parse a reset period such as "30m", "12h", "1d" or "1w" (plain numbers are minutes).
+ * "0" means the allowance is one-time and never resets.
+ * @returns The period in minutes
+ */
+export function parseResetPeriod(value: string): number {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)\s*([mhdw]?)$/)
+  if (!match) {
+    throw new SafeCLIError(`Invalid reset period "${value}". Use e.g. 0, 30m, 12h, 1d or 1w`)
+  }
+
+  const minutes = parseInt(match[1], 10) * RESET_UNITS[match[2] || 'm']
+  if (minutes > MAX_RESET_MINUTES) {
+    throw new SafeCLIError(`Reset period cannot exceed ${MAX_RESET_MINUTES} minutes (~45 days)`)
+  }
+
+  return minutes
+}
+
+/**
+ * Format a reset period in minutes for display
+ */
+export function formatResetPeriod(minutes: number): string {
+  if (minutes === 0) return 'one-time'
+  for (const [unit, size] of [
+    ['w', RESET_UNITS.w],
+    ['d', RESET_UNITS.d],
+    ['h', RESET_UNITS.h],
+  ] as const) {
+    if (minutes % size === 0) return `every ${minutes / size}${unit}`
+  }
+  return `every ${minutes}m`
+}
+
+/**
+ * Amount a delegate can still transfer, applying a reset the module would perform
+ * on the next transfer (mirrors AllowanceModule.getAllowance).
+ * @returns Remaining amount and, for periodic allowances, the minute of the next reset
+ */
+export function getRemainingAllowance(
+  allowance: { amount: bigint; spent: bigint; resetTimeMin: number; lastResetMin: number },
+  nowMin: number
+): { remaining: bigint; nextResetMin?: number } {
+  let { spent, lastResetMin } = allowance
+  const { amount, resetTimeMin } = allowance
+
+  if (resetTimeMin > 0 && lastResetMin <= nowMin - resetTimeMin) {
+    spent = 0n
+    lastResetMin = nowMin - ((nowMin - lastResetMin) % resetTimeMin)
+  }
+
+  return {
+    remaining: amount > spent ? amount - spent : 0n,
+    nextResetMin: resetTimeMin > 0 ? lastResetMin + resetTimeMin : undefined,
+  }
+}
+
+/**
+ * Call from the Safe registering a delegate on the module
+ */
+export function encodeAddDelegate(module: Address, delegate: Address): BatchCall {
+  return {
+    to: module,
+    value: '0',
+    data: encodeFunctionData({
+      abi: ALLOWANCE_MODULE_ABI,
+      functionName: 'addDelegate',
+      args: [delegate],
+    }),
+  }
+}
+
+/**
+ * Call from the Safe removing a delegate together with all of its allowances
+ */
+export function encodeRemoveDelegate(module: Address, delegate: Address): BatchCall {
+  return {
+    to: module,
+    value: '0',
+    data: encodeFunctionData({
+      abi: ALLOWANCE_MODULE_ABI,
+      functionName: 'removeDelegate',
+      args: [delegate, true],
+    }),
+  }
+}
+
+/**
+ * Call from the Safe setting a delegate's allowance for a token (zero address = native token)
+ */
+export function encodeSetAllowance(
+  module: Address,
+  delegate: Address,
+  token: Address,
+  amount: bigint,
+  resetTimeMin: number
+): BatchCall {
+  if (amount > MAX_ALLOWANCE_AMOUNT) {
+    throw new SafeCLIError('Allowance amount exceeds the uint96 maximum')
+  }
+
+  return {
+    to: module,
+    value: '0',
+    data: encodeFunctionData({
+      abi: ALLOWANCE_MODULE_ABI,
+      functionName: 'setAllowance',
+      // A reset base of 0 starts the period when the allowance is set
+      args: [delegate, token, amount, resetTimeMin, 0],
+    }),
+  }
+}
@@ -1,7 +1,8 @@
-import type { Address } from 'viem'
-import { isAddress } from 'viem'
+import type { AbiFunction, AbiParameter, Address, Hex } from 'viem'
+import { encodeFunctionData, getAddress, isAddress, isHex, parseAbiItem } from 'viem'
 import { readFileSync } from 'fs'
 import { resolve } from 'path'
+import type { BatchCall } from '../types/transaction.js'
 
 /**
  * Parse a password from various input methods
@@ -156,6 +157,200 @@ export function parseFunctionCall(signature: string, argsJson?: string): Functio
   }
 }
 
+/**
+ * Encode a parsed function call into transaction data
+ * Numeric arguments may be given as numbers or decimal strings (strings are
+ * recommended for uint256 values to avoid JSON precision loss)
+ * @param call Function signature and arguments from parseFunctionCall
+ * @returns ABI-encoded calldata
+ */
+export function encodeFunctionCall(call: FunctionCall): Hex {
+  const signature = call.signature.trim().replace(/^function\s+/, '')
+
+  let abiItem: AbiFunction
+  try {
+    const parsed = parseAbiItem(`function ${signature}`)
+    if (parsed.type !== 'function') {
+      throw new Error('Not a function')
+    }
+    abiItem = parsed as AbiFunction
+  } catch {
+    throw new Error(`Invalid function signature: ${call.signature}`)
+  }
+
+  if (call.args.length !== abiItem.inputs.length) {
+    throw new Error(
+      `Function ${abiItem.name} expects ${abiItem.inputs.length} argument(s), got ${call.args.length}`
+    )
+  }
+
+  try {
+    const args = abiItem.inputs.map((input, i) => coerceAbiArgument(call.args[i], input))
+    return encodeFunctionData({
+      abi: [abiItem],
+      functionName: abiItem.name,
+      args,
+    })
+  } catch (error) {
+    throw new Error(
+      `Failed to encode ${abiItem.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+}
+
+/**
+ * Convert a JSON argument to the value viem expects for an ABI parameter
+ */
+function coerceAbiArgument(value: unknown, param: AbiParameter): unknown {
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/)
+  if (arrayMatch) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for ${param.name || param.type}`)
+    }
+    const elementParam = { ...param, type: arrayMatch[1] } as AbiParameter
+    return value.map((item) => coerceAbiArgument(item, elementParam))
+  }
+
+  if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+    if (typeof value === 'bigint') return value
+    if (typeof value === 'number' || typeof value === 'string') {
+      try {
+        return BigInt(value)
+      } catch {
+        throw new Error(`Invalid integer for ${param.name || param.type}: ${value}`)
+      }
+    }
+    throw new Error(`Invalid integer for ${param.name || param.type}: ${String(value)}`)
+  }
+
+  if (param.type === 'bool' && typeof value === 'string') {
+    if (value === 'true') return true
+    if (value === 'false') return false
+  }
+
+  if (param.type === 'tuple' && 'components' in param && !Array.isArray(value)) {
+    if (!value || typeof value !== 'object') {
+      throw new Error(`Expected object for ${param.name || 'tuple'}`)
+    }
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(
+      param.components.map((component) => [
+        component.name,
+        coerceAbiArgument(record[component.name ?? ''], component),
+      ])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Parse a Safe operation type
+ * @param value "0"/"call" or "1"/"delegatecall"
+ * @returns 0 for Call, 1 for DelegateCall
+ */
+export function parseOperationArgument(value: string): 0 | 1 {
+  const normalized = value.trim().toLowerCase()
+
+  if (normalized === '0' || normalized === 'call') {
+    return 0
+  }
+  if (normalized === '1' || normalized === 'delegatecall') {
+    return 1
+  }
+
+  throw new Error(`Invalid operation: ${value} (use 0/call or 1/delegatecall)`)
+}
+
+/**
+ * Parse a list of calls for a batch transaction which can be:
+ * - JSON array: '[{"to": "0x...", "value": "0", "data": "0x..."}]'
+ * - Object with a transactions array: '{"transactions": [...]}'
+ * Each call may use "function" + "args" instead of raw "data".
+ * @returns Array of calls with checksummed addresses and encoded data
+ */
+export function parseBatchCalls(value: unknown): BatchCall[] {
+  const entries =
+    value && typeof value === 'object' && !Array.isArray(value) && 'transactions' in value
+      ? (value as { transactions: unknown }).transactions
+      : value
+
+  if (!Array.isArray(entries)) {
+    throw new Error('Batch must be an array of calls or an object with a "transactions" array')
+  }
+
+  if (entries.length === 0) {
+    throw new Error('Batch contains no calls')
+  }
+
+  return entries.map((entry, index) => {
+    const label = `Call ${index + 1}`
+
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${label}: must be an object`)
+    }
+
+    const call = entry as {
+      to?: unknown
+      value?: unknown
+      data?: unknown
+      function?: unknown
+      args?: unknown
+    }
+
+    if (typeof call.to !== 'string' || !isAddress(call.to)) {
+      throw new Error(`${label}: invalid "to" address`)
+    }
+
+    let callValue = '0'
+    if (call.value !== undefined && call.value !== null) {
+      let wei: bigint
+      try {
+        wei = BigInt(call.value as string | number)
+      } catch {
+        throw new Error(`${label}: invalid "value" (must be wei)`)
+      }
+      if (wei < 0n) {
+        throw new Error(`${label}: "value" cannot be negative`)
+      }
+      callValue = wei.toString()
+    }
+
+    if (call.function !== undefined && call.data !== undefined && call.data !== null) {
+      throw new Error(`${label}: use either "data" or "function", not both`)
+    }
+
+    let data: `0x${string}` = '0x'
+    if (call.function !== undefined) {
+      if (typeof call.function !== 'string') {
+        throw new Error(`${label}: "function" must be a signature string`)
+      }
+      if (call.args !== undefined && !Array.isArray(call.args)) {
+        throw new Error(`${label}: "args" must be an array`)
+      }
+      try {
+        data = encodeFunctionCall({
+          signature: call.function,
+          args: (call.args as unknown[]) || [],
+        })
+      } catch (error) {
+        throw new Error(`${label}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    } else if (call.data !== undefined && call.data !== null) {
+      if (typeof call.data !== 'string' || !isHex(call.data)) {
+        throw new Error(`${label}: "data" must be a hex string`)
+      }
+      data = call.data
+    }
+
+    return {
+      to: getAddress(call.to),
+      value: callValue,
+      data,
+    }
+  })
+}
+
 /**
  * Parse a numeric value with support for different units
  * @param value String value to parse
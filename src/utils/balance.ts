@@ -110,3 +110,27 @@ export async function getBalances(
 
   return balances
 }
+
+export type TokenSource = 'config' | 'known' | 'discovered'
+
+/**
+ * Merge token lists for a balance report, without duplicates. A token found in several
+ * sources is attributed to the first of: configured list, well-known tokens, Transfer logs.
+ * @returns Tokens with the source they come from
+ */
+export function collectBalanceTokens(
+  sources: Partial<Record<TokenSource, Address[]>>
+): Array<{ token: Address; source: TokenSource }> {
+  const tokens = new Map<string, { token: Address; source: TokenSource }>()
+
+  for (const source of ['config', 'known', 'discovered'] as const) {
+    for (const token of sources[source] ?? []) {
+      const key = token.toLowerCase()
+      if (!tokens.has(key)) {
+        tokens.set(key, { token, source })
+      }
+    }
+  }
+
+  return [...tokens.values()]
+}
@@ -2,6 +2,7 @@ import { getConfigStore, type ConfigStore } from '../storage/config-store.js'
 import { getSafeStorage, type SafeAccountStorage } from '../storage/safe-store.js'
 import { getWalletStorage, type WalletStorageService } from '../storage/wallet-store.js'
 import { getTransactionStore, type TransactionStore } from '../storage/transaction-store.js'
+import { getMessageStore, type MessageStore } from '../storage/message-store.js'
 import { getValidationService, type ValidationService } from '../services/validation-service.js'
 import type { ChainConfig } from '../types/config.js'
 
@@ -14,6 +15,7 @@ export interface CommandContext {
   safeStorage: SafeAccountStorage
   walletStorage: WalletStorageService
   transactionStore: TransactionStore
+  messageStore: MessageStore
   validator: ValidationService
   chains: Record<string, ChainConfig>
 }
@@ -41,6 +43,7 @@ export function createCommandContext(): CommandContext {
     safeStorage: getSafeStorage(),
     walletStorage: getWalletStorage(),
     transactionStore: getTransactionStore(),
+    messageStore: getMessageStore(),
     validator: getValidationService(),
     chains: configStore.getAllChains(),
   }
@@ -1,4 +1,5 @@
 import * as p from '@clack/prompts'
+import pc from 'picocolors'
 import type { Wallet } from '../types/wallet.js'
 import type { WalletStorageService } from '../storage/wallet-store.js'
 import type { ConfigStore } from '../storage/config-store.js'
@@ -7,6 +8,7 @@ import { getValidationService } from '../services/validation-service.js'
 import { SafeCLIError } from './errors.js'
 import { isJsonMode, isQuietMode } from '../types/global-options.js'
 import { ExitCode } from '../constants/exit-codes.js'
+import { reportHookRuns, waitForHooks } from './hook-runs.js'
 
 /**
  * Ensures an active wallet exists, exits with error if not found.
@@ -98,6 +100,33 @@ export async function promptPassword(
   return password as string
 }
 
+/**
+ * Shows a danger warning and requires the user to type a confirmation word.
+ * Used for changes that can lock a Safe, where a plain yes/no is too easy to skip through.
+ * @param warning - Explanation of what can go wrong
+ * @param confirmationWord - Word the user must type to proceed
+ * @returns True if confirmed, false if cancelled or declined
+ */
+export async function confirmDangerousAction(
+  warning: string,
+  confirmationWord: string = 'CONFIRM'
+): Promise<boolean> {
+  p.note(pc.red(warning), pc.bgRed(pc.white(pc.bold(' DANGER '))))
+
+  const answer = await p.text({
+    message: `Type ${pc.bold(confirmationWord)} to continue (anything else cancels):`,
+  })
+
+  if (!checkCancelled(answer)) return false
+
+  if (answer !== confirmationWord) {
+    p.cancel('Operation cancelled')
+    return false
+  }
+
+  return true
+}
+
 /**
  * Output data in the appropriate format (JSON or text)
  * @param data Data to output
@@ -156,9 +185,32 @@ export function outputError(
       p.outro('Failed')
     }
   }
+  reportHookRuns(outputWarning)
   process.exit(exitCode)
 }
 
+/**
+ * Output a warning that does not change the command result.
+ * In JSON mode it goes to stderr so stdout stays parseable.
+ * @param message Warning message
+ */
+export function outputWarning(message: string): void {
+  if (isJsonMode()) {
+    console.error(`Warning: ${message}`)
+  } else {
+    p.log.warn(message)
+  }
+}
+
+/**
+ * Wait for the lifecycle hooks started by a command and report the ones that failed.
+ * Hook failures never fail the command.
+ */
+export async function waitForCommandHooks(): Promise<void> {
+  await waitForHooks()
+  reportHookRuns(outputWarning)
+}
+
 /**
  * Check if we're in non-interactive mode
  * @returns true if in JSON or quiet mode
@@ -1,3 +1,5 @@
+import { reportHookRuns } from './hook-runs.js'
+
 export class SafeCLIError extends Error {
   constructor(message: string) {
     super(message)
@@ -34,5 +36,6 @@ export function handleError(error: unknown): never {
   } else {
     console.error('An unexpected error occurred')
   }
+  reportHookRuns((message) => console.error(`Warning: ${message}`))
   process.exit(1)
 }
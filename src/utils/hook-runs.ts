@@ -0,0 +1,69 @@
+/**
+ * Registry of lifecycle hook runs started during a command. It has no dependencies
+ * so every exit path (command helpers and the error handler) can report on it.
+ */
+
+// Hook runs that are still in flight
+const pendingHookRuns = new Set<Promise<void>>()
+// Errors of finished hook runs, until the CLI reports them
+let hookErrors: string[] = []
+
+/**
+ * Track a hook run until it settles
+ * @param run Resolves with the error messages of the hooks that failed
+ */
+export function trackHookRun(run: Promise<string[]>): void {
+  const tracked = run.then((errors) => {
+    hookErrors.push(...errors)
+    pendingHookRuns.delete(tracked)
+  })
+  pendingHookRuns.add(tracked)
+}
+
+/**
+ * Record a hook failure that happened before any run started
+ */
+export function addHookError(message: string): void {
+  hookErrors.push(message)
+}
+
+/**
+ * Number of hook runs that have not finished yet
+ */
+export function getPendingHookCount(): number {
+  return pendingHookRuns.size
+}
+
+/**
+ * Collect the errors of the hook runs that already finished
+ */
+export function takeHookErrors(): string[] {
+  const errors = hookErrors
+  hookErrors = []
+  return errors
+}
+
+/**
+ * Wait for every tracked hook run, including runs started while waiting
+ * @returns Error messages of the hooks that failed
+ */
+export async function waitForHooks(): Promise<string[]> {
+  while (pendingHookRuns.size > 0) {
+    await Promise.all(pendingHookRuns)
+  }
+  return takeHookErrors()
+}
+
+/**
+ * Report failed hooks and hook runs that are still in flight. Called on every
+ * exit path, so hooks cut short by process.exit are never lost silently.
+ * @param warn Outputs one warning
+ */
+export function reportHookRuns(warn: (message: string) => void): void {
+  for (const message of takeHookErrors()) {
+    warn(`Hook failed: ${message}`)
+  }
+  if (pendingHookRuns.size > 0) {
+    warn(`${pendingHookRuns.size} hook run(s) did not finish before exiting`)
+  }
+}
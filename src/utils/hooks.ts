@@ -0,0 +1,164 @@
+import { spawn } from 'child_process'
+import type { HookConfig } from '../types/config.js'
+import type { StoredTransaction, TransactionEvent } from '../types/transaction.js'
+import { getConfigStore } from '../storage/config-store.js'
+import { SafeCLIError } from './errors.js'
+import { addHookError, trackHookRun } from './hook-runs.js'
+
+export interface HookPayload {
+  event: string
+  safeTxHash: string
+  safeAddress: string
+  chainId: string
+  nonce?: number
+  [key: string]: unknown
+}
+
+// Hooks that hang must not block the CLI
+export const HOOK_TIMEOUT_MS = 30_000
+
+/**
+ * Run a user-supplied shell command for a transaction event.
+ * The payload is written to stdin as JSON and its main fields are exposed as
+ * SAFE_* environment variables. Rejects on a non-zero exit or timeout.
+ */
+export function runHookCommand(
+  command: string,
+  payload: HookPayload,
+  timeoutMs: number = HOOK_TIMEOUT_MS
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      env: {
+        ...process.env,
+        SAFE_EVENT: payload.event,
+        SAFE_TX_HASH: payload.safeTxHash,
+        SAFE_ADDRESS: payload.safeAddress,
+        SAFE_CHAIN_ID: payload.chainId,
+        ...(payload.nonce !== undefined && { SAFE_NONCE: String(payload.nonce) }),
+      },
+    })
+
+    let stderr = ''
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString()
+    })
+
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(new SafeCLIError(`Hook "${command}" timed out after ${timeoutMs / 1000}s`))
+    }, timeoutMs)
+
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(new SafeCLIError(`Hook "${command}" failed: ${error.message}`))
+    })
+
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve()
+      } else {
+        const detail = stderr.trim() ? `: ${stderr.trim()}` : ''
+        reject(new SafeCLIError(`Hook "${command}" exited with code ${code}${detail}`))
+      }
+    })
+
+    // Hooks that do not read stdin close it early
+    child.stdin?.on('error', () => {})
+    child.stdin?.end(JSON.stringify(payload))
+  })
+}
+
+/**
+ * POST the payload as JSON to a hook URL. Rejects on a non-2xx response or timeout.
+ */
+export async function postHook(
+  url: string,
+  payload: HookPayload,
+  headers: Record<string, string> = {},
+  timeoutMs: number = HOOK_TIMEOUT_MS
+): Promise<void> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+  } catch (error) {
+    throw new SafeCLIError(
+      `Hook ${url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+
+  if (!response.ok) {
+    throw new SafeCLIError(`Hook ${url} returned HTTP ${response.status}`)
+  }
+}
+
+/**
+ * Payload sent to lifecycle hooks for a stored transaction
+ */
+export function createTransactionHookPayload(
+  event: TransactionEvent,
+  tx: StoredTransaction
+): HookPayload {
+  return {
+    event,
+    safeTxHash: tx.safeTxHash,
+    safeAddress: tx.safeAddress,
+    chainId: tx.chainId,
+    nonce: tx.metadata.nonce,
+    status: tx.status,
+    to: tx.metadata.to,
+    value: tx.metadata.value,
+    data: tx.metadata.data,
+    signers: tx.signatures.map((sig) => sig.signer),
+    ...(tx.txHash && { txHash: tx.txHash }),
+    timestamp: new Date().toISOString(),
+  }
+}
+
+/**
+ * Run every configured hook subscribed to the payload's event, in parallel.
+ * A failing hook does not stop the others.
+ * @returns Error messages of the hooks that failed
+ */
+export async function runHooks(hooks: HookConfig[], payload: HookPayload): Promise<string[]> {
+  const results = await Promise.allSettled(
+    hooks
+      .filter((hook) => hook.events.includes(payload.event as TransactionEvent))
+      .map((hook) =>
+        hook.type === 'command'
+          ? runHookCommand(hook.command, payload)
+          : postHook(hook.url, payload, hook.headers)
+      )
+  )
+
+  return results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .map((result) => (result.reason instanceof Error ? result.reason.message : 'Hook failed'))
+}
+
+/**
+ * Start the hooks configured in config.json for a lifecycle event. The run is
+ * tracked so the CLI can wait for it with waitForHooks() before exiting.
+ */
+export function dispatchTransactionHooks(
+  event: TransactionEvent,
+  transaction: StoredTransaction
+): void {
+  try {
+    const hooks = getConfigStore()
+      .getHooks()
+      .filter((hook) => hook.events.includes(event))
+    if (hooks.length === 0) return
+    trackHookRun(runHooks(hooks, createTransactionHookPayload(event, transaction)))
+  } catch (error) {
+    addHookError(`Hooks skipped: ${error instanceof Error ? error.message : 'Invalid config'}`)
+  }
+}
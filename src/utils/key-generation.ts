@@ -1,7 +1,7 @@
-import { randomBytes } from 'crypto'
-import { privateKeyToAccount } from 'viem/accounts'
+import { createHash, randomBytes } from 'crypto'
+import { toHex, type Address } from 'viem'
+import { english, generateMnemonic, mnemonicToAccount, privateKeyToAccount } from 'viem/accounts'
 import { isValidPrivateKey, normalizePrivateKey } from './validation.js'
-import type { Address } from 'viem'
 
 /**
  * Generates a cryptographically secure random private key.
@@ -61,3 +61,100 @@ export function deriveWalletFromPrivateKey(privateKey: string): {
 export function generateWalletId(): string {
   return randomBytes(16).toString('hex')
 }
+
+/**
+ * Supported lengths of generated seed phrases (128 and 256 bits of entropy).
+ */
+export const MNEMONIC_WORD_COUNTS = [12, 24] as const
+
+export type MnemonicWordCount = (typeof MNEMONIC_WORD_COUNTS)[number]
+
+/**
+ * BIP-44 Ethereum account path without the address index (MetaMask and most wallets).
+ */
+export const DEFAULT_MNEMONIC_BASE_PATH = "m/44'/60'/0'/0"
+
+/**
+ * Generates a new BIP-39 seed phrase from the English wordlist.
+ *
+ * @param wordCount - 12 or 24 words
+ * @returns Space-separated seed phrase
+ */
+export function generateMnemonicPhrase(wordCount: MnemonicWordCount = 12): string {
+  return generateMnemonic(english, wordCount === 24 ? 256 : 128)
+}
+
+/**
+ * Normalizes a seed phrase as typed by a user (case and whitespace).
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ')
+}
+
+/**
+ * Checks a seed phrase against the English wordlist and its BIP-39 checksum.
+ *
+ * @param mnemonic - Seed phrase of 12, 15, 18, 21 or 24 words
+ * @returns true if the phrase is valid
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  const words = normalizeMnemonic(mnemonic).split(' ')
+  if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+    return false
+  }
+
+  const indices = words.map((word) => english.indexOf(word))
+  if (indices.some((index) => index < 0)) {
+    return false
+  }
+
+  // Each word holds 11 bits: the entropy followed by a checksum of entropy bits / 32
+  const bits = indices.map((index) => index.toString(2).padStart(11, '0')).join('')
+  const checksumLength = words.length / 3
+  const entropyBits = bits.slice(0, bits.length - checksumLength)
+  const entropy = Buffer.from(entropyBits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)))
+
+  const hash = createHash('sha256').update(entropy).digest()
+  const expected = hash[0].toString(2).padStart(8, '0').slice(0, checksumLength)
+
+  return bits.slice(-checksumLength) === expected
+}
+
+/**
+ * Returns the derivation path of an account index below a base path.
+ *
+ * @param index - Address index
+ * @param basePath - Path without the index (default m/44'/60'/0'/0)
+ */
+export function getMnemonicDerivationPath(
+  index: number,
+  basePath: string = DEFAULT_MNEMONIC_BASE_PATH
+): string {
+  return `${basePath}/${index}`
+}
+
+/**
+ * Derives the account at a derivation path of a seed phrase.
+ *
+ * @param mnemonic - Valid BIP-39 seed phrase
+ * @param derivationPath - Full BIP-44 path, e.g. m/44'/60'/0'/0/0
+ * @returns The derived address and its private key
+ * @throws Error if the path cannot be derived
+ */
+export function deriveMnemonicAccount(
+  mnemonic: string,
+  derivationPath: string
+): { address: Address; privateKey: `0x${string}` } {
+  const account = mnemonicToAccount(normalizeMnemonic(mnemonic), {
+    path: derivationPath as `m/44'/60'/${string}`,
+  })
+  const privateKey = account.getHdKey().privateKey
+  if (!privateKey) {
+    throw new Error(`Cannot derive a private key at ${derivationPath}`)
+  }
+
+  return {
+    address: account.address,
+    privateKey: toHex(privateKey),
+  }
+}
@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, pbkdf2, randomBytes, randomUUID, scrypt } from 'crypto'
+import { promisify } from 'util'
+import { keccak256 } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { KeystoreV3Schema, type KeystoreV3 } from '../types/wallet.js'
+import { WalletError } from './errors.js'
+import { isValidPrivateKey, normalizePrivateKey } from './validation.js'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>
+const pbkdf2Async = promisify(pbkdf2)
+
+/**
+ * scrypt cost parameters. Defaults match geth's "standard" keystores.
+ */
+export interface KeystoreScryptParams {
+  n: number
+  r: number
+  p: number
+}
+
+export const DEFAULT_KEYSTORE_SCRYPT_PARAMS: KeystoreScryptParams = { n: 262144, r: 8, p: 1 }
+
+async function deriveKeystoreKey(
+  password: string,
+  kdf: KeystoreV3['crypto']['kdf'],
+  params: KeystoreV3['crypto']['kdfparams']
+): Promise<Buffer> {
+  const salt = hexToBuffer(params.salt)
+
+  try {
+    if (kdf === 'scrypt' && 'n' in params) {
+      // scrypt needs about 128 * N * r bytes; Node's default limit is 32 MB
+      const maxmem = 128 * params.r * (params.n + params.p + 2) * 2
+      return await scryptAsync(password, salt, params.dklen, {
+        N: params.n,
+        r: params.r,
+        p: params.p,
+        maxmem,
+      })
+    }
+
+    if (kdf === 'pbkdf2' && 'c' in params) {
+      return await pbkdf2Async(password, salt, params.c, params.dklen, 'sha256')
+    }
+  } catch (error) {
+    // e.g. OpenSSL requires N < 2^(16 * r)
+    throw new WalletError(
+      `Unsupported keystore ${kdf} parameters: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+
+  throw new WalletError(`Invalid keystore: ${kdf} parameters are missing`)
+}
+
+function hexToBuffer(hex: string): Buffer {
+  return Buffer.from(hex.replace(/^0x/, ''), 'hex')
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+}
+
+/**
+ * Parses a Web3 Secret Storage (V3) keystore as written by geth, foundry or MetaMask.
+ *
+ * @param json - Keystore file contents
+ * @throws WalletError if the JSON is not a V3 keystore
+ */
+export function parseKeystore(json: string): KeystoreV3 {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new WalletError('Invalid keystore: not a JSON file')
+  }
+
+  // Some tools write "Crypto" instead of "crypto"
+  if (data && typeof data === 'object' && 'Crypto' in data && !('crypto' in data)) {
+    const { Crypto, ...rest } = data as Record<string, unknown>
+    data = { ...rest, crypto: Crypto }
+  }
+
+  const result = KeystoreV3Schema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new WalletError(`Invalid keystore: ${issue.path.join('.')} ${issue.message}`)
+  }
+  return result.data
+}
+
+/**
+ * Decrypts a V3 keystore (scrypt or pbkdf2, aes-128-ctr).
+ *
+ * @param keystore - Parsed keystore
+ * @param password - Keystore password
+ * @returns The private key with 0x prefix
+ * @throws WalletError if the password is wrong or the key does not match the address
+ */
+export async function decryptKeystore(keystore: KeystoreV3, password: string): Promise<string> {
+  const { crypto } = keystore
+  const ciphertext = hexToBuffer(crypto.ciphertext)
+  const derivedKey = await deriveKeystoreKey(password, crypto.kdf, crypto.kdfparams)
+
+  if (computeMac(derivedKey, ciphertext) !== hexToBuffer(crypto.mac).toString('hex')) {
+    throw new WalletError('Failed to decrypt keystore. Incorrect password?')
+  }
+
+  const decipher = createDecipheriv(
+    crypto.cipher,
+    derivedKey.subarray(0, 16),
+    hexToBuffer(crypto.cipherparams.iv)
+  )
+  const privateKey = normalizePrivateKey(
+    Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('hex')
+  )
+  if (!isValidPrivateKey(privateKey)) {
+    throw new WalletError('Invalid keystore: decrypted data is not a private key')
+  }
+
+  const address = privateKeyToAccount(privateKey).address
+  if (
+    keystore.address &&
+    normalizeKeystoreAddress(keystore.address) !== normalizeKeystoreAddress(address)
+  ) {
+    throw new WalletError(`Invalid keystore: key does not match address ${keystore.address}`)
+  }
+
+  return privateKey
+}
+
+/**
+ * Encrypts a private key as a V3 keystore with scrypt and aes-128-ctr.
+ *
+ * @param privateKey - Private key with or without 0x prefix
+ * @param password - Keystore password
+ * @param params - scrypt cost parameters
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  params: KeystoreScryptParams = DEFAULT_KEYSTORE_SCRYPT_PARAMS
+): Promise<KeystoreV3> {
+  const normalizedKey = normalizePrivateKey(privateKey)
+  if (!isValidPrivateKey(normalizedKey)) {
+    throw new WalletError('Invalid private key format')
+  }
+
+  const salt = randomBytes(32)
+  const iv = randomBytes(16)
+  const kdfparams = { dklen: 32, salt: salt.toString('hex'), ...params }
+  const derivedKey = await deriveKeystoreKey(password, 'scrypt', kdfparams)
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(normalizedKey.slice(2), 'hex')),
+    cipher.final(),
+  ])
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(normalizedKey).address.slice(2).toLowerCase(),
+    crypto: {
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      cipher: 'aes-128-ctr',
+      kdf: 'scrypt',
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  }
+}
+
+/**
+ * Default keystore file name, as geth names files in its keystore directory
+ */
+export function getKeystoreFileName(address: string, date: Date = new Date()): string {
+  const timestamp = date.toISOString().replace(/:/g, '-')
+  return `UTC--${timestamp}--${normalizeKeystoreAddress(address)}`
+}
+
+function normalizeKeystoreAddress(address: string): string {
+  return address.toLowerCase().replace(/^0x/, '')
+}
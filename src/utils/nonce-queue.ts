@@ -0,0 +1,110 @@
+import { TransactionStatus, type StoredTransaction } from '../types/transaction.js'
+
+export interface NonceQueueEntry {
+  nonce: number
+  transactions: StoredTransaction[]
+}
+
+export interface NonceQueue {
+  currentNonce: number
+  /**
+   * Next nonce after the last queued one (the on-chain nonce when the queue is empty)
+   */
+  nextNonce: number
+  entries: NonceQueueEntry[]
+  /**
+   * Nonces with more than one queued transaction - only one of them can execute
+   */
+  duplicates: number[]
+  /**
+   * Nonces without a queued transaction - later transactions cannot execute until filled
+   */
+  gaps: number[]
+  /**
+   * Queued transactions whose nonce is already used on-chain
+   */
+  stale: StoredTransaction[]
+}
+
+/**
+ * Whether a transaction is still waiting to be executed
+ */
+export function isQueuedTransaction(tx: StoredTransaction): boolean {
+  return tx.status === TransactionStatus.PENDING || tx.status === TransactionStatus.SIGNED
+}
+
+/**
+ * Orders the queued transactions of a single Safe by nonce and detects conflicts
+ * against the on-chain nonce.
+ */
+export function analyzeNonceQueue(
+  transactions: StoredTransaction[],
+  currentNonce: number
+): NonceQueue {
+  const byNonce = new Map<number, StoredTransaction[]>()
+  const stale: StoredTransaction[] = []
+
+  for (const tx of transactions) {
+    const nonce = tx.metadata.nonce
+    if (!isQueuedTransaction(tx) || nonce === undefined) continue
+
+    if (nonce < currentNonce) {
+      stale.push(tx)
+      continue
+    }
+
+    byNonce.set(nonce, [...(byNonce.get(nonce) || []), tx])
+  }
+
+  const entries = [...byNonce.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([nonce, txs]) => ({
+      nonce,
+      transactions: txs.sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+    }))
+
+  const nextNonce = entries.length > 0 ? entries[entries.length - 1].nonce + 1 : currentNonce
+
+  const gaps: number[] = []
+  for (let nonce = currentNonce; nonce < nextNonce; nonce++) {
+    if (!byNonce.has(nonce)) gaps.push(nonce)
+  }
+
+  return {
+    currentNonce,
+    nextNonce,
+    entries,
+    duplicates: entries.filter((entry) => entry.transactions.length > 1).map((e) => e.nonce),
+    gaps,
+    stale,
+  }
+}
+
+/**
+ * Describes conflicts a new transaction with the given nonce would introduce
+ * @returns Warning messages (empty when the nonce is free and contiguous)
+ */
+export function getNonceWarnings(queue: NonceQueue, nonce: number): string[] {
+  const warnings: string[] = []
+
+  const taken = queue.entries.find((entry) => entry.nonce === nonce)
+  if (taken) {
+    warnings.push(
+      `Nonce ${nonce} is already used by ${taken.transactions.length} queued transaction(s): ${taken.transactions.map((tx) => tx.safeTxHash).join(', ')}`
+    )
+  }
+
+  if (nonce > queue.nextNonce) {
+    warnings.push(
+      `Nonce ${nonce} skips nonce(s) ${queue.nextNonce}-${nonce - 1}; it cannot execute until they are used`
+    )
+  } else if (!taken && queue.gaps.length > 0 && nonce > queue.gaps[0]) {
+    warnings.push(
+      `Nonce ${queue.gaps[0]} has no queued transaction; nonce ${nonce} cannot execute until it is used`
+    )
+  }
+
+  return warnings
+}
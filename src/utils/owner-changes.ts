@@ -0,0 +1,148 @@
+import { encodeFunctionData, zeroAddress, type Address } from 'viem'
+import type { BatchCall } from '../types/transaction.js'
+import { SAFE_ABI } from '../constants/abis.js'
+import { SENTINEL_ADDRESS } from '../constants/modules.js'
+import { getPreviousInSentinelList } from './sentinel-list.js'
+import { SafeCLIError } from './errors.js'
+
+export type OwnerChange =
+  | { type: 'swapOwner'; prevOwner: Address; oldOwner: Address; newOwner: Address }
+  | { type: 'addOwnerWithThreshold'; owner: Address; threshold: number }
+  | { type: 'removeOwner'; prevOwner: Address; owner: Address; threshold: number }
+  | { type: 'changeThreshold'; threshold: number }
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const includesAddress = (list: Address[], address: Address) =>
+  list.some((item) => sameAddress(item, address))
+
+/**
+ * Computes the minimal owner management calls that turn the current owners and threshold
+ * into the target ones: removed owners are swapped for added ones first, the rest is added
+ * or removed, and the target threshold rides on the last call (or a changeThreshold).
+ * prevOwner values follow the Safe linked list as it changes, so the calls can run in one batch.
+ * @param currentOwners Owners in linked-list order, as returned by getOwners
+ * @returns The calls in execution order, empty when nothing changes
+ */
+export function planOwnerChanges(
+  currentOwners: Address[],
+  currentThreshold: number,
+  targetOwners: Address[],
+  targetThreshold: number
+): OwnerChange[] {
+  if (targetOwners.length === 0) {
+    throw new SafeCLIError('At least one owner is required')
+  }
+
+  for (const [index, owner] of targetOwners.entries()) {
+    if (sameAddress(owner, SENTINEL_ADDRESS) || sameAddress(owner, zeroAddress)) {
+      throw new SafeCLIError(`Invalid owner address: ${owner}`)
+    }
+    if (targetOwners.findIndex((other) => sameAddress(other, owner)) !== index) {
+      throw new SafeCLIError(`Duplicate owner: ${owner}`)
+    }
+  }
+
+  if (!Number.isInteger(targetThreshold) || targetThreshold < 1) {
+    throw new SafeCLIError('Threshold must be at least 1')
+  }
+  if (targetThreshold > targetOwners.length) {
+    throw new SafeCLIError(`Threshold cannot exceed ${targetOwners.length} (number of owners)`)
+  }
+
+  const removed = currentOwners.filter((owner) => !includesAddress(targetOwners, owner))
+  const added = targetOwners.filter((owner) => !includesAddress(currentOwners, owner))
+
+  // Simulated on-chain owner list, used to resolve prevOwner for each call
+  const list = [...currentOwners]
+  const changes: OwnerChange[] = []
+  const swapCount = Math.min(removed.length, added.length)
+
+  for (let i = 0; i < swapCount; i++) {
+    const prevOwner = getPreviousInSentinelList(list, removed[i])
+    changes.push({ type: 'swapOwner', prevOwner, oldOwner: removed[i], newOwner: added[i] })
+    list[list.findIndex((owner) => sameAddress(owner, removed[i]))] = added[i]
+  }
+
+  for (const owner of added.slice(swapCount)) {
+    changes.push({ type: 'addOwnerWithThreshold', owner, threshold: currentThreshold })
+    // addOwnerWithThreshold inserts right after the sentinel
+    list.unshift(owner)
+  }
+
+  let threshold = currentThreshold
+  for (const owner of removed.slice(swapCount)) {
+    const prevOwner = getPreviousInSentinelList(list, owner)
+    list.splice(
+      list.findIndex((item) => sameAddress(item, owner)),
+      1
+    )
+    threshold = Math.min(threshold, list.length)
+    changes.push({ type: 'removeOwner', prevOwner, owner, threshold })
+  }
+
+  const last = changes[changes.length - 1]
+  if (last && last.type !== 'swapOwner') {
+    last.threshold = targetThreshold
+  } else if (targetThreshold !== currentThreshold) {
+    changes.push({ type: 'changeThreshold', threshold: targetThreshold })
+  }
+
+  return changes
+}
+
+/**
+ * Encodes owner changes as calls to the Safe itself
+ */
+export function toOwnerChangeCalls(safeAddress: Address, changes: OwnerChange[]): BatchCall[] {
+  return changes.map((change) => {
+    let data: `0x${string}`
+    switch (change.type) {
+      case 'swapOwner':
+        data = encodeFunctionData({
+          abi: SAFE_ABI,
+          functionName: 'swapOwner',
+          args: [change.prevOwner, change.oldOwner, change.newOwner],
+        })
+        break
+      case 'addOwnerWithThreshold':
+        data = encodeFunctionData({
+          abi: SAFE_ABI,
+          functionName: 'addOwnerWithThreshold',
+          args: [change.owner, BigInt(change.threshold)],
+        })
+        break
+      case 'removeOwner':
+        data = encodeFunctionData({
+          abi: SAFE_ABI,
+          functionName: 'removeOwner',
+          args: [change.prevOwner, change.owner, BigInt(change.threshold)],
+        })
+        break
+      case 'changeThreshold':
+        data = encodeFunctionData({
+          abi: SAFE_ABI,
+          functionName: 'changeThreshold',
+          args: [BigInt(change.threshold)],
+        })
+        break
+    }
+    return { to: safeAddress, value: '0', data }
+  })
+}
+
+/**
+ * One-line description of an owner change for summaries
+ */
+export function describeOwnerChange(change: OwnerChange): string {
+  switch (change.type) {
+    case 'swapOwner':
+      return `Swap ${change.oldOwner} → ${change.newOwner}`
+    case 'addOwnerWithThreshold':
+      return `Add ${change.owner} (threshold ${change.threshold})`
+    case 'removeOwner':
+      return `Remove ${change.owner} (threshold ${change.threshold})`
+    case 'changeThreshold':
+      return `Change threshold to ${change.threshold}`
+  }
+}
@@ -116,6 +116,10 @@ export function validatePasswordSecurity(input: PasswordInput): void {
 export const ENV_VARS = {
   /** Wallet password */
   WALLET_PASSWORD: 'SAFE_WALLET_PASSWORD',
+  /** New wallet password for wallet change-password */
+  NEW_WALLET_PASSWORD: 'SAFE_NEW_WALLET_PASSWORD',
+  /** Password of keystore files for wallet import/export */
+  KEYSTORE_PASSWORD: 'SAFE_KEYSTORE_PASSWORD',
   /** Active wallet address or name */
   ACTIVE_WALLET: 'SAFE_ACTIVE_WALLET',
   /** Config directory override */
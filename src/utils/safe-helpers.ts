@@ -7,6 +7,8 @@ import type { Wallet } from '../types/wallet.js'
 import type { SafeAccount } from '../types/safe.js'
 import type { StoredTransaction, TransactionStatus } from '../types/transaction.js'
 import type { TransactionStore } from '../storage/transaction-store.js'
+import type { MessageStore } from '../storage/message-store.js'
+import type { SafeMessageContent, StoredMessage } from '../types/message.js'
 import { TransactionService } from '../services/transaction-service.js'
 import { formatSafeAddress, parseSafeAddress } from './eip3770.js'
 
@@ -162,3 +164,74 @@ export async function selectTransaction(
 
   return selected as string
 }
+
+/**
+ * Checks whether a transaction is an on-chain rejection (zero-value, empty self-call).
+ */
+export function isRejectionTransaction(tx: StoredTransaction): boolean {
+  return (
+    tx.metadata.to.toLowerCase() === tx.safeAddress.toLowerCase() &&
+    (tx.metadata.value || '0') === '0' &&
+    (tx.metadata.data || '0x') === '0x' &&
+    (tx.metadata.operation || 0) === 0
+  )
+}
+
+/**
+ * Formats a Safe message as a single-line preview.
+ * Plain text is truncated, typed data shows its primary type and domain name.
+ */
+export function formatMessagePreview(message: SafeMessageContent, maxLength: number = 40): string {
+  if (typeof message === 'string') {
+    const singleLine = message.replace(/\s+/g, ' ').trim()
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}...` : singleLine
+  }
+
+  const domainName = typeof message.domain?.name === 'string' ? ` (${message.domain.name})` : ''
+  return `EIP-712 ${message.primaryType}${domainName}`
+}
+
+/**
+ * Prompts user to select a stored Safe message.
+ * @param messageStore - Message storage instance
+ * @param safeStorage - Safe storage instance
+ * @param configStore - Config storage instance
+ * @param message - Custom message for the selection prompt
+ * @returns Selected message hash, or null if cancelled/no messages
+ */
+export async function selectMessage(
+  messageStore: MessageStore,
+  safeStorage: SafeAccountStorage,
+  configStore: ConfigStore,
+  message: string = 'Select message'
+): Promise<string | null> {
+  const messages = messageStore.getAllMessages()
+
+  if (messages.length === 0) {
+    p.log.error('No messages found')
+    p.outro('Nothing to select')
+    return null
+  }
+
+  const chains = configStore.getAllChains()
+
+  const selected = await p.select({
+    message,
+    options: messages.map((msg: StoredMessage) => {
+      const safe = safeStorage.getSafe(msg.chainId, msg.safeAddress)
+      const eip3770 = formatSafeAddress(msg.safeAddress, msg.chainId, chains)
+      return {
+        value: msg.messageHash,
+        label: `${msg.messageHash.slice(0, 10)}... ${formatMessagePreview(msg.message)}`,
+        hint: `Safe: ${safe?.name || eip3770} | Signatures: ${msg.signatures.length}`,
+      }
+    }),
+  })
+
+  if (p.isCancel(selected)) {
+    p.cancel('Operation cancelled')
+    return null
+  }
+
+  return selected as string
+}
@@ -0,0 +1,72 @@
+import {
+  hashMessage,
+  hashStruct,
+  hashTypedData,
+  type Address,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem'
+import type { SafeMessageContent } from '../types/message.js'
+import { getSafeDomain, getSafeDomainSeparator } from './safe-tx-hash.js'
+
+export const SAFE_MESSAGE_TYPES = {
+  SafeMessage: [{ name: 'message', type: 'bytes' }],
+} as const
+
+export interface SafeMessageHashes {
+  domainSeparator: Hex
+  structHash: Hex
+  messageHash: Hex
+}
+
+/**
+ * Hash the raw message the way a dApp would verify it:
+ * EIP-191 for plain text, EIP-712 for typed data
+ */
+export function hashSafeMessageContent(message: SafeMessageContent): Hex {
+  if (typeof message === 'string') {
+    return hashMessage(message)
+  }
+  return hashTypedData(message as unknown as TypedDataDefinition)
+}
+
+/**
+ * Build the EIP-712 typed data for a SafeMessage (signed by owners for EIP-1271)
+ */
+export function getSafeMessageTypedData(
+  chainId: string,
+  safeAddress: Address,
+  message: SafeMessageContent,
+  safeVersion: string
+) {
+  return {
+    domain: getSafeDomain(chainId, safeAddress, safeVersion),
+    types: SAFE_MESSAGE_TYPES,
+    primaryType: 'SafeMessage' as const,
+    message: {
+      message: hashSafeMessageContent(message),
+    },
+  }
+}
+
+/**
+ * Compute the domain separator, struct hash and final SafeMessage hash
+ */
+export function getSafeMessageHashes(
+  chainId: string,
+  safeAddress: Address,
+  message: SafeMessageContent,
+  safeVersion: string
+): SafeMessageHashes {
+  const typedData = getSafeMessageTypedData(chainId, safeAddress, message, safeVersion)
+
+  return {
+    domainSeparator: getSafeDomainSeparator(chainId, safeAddress, safeVersion),
+    structHash: hashStruct({
+      data: typedData.message,
+      primaryType: 'SafeMessage',
+      types: typedData.types,
+    }),
+    messageHash: hashTypedData(typedData),
+  }
+}
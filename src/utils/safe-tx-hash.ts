@@ -0,0 +1,301 @@
+import {
+  concat,
+  concatHex,
+  getAddress,
+  hashDomain,
+  hashMessage,
+  hashStruct,
+  hashTypedData,
+  hexToBigInt,
+  hexToNumber,
+  isAddressEqual,
+  recoverAddress,
+  size,
+  sliceHex,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem'
+import type { TransactionMetadata } from '../types/transaction.js'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const
+
+export interface SafeTxHashes {
+  domainSeparator: Hex
+  structHash: Hex
+  safeTxHash: Hex
+}
+
+/**
+ * Safes before v1.3.0 do not include the chain ID in their EIP-712 domain
+ */
+function domainIncludesChainId(safeVersion: string): boolean {
+  const [major, minor] = safeVersion.split('.').map((part) => parseInt(part, 10))
+  if (isNaN(major) || isNaN(minor)) {
+    throw new Error(`Invalid Safe version: ${safeVersion}`)
+  }
+  if (major < 1) {
+    throw new Error(`Safe version ${safeVersion} is not supported`)
+  }
+  return major > 1 || minor >= 3
+}
+
+/**
+ * Build the Safe's EIP-712 domain (shared by SafeTx and SafeMessage)
+ */
+export function getSafeDomain(
+  chainId: string,
+  safeAddress: Address,
+  safeVersion: string
+): { chainId?: bigint; verifyingContract: Address } {
+  return domainIncludesChainId(safeVersion)
+    ? { chainId: BigInt(chainId), verifyingContract: safeAddress }
+    : { verifyingContract: safeAddress }
+}
+
+/**
+ * Hash the Safe's EIP-712 domain
+ */
+export function getSafeDomainSeparator(
+  chainId: string,
+  safeAddress: Address,
+  safeVersion: string
+): Hex {
+  const domain = getSafeDomain(chainId, safeAddress, safeVersion)
+
+  return hashDomain({
+    domain,
+    types: { EIP712Domain: getSafeDomainTypes(domain) },
+  })
+}
+
+function getSafeDomainTypes(domain: { chainId?: bigint }) {
+  return domain.chainId !== undefined
+    ? [
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ]
+    : [{ name: 'verifyingContract', type: 'address' }]
+}
+
+/**
+ * Build the EIP-712 typed data for a Safe transaction.
+ * Computed locally, so it works without RPC access.
+ */
+export function getSafeTxTypedData(
+  chainId: string,
+  safeAddress: Address,
+  metadata: TransactionMetadata,
+  safeVersion: string
+) {
+  const domain = getSafeDomain(chainId, safeAddress, safeVersion)
+
+  return {
+    domain,
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx' as const,
+    message: {
+      to: metadata.to,
+      value: BigInt(metadata.value || '0'),
+      data: metadata.data || '0x',
+      operation: metadata.operation || 0,
+      safeTxGas: BigInt(metadata.safeTxGas || '0'),
+      baseGas: BigInt(metadata.baseGas || '0'),
+      gasPrice: BigInt(metadata.gasPrice || '0'),
+      gasToken: metadata.gasToken || ZERO_ADDRESS,
+      refundReceiver: metadata.refundReceiver || ZERO_ADDRESS,
+      nonce: BigInt(metadata.nonce ?? 0),
+    },
+  }
+}
+
+/**
+ * eth_signTypedData_v4 payload of a Safe transaction, for signing with an external
+ * wallet. Integers are decimal strings so it can be printed as JSON.
+ */
+export function getSafeTxTypedDataJson(
+  chainId: string,
+  safeAddress: Address,
+  metadata: TransactionMetadata,
+  safeVersion: string
+) {
+  const { domain, types, primaryType, message } = getSafeTxTypedData(
+    chainId,
+    safeAddress,
+    metadata,
+    safeVersion
+  )
+
+  return {
+    types: { EIP712Domain: getSafeDomainTypes(domain), ...types },
+    domain:
+      domain.chainId !== undefined
+        ? { chainId: Number(domain.chainId), verifyingContract: domain.verifyingContract }
+        : { verifyingContract: domain.verifyingContract },
+    primaryType,
+    message: Object.fromEntries(
+      Object.entries(message).map(([key, value]) => [
+        key,
+        typeof value === 'bigint' ? value.toString() : value,
+      ])
+    ),
+  }
+}
+
+/**
+ * Compute the domain separator, struct hash and final SafeTx hash
+ */
+export function getSafeTxHashes(
+  chainId: string,
+  safeAddress: Address,
+  metadata: TransactionMetadata,
+  safeVersion: string
+): SafeTxHashes {
+  const typedData = getSafeTxTypedData(chainId, safeAddress, metadata, safeVersion)
+
+  return {
+    domainSeparator: getSafeDomainSeparator(chainId, safeAddress, safeVersion),
+    structHash: hashStruct({
+      data: typedData.message,
+      primaryType: 'SafeTx',
+      types: typedData.types,
+    }),
+    safeTxHash: hashTypedData(typedData),
+  }
+}
+
+/**
+ * Recover the owner that produced an ECDSA signature over a SafeTx hash.
+ * Handles EIP-712 signatures (v = 27/28) and eth_sign signatures (v = 31/32).
+ */
+export async function recoverSafeTxSigner(safeTxHash: Hex, signature: Hex): Promise<Address> {
+  if (size(signature) !== 65) {
+    throw new Error('Invalid signature length')
+  }
+
+  const v = hexToNumber(sliceHex(signature, 64))
+  if (v > 30) {
+    // eth_sign: the Safe checks the prefixed hash with v - 4
+    return recoverAddress({
+      hash: hashMessage({ raw: safeTxHash }),
+      signature: concat([sliceHex(signature, 0, 64), toHex(v - 4, { size: 1 })]),
+    })
+  }
+
+  return recoverAddress({ hash: safeTxHash, signature })
+}
+
+/**
+ * Bring a signature produced by an external wallet into the form the Safe expects.
+ * v = 0/1 becomes 27/28, and a signature of the eth_sign-prefixed hash (personal_sign)
+ * gets v + 4. Throws unless the signature recovers to the owner.
+ */
+export async function normalizeSafeTxSignature(
+  safeTxHash: Hex,
+  signature: Hex,
+  owner: Address
+): Promise<Hex> {
+  if (size(signature) !== 65) {
+    throw new Error('Invalid signature length: expected 65 bytes')
+  }
+
+  let v = hexToNumber(sliceHex(signature, 64))
+  if (v < 27) v += 27
+  const candidates = v > 30 ? [v] : [v, v + 4]
+
+  for (const candidate of candidates) {
+    const normalized = concat([sliceHex(signature, 0, 64), toHex(candidate, { size: 1 })])
+    try {
+      if (isAddressEqual(await recoverSafeTxSigner(safeTxHash, normalized), owner)) {
+        return normalized
+      }
+    } catch {
+      // Not a valid signature for this v
+    }
+  }
+
+  throw new Error(`Signature does not recover to ${owner}`)
+}
+
+/**
+ * Recover the owners behind a packed Safe signature bytes string, in order.
+ * Contract signatures (v = 0) and approved hashes (v = 1) carry the owner in r.
+ */
+export async function recoverSafeTxSigners(safeTxHash: Hex, signatures: Hex): Promise<Address[]> {
+  const signers: Address[] = []
+
+  // Contract signatures point into dynamic data appended after the static parts
+  let end = size(signatures)
+  for (let offset = 0; offset + 65 <= end; offset += 65) {
+    const part = sliceHex(signatures, offset, offset + 65)
+    const v = hexToNumber(sliceHex(part, 64))
+    if (v === 0 || v === 1) {
+      signers.push(getAddress(sliceHex(part, 12, 32)))
+      if (v === 0) {
+        end = Math.min(end, Number(hexToBigInt(sliceHex(part, 32, 64))))
+      }
+    } else {
+      signers.push(await recoverSafeTxSigner(safeTxHash, part))
+    }
+  }
+
+  return signers
+}
+
+/**
+ * Find the nonce that produces a known SafeTx hash. Executed transactions only
+ * reveal their nonce through the hash, so nonces below maxNonce are tried,
+ * starting with the expected one.
+ */
+export function findSafeTxNonce(
+  chainId: string,
+  safeAddress: Address,
+  metadata: TransactionMetadata,
+  safeVersion: string,
+  safeTxHash: Hex,
+  maxNonce: number,
+  expectedNonce?: number
+): number | undefined {
+  const candidates = expectedNonce !== undefined ? [expectedNonce] : []
+  for (let nonce = maxNonce - 1; nonce >= 0; nonce--) {
+    if (nonce !== expectedNonce) candidates.push(nonce)
+  }
+
+  return candidates.find(
+    (nonce) =>
+      hashTypedData(
+        getSafeTxTypedData(chainId, safeAddress, { ...metadata, nonce }, safeVersion)
+      ) === safeTxHash.toLowerCase()
+  )
+}
+
+/**
+ * Pack owner signatures into the bytes a Safe expects in execTransaction and
+ * isValidSignature. The Safe requires them sorted by owner address, ascending.
+ */
+export function packSafeSignatures(signatures: Array<{ signer: Address; signature: string }>): Hex {
+  const sorted = [...signatures].sort((a, b) =>
+    a.signer.toLowerCase() < b.signer.toLowerCase() ? -1 : 1
+  )
+  for (const { signer, signature } of sorted) {
+    if (size(signature as Hex) !== 65) {
+      throw new Error(`Invalid signature length for ${signer}`)
+    }
+  }
+  return concatHex(sorted.map(({ signature }) => signature as Hex))
+}
@@ -0,0 +1,96 @@
+import type { Address } from 'viem'
+import { SAFE_UPGRADE_TARGETS, getKnownSingleton } from '../constants/singletons.js'
+import { SafeCLIError } from './errors.js'
+
+// Safes from 1.3.0 on upgrade through the SafeMigration contract
+const MIGRATION_CONTRACT_MIN_VERSION = '1.3.0'
+
+// Older Safes still expose changeMasterCopy (removed in 1.3.0)
+const CHANGE_MASTER_COPY_VERSIONS = ['1.1.1', '1.2.0']
+
+export type SafeUpgradeMethod = 'migration' | 'changeMasterCopy'
+
+export interface SafeUpgradePlan {
+  fromVersion: string
+  toVersion: string
+  method: SafeUpgradeMethod
+  // Whether the Safe keeps an L2 (event emitting) singleton
+  l2: boolean
+  currentSingleton: Address
+  newSingleton: Address
+  currentFallbackHandler: Address | null
+  newFallbackHandler: Address
+  // SafeMigration contract to delegatecall, only for method 'migration'
+  migrationContract?: Address
+}
+
+export interface SafeUpgradeState {
+  masterCopy: Address | null
+  fallbackHandler: Address | null
+}
+
+/**
+ * Compare two x.y.z versions
+ * @returns negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareSafeVersions(a: string, b: string): number {
+  const pa = a.split('.').map((part) => parseInt(part, 10) || 0)
+  const pb = b.split('.').map((part) => parseInt(part, 10) || 0)
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+
+  return 0
+}
+
+/**
+ * Decide how a Safe is upgraded to a target version: the official SafeMigration
+ * delegatecall for 1.3.0+, or changeMasterCopy + setFallbackHandler for older Safes.
+ * Only known canonical singletons are upgraded, so the storage layout is guaranteed.
+ */
+export function planSafeUpgrade(state: SafeUpgradeState, toVersion: string): SafeUpgradePlan {
+  const target = SAFE_UPGRADE_TARGETS[toVersion]
+  if (!target) {
+    throw new SafeCLIError(
+      `Unsupported target version ${toVersion}. Supported: ${Object.keys(SAFE_UPGRADE_TARGETS).join(', ')}`
+    )
+  }
+
+  if (!state.masterCopy) {
+    throw new SafeCLIError('Could not determine the singleton of this Safe')
+  }
+
+  const singleton = getKnownSingleton(state.masterCopy)
+  if (!singleton) {
+    throw new SafeCLIError(
+      `Singleton ${state.masterCopy} is not a known Safe deployment, refusing to upgrade`
+    )
+  }
+
+  if (compareSafeVersions(singleton.version, toVersion) >= 0) {
+    throw new SafeCLIError(`Safe is already on version ${singleton.version}`)
+  }
+
+  let method: SafeUpgradeMethod
+  if (compareSafeVersions(singleton.version, MIGRATION_CONTRACT_MIN_VERSION) >= 0) {
+    method = 'migration'
+  } else if (CHANGE_MASTER_COPY_VERSIONS.includes(singleton.version)) {
+    method = 'changeMasterCopy'
+  } else {
+    throw new SafeCLIError(`Upgrading from version ${singleton.version} is not supported`)
+  }
+
+  return {
+    fromVersion: singleton.version,
+    toVersion,
+    method,
+    l2: singleton.l2,
+    currentSingleton: state.masterCopy,
+    newSingleton: singleton.l2 ? target.singletonL2 : target.singleton,
+    currentFallbackHandler: state.fallbackHandler,
+    newFallbackHandler: target.fallbackHandler,
+    migrationContract: method === 'migration' ? target.migration : undefined,
+  }
+}
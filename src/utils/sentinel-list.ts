@@ -0,0 +1,19 @@
+import type { Address } from 'viem'
+import { SENTINEL_ADDRESS } from '../constants/modules.js'
+import { SafeCLIError } from './errors.js'
+
+/**
+ * Finds the predecessor of an entry in a Safe sentinel-linked list (owners or modules),
+ * as required by removeOwner, swapOwner and disableModule.
+ * @param list Entries in linked-list order, as returned by getOwners/getModulesPaginated
+ * @returns The previous entry, or the sentinel for the first one
+ */
+export function getPreviousInSentinelList(list: Address[], entry: Address): Address {
+  const index = list.findIndex((item) => item.toLowerCase() === entry.toLowerCase())
+
+  if (index === -1) {
+    throw new SafeCLIError(`${entry} is not in the list`)
+  }
+
+  return index === 0 ? SENTINEL_ADDRESS : list[index - 1]
+}
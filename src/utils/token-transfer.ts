@@ -0,0 +1,67 @@
+import { encodeFunctionData, parseUnits, zeroAddress, type Address } from 'viem'
+import { ERC20_ABI, ERC721_ABI } from '../constants/abis.js'
+import { SafeCLIError } from './errors.js'
+
+export interface TransferCall {
+  to: Address
+  value: string
+  data: `0x${string}`
+}
+
+/**
+ * Parse a decimal token amount ("12.5") into base units
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const trimmed = value.trim()
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new SafeCLIError(`Invalid amount "${value}". Use a positive decimal number, e.g. 12.5`)
+  }
+
+  const fraction = trimmed.split('.')[1]
+  if (fraction && fraction.length > decimals) {
+    throw new SafeCLIError(`Amount has more than ${decimals} decimal places`)
+  }
+
+  const amount = parseUnits(trimmed, decimals)
+  if (amount === 0n) {
+    throw new SafeCLIError('Amount must be greater than zero')
+  }
+
+  return amount
+}
+
+/**
+ * Safe transaction for a native (zero address) or ERC-20 transfer
+ */
+export function encodeTokenTransfer(token: Address, to: Address, amount: bigint): TransferCall {
+  if (token.toLowerCase() === zeroAddress) {
+    return { to, value: amount.toString(), data: '0x' }
+  }
+
+  return {
+    to: token,
+    value: '0',
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [to, amount] }),
+  }
+}
+
+/**
+ * Safe transaction for an ERC-721 transfer using safeTransferFrom, so contract
+ * recipients must accept the token
+ */
+export function encodeNftTransfer(
+  collection: Address,
+  from: Address,
+  to: Address,
+  tokenId: bigint
+): TransferCall {
+  return {
+    to: collection,
+    value: '0',
+    data: encodeFunctionData({
+      abi: ERC721_ABI,
+      functionName: 'safeTransferFrom',
+      args: [from, to, tokenId],
+    }),
+  }
+}
@@ -0,0 +1,179 @@
+import { getAddress, type Address } from 'viem'
+import type { DecodedCall } from '../services/calldata-decoder.js'
+import type { SafeExecution } from '../services/history-service.js'
+import type { StoredTransaction } from '../types/transaction.js'
+
+export type HistorySource = 'local' | 'service' | 'chain'
+
+export interface HistoryEntry {
+  safeTxHash: string
+  nonce?: number
+  status: string // Local transaction status, or "executed"/"failed" once on-chain
+  to?: Address
+  value?: string
+  data?: string
+  operation?: 0 | 1
+  call?: string // Decoded call, e.g. "transfer(to=0x..., amount=1)"
+  signers: Address[]
+  executor?: Address
+  gasUsed?: string
+  blockNumber?: string
+  timestamp?: string // ISO 8601 format
+  txHash?: string
+  sources: HistorySource[]
+}
+
+export const HISTORY_CSV_COLUMNS = [
+  'nonce',
+  'safeTxHash',
+  'status',
+  'to',
+  'value',
+  'operation',
+  'call',
+  'data',
+  'signers',
+  'executor',
+  'gasUsed',
+  'blockNumber',
+  'timestamp',
+  'txHash',
+] as const
+
+export function fromStoredTransaction(tx: StoredTransaction): HistoryEntry {
+  return {
+    safeTxHash: tx.safeTxHash,
+    nonce: tx.metadata.nonce,
+    status: tx.status,
+    to: tx.metadata.to,
+    value: tx.metadata.value,
+    data: tx.metadata.data,
+    operation: tx.metadata.operation ?? 0,
+    signers: tx.signatures.map((sig) => sig.signer),
+    timestamp: tx.executedAt,
+    txHash: tx.txHash,
+    sources: ['local'],
+  }
+}
+
+/**
+ * Convert a Transaction Service record. Only executed multisig transactions are
+ * kept; module and incoming transactions have no SafeTx hash.
+ */
+export function fromServiceTransaction(record: Record<string, unknown>): HistoryEntry | null {
+  if (record.txType !== 'MULTISIG_TRANSACTION' || !record.isExecuted || !record.safeTxHash) {
+    return null
+  }
+
+  const confirmations = (record.confirmations as Array<{ owner: string }> | undefined) ?? []
+  const executionDate = record.executionDate as string | undefined
+
+  return {
+    safeTxHash: record.safeTxHash as string,
+    nonce: record.nonce !== undefined ? Number(record.nonce) : undefined,
+    status: record.isSuccessful === false ? 'failed' : 'executed',
+    to: record.to ? getAddress(record.to as string) : undefined,
+    value: record.value !== undefined ? String(record.value) : undefined,
+    data: (record.data as string | null) ?? '0x',
+    operation: record.operation === 1 ? 1 : 0,
+    signers: confirmations.map((confirmation) => getAddress(confirmation.owner)),
+    executor: record.executor ? getAddress(record.executor as string) : undefined,
+    gasUsed: record.gasUsed != null ? String(record.gasUsed) : undefined,
+    blockNumber: record.blockNumber != null ? String(record.blockNumber) : undefined,
+    timestamp: executionDate ? new Date(executionDate).toISOString() : undefined,
+    txHash: (record.transactionHash as string | null) ?? undefined,
+    sources: ['service'],
+  }
+}
+
+export function fromSafeExecution(execution: SafeExecution): HistoryEntry {
+  return {
+    safeTxHash: execution.safeTxHash,
+    nonce: execution.nonce,
+    status: execution.success ? 'executed' : 'failed',
+    to: execution.metadata?.to,
+    value: execution.metadata?.value,
+    data: execution.metadata?.data,
+    operation: execution.metadata?.operation,
+    signers: execution.signers,
+    executor: execution.executor,
+    gasUsed: execution.gasUsed.toString(),
+    blockNumber: execution.blockNumber.toString(),
+    timestamp: new Date(execution.timestamp * 1000).toISOString(),
+    txHash: execution.txHash,
+    sources: ['chain'],
+  }
+}
+
+/**
+ * Merge history entries by SafeTx hash. Later entries win field by field, so pass
+ * sources from least to most authoritative (local, then service or chain).
+ * Signers are combined. Sorted by nonce, entries without one last.
+ */
+export function mergeHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  const merged = new Map<string, HistoryEntry>()
+
+  for (const entry of entries) {
+    const key = entry.safeTxHash.toLowerCase()
+    const existing = merged.get(key)
+    if (!existing) {
+      merged.set(key, { ...entry, signers: [...entry.signers], sources: [...entry.sources] })
+      continue
+    }
+
+    const defined = Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined)
+    ) as Partial<HistoryEntry>
+    const signers = [...existing.signers]
+    for (const signer of entry.signers) {
+      if (!signers.some((s) => s.toLowerCase() === signer.toLowerCase())) signers.push(signer)
+    }
+
+    merged.set(key, {
+      ...existing,
+      ...defined,
+      signers,
+      sources: [...new Set([...existing.sources, ...entry.sources])],
+    })
+  }
+
+  return [...merged.values()].sort((a, b) => {
+    if (a.nonce === undefined || b.nonce === undefined) {
+      return (a.nonce === undefined ? 1 : 0) - (b.nonce === undefined ? 1 : 0)
+    }
+    return a.nonce - b.nonce
+  })
+}
+
+/**
+ * One-line description of a decoded call, including MultiSend sub-calls
+ */
+export function formatDecodedCall(decoded: DecodedCall): string {
+  const args = decoded.args.map((arg) => `${arg.name}=${arg.display ?? arg.value}`).join(', ')
+  const call = `${decoded.functionName}(${args})`
+
+  if (!decoded.subCalls) return call
+  const subCalls = decoded.subCalls.map((sub) =>
+    sub.decoded ? formatDecodedCall(sub.decoded) : `call ${sub.to}`
+  )
+  return `${call} [${subCalls.join('; ')}]`
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Render history entries as CSV with a header row. Signers are space separated.
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((entry) =>
+    HISTORY_CSV_COLUMNS.map((column) => {
+      const value = entry[column]
+      if (value === undefined) return ''
+      return escapeCsv(Array.isArray(value) ? value.join(' ') : String(value))
+    }).join(',')
+  )
+
+  return [HISTORY_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
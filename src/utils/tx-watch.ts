@@ -0,0 +1,126 @@
+import { getAddress, type Address } from 'viem'
+import type { StoredTransaction } from '../types/transaction.js'
+import { isQueuedTransaction } from './nonce-queue.js'
+
+export interface WatchEntry {
+  safeTxHash: string
+  safeAddress: Address
+  chainId: string
+  nonce: number
+  to: Address
+  value: string
+  /**
+   * Owners that signed, from local records and the Transaction Service
+   */
+  confirmations: Address[]
+  threshold: number
+  /**
+   * The active wallet is an owner and has not signed yet
+   */
+  needsSignature: boolean
+  /**
+   * Next nonce on-chain and enough confirmations to execute
+   */
+  executable: boolean
+}
+
+export interface WatchSafeState {
+  safeAddress: Address
+  chainId: string
+  currentNonce: number
+  threshold: number
+  owners: Address[]
+  local: StoredTransaction[]
+  service: Array<Record<string, unknown>>
+  wallet?: Address
+}
+
+export interface WatchChanges {
+  added: WatchEntry[]
+  executable: WatchEntry[]
+}
+
+/**
+ * Merge local and Transaction Service transactions of one Safe that are still
+ * waiting for execution, ordered by nonce. Only confirmations of current owners count.
+ */
+export function collectWatchEntries(state: WatchSafeState): WatchEntry[] {
+  const owners = new Set(state.owners.map((owner) => owner.toLowerCase()))
+  const byHash = new Map<
+    string,
+    { safeTxHash: string; nonce: number; to: Address; value: string; signers: Set<string> }
+  >()
+
+  const add = (
+    safeTxHash: string,
+    nonce: number,
+    to: Address,
+    value: string,
+    signers: string[]
+  ) => {
+    if (nonce < state.currentNonce) return
+
+    const key = safeTxHash.toLowerCase()
+    const existing = byHash.get(key) ?? { safeTxHash, nonce, to, value, signers: new Set() }
+    for (const signer of signers) {
+      existing.signers.add(getAddress(signer))
+    }
+    byHash.set(key, existing)
+  }
+
+  for (const tx of state.local) {
+    if (!isQueuedTransaction(tx) || tx.metadata.nonce === undefined) continue
+    add(
+      tx.safeTxHash,
+      tx.metadata.nonce,
+      tx.metadata.to,
+      tx.metadata.value,
+      tx.signatures.map((sig) => sig.signer)
+    )
+  }
+
+  for (const record of state.service) {
+    if (!record.safeTxHash || record.nonce === undefined || record.isExecuted) continue
+    const confirmations = (record.confirmations as Array<{ owner: string }> | undefined) ?? []
+    add(
+      record.safeTxHash as string,
+      Number(record.nonce),
+      getAddress(record.to as string),
+      String(record.value ?? '0'),
+      confirmations.map((confirmation) => confirmation.owner)
+    )
+  }
+
+  const wallet = state.wallet?.toLowerCase()
+  return [...byHash.values()]
+    .map(({ signers, ...tx }) => {
+      const confirmations = [...signers].filter((signer) => owners.has(signer.toLowerCase()))
+      return {
+        ...tx,
+        safeAddress: state.safeAddress,
+        chainId: state.chainId,
+        confirmations: confirmations as Address[],
+        threshold: state.threshold,
+        needsSignature:
+          !!wallet &&
+          owners.has(wallet) &&
+          !confirmations.some((signer) => signer.toLowerCase() === wallet),
+        executable: tx.nonce === state.currentNonce && confirmations.length >= state.threshold,
+      }
+    })
+    .sort((a, b) => a.nonce - b.nonce)
+}
+
+/**
+ * Transactions that appeared or became executable since the previous poll
+ */
+export function diffWatchEntries(previous: WatchEntry[], current: WatchEntry[]): WatchChanges {
+  const before = new Map(previous.map((entry) => [entry.safeTxHash.toLowerCase(), entry]))
+
+  return {
+    added: current.filter((entry) => !before.has(entry.safeTxHash.toLowerCase())),
+    executable: current.filter(
+      (entry) => entry.executable && !before.get(entry.safeTxHash.toLowerCase())?.executable
+    ),
+  }
+}